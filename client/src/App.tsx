@@ -10,18 +10,31 @@ import OrderDetail from "@/pages/order-detail";
 import SendUpdate from "@/pages/send-update";
 import Notifications from "@/pages/notifications";
 import Media from "@/pages/media";
+import EmailOutbox from "@/pages/email-outbox";
+import EmailTemplates from "@/pages/email-templates";
+import MediaIntegrity from "@/pages/media-integrity";
+import TnaTemplates from "@/pages/tna-templates";
+import Login from "@/pages/login";
+import AcceptInvite from "@/pages/accept-invite";
 import NotFound from "@/pages/not-found";
+import { ProtectedRoute } from "@/lib/protected-route";
 
 function Router() {
   return (
     <Switch>
-      <Route path="/" component={Dashboard} />
-      <Route path="/orders" component={Dashboard} />
-      <Route path="/new-order" component={NewOrder} />
-      <Route path="/order/:id" component={OrderDetail} />
-      <Route path="/send-update/:id" component={SendUpdate} />
-      <Route path="/notifications" component={Notifications} />
-      <Route path="/media" component={Media} />
+      <Route path="/login" component={Login} />
+      <Route path="/invite/:token" component={AcceptInvite} />
+      <ProtectedRoute path="/" component={Dashboard} />
+      <ProtectedRoute path="/orders" component={Dashboard} />
+      <ProtectedRoute path="/new-order" component={NewOrder} />
+      <ProtectedRoute path="/order/:id" component={OrderDetail} />
+      <ProtectedRoute path="/send-update/:id" component={SendUpdate} />
+      <ProtectedRoute path="/notifications" component={Notifications} />
+      <ProtectedRoute path="/media" component={Media} />
+      <ProtectedRoute path="/admin/email-outbox" component={EmailOutbox} />
+      <ProtectedRoute path="/admin/email-templates" component={EmailTemplates} />
+      <ProtectedRoute path="/admin/media-integrity" component={MediaIntegrity} />
+      <ProtectedRoute path="/admin/tna-templates" component={TnaTemplates} />
       <Route component={NotFound} />
     </Switch>
   );
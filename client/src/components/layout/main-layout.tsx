@@ -2,6 +2,7 @@ import { Link, useLocation } from "wouter";
 import { Bell, Package, Image, Plus } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
+import { useUnreadNotifications } from "@/hooks/use-unread-notifications";
 
 interface MainLayoutProps {
   children: React.ReactNode;
@@ -9,6 +10,7 @@ interface MainLayoutProps {
 
 export default function MainLayout({ children }: MainLayoutProps) {
   const [location] = useLocation();
+  const unreadCount = useUnreadNotifications();
 
   const tabs = [
     {
@@ -81,6 +83,9 @@ export default function MainLayout({ children }: MainLayoutProps) {
                   >
                     <Icon className="w-5 h-5" />
                     <span>{tab.label}</span>
+                    {tab.id === "notifications" && unreadCount > 0 && (
+                      <Badge className="bg-red-500 text-white text-xs px-1.5 py-0">{unreadCount}</Badge>
+                    )}
                   </div>
                 </Link>
               );
@@ -0,0 +1,458 @@
+import { useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Textarea } from "@/components/ui/textarea";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/use-auth";
+import { apiRequest } from "@/lib/queryClient";
+import { MapPin, Square, ArrowUpRight, Trash2, Send } from "lucide-react";
+
+// Coordinates are fractions (0-1) of the image's width and height
+type AnnotationShape =
+  | { type: 'pin'; x: number; y: number }
+  | { type: 'rect'; x: number; y: number; width: number; height: number }
+  | { type: 'arrow'; x1: number; y1: number; x2: number; y2: number };
+
+type Tool = AnnotationShape['type'];
+
+interface ThreadComment {
+  id: string;
+  message: string;
+  authorName: string;
+  authorRole: string;
+  editedAt: string | null;
+  deletedAt: string | null;
+  createdAt: string;
+}
+
+interface Annotation {
+  id: string;
+  mediaFileId: string;
+  version: number;
+  shape: AnnotationShape;
+  authorId: string | null;
+  authorName: string;
+  createdAt: string;
+  comments: ThreadComment[];
+}
+
+export interface AnnotatableFile {
+  id: string;
+  url: string;
+  originalName: string;
+  version: number;
+  thumbnailUrls: Partial<Record<'small' | 'medium' | 'large', string>> | null;
+}
+
+interface AnnotationViewerProps {
+  file: AnnotatableFile;
+  isOpen: boolean;
+  onClose: () => void;
+}
+
+const TOOLS: { type: Tool; label: string; icon: typeof MapPin }[] = [
+  { type: 'pin', label: "Pin", icon: MapPin },
+  { type: 'rect', label: "Box", icon: Square },
+  { type: 'arrow', label: "Arrow", icon: ArrowUpRight },
+];
+
+// Drags shorter than this (as a fraction of the image) are treated as accidental clicks
+const MIN_DRAG = 0.01;
+
+const clamp = (value: number) => Math.min(1, Math.max(0, value));
+
+// Where an annotation's number badge sits: the pin itself, a box's corner or an arrow's tail
+function anchorOf(shape: AnnotationShape): { x: number; y: number } {
+  if (shape.type === 'arrow') return { x: shape.x1, y: shape.y1 };
+  return { x: shape.x, y: shape.y };
+}
+
+function shapeFromDrag(tool: Tool, start: { x: number; y: number }, end: { x: number; y: number }): AnnotationShape {
+  switch (tool) {
+    case 'pin':
+      return { type: 'pin', x: start.x, y: start.y };
+    case 'rect':
+      return {
+        type: 'rect',
+        x: Math.min(start.x, end.x),
+        y: Math.min(start.y, end.y),
+        width: Math.abs(end.x - start.x),
+        height: Math.abs(end.y - start.y),
+      };
+    case 'arrow':
+      return { type: 'arrow', x1: start.x, y1: start.y, x2: end.x, y2: end.y };
+  }
+}
+
+function isTooSmall(shape: AnnotationShape): boolean {
+  if (shape.type === 'rect') return shape.width < MIN_DRAG || shape.height < MIN_DRAG;
+  if (shape.type === 'arrow') return Math.hypot(shape.x2 - shape.x1, shape.y2 - shape.y1) < MIN_DRAG;
+  return false;
+}
+
+// Draws rectangles and arrows in the image's own pixel space so arrowheads keep their proportions
+function ShapeOverlay({ shape, width, height, color, dashed }: {
+  shape: AnnotationShape;
+  width: number;
+  height: number;
+  color: string;
+  dashed?: boolean;
+}) {
+  const strokeWidth = Math.max(width, height) / 250;
+  const dash = dashed ? `${strokeWidth * 3} ${strokeWidth * 2}` : undefined;
+
+  if (shape.type === 'rect') {
+    return (
+      <rect
+        x={shape.x * width}
+        y={shape.y * height}
+        width={shape.width * width}
+        height={shape.height * height}
+        fill="none"
+        stroke={color}
+        strokeWidth={strokeWidth}
+        strokeDasharray={dash}
+      />
+    );
+  }
+
+  if (shape.type === 'arrow') {
+    const x1 = shape.x1 * width;
+    const y1 = shape.y1 * height;
+    const x2 = shape.x2 * width;
+    const y2 = shape.y2 * height;
+    const angle = Math.atan2(y2 - y1, x2 - x1);
+    const head = strokeWidth * 5;
+    const point = (offset: number) =>
+      `${x2 - head * Math.cos(angle + offset)},${y2 - head * Math.sin(angle + offset)}`;
+
+    return (
+      <g stroke={color} strokeWidth={strokeWidth} strokeDasharray={dash} fill="none" strokeLinecap="round">
+        <line x1={x1} y1={y1} x2={x2} y2={y2} />
+        <polyline points={`${point(Math.PI / 6)} ${x2},${y2} ${point(-Math.PI / 6)}`} />
+      </g>
+    );
+  }
+
+  return null;
+}
+
+export default function AnnotationViewer({ file, isOpen, onClose }: AnnotationViewerProps) {
+  const [tool, setTool] = useState<Tool>('pin');
+  const [dragStart, setDragStart] = useState<{ x: number; y: number } | null>(null);
+  const [draft, setDraft] = useState<AnnotationShape | null>(null);
+  const [draftMessage, setDraftMessage] = useState("");
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [reply, setReply] = useState("");
+  const [imageSize, setImageSize] = useState<{ width: number; height: number } | null>(null);
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const annotationsKey = ["/api/media", file.id, "annotations"];
+  const { data: annotations = [], isLoading } = useQuery<Annotation[]>({
+    queryKey: annotationsKey,
+    enabled: isOpen,
+  });
+
+  const createMutation = useMutation({
+    mutationFn: async (data: { shape: AnnotationShape; message: string }) => {
+      const response = await apiRequest("POST", `/api/media/${file.id}/annotations`, data);
+      return (await response.json()) as Annotation;
+    },
+    onSuccess: (annotation) => {
+      setDraft(null);
+      setDraftMessage("");
+      setSelectedId(annotation.id);
+      queryClient.invalidateQueries({ queryKey: annotationsKey });
+    },
+    onError: () => {
+      toast({
+        title: "Error",
+        description: "Failed to save annotation. Please try again.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const replyMutation = useMutation({
+    mutationFn: async (data: { annotationId: string; message: string }) => {
+      const response = await apiRequest("POST", `/api/annotations/${data.annotationId}/comments`, { message: data.message });
+      return response.json();
+    },
+    onSuccess: () => {
+      setReply("");
+      queryClient.invalidateQueries({ queryKey: annotationsKey });
+    },
+    onError: () => {
+      toast({
+        title: "Error",
+        description: "Failed to add comment. Please try again.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (annotationId: string) => {
+      const response = await apiRequest("DELETE", `/api/annotations/${annotationId}`);
+      return response.json();
+    },
+    onSuccess: () => {
+      setSelectedId(null);
+      queryClient.invalidateQueries({ queryKey: annotationsKey });
+    },
+    onError: () => {
+      toast({
+        title: "Error",
+        description: "Failed to delete annotation. Please try again.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const pointFromEvent = (event: React.PointerEvent<HTMLDivElement>) => {
+    const bounds = event.currentTarget.getBoundingClientRect();
+    return {
+      x: clamp((event.clientX - bounds.left) / bounds.width),
+      y: clamp((event.clientY - bounds.top) / bounds.height),
+    };
+  };
+
+  const handlePointerDown = (event: React.PointerEvent<HTMLDivElement>) => {
+    const point = pointFromEvent(event);
+    event.currentTarget.setPointerCapture(event.pointerId);
+    setSelectedId(null);
+    setDragStart(point);
+    setDraft(shapeFromDrag(tool, point, point));
+  };
+
+  const handlePointerMove = (event: React.PointerEvent<HTMLDivElement>) => {
+    if (!dragStart) return;
+    setDraft(shapeFromDrag(tool, dragStart, pointFromEvent(event)));
+  };
+
+  const handlePointerUp = (event: React.PointerEvent<HTMLDivElement>) => {
+    if (!dragStart) return;
+    const shape = shapeFromDrag(tool, dragStart, pointFromEvent(event));
+    setDragStart(null);
+    setDraft(isTooSmall(shape) ? null : shape);
+  };
+
+  const handleClose = () => {
+    setDraft(null);
+    setDraftMessage("");
+    setSelectedId(null);
+    setReply("");
+    onClose();
+  };
+
+  const imageUrl = file.thumbnailUrls?.large ?? file.url;
+  const selected = annotations.find(a => a.id === selectedId);
+
+  return (
+    <Dialog open={isOpen} onOpenChange={(open) => !open && handleClose()}>
+      <DialogContent className="max-w-6xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="flex items-center space-x-2">
+            <span>{file.originalName}</span>
+            {file.version > 1 && <Badge variant="outline" className="text-xs">v{file.version}</Badge>}
+          </DialogTitle>
+        </DialogHeader>
+
+        <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+          <div className="lg:col-span-2 space-y-3">
+            <div className="flex items-center space-x-2">
+              {TOOLS.map(({ type, label, icon: Icon }) => (
+                <Button
+                  key={type}
+                  variant={tool === type ? "default" : "outline"}
+                  size="sm"
+                  onClick={() => setTool(type)}
+                >
+                  <Icon className="w-4 h-4 mr-1" />
+                  {label}
+                </Button>
+              ))}
+              <span className="text-xs text-slate-500">
+                {tool === 'pin' ? "Click the photo to drop a pin" : "Drag on the photo to draw"}
+              </span>
+            </div>
+
+            <div
+              className="relative select-none cursor-crosshair touch-none"
+              onPointerDown={handlePointerDown}
+              onPointerMove={handlePointerMove}
+              onPointerUp={handlePointerUp}
+            >
+              <img
+                src={imageUrl}
+                alt={file.originalName}
+                draggable={false}
+                className="w-full h-auto rounded bg-slate-100"
+                onLoad={(event) => setImageSize({
+                  width: event.currentTarget.naturalWidth,
+                  height: event.currentTarget.naturalHeight,
+                })}
+              />
+
+              {imageSize && (
+                <svg
+                  className="absolute inset-0 w-full h-full pointer-events-none"
+                  viewBox={`0 0 ${imageSize.width} ${imageSize.height}`}
+                >
+                  {annotations.map((annotation) => (
+                    <ShapeOverlay
+                      key={annotation.id}
+                      shape={annotation.shape}
+                      width={imageSize.width}
+                      height={imageSize.height}
+                      color={annotation.id === selectedId ? "#f59e0b" : "#ef4444"}
+                    />
+                  ))}
+                  {draft && (
+                    <ShapeOverlay shape={draft} width={imageSize.width} height={imageSize.height} color="#2563eb" dashed />
+                  )}
+                </svg>
+              )}
+
+              {annotations.map((annotation, index) => {
+                const anchor = anchorOf(annotation.shape);
+                return (
+                  <button
+                    key={annotation.id}
+                    type="button"
+                    onPointerDown={(event) => event.stopPropagation()}
+                    onClick={() => setSelectedId(annotation.id)}
+                    className={`absolute -translate-x-1/2 -translate-y-1/2 w-6 h-6 rounded-full text-xs font-bold text-white shadow ${
+                      annotation.id === selectedId ? 'bg-amber-500' : 'bg-red-500'
+                    }`}
+                    style={{ left: `${anchor.x * 100}%`, top: `${anchor.y * 100}%` }}
+                  >
+                    {index + 1}
+                  </button>
+                );
+              })}
+
+              {draft?.type === 'pin' && (
+                <div
+                  className="absolute -translate-x-1/2 -translate-y-1/2 w-6 h-6 rounded-full bg-blue-600 border-2 border-white shadow pointer-events-none"
+                  style={{ left: `${draft.x * 100}%`, top: `${draft.y * 100}%` }}
+                />
+              )}
+            </div>
+          </div>
+
+          <div className="space-y-4">
+            {draft && !dragStart && (
+              <div className="border rounded-lg p-3 space-y-2 bg-blue-50">
+                <p className="text-sm font-medium text-slate-900">New annotation</p>
+                <Textarea
+                  value={draftMessage}
+                  onChange={(e) => setDraftMessage(e.target.value)}
+                  placeholder="Describe what you see here..."
+                  rows={3}
+                />
+                <div className="flex justify-end space-x-2">
+                  <Button variant="outline" size="sm" onClick={() => setDraft(null)}>
+                    Cancel
+                  </Button>
+                  <Button
+                    size="sm"
+                    onClick={() => createMutation.mutate({ shape: draft, message: draftMessage })}
+                    disabled={!draftMessage.trim() || createMutation.isPending}
+                  >
+                    {createMutation.isPending ? "Saving..." : "Save"}
+                  </Button>
+                </div>
+              </div>
+            )}
+
+            {isLoading ? (
+              <p className="text-sm text-slate-500">Loading annotations...</p>
+            ) : annotations.length === 0 ? (
+              <p className="text-sm text-slate-500">No annotations yet. Mark up the photo to start a discussion.</p>
+            ) : (
+              <div className="space-y-2">
+                {annotations.map((annotation, index) => (
+                  <div
+                    key={annotation.id}
+                    className={`border rounded-lg p-3 cursor-pointer ${
+                      annotation.id === selectedId ? 'border-amber-400 bg-amber-50' : 'hover:bg-slate-50'
+                    }`}
+                    onClick={() => setSelectedId(annotation.id)}
+                  >
+                    <div className="flex items-start justify-between">
+                      <div className="flex items-center space-x-2">
+                        <span className="w-5 h-5 rounded-full bg-red-500 text-white text-xs font-bold flex items-center justify-center">
+                          {index + 1}
+                        </span>
+                        <span className="text-xs text-slate-500">{annotation.authorName}</span>
+                      </div>
+                      {annotation.authorId === user?.id && (
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          onClick={(event) => {
+                            event.stopPropagation();
+                            deleteMutation.mutate(annotation.id);
+                          }}
+                          disabled={deleteMutation.isPending}
+                        >
+                          <Trash2 className="w-3 h-3" />
+                        </Button>
+                      )}
+                    </div>
+
+                    <div className="mt-2 space-y-2">
+                      {(annotation.id === selectedId ? annotation.comments : annotation.comments.slice(0, 1)).map((comment) => (
+                        <div key={comment.id}>
+                          {comment.deletedAt ? (
+                            <p className="text-sm italic text-slate-500">This comment was deleted</p>
+                          ) : (
+                            <p className="text-sm text-slate-900">
+                              {comment.message}
+                              {comment.editedAt && <span className="text-xs text-slate-500"> (edited)</span>}
+                            </p>
+                          )}
+                          <p className="text-xs text-slate-500">
+                            {comment.authorName} · {new Date(comment.createdAt).toLocaleString()}
+                          </p>
+                        </div>
+                      ))}
+                      {annotation.id !== selectedId && annotation.comments.length > 1 && (
+                        <p className="text-xs text-slate-500">
+                          {annotation.comments.length - 1} more {annotation.comments.length === 2 ? "reply" : "replies"}
+                        </p>
+                      )}
+                    </div>
+                  </div>
+                ))}
+              </div>
+            )}
+
+            {selected && (
+              <div className="flex items-end space-x-2">
+                <Textarea
+                  value={reply}
+                  onChange={(e) => setReply(e.target.value)}
+                  placeholder={`Reply to annotation ${annotations.indexOf(selected) + 1}...`}
+                  rows={2}
+                />
+                <Button
+                  size="sm"
+                  onClick={() => replyMutation.mutate({ annotationId: selected.id, message: reply })}
+                  disabled={!reply.trim() || replyMutation.isPending}
+                >
+                  <Send className="w-4 h-4" />
+                </Button>
+              </div>
+            )}
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
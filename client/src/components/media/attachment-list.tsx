@@ -0,0 +1,70 @@
+import { Paperclip, Loader2, ShieldAlert } from "lucide-react";
+
+export interface Attachment {
+  id: string;
+  originalName: string;
+  mimeType: string;
+  url: string;
+  scanStatus: 'pending' | 'scanning' | 'clean' | 'infected' | 'failed';
+  previewStatus: 'pending' | 'processing' | 'ready' | 'failed' | 'unsupported';
+  thumbnailUrls: Partial<Record<'small' | 'medium' | 'large', string>> | null;
+}
+
+interface AttachmentListProps {
+  attachments: Attachment[];
+}
+
+// Photos only open once the server has re-saved them without their location data
+const canOpen = (file: Attachment) =>
+  file.scanStatus === 'clean' &&
+  (!file.mimeType.startsWith('image/') || file.previewStatus === 'ready' || file.previewStatus === 'unsupported');
+
+// Files attached to an update or comment: photos as thumbnails, everything else as a link
+export default function AttachmentList({ attachments }: AttachmentListProps) {
+  if (attachments.length === 0) return null;
+
+  const photos = attachments.filter(attachment => attachment.scanStatus === 'clean' && attachment.thumbnailUrls?.small);
+  const others = attachments.filter(attachment => !photos.includes(attachment));
+
+  return (
+    <div className="mt-2 space-y-2">
+      {photos.length > 0 && (
+        <div className="flex flex-wrap gap-2">
+          {photos.map((photo) => (
+            <a key={photo.id} href={photo.url} target="_blank" rel="noreferrer" title={photo.originalName}>
+              <img
+                src={photo.thumbnailUrls!.small}
+                srcSet={photo.thumbnailUrls!.medium ? `${photo.thumbnailUrls!.small} 1x, ${photo.thumbnailUrls!.medium} 2x` : undefined}
+                alt={photo.originalName}
+                loading="lazy"
+                className="w-20 h-20 rounded object-cover bg-slate-100 border"
+              />
+            </a>
+          ))}
+        </div>
+      )}
+      {others.map((file) => (
+        <div key={file.id} className="flex items-center space-x-1 text-xs">
+          {canOpen(file) ? (
+            <>
+              <Paperclip className="w-3 h-3 text-slate-500" />
+              <a href={file.url} target="_blank" rel="noreferrer" className="text-slate-700 hover:underline truncate">
+                {file.originalName}
+              </a>
+            </>
+          ) : file.scanStatus === 'infected' || file.scanStatus === 'failed' || file.previewStatus === 'failed' ? (
+            <>
+              <ShieldAlert className="w-3 h-3 text-red-500" />
+              <span className="text-slate-500 truncate">{file.originalName} (unavailable)</span>
+            </>
+          ) : (
+            <>
+              <Loader2 className="w-3 h-3 text-slate-400 animate-spin" />
+              <span className="text-slate-500 truncate">{file.originalName} ({file.scanStatus === 'clean' ? 'processing' : 'scanning'})</span>
+            </>
+          )}
+        </div>
+      ))}
+    </div>
+  );
+}
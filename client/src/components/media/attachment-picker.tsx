@@ -0,0 +1,141 @@
+import { useRef, useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { useToast } from "@/hooks/use-toast";
+import { Paperclip, Upload, X } from "lucide-react";
+
+// Mirrors MAX_ATTACHMENTS on the server
+const MAX_ATTACHMENTS = 10;
+
+interface OrderFile {
+  id: string;
+  originalName: string;
+  mimeType: string;
+  scanStatus: 'pending' | 'scanning' | 'clean' | 'infected' | 'failed';
+}
+
+interface AttachmentPickerProps {
+  orderId: string;
+  selectedIds: string[];
+  onChange: (ids: string[]) => void;
+}
+
+/**
+ * Lets an update or comment reference files on its order: pick from what is already uploaded,
+ * or upload new files, which are selected as soon as they arrive.
+ */
+export default function AttachmentPicker({ orderId, selectedIds, onChange }: AttachmentPickerProps) {
+  const [isOpen, setIsOpen] = useState(false);
+  const fileInput = useRef<HTMLInputElement>(null);
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const mediaKey = `/api/media?orderId=${encodeURIComponent(orderId)}`;
+
+  const { data: files = [] } = useQuery<OrderFile[]>({
+    queryKey: [mediaKey],
+    enabled: !!orderId,
+  });
+  // Rejected files can't be attached
+  const attachable = files.filter(file => file.scanStatus !== 'infected');
+  const selected = selectedIds
+    .map(id => files.find(file => file.id === id))
+    .filter((file): file is OrderFile => !!file);
+
+  const uploadMutation = useMutation({
+    mutationFn: async (picked: File[]) => {
+      const formData = new FormData();
+      picked.forEach(file => formData.append("files", file));
+      formData.append("orderId", orderId);
+      formData.append("category", picked.every(file => file.type.startsWith("image/")) ? "product_photos" : "other");
+
+      const response = await fetch("/api/media/upload", { method: "POST", body: formData });
+      if (!response.ok) {
+        const body = await response.json().catch(() => null);
+        throw new Error(body?.message || "Failed to upload files. Please try again.");
+      }
+      return response.json() as Promise<{ files: OrderFile[] }>;
+    },
+    onSuccess: (data) => {
+      queryClient.invalidateQueries({ queryKey: [mediaKey] });
+      queryClient.invalidateQueries({ queryKey: ["/api/media"] });
+      onChange(Array.from(new Set([...selectedIds, ...data.files.map(file => file.id)])).slice(0, MAX_ATTACHMENTS));
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Upload Failed",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const toggle = (id: string, checked: boolean) => {
+    onChange(checked ? [...selectedIds, id] : selectedIds.filter(selectedId => selectedId !== id));
+  };
+
+  return (
+    <div className="space-y-2">
+      {selected.length > 0 && (
+        <div className="flex flex-wrap gap-2">
+          {selected.map((file) => (
+            <span key={file.id} className="inline-flex items-center text-xs bg-slate-100 text-slate-700 rounded px-2 py-1">
+              <Paperclip className="w-3 h-3 mr-1" />
+              <span className="max-w-[10rem] truncate">{file.originalName}</span>
+              <button type="button" onClick={() => toggle(file.id, false)} className="ml-1 text-slate-500 hover:text-slate-900">
+                <X className="w-3 h-3" />
+              </button>
+            </span>
+          ))}
+        </div>
+      )}
+
+      <div className="flex items-center space-x-2">
+        <Button type="button" variant="outline" size="sm" onClick={() => setIsOpen(!isOpen)}>
+          <Paperclip className="w-4 h-4 mr-2" />
+          Attach Files{selected.length > 0 ? ` (${selected.length})` : ""}
+        </Button>
+        <Button
+          type="button"
+          variant="ghost"
+          size="sm"
+          onClick={() => fileInput.current?.click()}
+          disabled={uploadMutation.isPending || selectedIds.length >= MAX_ATTACHMENTS}
+        >
+          <Upload className="w-4 h-4 mr-2" />
+          {uploadMutation.isPending ? "Uploading..." : "Upload New"}
+        </Button>
+        <input
+          ref={fileInput}
+          type="file"
+          multiple
+          className="hidden"
+          onChange={(e) => {
+            const picked = Array.from(e.target.files ?? []);
+            if (picked.length > 0) uploadMutation.mutate(picked);
+            e.target.value = "";
+          }}
+        />
+      </div>
+
+      {isOpen && (
+        <div className="border rounded-lg p-3 max-h-48 overflow-y-auto space-y-2">
+          {attachable.length === 0 ? (
+            <p className="text-sm text-slate-500">No files on this order yet</p>
+          ) : (
+            attachable.map((file) => (
+              <label key={file.id} className="flex items-center space-x-2 text-sm">
+                <Checkbox
+                  checked={selectedIds.includes(file.id)}
+                  disabled={!selectedIds.includes(file.id) && selectedIds.length >= MAX_ATTACHMENTS}
+                  onCheckedChange={(checked) => toggle(file.id, checked === true)}
+                />
+                <span className="truncate">{file.originalName}</span>
+              </label>
+            ))
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,318 @@
+import { useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import { Clock, Reply, Pencil, Trash2 } from "lucide-react";
+import AttachmentList, { type Attachment } from "@/components/media/attachment-list";
+import MentionTextarea from "@/components/order/mention-textarea";
+import MentionText from "@/components/order/mention-text";
+import type { Mentionable } from "@shared/mentions";
+
+export interface CommentEntryData {
+  id: string;
+  message: string;
+  authorId: string | null;
+  authorName: string;
+  authorRole: string;
+  annotationId: string | null;
+  parentId: string | null;
+  attachments: Attachment[];
+  editedAt: string | null;
+  deletedAt: string | null;
+  deletedByName: string | null;
+  createdAt: string;
+}
+
+interface CommentRevision {
+  id: string;
+  message: string;
+  editedByName: string;
+  createdAt: string;
+}
+
+interface CommentEntryProps {
+  orderId: string;
+  comment: CommentEntryData;
+  replies: CommentEntryData[];
+  currentUserId?: string;
+  canComment: boolean;
+  // Order admins may delete anyone's comment
+  canModerate: boolean;
+  people: Mentionable[];
+}
+
+const formatDateTime = (dateString: string) => {
+  return new Date(dateString).toLocaleString("en-US", {
+    year: "numeric",
+    month: "short",
+    day: "numeric",
+    hour: "2-digit",
+    minute: "2-digit",
+  });
+};
+
+// Earlier wordings of a comment, loaded when its "edited" marker is opened
+function RevisionHistory({ commentId }: { commentId: string }) {
+  const { data: revisions = [], isLoading } = useQuery<CommentRevision[]>({
+    queryKey: ["/api/comments", commentId, "revisions"],
+  });
+
+  if (isLoading) {
+    return <p className="text-xs text-slate-500 mt-2">Loading history...</p>;
+  }
+
+  return (
+    <div className="mt-2 border-l-2 border-slate-200 pl-3 space-y-2">
+      {revisions.map((revision) => (
+        <div key={revision.id}>
+          <p className="text-xs text-slate-600 whitespace-pre-wrap">{revision.message}</p>
+          <p className="text-xs text-slate-400">Replaced {formatDateTime(revision.createdAt)} by {revision.editedByName}</p>
+        </div>
+      ))}
+    </div>
+  );
+}
+
+// One comment, or one reply within a thread, with its edit, delete and reply controls
+function CommentBody({
+  orderId,
+  comment,
+  currentUserId,
+  canModerate,
+  people,
+  onReply,
+}: {
+  orderId: string;
+  comment: CommentEntryData;
+  currentUserId?: string;
+  canModerate: boolean;
+  people: Mentionable[];
+  onReply?: () => void;
+}) {
+  const [isEditing, setIsEditing] = useState(false);
+  const [draft, setDraft] = useState(comment.message);
+  const [showHistory, setShowHistory] = useState(false);
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const isAuthor = !!currentUserId && comment.authorId === currentUserId;
+
+  const editMutation = useMutation({
+    mutationFn: async (message: string) => {
+      const response = await apiRequest("PATCH", `/api/comments/${comment.id}`, { message });
+      return response.json();
+    },
+    onSuccess: () => {
+      setIsEditing(false);
+      queryClient.invalidateQueries({ queryKey: ["/api/orders", orderId] });
+      queryClient.invalidateQueries({ queryKey: ["/api/comments", comment.id, "revisions"] });
+    },
+    onError: () => {
+      toast({
+        title: "Error",
+        description: "Failed to edit comment. Please try again.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async () => {
+      await apiRequest("DELETE", `/api/comments/${comment.id}`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/orders", orderId] });
+      toast({
+        title: "Comment Deleted",
+        description: "The comment has been removed from the timeline.",
+      });
+    },
+    onError: () => {
+      toast({
+        title: "Error",
+        description: "Failed to delete comment. Please try again.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  if (comment.deletedAt) {
+    return (
+      <div>
+        <p className="text-sm italic text-slate-500">
+          This comment was deleted{comment.deletedByName ? ` by ${comment.deletedByName}` : ""}
+        </p>
+        {canModerate && comment.editedAt && (
+          <button type="button" onClick={() => setShowHistory(!showHistory)} className="text-xs text-slate-500 hover:underline">
+            {showHistory ? "Hide history" : "Show history"}
+          </button>
+        )}
+        {showHistory && <RevisionHistory commentId={comment.id} />}
+      </div>
+    );
+  }
+
+  return (
+    <div>
+      {isEditing ? (
+        <div className="space-y-2">
+          <MentionTextarea value={draft} onChange={setDraft} people={people} rows={3} />
+          <div className="flex items-center space-x-2">
+            <Button
+              size="sm"
+              onClick={() => editMutation.mutate(draft.trim())}
+              disabled={!draft.trim() || editMutation.isPending}
+            >
+              {editMutation.isPending ? "Saving..." : "Save"}
+            </Button>
+            <Button
+              size="sm"
+              variant="ghost"
+              onClick={() => {
+                setDraft(comment.message);
+                setIsEditing(false);
+              }}
+            >
+              Cancel
+            </Button>
+          </div>
+        </div>
+      ) : (
+        <MentionText text={comment.message} people={people} className="text-sm text-slate-900 whitespace-pre-wrap" />
+      )}
+      <AttachmentList attachments={comment.attachments ?? []} />
+
+      <div className="flex items-center space-x-2 mt-2">
+        <p className="text-xs font-medium text-slate-700">{comment.authorName}</p>
+        <div className="flex items-center space-x-1">
+          <Clock className="w-3 h-3 text-slate-400" />
+          <p className="text-xs text-slate-500">{formatDateTime(comment.createdAt)}</p>
+        </div>
+        {comment.editedAt && (
+          <button
+            type="button"
+            onClick={() => setShowHistory(!showHistory)}
+            className="text-xs text-slate-500 hover:underline"
+            title={`Edited ${formatDateTime(comment.editedAt)}`}
+          >
+            (edited)
+          </button>
+        )}
+      </div>
+
+      {!isEditing && (
+        <div className="flex items-center space-x-3 mt-1">
+          {onReply && (
+            <button type="button" onClick={onReply} className="inline-flex items-center text-xs text-slate-500 hover:text-slate-900">
+              <Reply className="w-3 h-3 mr-1" />
+              Reply
+            </button>
+          )}
+          {isAuthor && (
+            <button type="button" onClick={() => setIsEditing(true)} className="inline-flex items-center text-xs text-slate-500 hover:text-slate-900">
+              <Pencil className="w-3 h-3 mr-1" />
+              Edit
+            </button>
+          )}
+          {(isAuthor || canModerate) && (
+            <button
+              type="button"
+              onClick={() => {
+                if (window.confirm("Delete this comment?")) deleteMutation.mutate();
+              }}
+              disabled={deleteMutation.isPending}
+              className="inline-flex items-center text-xs text-slate-500 hover:text-red-600"
+            >
+              <Trash2 className="w-3 h-3 mr-1" />
+              Delete
+            </button>
+          )}
+        </div>
+      )}
+      {showHistory && <RevisionHistory commentId={comment.id} />}
+    </div>
+  );
+}
+
+/**
+ * A top-level comment on the order timeline with its replies. Threads are one level deep:
+ * replying to a reply adds to the same thread.
+ */
+export default function CommentEntry({ orderId, comment, replies, currentUserId, canComment, canModerate, people }: CommentEntryProps) {
+  const [isReplying, setIsReplying] = useState(false);
+  const [reply, setReply] = useState("");
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  // Annotation comments are answered in the photo's own thread
+  const canReply = canComment && !comment.deletedAt && !comment.annotationId;
+
+  const replyMutation = useMutation({
+    mutationFn: async (message: string) => {
+      const response = await apiRequest("POST", `/api/orders/${orderId}/comments`, { message, parentId: comment.id });
+      return response.json();
+    },
+    onSuccess: () => {
+      setReply("");
+      setIsReplying(false);
+      queryClient.invalidateQueries({ queryKey: ["/api/orders", orderId] });
+    },
+    onError: () => {
+      toast({
+        title: "Error",
+        description: "Failed to post reply. Please try again.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  return (
+    <div>
+      <CommentBody
+        orderId={orderId}
+        comment={comment}
+        currentUserId={currentUserId}
+        canModerate={canModerate}
+        people={people}
+        onReply={canReply ? () => setIsReplying(true) : undefined}
+      />
+
+      {replies.length > 0 && (
+        <div className="mt-3 ml-2 pl-3 border-l-2 border-slate-200 space-y-3">
+          {replies.map((entry) => (
+            <CommentBody
+              key={entry.id}
+              orderId={orderId}
+              comment={entry}
+              currentUserId={currentUserId}
+              canModerate={canModerate}
+              people={people}
+              onReply={canReply ? () => setIsReplying(true) : undefined}
+            />
+          ))}
+        </div>
+      )}
+
+      {isReplying && (
+        <div className="mt-3 ml-2 pl-3 border-l-2 border-slate-200 space-y-2">
+          <MentionTextarea
+            value={reply}
+            onChange={setReply}
+            people={people}
+            placeholder={`Reply to ${comment.authorName}...`}
+            rows={2}
+          />
+          <div className="flex items-center space-x-2">
+            <Button size="sm" onClick={() => replyMutation.mutate(reply.trim())} disabled={!reply.trim() || replyMutation.isPending}>
+              {replyMutation.isPending ? "Posting..." : "Reply"}
+            </Button>
+            <Button size="sm" variant="ghost" onClick={() => setIsReplying(false)}>
+              Cancel
+            </Button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,194 @@
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Plus, X } from "lucide-react";
+import type { OrderLineItemInput } from "@shared/schema";
+
+interface LineItemGridProps {
+  // The order quantity the breakdown has to add up to, once entered
+  quantity?: number;
+  // A breakdown to start from, e.g. the order's current one when amending it
+  initialItems?: OrderLineItemInput[];
+  onChange: (items: OrderLineItemInput[]) => void;
+}
+
+const cellKey = (color: string, size: string) => `${color.toLowerCase()}\u0000${size.toLowerCase()}`;
+
+// "S, M, L" adds three values; ones already in the list (ignoring case) are skipped
+function addValues(list: string[], input: string): string[] {
+  const added = [...list];
+  input.split(",").map(value => value.trim()).filter(Boolean).forEach(value => {
+    if (!added.some(existing => existing.toLowerCase() === value.toLowerCase())) added.push(value);
+  });
+  return added;
+}
+
+/**
+ * Splits the order quantity by colour (rows) and size (columns). Empty cells are left out of the
+ * breakdown, so not every colour has to come in every size.
+ */
+export default function LineItemGrid({ quantity, initialItems = [], onChange }: LineItemGridProps) {
+  const [colors, setColors] = useState<string[]>(() => addValues([], initialItems.map(item => item.color).join(",")));
+  const [sizes, setSizes] = useState<string[]>(() => addValues([], initialItems.map(item => item.size).join(",")));
+  const [cells, setCells] = useState<Record<string, string>>(() =>
+    Object.fromEntries(initialItems.map(item => [cellKey(item.color, item.size), String(item.quantity)]))
+  );
+  const [newColor, setNewColor] = useState("");
+  const [newSize, setNewSize] = useState("");
+
+  const cellQuantity = (color: string, size: string) => {
+    const value = parseInt(cells[cellKey(color, size)] ?? "", 10);
+    return Number.isFinite(value) && value > 0 ? value : 0;
+  };
+
+  const apply = (nextColors: string[], nextSizes: string[], nextCells: Record<string, string>) => {
+    setColors(nextColors);
+    setSizes(nextSizes);
+    setCells(nextCells);
+
+    const items: OrderLineItemInput[] = [];
+    nextColors.forEach(color => nextSizes.forEach(size => {
+      const value = parseInt(nextCells[cellKey(color, size)] ?? "", 10);
+      if (Number.isFinite(value) && value > 0) items.push({ color, size, quantity: value });
+    }));
+    onChange(items);
+  };
+
+  const total = colors.reduce((sum, color) => sum + sizes.reduce((row, size) => row + cellQuantity(color, size), 0), 0);
+  const mismatch = total > 0 && !!quantity && total !== quantity;
+
+  return (
+    <div className="space-y-3">
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+        <div>
+          <Label htmlFor="newColor">Colors</Label>
+          <div className="flex space-x-2 mt-1">
+            <Input
+              id="newColor"
+              value={newColor}
+              onChange={(e) => setNewColor(e.target.value)}
+              onKeyDown={(e) => {
+                if (e.key === "Enter") {
+                  e.preventDefault();
+                  apply(addValues(colors, newColor), sizes, cells);
+                  setNewColor("");
+                }
+              }}
+              placeholder="Navy, Black"
+            />
+            <Button
+              type="button"
+              variant="outline"
+              size="icon"
+              onClick={() => {
+                apply(addValues(colors, newColor), sizes, cells);
+                setNewColor("");
+              }}
+            >
+              <Plus className="w-4 h-4" />
+            </Button>
+          </div>
+        </div>
+        <div>
+          <Label htmlFor="newSize">Sizes</Label>
+          <div className="flex space-x-2 mt-1">
+            <Input
+              id="newSize"
+              value={newSize}
+              onChange={(e) => setNewSize(e.target.value)}
+              onKeyDown={(e) => {
+                if (e.key === "Enter") {
+                  e.preventDefault();
+                  apply(colors, addValues(sizes, newSize), cells);
+                  setNewSize("");
+                }
+              }}
+              placeholder="S, M, L, XL"
+            />
+            <Button
+              type="button"
+              variant="outline"
+              size="icon"
+              onClick={() => {
+                apply(colors, addValues(sizes, newSize), cells);
+                setNewSize("");
+              }}
+            >
+              <Plus className="w-4 h-4" />
+            </Button>
+          </div>
+        </div>
+      </div>
+
+      {colors.length > 0 && sizes.length > 0 && (
+        <div className="overflow-x-auto border rounded-lg">
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="border-b bg-slate-50">
+                <th className="text-left font-medium text-slate-600 p-2">Color</th>
+                {sizes.map(size => (
+                  <th key={size} className="font-medium text-slate-600 p-2">
+                    <div className="flex items-center justify-end space-x-1">
+                      <span>{size}</span>
+                      <button
+                        type="button"
+                        onClick={() => apply(colors, sizes.filter(other => other !== size), cells)}
+                        className="text-slate-400 hover:text-slate-700"
+                        aria-label={`Remove size ${size}`}
+                      >
+                        <X className="w-3 h-3" />
+                      </button>
+                    </div>
+                  </th>
+                ))}
+                <th className="text-right font-medium text-slate-900 p-2">Total</th>
+              </tr>
+            </thead>
+            <tbody>
+              {colors.map(color => (
+                <tr key={color} className="border-b last:border-b-0">
+                  <td className="p-2 text-slate-900">
+                    <div className="flex items-center space-x-1">
+                      <span>{color}</span>
+                      <button
+                        type="button"
+                        onClick={() => apply(colors.filter(other => other !== color), sizes, cells)}
+                        className="text-slate-400 hover:text-slate-700"
+                        aria-label={`Remove color ${color}`}
+                      >
+                        <X className="w-3 h-3" />
+                      </button>
+                    </div>
+                  </td>
+                  {sizes.map(size => (
+                    <td key={size} className="p-1">
+                      <Input
+                        type="number"
+                        min={0}
+                        value={cells[cellKey(color, size)] ?? ""}
+                        onChange={(e) => apply(colors, sizes, { ...cells, [cellKey(color, size)]: e.target.value })}
+                        className="h-8 w-20 ml-auto text-right"
+                        aria-label={`${color} ${size} quantity`}
+                      />
+                    </td>
+                  ))}
+                  <td className="text-right p-2 font-medium text-slate-900 tabular-nums">
+                    {sizes.reduce((row, size) => row + cellQuantity(color, size), 0).toLocaleString()}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+
+      {total > 0 && (
+        <p className={`text-sm ${mismatch ? "text-red-500" : "text-slate-600"}`}>
+          {total.toLocaleString()} of {quantity ? quantity.toLocaleString() : "?"} pieces allocated
+          {mismatch && " — the breakdown has to add up to the order quantity"}
+        </p>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,91 @@
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Grid3x3 } from "lucide-react";
+
+export interface LineItem {
+  id: string;
+  color: string;
+  size: string;
+  quantity: number;
+}
+
+interface LineItemMatrixProps {
+  lineItems: LineItem[];
+  orderQuantity: number;
+}
+
+// Distinct values in the order they were first entered, ignoring case
+function distinct(values: string[]): string[] {
+  const seen = new Map<string, string>();
+  values.forEach(value => {
+    if (!seen.has(value.toLowerCase())) seen.set(value.toLowerCase(), value);
+  });
+  return Array.from(seen.values());
+}
+
+// The order quantity broken down by colour (rows) and size (columns)
+export default function LineItemMatrix({ lineItems, orderQuantity }: LineItemMatrixProps) {
+  const colors = distinct(lineItems.map(item => item.color));
+  const sizes = distinct(lineItems.map(item => item.size));
+  const cell = (color: string, size: string) => lineItems.find(item =>
+    item.color.toLowerCase() === color.toLowerCase() && item.size.toLowerCase() === size.toLowerCase()
+  );
+  const sum = (items: LineItem[]) => items.reduce((total, item) => total + item.quantity, 0);
+  const total = sum(lineItems);
+
+  return (
+    <Card className="mt-6">
+      <CardHeader>
+        <CardTitle className="flex items-center space-x-2">
+          <Grid3x3 className="w-5 h-5" />
+          <span>Size & Color Breakdown</span>
+        </CardTitle>
+      </CardHeader>
+      <CardContent>
+        <div className="overflow-x-auto">
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="border-b">
+                <th className="text-left font-medium text-slate-600 py-2 pr-4">Color</th>
+                {sizes.map(size => (
+                  <th key={size} className="text-right font-medium text-slate-600 py-2 px-2">{size}</th>
+                ))}
+                <th className="text-right font-medium text-slate-900 py-2 pl-4">Total</th>
+              </tr>
+            </thead>
+            <tbody>
+              {colors.map(color => (
+                <tr key={color} className="border-b last:border-b-0">
+                  <td className="py-2 pr-4 text-slate-900">{color}</td>
+                  {sizes.map(size => (
+                    <td key={size} className="text-right py-2 px-2 text-slate-700 tabular-nums">
+                      {cell(color, size)?.quantity.toLocaleString() ?? <span className="text-slate-300">–</span>}
+                    </td>
+                  ))}
+                  <td className="text-right py-2 pl-4 font-medium text-slate-900 tabular-nums">
+                    {sum(lineItems.filter(item => item.color.toLowerCase() === color.toLowerCase())).toLocaleString()}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+            <tfoot>
+              <tr className="border-t">
+                <td className="py-2 pr-4 font-medium text-slate-900">Total</td>
+                {sizes.map(size => (
+                  <td key={size} className="text-right py-2 px-2 font-medium text-slate-900 tabular-nums">
+                    {sum(lineItems.filter(item => item.size.toLowerCase() === size.toLowerCase())).toLocaleString()}
+                  </td>
+                ))}
+                <td className="text-right py-2 pl-4 font-bold text-slate-900 tabular-nums">{total.toLocaleString()}</td>
+              </tr>
+            </tfoot>
+          </table>
+        </div>
+        {total !== orderQuantity && (
+          <p className="text-sm text-amber-600 mt-3">
+            The breakdown covers {total.toLocaleString()} of the {orderQuantity.toLocaleString()} pieces ordered.
+          </p>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,22 @@
+import { splitMentions, type Mentionable } from "@shared/mentions";
+
+interface MentionTextProps {
+  text: string;
+  people: Mentionable[];
+  className?: string;
+}
+
+// Update or comment text with the stakeholders it mentions picked out
+export default function MentionText({ text, people, className }: MentionTextProps) {
+  return (
+    <p className={className}>
+      {splitMentions(text, people).map((segment, index) =>
+        segment.mention ? (
+          <span key={index} className="font-medium text-blue-700">{segment.text}</span>
+        ) : (
+          segment.text
+        )
+      )}
+    </p>
+  );
+}
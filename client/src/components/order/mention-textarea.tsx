@@ -0,0 +1,116 @@
+import { useRef, useState, type ComponentProps, type KeyboardEvent } from "react";
+import { Textarea } from "@/components/ui/textarea";
+import type { Mentionable } from "@shared/mentions";
+
+const MAX_SUGGESTIONS = 6;
+
+interface MentionTextareaProps extends Omit<ComponentProps<"textarea">, "value" | "onChange"> {
+  value: string;
+  onChange: (value: string) => void;
+  // The order's stakeholders who can be mentioned
+  people: Mentionable[];
+}
+
+interface MentionQuery {
+  // Where the "@" being completed sits in the text
+  start: number;
+  matches: Mentionable[];
+}
+
+// The "@name" being typed just before the caret, if any
+function mentionQueryAt(text: string, caret: number, people: Mentionable[]): MentionQuery | null {
+  const typed = /(?:^|[^\w\u00C0-\uFFFF])@([^@\n]{0,40})$/.exec(text.slice(0, caret));
+  if (!typed) return null;
+
+  const query = typed[1].toLowerCase();
+  const matches = people
+    .filter(person => person.name.toLowerCase().startsWith(query))
+    .slice(0, MAX_SUGGESTIONS);
+  return matches.length > 0 ? { start: caret - typed[1].length - 1, matches } : null;
+}
+
+// A textarea that suggests stakeholders as soon as someone types "@"
+export default function MentionTextarea({ value, onChange, people, onKeyDown, ...props }: MentionTextareaProps) {
+  const textarea = useRef<HTMLTextAreaElement>(null);
+  const [query, setQuery] = useState<MentionQuery | null>(null);
+  const [highlighted, setHighlighted] = useState(0);
+
+  const refreshQuery = (text: string, caret: number) => {
+    setQuery(mentionQueryAt(text, caret, people));
+    setHighlighted(0);
+  };
+
+  const pick = (person: Mentionable) => {
+    if (!query || !textarea.current) return;
+    const caret = textarea.current.selectionStart;
+    const inserted = `@${person.name} `;
+    onChange(value.slice(0, query.start) + inserted + value.slice(caret));
+    setQuery(null);
+
+    const position = query.start + inserted.length;
+    requestAnimationFrame(() => {
+      textarea.current?.focus();
+      textarea.current?.setSelectionRange(position, position);
+    });
+  };
+
+  const handleKeyDown = (e: KeyboardEvent<HTMLTextAreaElement>) => {
+    if (query) {
+      if (e.key === "ArrowDown" || e.key === "ArrowUp") {
+        e.preventDefault();
+        const step = e.key === "ArrowDown" ? 1 : query.matches.length - 1;
+        setHighlighted((highlighted + step) % query.matches.length);
+        return;
+      }
+      if (e.key === "Enter" || e.key === "Tab") {
+        e.preventDefault();
+        pick(query.matches[highlighted]);
+        return;
+      }
+      if (e.key === "Escape") {
+        e.preventDefault();
+        setQuery(null);
+        return;
+      }
+    }
+    onKeyDown?.(e);
+  };
+
+  return (
+    <div className="relative">
+      <Textarea
+        {...props}
+        ref={textarea}
+        value={value}
+        onChange={(e) => {
+          onChange(e.target.value);
+          refreshQuery(e.target.value, e.target.selectionStart);
+        }}
+        onClick={(e) => refreshQuery(value, e.currentTarget.selectionStart)}
+        onBlur={() => setQuery(null)}
+        onKeyDown={handleKeyDown}
+      />
+      {query && (
+        <ul className="absolute z-10 mt-1 w-64 rounded-md border bg-white shadow-md py-1">
+          {query.matches.map((person, index) => (
+            <li key={person.id}>
+              <button
+                type="button"
+                // Keeps focus in the textarea so the caret position survives the click
+                onMouseDown={(e) => {
+                  e.preventDefault();
+                  pick(person);
+                }}
+                className={`w-full text-left px-3 py-1.5 text-sm ${
+                  index === highlighted ? "bg-slate-100 text-slate-900" : "text-slate-700"
+                }`}
+              >
+                {person.name}
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
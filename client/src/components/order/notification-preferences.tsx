@@ -0,0 +1,84 @@
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Label } from "@/components/ui/label";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import { Bell } from "lucide-react";
+
+type NotificationEvent = 'update' | 'comment' | 'status_change' | 'document_revision' | 'amendment';
+
+type Preferences = Record<NotificationEvent, boolean> & { mentions_only?: boolean };
+
+interface NotificationPreferencesProps {
+  stakeholderId: string;
+  preferences: Preferences;
+}
+
+const EVENT_LABELS: Record<NotificationEvent, string> = {
+  status_change: "Status changes",
+  update: "Production updates",
+  comment: "Comments",
+  document_revision: "New versions of drawings and specs",
+  amendment: "Approved changes to the order",
+};
+
+export default function NotificationPreferences({ stakeholderId, preferences }: NotificationPreferencesProps) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const updatePreferencesMutation = useMutation({
+    mutationFn: async (changes: Partial<Preferences>) => {
+      const response = await apiRequest("PATCH", `/api/stakeholders/${stakeholderId}/notifications`, changes);
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/orders"] });
+    },
+    onError: () => {
+      toast({
+        title: "Error",
+        description: "Failed to update notification preferences. Please try again.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  return (
+    <Card className="mt-6">
+      <CardHeader>
+        <CardTitle className="flex items-center space-x-2">
+          <Bell className="w-5 h-5" />
+          <span>Email Notifications</span>
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        {(Object.keys(EVENT_LABELS) as NotificationEvent[]).map((event) => (
+          <div key={event} className="space-y-3">
+            <div className="flex items-center space-x-2">
+              <Checkbox
+                id={`notify-${event}`}
+                checked={preferences[event] !== false}
+                disabled={updatePreferencesMutation.isPending}
+                onCheckedChange={(checked) => updatePreferencesMutation.mutate({ [event]: checked === true })}
+              />
+              <Label htmlFor={`notify-${event}`}>{EVENT_LABELS[event]}</Label>
+            </div>
+            {event === 'comment' && (
+              <div className="flex items-center space-x-2 pl-6">
+                <Checkbox
+                  id="notify-mentions-only"
+                  checked={preferences.mentions_only === true}
+                  disabled={updatePreferencesMutation.isPending || preferences.comment === false}
+                  onCheckedChange={(checked) => updatePreferencesMutation.mutate({ mentions_only: checked === true })}
+                />
+                <Label htmlFor="notify-mentions-only">Only comments that @mention me</Label>
+              </div>
+            )}
+          </div>
+        ))}
+        <p className="text-xs text-slate-500">You are always emailed when someone @mentions you.</p>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,373 @@
+import { useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import { FilePen, ArrowRight } from "lucide-react";
+import LineItemGrid from "@/components/order/line-item-grid";
+import { lineItemsTotal, type AmendableField, type AmendmentChanges, type OrderLineItemInput } from "@shared/schema";
+
+interface AmendmentData {
+  id: string;
+  baseRevision: number;
+  revision: number | null;
+  changes: AmendmentChanges;
+  reason: string | null;
+  status: 'pending' | 'approved' | 'rejected' | 'withdrawn';
+  requiresApproval: boolean;
+  proposedById: string | null;
+  proposedByName: string;
+  decidedByName: string | null;
+  decisionNote: string | null;
+  decidedAt: string | null;
+  createdAt: string;
+}
+
+interface AmendableOrder {
+  id: string;
+  buyerName: string;
+  buyerEmail: string;
+  styleNumber: string;
+  quantity: number;
+  estimatedDelivery: string;
+  revision: number;
+  lineItems: OrderLineItemInput[];
+}
+
+interface OrderAmendmentsProps {
+  order: AmendableOrder;
+  canPropose: boolean;
+  // Buyer-side stakeholders decide amendments that change commercial terms
+  canDecide: boolean;
+  canManage: boolean;
+  currentUserId?: string;
+}
+
+const FIELD_LABELS: Record<AmendableField, string> = {
+  buyerName: "Buyer",
+  buyerEmail: "Buyer email",
+  styleNumber: "Style number",
+  quantity: "Quantity",
+  estimatedDelivery: "Estimated delivery",
+  lineItems: "Size/color breakdown",
+};
+
+const STATUS_STYLES: Record<AmendmentData['status'], string> = {
+  pending: "bg-amber-100 text-amber-700",
+  approved: "bg-green-100 text-green-700",
+  rejected: "bg-red-100 text-red-700",
+  withdrawn: "bg-slate-100 text-slate-600",
+};
+
+// Error messages from apiRequest look like "409: {json}"; show the server's message when there is one
+const errorMessage = (error: Error) => {
+  const json = error.message.replace(/^\d+:\s*/, "");
+  try {
+    return JSON.parse(json).message ?? error.message;
+  } catch {
+    return json;
+  }
+};
+
+const formatDate = (dateString: string) =>
+  new Date(dateString).toLocaleDateString("en-US", { year: "numeric", month: "short", day: "numeric" });
+
+function formatValue(field: AmendableField, value: unknown): string {
+  if (field === "estimatedDelivery") return formatDate(value as string);
+  if (field === "quantity") return `${(value as number).toLocaleString()} units`;
+  if (field === "lineItems") {
+    const items = value as OrderLineItemInput[];
+    return items.length === 0
+      ? "None"
+      : items.map(item => `${item.color} ${item.size} × ${item.quantity.toLocaleString()}`).join(", ");
+  }
+  return String(value);
+}
+
+function ChangeTable({ changes }: { changes: AmendmentChanges }) {
+  const fields = (Object.keys(FIELD_LABELS) as AmendableField[]).filter(field => changes[field] !== undefined);
+  return (
+    <div className="space-y-2">
+      {fields.map(field => (
+        <div key={field} className="text-sm">
+          <p className="text-slate-600">{FIELD_LABELS[field]}</p>
+          <div className="flex flex-wrap items-center gap-x-2 text-slate-900">
+            <span className="line-through text-slate-500">{formatValue(field, changes[field]!.from)}</span>
+            <ArrowRight className="w-3 h-3 text-slate-400" />
+            <span className="font-medium">{formatValue(field, changes[field]!.to)}</span>
+          </div>
+        </div>
+      ))}
+    </div>
+  );
+}
+
+// Proposes, decides and lists the changes made to an order after it was placed
+export default function OrderAmendments({ order, canPropose, canDecide, canManage, currentUserId }: OrderAmendmentsProps) {
+  const [proposing, setProposing] = useState(false);
+  const [buyerName, setBuyerName] = useState(order.buyerName);
+  const [buyerEmail, setBuyerEmail] = useState(order.buyerEmail);
+  const [styleNumber, setStyleNumber] = useState(order.styleNumber);
+  const [quantity, setQuantity] = useState(String(order.quantity));
+  const [estimatedDelivery, setEstimatedDelivery] = useState(order.estimatedDelivery.slice(0, 10));
+  const [editLineItems, setEditLineItems] = useState(false);
+  const [lineItems, setLineItems] = useState<OrderLineItemInput[]>(order.lineItems);
+  const [reason, setReason] = useState("");
+  const [decisionNote, setDecisionNote] = useState("");
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const { data: amendments = [] } = useQuery<AmendmentData[]>({
+    queryKey: ["/api/orders", order.id, "amendments"],
+  });
+  const pending = amendments.find(amendment => amendment.status === "pending");
+  const history = amendments.filter(amendment => amendment.status !== "pending");
+
+  // Only the fields that differ from the order are sent
+  const proposal: Record<string, unknown> = {};
+  if (buyerName.trim() !== order.buyerName) proposal.buyerName = buyerName.trim();
+  if (buyerEmail.trim() !== order.buyerEmail) proposal.buyerEmail = buyerEmail.trim();
+  if (styleNumber.trim() !== order.styleNumber) proposal.styleNumber = styleNumber.trim();
+  if (parseInt(quantity, 10) !== order.quantity) proposal.quantity = parseInt(quantity, 10);
+  if (estimatedDelivery && estimatedDelivery !== order.estimatedDelivery.slice(0, 10)) {
+    proposal.estimatedDelivery = new Date(estimatedDelivery).toISOString();
+  }
+  if (editLineItems) proposal.lineItems = lineItems;
+
+  const resultingQuantity = typeof proposal.quantity === "number" ? proposal.quantity : order.quantity;
+  const breakdownMismatch = editLineItems && lineItems.length > 0 && lineItemsTotal(lineItems) !== resultingQuantity;
+
+  const resetForm = () => {
+    setProposing(false);
+    setBuyerName(order.buyerName);
+    setBuyerEmail(order.buyerEmail);
+    setStyleNumber(order.styleNumber);
+    setQuantity(String(order.quantity));
+    setEstimatedDelivery(order.estimatedDelivery.slice(0, 10));
+    setEditLineItems(false);
+    setLineItems(order.lineItems);
+    setReason("");
+  };
+
+  const refresh = () => {
+    queryClient.invalidateQueries({ queryKey: ["/api/orders", order.id] });
+    queryClient.invalidateQueries({ queryKey: ["/api/orders"] });
+  };
+
+  const proposeMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("POST", `/api/orders/${order.id}/amendments`, {
+        ...proposal,
+        reason: reason.trim() || undefined,
+      });
+      return response.json() as Promise<AmendmentData>;
+    },
+    onSuccess: (amendment) => {
+      resetForm();
+      refresh();
+      toast({
+        title: amendment.status === "pending" ? "Amendment Proposed" : "Order Amended",
+        description: amendment.status === "pending"
+          ? "The buyer has been asked to approve the change."
+          : `The order is now at revision ${amendment.revision}.`,
+      });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Error", description: errorMessage(error), variant: "destructive" });
+    },
+  });
+
+  const decideMutation = useMutation({
+    mutationFn: async ({ id, action }: { id: string; action: "approve" | "reject" | "withdraw" }) => {
+      const body = action === "withdraw" ? {} : { note: decisionNote.trim() || undefined };
+      const response = await apiRequest("POST", `/api/amendments/${id}/${action}`, body);
+      return response.json() as Promise<AmendmentData>;
+    },
+    onSuccess: (amendment) => {
+      setDecisionNote("");
+      refresh();
+      toast({
+        title: `Amendment ${amendment.status.charAt(0).toUpperCase()}${amendment.status.slice(1)}`,
+        description: amendment.status === "approved"
+          ? `The order is now at revision ${amendment.revision}.`
+          : "The order was left unchanged.",
+      });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Error", description: errorMessage(error), variant: "destructive" });
+    },
+  });
+
+  const formatDateTime = (dateString: string) => {
+    return new Date(dateString).toLocaleString("en-US", {
+      year: "numeric",
+      month: "short",
+      day: "numeric",
+      hour: "2-digit",
+      minute: "2-digit",
+    });
+  };
+
+  return (
+    <Card className="mt-6">
+      <CardHeader>
+        <CardTitle className="flex items-center justify-between">
+          <span className="flex items-center space-x-2">
+            <FilePen className="w-5 h-5" />
+            <span>Amendments</span>
+          </span>
+          <Badge variant="outline">Revision {order.revision}</Badge>
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {pending && (
+          <div className="border border-amber-200 bg-amber-50 rounded-lg p-4 space-y-3">
+            <div className="flex items-center justify-between">
+              <p className="text-sm font-medium text-slate-900">
+                Awaiting buyer approval · proposed by {pending.proposedByName}
+              </p>
+              <span className="text-xs text-slate-500">{formatDateTime(pending.createdAt)}</span>
+            </div>
+            <ChangeTable changes={pending.changes} />
+            {pending.reason && <p className="text-sm text-slate-700">{pending.reason}</p>}
+
+            {canDecide && (
+              <div className="space-y-2">
+                <Input
+                  value={decisionNote}
+                  onChange={(e) => setDecisionNote(e.target.value)}
+                  placeholder="Note (Optional)"
+                  className="bg-white"
+                />
+                <div className="flex space-x-2">
+                  <Button
+                    size="sm"
+                    onClick={() => decideMutation.mutate({ id: pending.id, action: "approve" })}
+                    disabled={decideMutation.isPending}
+                  >
+                    Approve
+                  </Button>
+                  <Button
+                    size="sm"
+                    variant="outline"
+                    onClick={() => decideMutation.mutate({ id: pending.id, action: "reject" })}
+                    disabled={decideMutation.isPending}
+                  >
+                    Reject
+                  </Button>
+                </div>
+              </div>
+            )}
+            {(canManage || (!!currentUserId && pending.proposedById === currentUserId)) && (
+              <Button
+                size="sm"
+                variant="ghost"
+                onClick={() => decideMutation.mutate({ id: pending.id, action: "withdraw" })}
+                disabled={decideMutation.isPending}
+              >
+                Withdraw
+              </Button>
+            )}
+          </div>
+        )}
+
+        {canPropose && !pending && !proposing && (
+          <Button variant="outline" onClick={() => setProposing(true)}>
+            Propose Change
+          </Button>
+        )}
+
+        {canPropose && !pending && proposing && (
+          <div className="space-y-4">
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <div>
+                <Label htmlFor="amendBuyerName">Buyer</Label>
+                <Input id="amendBuyerName" value={buyerName} onChange={(e) => setBuyerName(e.target.value)} className="mt-1" />
+              </div>
+              <div>
+                <Label htmlFor="amendBuyerEmail">Buyer Email</Label>
+                <Input id="amendBuyerEmail" type="email" value={buyerEmail} onChange={(e) => setBuyerEmail(e.target.value)} className="mt-1" />
+              </div>
+              <div>
+                <Label htmlFor="amendStyleNumber">Style Number</Label>
+                <Input id="amendStyleNumber" value={styleNumber} onChange={(e) => setStyleNumber(e.target.value)} className="mt-1" />
+              </div>
+              <div>
+                <Label htmlFor="amendQuantity">Quantity</Label>
+                <Input id="amendQuantity" type="number" min={1} value={quantity} onChange={(e) => setQuantity(e.target.value)} className="mt-1" />
+              </div>
+              <div>
+                <Label htmlFor="amendDelivery">Estimated Delivery</Label>
+                <Input id="amendDelivery" type="date" value={estimatedDelivery} onChange={(e) => setEstimatedDelivery(e.target.value)} className="mt-1" />
+              </div>
+            </div>
+
+            {editLineItems ? (
+              <LineItemGrid quantity={resultingQuantity} initialItems={order.lineItems} onChange={setLineItems} />
+            ) : (
+              <Button type="button" variant="ghost" size="sm" onClick={() => setEditLineItems(true)}>
+                Change size/color breakdown
+              </Button>
+            )}
+
+            <div>
+              <Label htmlFor="amendReason">Reason (Optional)</Label>
+              <Textarea
+                id="amendReason"
+                value={reason}
+                onChange={(e) => setReason(e.target.value)}
+                placeholder="e.g. Buyer added 200 units in black"
+                rows={2}
+                className="mt-1"
+              />
+            </div>
+
+            <div className="flex space-x-2">
+              <Button
+                onClick={() => proposeMutation.mutate()}
+                disabled={Object.keys(proposal).length === 0 || breakdownMismatch || proposeMutation.isPending}
+              >
+                {proposeMutation.isPending ? "Submitting..." : "Submit Amendment"}
+              </Button>
+              <Button variant="outline" onClick={resetForm}>
+                Cancel
+              </Button>
+            </div>
+          </div>
+        )}
+
+        <div className="space-y-3">
+          {history.length === 0 ? (
+            <p className="text-sm text-slate-500">The order has not been amended</p>
+          ) : (
+            history.map(amendment => (
+              <div key={amendment.id} className="border-l-2 border-slate-200 pl-3 space-y-2">
+                <div className="flex items-center space-x-2">
+                  <Badge className={STATUS_STYLES[amendment.status]}>{amendment.status}</Badge>
+                  {amendment.revision && (
+                    <span className="text-sm font-medium text-slate-900">Revision {amendment.revision}</span>
+                  )}
+                </div>
+                <ChangeTable changes={amendment.changes} />
+                {amendment.reason && <p className="text-sm text-slate-600">{amendment.reason}</p>}
+                {amendment.decisionNote && (
+                  <p className="text-sm text-slate-600 italic">“{amendment.decisionNote}” — {amendment.decidedByName}</p>
+                )}
+                <p className="text-xs text-slate-500">
+                  Proposed by {amendment.proposedByName} · {formatDateTime(amendment.createdAt)}
+                  {amendment.decidedAt && amendment.requiresApproval && amendment.decidedByName &&
+                    ` · ${amendment.status} by ${amendment.decidedByName}`}
+                </p>
+              </div>
+            ))
+          )}
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,291 @@
+import { useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import ProgressBar from "@/components/order/progress-bar";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import { Factory, CheckCircle2 } from "lucide-react";
+import StagePlanEditor from "@/components/order/stage-plan-editor";
+import type { LineItem } from "@/components/order/line-item-matrix";
+import { DEFAULT_PRODUCTION_STAGES, isStageComplete, productionProgress, stagePercent } from "@shared/production";
+
+export interface ProductionStageData {
+  id: string;
+  name: string;
+  plannedQuantity: number;
+  plannedStart: string | null;
+  plannedEnd: string | null;
+  completedQuantity: number;
+  actualStart: string | null;
+  actualEnd: string | null;
+}
+
+interface StageOutputData {
+  id: string;
+  stageId: string;
+  lineItemId: string | null;
+  quantity: number;
+  producedOn: string;
+  note: string | null;
+  recordedByName: string;
+}
+
+interface ProductionStagesProps {
+  orderId: string;
+  orderQuantity: number;
+  stages: ProductionStageData[];
+  lineItems: LineItem[];
+  // Factory-side stakeholders with update access plan stages and record output
+  canRecord: boolean;
+}
+
+const RECENT_OUTPUT_LIMIT = 10;
+const WHOLE_ORDER = "whole-order";
+
+// Error messages from apiRequest look like "400: {json}"; show the server's message when there is one
+const errorMessage = (error: Error) => {
+  const json = error.message.replace(/^\d+:\s*/, "");
+  try {
+    return JSON.parse(json).message ?? error.message;
+  } catch {
+    return json;
+  }
+};
+
+// Stage dates are whole days stored as midnight UTC
+const formatDate = (dateString: string) =>
+  new Date(dateString).toLocaleDateString("en-US", { month: "short", day: "numeric", timeZone: "UTC" });
+
+// The local date as YYYY-MM-DD, for date inputs
+const today = () => new Date().toLocaleDateString("en-CA");
+
+function dateRange(start: string | null, end: string | null): string | null {
+  if (!start && !end) return null;
+  return `${start ? formatDate(start) : "?"} – ${end ? formatDate(end) : "?"}`;
+}
+
+// Where the order is on the factory floor, stage by stage, with the daily output behind it
+export default function ProductionStages({ orderId, orderQuantity, stages, lineItems, canRecord }: ProductionStagesProps) {
+  const [editing, setEditing] = useState(false);
+  const [stageId, setStageId] = useState("");
+  const [quantity, setQuantity] = useState("");
+  const [producedOn, setProducedOn] = useState(today);
+  const [lineItemId, setLineItemId] = useState(WHOLE_ORDER);
+  const [note, setNote] = useState("");
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const { data: outputs = [] } = useQuery<StageOutputData[]>({
+    queryKey: ["/api/orders", orderId, "stage-outputs"],
+  });
+
+  const progress = productionProgress(stages);
+  const stageName = (id: string) => stages.find(stage => stage.id === id)?.name ?? "Removed stage";
+  const lineItemLabel = (id: string | null) => {
+    const item = lineItems.find(cell => cell.id === id);
+    return item ? `${item.color} / ${item.size}` : null;
+  };
+
+  // Orders placed before stages existed start from the defaults
+  const planned: ProductionStageData[] = stages.length > 0 ? stages : DEFAULT_PRODUCTION_STAGES.map(name => ({
+    id: "",
+    name,
+    plannedQuantity: orderQuantity,
+    plannedStart: null,
+    plannedEnd: null,
+    completedQuantity: 0,
+    actualStart: null,
+    actualEnd: null,
+  }));
+
+  const recordOutputMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("POST", `/api/stages/${stageId}/output`, {
+        quantity: parseInt(quantity, 10),
+        producedOn: new Date(producedOn).toISOString(),
+        lineItemId: lineItemId === WHOLE_ORDER ? undefined : lineItemId,
+        note: note.trim() || undefined,
+      });
+      return response.json();
+    },
+    onSuccess: () => {
+      toast({
+        title: "Output Recorded",
+        description: `${parseInt(quantity, 10).toLocaleString()} pieces added to ${stageName(stageId)}.`,
+      });
+      setQuantity("");
+      setNote("");
+      setLineItemId(WHOLE_ORDER);
+      queryClient.invalidateQueries({ queryKey: ["/api/orders"] });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Error", description: errorMessage(error), variant: "destructive" });
+    },
+  });
+
+  return (
+    <Card className="mt-6">
+      <CardHeader>
+        <CardTitle className="flex items-center justify-between">
+          <span className="flex items-center space-x-2">
+            <Factory className="w-5 h-5" />
+            <span>Production</span>
+          </span>
+          {canRecord && !editing && (
+            <Button variant="outline" size="sm" onClick={() => setEditing(true)}>
+              {stages.length > 0 ? "Edit Stages" : "Plan Stages"}
+            </Button>
+          )}
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {editing ? (
+          <StagePlanEditor orderId={orderId} stages={planned} onDone={() => setEditing(false)} />
+        ) : stages.length === 0 ? (
+          <p className="text-sm text-slate-500">No production stages have been planned for this order</p>
+        ) : (
+          <>
+            <div>
+              <div className="flex items-center justify-between text-sm mb-2">
+                <span className="text-slate-600">
+                  {progress.currentStage ? `Now in ${progress.currentStage}` : "All stages complete"}
+                  {" · "}
+                  {progress.completedStages} of {progress.totalStages} stages done
+                </span>
+                <span className="font-medium text-slate-900">{progress.percent}%</span>
+              </div>
+              <ProgressBar value={progress.percent} className="h-3" />
+            </div>
+
+            <div className="space-y-4">
+              {stages.map(stage => (
+                <div key={stage.id}>
+                  <div className="flex items-center justify-between text-sm">
+                    <span className="flex items-center space-x-2 font-medium text-slate-900">
+                      {isStageComplete(stage) && <CheckCircle2 className="w-4 h-4 text-green-600" />}
+                      <span>{stage.name}</span>
+                    </span>
+                    <span className="text-slate-600 tabular-nums">
+                      {stage.plannedQuantity === 0
+                        ? "Not needed"
+                        : `${stage.completedQuantity.toLocaleString()} / ${stage.plannedQuantity.toLocaleString()}`}
+                    </span>
+                  </div>
+                  {stage.plannedQuantity > 0 && <ProgressBar value={stagePercent(stage)} className="mt-1" />}
+                  <div className="flex flex-wrap gap-x-4 text-xs text-slate-500 mt-1">
+                    {dateRange(stage.plannedStart, stage.plannedEnd) && (
+                      <span>Planned {dateRange(stage.plannedStart, stage.plannedEnd)}</span>
+                    )}
+                    {stage.actualStart && (
+                      <span>Actual {dateRange(stage.actualStart, stage.actualEnd)}</span>
+                    )}
+                  </div>
+                </div>
+              ))}
+            </div>
+          </>
+        )}
+
+        {canRecord && !editing && stages.length > 0 && (
+          <div className="border-t pt-4 space-y-4">
+            <p className="text-sm font-medium text-slate-900">Record Daily Output</p>
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+              <div>
+                <Label>Stage</Label>
+                <Select value={stageId} onValueChange={setStageId}>
+                  <SelectTrigger className="mt-1">
+                    <SelectValue placeholder="Select stage" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {stages.map(stage => (
+                      <SelectItem key={stage.id} value={stage.id}>{stage.name}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div>
+                <Label htmlFor="outputQuantity">Pieces</Label>
+                <Input
+                  id="outputQuantity"
+                  type="number"
+                  min={1}
+                  value={quantity}
+                  onChange={(e) => setQuantity(e.target.value)}
+                  className="mt-1"
+                />
+              </div>
+              <div>
+                <Label htmlFor="outputDay">Day</Label>
+                <Input
+                  id="outputDay"
+                  type="date"
+                  max={today()}
+                  value={producedOn}
+                  onChange={(e) => setProducedOn(e.target.value)}
+                  className="mt-1"
+                />
+              </div>
+              {lineItems.length > 0 && (
+                <div>
+                  <Label>Size / Color (Optional)</Label>
+                  <Select value={lineItemId} onValueChange={setLineItemId}>
+                    <SelectTrigger className="mt-1">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value={WHOLE_ORDER}>Whole order</SelectItem>
+                      {lineItems.map(item => (
+                        <SelectItem key={item.id} value={item.id}>{item.color} / {item.size}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              )}
+              <div className={lineItems.length > 0 ? "md:col-span-2" : "md:col-span-3"}>
+                <Label htmlFor="outputNote">Note (Optional)</Label>
+                <Input
+                  id="outputNote"
+                  value={note}
+                  onChange={(e) => setNote(e.target.value)}
+                  placeholder="e.g. Line 3 down for two hours"
+                  className="mt-1"
+                />
+              </div>
+            </div>
+            <Button
+              onClick={() => recordOutputMutation.mutate()}
+              disabled={!stageId || !(parseInt(quantity, 10) > 0) || !producedOn || recordOutputMutation.isPending}
+            >
+              {recordOutputMutation.isPending ? "Recording..." : "Record Output"}
+            </Button>
+          </div>
+        )}
+
+        {!editing && outputs.length > 0 && (
+          <div className="border-t pt-4 space-y-2">
+            <p className="text-sm font-medium text-slate-900">Recent Output</p>
+            {outputs.slice(0, RECENT_OUTPUT_LIMIT).map(output => (
+              <div key={output.id} className="flex items-start justify-between text-sm">
+                <div>
+                  <span className="text-slate-900">{stageName(output.stageId)}</span>
+                  {lineItemLabel(output.lineItemId) && (
+                    <span className="text-slate-500"> · {lineItemLabel(output.lineItemId)}</span>
+                  )}
+                  {output.note && <p className="text-xs text-slate-500">{output.note}</p>}
+                </div>
+                <div className="text-right">
+                  <p className="font-medium text-slate-900 tabular-nums">+{output.quantity.toLocaleString()}</p>
+                  <p className="text-xs text-slate-500">{formatDate(output.producedOn)} · {output.recordedByName}</p>
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
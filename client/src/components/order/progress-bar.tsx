@@ -0,0 +1,26 @@
+import { cn } from "@/lib/utils";
+
+interface ProgressBarProps {
+  // 0-100
+  value: number;
+  className?: string;
+}
+
+// A plain bar for production progress, on the order page and the dashboard cards
+export default function ProgressBar({ value, className }: ProgressBarProps) {
+  const percent = Math.max(0, Math.min(100, value));
+  return (
+    <div
+      role="progressbar"
+      aria-valuemin={0}
+      aria-valuemax={100}
+      aria-valuenow={percent}
+      className={cn("h-2 w-full overflow-hidden rounded-full bg-slate-200", className)}
+    >
+      <div
+        className={cn("h-full rounded-full transition-all", percent === 100 ? "bg-green-600" : "bg-blue-600")}
+        style={{ width: `${percent}%` }}
+      />
+    </div>
+  );
+}
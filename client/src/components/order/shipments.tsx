@@ -0,0 +1,226 @@
+import { useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import ProgressBar from "@/components/order/progress-bar";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import { Truck } from "lucide-react";
+import type { LineItem } from "@/components/order/line-item-matrix";
+
+interface ShipmentData {
+  id: string;
+  lineItemId: string | null;
+  quantity: number;
+  shippedOn: string;
+  reference: string | null;
+  note: string | null;
+  recordedByName: string;
+}
+
+interface ShipmentsProps {
+  orderId: string;
+  orderQuantity: number;
+  lineItems: LineItem[];
+  // Factory-side stakeholders with update access record shipments
+  canRecord: boolean;
+}
+
+const WHOLE_ORDER = "whole-order";
+
+// Error messages from apiRequest look like "400: {json}"; show the server's message when there is one
+const errorMessage = (error: Error) => {
+  const json = error.message.replace(/^\d+:\s*/, "");
+  try {
+    return JSON.parse(json).message ?? error.message;
+  } catch {
+    return json;
+  }
+};
+
+// Shipping days are whole days stored as midnight UTC
+const formatDate = (dateString: string) =>
+  new Date(dateString).toLocaleDateString("en-US", { month: "short", day: "numeric", timeZone: "UTC" });
+
+// The local date as YYYY-MM-DD, for date inputs
+const today = () => new Date().toLocaleDateString("en-CA");
+
+// What has left the factory, in total and for each size/colour cell
+export default function Shipments({ orderId, orderQuantity, lineItems, canRecord }: ShipmentsProps) {
+  const [quantity, setQuantity] = useState("");
+  const [shippedOn, setShippedOn] = useState(today);
+  const [lineItemId, setLineItemId] = useState(WHOLE_ORDER);
+  const [reference, setReference] = useState("");
+  const [note, setNote] = useState("");
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const { data: shipments = [] } = useQuery<ShipmentData[]>({
+    queryKey: ["/api/orders", orderId, "shipments"],
+  });
+
+  const totalShipped = shipments.reduce((sum, shipment) => sum + shipment.quantity, 0);
+  const shippedFor = (id: string) => shipments
+    .filter(shipment => shipment.lineItemId === id)
+    .reduce((sum, shipment) => sum + shipment.quantity, 0);
+  const lineItemLabel = (id: string | null) => {
+    const item = lineItems.find(cell => cell.id === id);
+    return item ? `${item.color} / ${item.size}` : null;
+  };
+
+  const recordShipmentMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("POST", `/api/orders/${orderId}/shipments`, {
+        quantity: parseInt(quantity, 10),
+        shippedOn: new Date(shippedOn).toISOString(),
+        lineItemId: lineItemId === WHOLE_ORDER ? undefined : lineItemId,
+        reference: reference.trim() || undefined,
+        note: note.trim() || undefined,
+      });
+      return response.json();
+    },
+    onSuccess: () => {
+      toast({
+        title: "Shipment Recorded",
+        description: `${parseInt(quantity, 10).toLocaleString()} pieces shipped.`,
+      });
+      setQuantity("");
+      setReference("");
+      setNote("");
+      setLineItemId(WHOLE_ORDER);
+      queryClient.invalidateQueries({ queryKey: ["/api/orders", orderId, "shipments"] });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Error", description: errorMessage(error), variant: "destructive" });
+    },
+  });
+
+  if (!canRecord && shipments.length === 0) return null;
+
+  return (
+    <Card className="mt-6">
+      <CardHeader>
+        <CardTitle className="flex items-center space-x-2">
+          <Truck className="w-5 h-5" />
+          <span>Shipments</span>
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <div>
+          <div className="flex items-center justify-between text-sm mb-2">
+            <span className="text-slate-600">Shipped</span>
+            <span className="font-medium text-slate-900 tabular-nums">
+              {totalShipped.toLocaleString()} / {orderQuantity.toLocaleString()}
+            </span>
+          </div>
+          <ProgressBar value={orderQuantity > 0 ? Math.min(100, Math.round((totalShipped / orderQuantity) * 100)) : 0} className="h-3" />
+        </div>
+
+        {lineItems.length > 0 && shipments.some(shipment => shipment.lineItemId) && (
+          <div className="grid grid-cols-2 md:grid-cols-3 gap-x-6 gap-y-1 text-sm">
+            {lineItems.map(item => (
+              <div key={item.id} className="flex items-center justify-between">
+                <span className="text-slate-600">{item.color} / {item.size}</span>
+                <span className="text-slate-900 tabular-nums">
+                  {shippedFor(item.id).toLocaleString()} / {item.quantity.toLocaleString()}
+                </span>
+              </div>
+            ))}
+          </div>
+        )}
+
+        {canRecord && (
+          <div className="border-t pt-4 space-y-4">
+            <p className="text-sm font-medium text-slate-900">Record Shipment</p>
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+              <div>
+                <Label htmlFor="shipmentQuantity">Pieces</Label>
+                <Input
+                  id="shipmentQuantity"
+                  type="number"
+                  min={1}
+                  value={quantity}
+                  onChange={(e) => setQuantity(e.target.value)}
+                  className="mt-1"
+                />
+              </div>
+              <div>
+                <Label htmlFor="shipmentDay">Shipped On</Label>
+                <Input
+                  id="shipmentDay"
+                  type="date"
+                  max={today()}
+                  value={shippedOn}
+                  onChange={(e) => setShippedOn(e.target.value)}
+                  className="mt-1"
+                />
+              </div>
+              {lineItems.length > 0 && (
+                <div>
+                  <Label>Size / Color (Optional)</Label>
+                  <Select value={lineItemId} onValueChange={setLineItemId}>
+                    <SelectTrigger className="mt-1">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value={WHOLE_ORDER}>Whole order</SelectItem>
+                      {lineItems.map(item => (
+                        <SelectItem key={item.id} value={item.id}>{item.color} / {item.size}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              )}
+              <div>
+                <Label htmlFor="shipmentReference">Reference (Optional)</Label>
+                <Input
+                  id="shipmentReference"
+                  value={reference}
+                  onChange={(e) => setReference(e.target.value)}
+                  placeholder="e.g. B/L or AWB number"
+                  className="mt-1"
+                />
+              </div>
+              <div className={lineItems.length > 0 ? "md:col-span-2" : "md:col-span-1"}>
+                <Label htmlFor="shipmentNote">Note (Optional)</Label>
+                <Input
+                  id="shipmentNote"
+                  value={note}
+                  onChange={(e) => setNote(e.target.value)}
+                  className="mt-1"
+                />
+              </div>
+            </div>
+            <Button
+              onClick={() => recordShipmentMutation.mutate()}
+              disabled={!(parseInt(quantity, 10) > 0) || !shippedOn || recordShipmentMutation.isPending}
+            >
+              {recordShipmentMutation.isPending ? "Recording..." : "Record Shipment"}
+            </Button>
+          </div>
+        )}
+
+        {shipments.length > 0 && (
+          <div className="border-t pt-4 space-y-2">
+            {shipments.map(shipment => (
+              <div key={shipment.id} className="flex items-start justify-between text-sm">
+                <div>
+                  <span className="text-slate-900">{lineItemLabel(shipment.lineItemId) ?? "Whole order"}</span>
+                  {shipment.reference && <span className="text-slate-500"> · {shipment.reference}</span>}
+                  {shipment.note && <p className="text-xs text-slate-500">{shipment.note}</p>}
+                </div>
+                <div className="text-right">
+                  <p className="font-medium text-slate-900 tabular-nums">{shipment.quantity.toLocaleString()}</p>
+                  <p className="text-xs text-slate-500">{formatDate(shipment.shippedOn)} · {shipment.recordedByName}</p>
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
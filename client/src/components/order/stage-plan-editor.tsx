@@ -0,0 +1,171 @@
+import { useState } from "react";
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import { ArrowDown, ArrowUp, Plus, X } from "lucide-react";
+import { MAX_PRODUCTION_STAGES } from "@shared/schema";
+import type { ProductionStageData } from "@/components/order/production-stages";
+
+interface StagePlanEditorProps {
+  orderId: string;
+  stages: ProductionStageData[];
+  onDone: () => void;
+}
+
+interface StageRow {
+  id?: string;
+  name: string;
+  plannedQuantity: string;
+  plannedStart: string;
+  plannedEnd: string;
+  // Output already recorded, which keeps the stage from being removed
+  completedQuantity: number;
+}
+
+// Error messages from apiRequest look like "400: {json}"; show the server's message when there is one
+const errorMessage = (error: Error) => {
+  const json = error.message.replace(/^\d+:\s*/, "");
+  try {
+    return JSON.parse(json).message ?? error.message;
+  } catch {
+    return json;
+  }
+};
+
+const toRow = (stage: ProductionStageData): StageRow => ({
+  id: stage.id || undefined,
+  name: stage.name,
+  plannedQuantity: String(stage.plannedQuantity),
+  plannedStart: stage.plannedStart?.slice(0, 10) ?? "",
+  plannedEnd: stage.plannedEnd?.slice(0, 10) ?? "",
+  completedQuantity: stage.completedQuantity,
+});
+
+// Edits the order's stages: names, order, planned quantities and planned dates
+export default function StagePlanEditor({ orderId, stages, onDone }: StagePlanEditorProps) {
+  const [rows, setRows] = useState<StageRow[]>(() => stages.map(toRow));
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const update = (index: number, changes: Partial<StageRow>) =>
+    setRows(rows.map((row, i) => (i === index ? { ...row, ...changes } : row)));
+
+  const move = (index: number, step: number) => {
+    const next = [...rows];
+    [next[index], next[index + step]] = [next[index + step], next[index]];
+    setRows(next);
+  };
+
+  const saveMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("PUT", `/api/orders/${orderId}/stages`, {
+        stages: rows.map(row => ({
+          id: row.id,
+          name: row.name.trim(),
+          plannedQuantity: parseInt(row.plannedQuantity, 10) || 0,
+          plannedStart: row.plannedStart ? new Date(row.plannedStart).toISOString() : null,
+          plannedEnd: row.plannedEnd ? new Date(row.plannedEnd).toISOString() : null,
+        })),
+      });
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/orders"] });
+      toast({
+        title: "Stages Saved",
+        description: "The production plan has been updated.",
+      });
+      onDone();
+    },
+    onError: (error: Error) => {
+      toast({ title: "Error", description: errorMessage(error), variant: "destructive" });
+    },
+  });
+
+  return (
+    <div className="space-y-3">
+      <div className="hidden md:grid grid-cols-[1fr_6rem_9rem_9rem_5.5rem] gap-2 text-xs font-medium text-slate-600">
+        <span>Stage</span>
+        <span>Planned qty</span>
+        <span>Planned start</span>
+        <span>Planned end</span>
+        <span />
+      </div>
+      {rows.map((row, index) => (
+        <div key={row.id ?? `new-${index}`} className="grid grid-cols-1 md:grid-cols-[1fr_6rem_9rem_9rem_5.5rem] gap-2 items-center">
+          <Input
+            value={row.name}
+            onChange={(e) => update(index, { name: e.target.value })}
+            placeholder="Stage name"
+            aria-label="Stage name"
+          />
+          <Input
+            type="number"
+            min={0}
+            value={row.plannedQuantity}
+            onChange={(e) => update(index, { plannedQuantity: e.target.value })}
+            aria-label={`${row.name} planned quantity`}
+          />
+          <Input
+            type="date"
+            value={row.plannedStart}
+            onChange={(e) => update(index, { plannedStart: e.target.value })}
+            aria-label={`${row.name} planned start`}
+          />
+          <Input
+            type="date"
+            value={row.plannedEnd}
+            onChange={(e) => update(index, { plannedEnd: e.target.value })}
+            aria-label={`${row.name} planned end`}
+          />
+          <div className="flex items-center">
+            <Button type="button" variant="ghost" size="icon" className="h-8 w-8" disabled={index === 0} onClick={() => move(index, -1)} aria-label="Move up">
+              <ArrowUp className="w-4 h-4" />
+            </Button>
+            <Button type="button" variant="ghost" size="icon" className="h-8 w-8" disabled={index === rows.length - 1} onClick={() => move(index, 1)} aria-label="Move down">
+              <ArrowDown className="w-4 h-4" />
+            </Button>
+            <Button
+              type="button"
+              variant="ghost"
+              size="icon"
+              className="h-8 w-8"
+              disabled={row.completedQuantity > 0 || rows.length === 1}
+              title={row.completedQuantity > 0 ? "Stages with recorded output can't be removed" : undefined}
+              onClick={() => setRows(rows.filter((_, i) => i !== index))}
+              aria-label={`Remove ${row.name}`}
+            >
+              <X className="w-4 h-4" />
+            </Button>
+          </div>
+        </div>
+      ))}
+
+      <div className="flex items-center justify-between">
+        <Button
+          type="button"
+          variant="ghost"
+          size="sm"
+          disabled={rows.length >= MAX_PRODUCTION_STAGES}
+          onClick={() => setRows([...rows, { name: "", plannedQuantity: rows[rows.length - 1]?.plannedQuantity ?? "0", plannedStart: "", plannedEnd: "", completedQuantity: 0 }])}
+        >
+          <Plus className="w-4 h-4 mr-2" />
+          Add Stage
+        </Button>
+        <div className="flex space-x-2">
+          <Button variant="outline" onClick={onDone}>
+            Cancel
+          </Button>
+          <Button
+            onClick={() => saveMutation.mutate()}
+            disabled={rows.some(row => !row.name.trim()) || saveMutation.isPending}
+          >
+            {saveMutation.isPending ? "Saving..." : "Save Stages"}
+          </Button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,150 @@
+import { useState } from "react";
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import { History, ArrowRight } from "lucide-react";
+import { ORDER_STATUS_LABELS, ORDER_STATUS_TRANSITIONS, isOrderStatus } from "@shared/order-status";
+
+interface StatusHistoryEntry {
+  id: string;
+  fromStatus: string | null;
+  toStatus: string;
+  changedByName: string;
+  reason: string | null;
+  createdAt: string;
+}
+
+interface StatusPanelProps {
+  orderId: string;
+  status: string;
+  history: StatusHistoryEntry[];
+  canChangeStatus: boolean;
+}
+
+function statusLabel(status: string) {
+  return isOrderStatus(status) ? ORDER_STATUS_LABELS[status] : status.replace('_', ' ');
+}
+
+export default function StatusPanel({ orderId, status, history, canChangeStatus }: StatusPanelProps) {
+  const [nextStatus, setNextStatus] = useState("");
+  const [reason, setReason] = useState("");
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const allowedNext = isOrderStatus(status) ? ORDER_STATUS_TRANSITIONS[status] : [];
+
+  const changeStatusMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("PATCH", `/api/orders/${orderId}/status`, {
+        status: nextStatus,
+        reason: reason || undefined,
+      });
+      return response.json();
+    },
+    onSuccess: () => {
+      setNextStatus("");
+      setReason("");
+      queryClient.invalidateQueries({ queryKey: ["/api/orders"] });
+      toast({
+        title: "Status Updated",
+        description: `Order moved to ${statusLabel(nextStatus)}.`,
+      });
+    },
+    onError: () => {
+      toast({
+        title: "Error",
+        description: "Failed to change status. Please try again.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const formatDateTime = (dateString: string) => {
+    return new Date(dateString).toLocaleString("en-US", {
+      year: "numeric",
+      month: "short",
+      day: "numeric",
+      hour: "2-digit",
+      minute: "2-digit",
+    });
+  };
+
+  return (
+    <Card className="mt-6">
+      <CardHeader>
+        <CardTitle className="flex items-center space-x-2">
+          <History className="w-5 h-5" />
+          <span>Status</span>
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {canChangeStatus && allowedNext.length > 0 && (
+          <div className="space-y-4">
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <div>
+                <Label>Move to</Label>
+                <Select value={nextStatus} onValueChange={setNextStatus}>
+                  <SelectTrigger className="mt-1">
+                    <SelectValue placeholder="Select next status" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {allowedNext.map((value) => (
+                      <SelectItem key={value} value={value}>
+                        {ORDER_STATUS_LABELS[value]}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div>
+                <Label htmlFor="statusReason">Reason (Optional)</Label>
+                <Input
+                  id="statusReason"
+                  value={reason}
+                  onChange={(e) => setReason(e.target.value)}
+                  placeholder="e.g. Fabric delayed at port"
+                  className="mt-1"
+                />
+              </div>
+            </div>
+            <Button
+              onClick={() => changeStatusMutation.mutate()}
+              disabled={!nextStatus || changeStatusMutation.isPending}
+            >
+              {changeStatusMutation.isPending ? "Updating..." : "Change Status"}
+            </Button>
+          </div>
+        )}
+
+        <div className="space-y-3">
+          {history.length === 0 ? (
+            <p className="text-sm text-slate-500">No status changes recorded yet</p>
+          ) : (
+            [...history].reverse().map((entry) => (
+              <div key={entry.id} className="border-l-2 border-slate-200 pl-3">
+                <div className="flex items-center space-x-2 text-sm font-medium text-slate-900">
+                  {entry.fromStatus ? (
+                    <>
+                      <span>{statusLabel(entry.fromStatus)}</span>
+                      <ArrowRight className="w-3 h-3 text-slate-400" />
+                    </>
+                  ) : null}
+                  <span>{statusLabel(entry.toStatus)}</span>
+                </div>
+                {entry.reason && <p className="text-sm text-slate-600 mt-1">{entry.reason}</p>}
+                <p className="text-xs text-slate-500 mt-1">
+                  {entry.changedByName} · {formatDateTime(entry.createdAt)}
+                </p>
+              </div>
+            ))
+          )}
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
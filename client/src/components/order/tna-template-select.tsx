@@ -0,0 +1,41 @@
+import { useQuery } from "@tanstack/react-query";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import type { TnaTemplateMilestone } from "@shared/tna";
+
+export interface TnaTemplateOption {
+  id: string;
+  name: string;
+  milestones: TnaTemplateMilestone[];
+  isDefault: boolean;
+  builtIn: boolean;
+}
+
+interface TnaTemplateSelectProps {
+  // An empty value stands for the default template
+  value: string;
+  onChange: (templateId: string) => void;
+  id?: string;
+}
+
+// Picks the TNA template an order's milestones are generated from
+export default function TnaTemplateSelect({ value, onChange, id }: TnaTemplateSelectProps) {
+  const { data: templates = [] } = useQuery<TnaTemplateOption[]>({
+    queryKey: ["/api/tna-templates"],
+  });
+  const defaultTemplate = templates.find(template => template.isDefault);
+
+  return (
+    <Select value={value} onValueChange={onChange}>
+      <SelectTrigger id={id} className="mt-1">
+        <SelectValue placeholder={defaultTemplate ? `${defaultTemplate.name} (default)` : "Default template"} />
+      </SelectTrigger>
+      <SelectContent>
+        {templates.map(template => (
+          <SelectItem key={template.id} value={template.id}>
+            {template.name}{template.isDefault && " (default)"} · {template.milestones.length} milestones
+          </SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+}
@@ -0,0 +1,309 @@
+import { useState } from "react";
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import { CalendarClock } from "lucide-react";
+import TnaTemplateSelect from "@/components/order/tna-template-select";
+import { daysOverdue, milestoneState, type MilestoneState } from "@shared/tna";
+
+export interface MilestoneData {
+  id: string;
+  name: string;
+  plannedDate: string;
+  actualDate: string | null;
+  ownerStakeholderId: string | null;
+  completedByName: string | null;
+}
+
+interface MilestoneOwner {
+  id: string;
+  name: string;
+  invitationStatus: string;
+}
+
+interface TnaTimelineProps {
+  orderId: string;
+  milestones: MilestoneData[];
+  stakeholders: MilestoneOwner[];
+  // Update access reschedules and reassigns milestones; owners can complete their own
+  canEdit: boolean;
+  ownStakeholderId: string | null;
+}
+
+const NO_OWNER = "none";
+
+const STATE_DOTS: Record<MilestoneState, string> = {
+  done: "bg-green-500 border-green-500",
+  done_late: "bg-orange-400 border-orange-400",
+  overdue: "bg-red-500 border-red-500",
+  due_soon: "bg-white border-amber-500",
+  upcoming: "bg-white border-slate-300",
+};
+
+// Error messages from apiRequest look like "400: {json}"; show the server's message when there is one
+const errorMessage = (error: Error) => {
+  const json = error.message.replace(/^\d+:\s*/, "");
+  try {
+    return JSON.parse(json).message ?? error.message;
+  } catch {
+    return json;
+  }
+};
+
+// Milestone dates are whole days stored as midnight UTC
+const formatDate = (dateString: string) =>
+  new Date(dateString).toLocaleDateString("en-US", { year: "numeric", month: "short", day: "numeric", timeZone: "UTC" });
+
+// The local date as YYYY-MM-DD, for date inputs
+const today = () => new Date().toLocaleDateString("en-CA");
+
+const daysLate = (milestone: MilestoneData) =>
+  Math.round((new Date(milestone.actualDate!).getTime() - new Date(milestone.plannedDate).getTime()) / (24 * 60 * 60 * 1000));
+
+function StateBadge({ milestone }: { milestone: MilestoneData }) {
+  switch (milestoneState(milestone)) {
+    case "overdue": {
+      const days = daysOverdue(milestone);
+      return <Badge className="bg-red-100 text-red-700">Overdue {days} {days === 1 ? "day" : "days"}</Badge>;
+    }
+    case "due_soon":
+      return <Badge className="bg-amber-100 text-amber-700">Due soon</Badge>;
+    case "done_late":
+      return <Badge className="bg-orange-100 text-orange-700">Done {daysLate(milestone)}d late</Badge>;
+    case "done":
+      return <Badge className="bg-green-100 text-green-700">Done</Badge>;
+    default:
+      return null;
+  }
+}
+
+// The order's time-and-action plan as a timeline, earliest milestone first
+export default function TnaTimeline({ orderId, milestones, stakeholders, canEdit, ownStakeholderId }: TnaTimelineProps) {
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [plannedDate, setPlannedDate] = useState("");
+  const [ownerId, setOwnerId] = useState(NO_OWNER);
+  const [completingId, setCompletingId] = useState<string | null>(null);
+  const [actualDate, setActualDate] = useState(today);
+  const [templateId, setTemplateId] = useState("");
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const activeStakeholders = stakeholders.filter(stakeholder => stakeholder.invitationStatus !== "revoked");
+  const ownerName = (id: string | null) => stakeholders.find(stakeholder => stakeholder.id === id)?.name;
+  const overdueCount = milestones.filter(milestone => milestoneState(milestone) === "overdue").length;
+  const doneCount = milestones.filter(milestone => milestone.actualDate).length;
+
+  const updateMilestoneMutation = useMutation({
+    mutationFn: async ({ id, changes }: { id: string; changes: Record<string, string | null> }) => {
+      const response = await apiRequest("PATCH", `/api/milestones/${id}`, changes);
+      return response.json();
+    },
+    onSuccess: () => {
+      setEditingId(null);
+      setCompletingId(null);
+      queryClient.invalidateQueries({ queryKey: ["/api/orders"] });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Error", description: errorMessage(error), variant: "destructive" });
+    },
+  });
+
+  const generateMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("POST", `/api/orders/${orderId}/milestones`, {
+        templateId: templateId || undefined,
+      });
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/orders"] });
+      toast({
+        title: "TNA Plan Created",
+        description: "Milestones have been planned back from the delivery date.",
+      });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Error", description: errorMessage(error), variant: "destructive" });
+    },
+  });
+
+  const startEditing = (milestone: MilestoneData) => {
+    setCompletingId(null);
+    setEditingId(milestone.id);
+    setPlannedDate(milestone.plannedDate.slice(0, 10));
+    setOwnerId(milestone.ownerStakeholderId ?? NO_OWNER);
+  };
+
+  const startCompleting = (milestone: MilestoneData) => {
+    setEditingId(null);
+    setCompletingId(milestone.id);
+    setActualDate(today());
+  };
+
+  return (
+    <Card className="mt-6">
+      <CardHeader>
+        <CardTitle className="flex items-center justify-between">
+          <span className="flex items-center space-x-2">
+            <CalendarClock className="w-5 h-5" />
+            <span>TNA Calendar</span>
+          </span>
+          {milestones.length > 0 && (
+            <span className="flex items-center space-x-2">
+              {overdueCount > 0 && <Badge className="bg-red-100 text-red-700">{overdueCount} overdue</Badge>}
+              <Badge variant="outline">{doneCount} of {milestones.length} done</Badge>
+            </span>
+          )}
+        </CardTitle>
+      </CardHeader>
+      <CardContent>
+        {milestones.length === 0 ? (
+          <div className="space-y-4">
+            <p className="text-sm text-slate-500">This order has no TNA plan yet</p>
+            {canEdit && (
+              <div className="flex items-end space-x-2">
+                <div className="flex-1">
+                  <Label htmlFor="generateTemplate">Template</Label>
+                  <TnaTemplateSelect id="generateTemplate" value={templateId} onChange={setTemplateId} />
+                </div>
+                <Button onClick={() => generateMutation.mutate()} disabled={generateMutation.isPending}>
+                  {generateMutation.isPending ? "Planning..." : "Create Plan"}
+                </Button>
+              </div>
+            )}
+          </div>
+        ) : (
+          <ol className="relative border-l-2 border-slate-200 ml-2 space-y-6">
+            {milestones.map(milestone => {
+              const canComplete = canEdit || (!!ownStakeholderId && milestone.ownerStakeholderId === ownStakeholderId);
+              return (
+                <li key={milestone.id} className="ml-6">
+                  <span className={`absolute -left-[9px] mt-1 w-4 h-4 rounded-full border-2 ${STATE_DOTS[milestoneState(milestone)]}`} />
+                  <div className="flex flex-wrap items-center justify-between gap-2">
+                    <div className="flex items-center space-x-2">
+                      <span className="font-medium text-slate-900">{milestone.name}</span>
+                      <StateBadge milestone={milestone} />
+                    </div>
+                    <div className="flex space-x-1">
+                      {canComplete && !milestone.actualDate && completingId !== milestone.id && (
+                        <Button variant="ghost" size="sm" onClick={() => startCompleting(milestone)}>
+                          Mark Complete
+                        </Button>
+                      )}
+                      {canComplete && milestone.actualDate && (
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          disabled={updateMilestoneMutation.isPending}
+                          onClick={() => updateMilestoneMutation.mutate({ id: milestone.id, changes: { actualDate: null } })}
+                        >
+                          Reopen
+                        </Button>
+                      )}
+                      {canEdit && editingId !== milestone.id && (
+                        <Button variant="ghost" size="sm" onClick={() => startEditing(milestone)}>
+                          Edit
+                        </Button>
+                      )}
+                    </div>
+                  </div>
+                  <p className="text-sm text-slate-600 mt-1">
+                    Planned {formatDate(milestone.plannedDate)}
+                    {milestone.actualDate && ` · Actual ${formatDate(milestone.actualDate)}`}
+                    {" · "}
+                    {ownerName(milestone.ownerStakeholderId) ?? "No owner"}
+                  </p>
+                  {milestone.completedByName && (
+                    <p className="text-xs text-slate-500 mt-1">Completed by {milestone.completedByName}</p>
+                  )}
+
+                  {completingId === milestone.id && (
+                    <div className="flex items-end space-x-2 mt-3">
+                      <div>
+                        <Label htmlFor={`actual-${milestone.id}`}>Completed on</Label>
+                        <Input
+                          id={`actual-${milestone.id}`}
+                          type="date"
+                          max={today()}
+                          value={actualDate}
+                          onChange={(e) => setActualDate(e.target.value)}
+                          className="mt-1"
+                        />
+                      </div>
+                      <Button
+                        size="sm"
+                        disabled={!actualDate || updateMilestoneMutation.isPending}
+                        onClick={() => updateMilestoneMutation.mutate({
+                          id: milestone.id,
+                          changes: { actualDate: new Date(actualDate).toISOString() },
+                        })}
+                      >
+                        Save
+                      </Button>
+                      <Button size="sm" variant="outline" onClick={() => setCompletingId(null)}>
+                        Cancel
+                      </Button>
+                    </div>
+                  )}
+
+                  {editingId === milestone.id && (
+                    <div className="grid grid-cols-1 md:grid-cols-[10rem_1fr_auto] gap-2 items-end mt-3">
+                      <div>
+                        <Label htmlFor={`planned-${milestone.id}`}>Planned date</Label>
+                        <Input
+                          id={`planned-${milestone.id}`}
+                          type="date"
+                          value={plannedDate}
+                          onChange={(e) => setPlannedDate(e.target.value)}
+                          className="mt-1"
+                        />
+                      </div>
+                      <div>
+                        <Label>Owner</Label>
+                        <Select value={ownerId} onValueChange={setOwnerId}>
+                          <SelectTrigger className="mt-1">
+                            <SelectValue />
+                          </SelectTrigger>
+                          <SelectContent>
+                            <SelectItem value={NO_OWNER}>No owner</SelectItem>
+                            {activeStakeholders.map(stakeholder => (
+                              <SelectItem key={stakeholder.id} value={stakeholder.id}>{stakeholder.name}</SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                      </div>
+                      <div className="flex space-x-2">
+                        <Button
+                          size="sm"
+                          disabled={!plannedDate || updateMilestoneMutation.isPending}
+                          onClick={() => updateMilestoneMutation.mutate({
+                            id: milestone.id,
+                            changes: {
+                              plannedDate: new Date(plannedDate).toISOString(),
+                              ownerStakeholderId: ownerId === NO_OWNER ? null : ownerId,
+                            },
+                          })}
+                        >
+                          Save
+                        </Button>
+                        <Button size="sm" variant="outline" onClick={() => setEditingId(null)}>
+                          Cancel
+                        </Button>
+                      </div>
+                    </div>
+                  )}
+                </li>
+              );
+            })}
+          </ol>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -7,12 +7,14 @@ import { Avatar, AvatarFallback } from "@/components/ui/avatar";
 import { User, Paperclip } from "lucide-react";
 import { apiRequest } from "@/lib/queryClient";
 import { useToast } from "@/hooks/use-toast";
+import AttachmentList, { type Attachment } from "@/components/media/attachment-list";
 
 interface Comment {
   id: string;
   message: string;
   author: string;
   role: string;
+  attachments?: Attachment[];
   createdAt: string;
 }
 
@@ -102,6 +104,7 @@ export default function CommentSystem({ projectId, comments, currentUser }: Comm
                   <span className="text-xs text-slate-500">{formatTimeAgo(comment.createdAt)}</span>
                 </div>
                 <p className="text-sm text-slate-700">{comment.message}</p>
+                <AttachmentList attachments={comment.attachments ?? []} />
               </div>
             </div>
           ))}
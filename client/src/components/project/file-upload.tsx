@@ -10,6 +10,7 @@ interface FileItem {
   fileSize: number;
   mimeType: string;
   createdAt: string;
+  thumbnailUrls?: Partial<Record<'small' | 'medium' | 'large', string>> | null;
 }
 
 interface FileUploadProps {
@@ -103,9 +104,18 @@ export default function FileUpload({ projectId, files }: FileUploadProps) {
           {files.map((file) => (
             <div key={file.id} className="flex items-center justify-between p-3 bg-slate-50 rounded-lg">
               <div className="flex items-center space-x-3">
-                <div className="w-8 h-8 bg-white rounded-lg flex items-center justify-center">
-                  {getFileIcon(file.mimeType)}
-                </div>
+                {file.thumbnailUrls?.small ? (
+                  <img
+                    src={file.thumbnailUrls.small}
+                    alt={file.fileName}
+                    loading="lazy"
+                    className="w-8 h-8 rounded-lg object-cover bg-white"
+                  />
+                ) : (
+                  <div className="w-8 h-8 bg-white rounded-lg flex items-center justify-center">
+                    {getFileIcon(file.mimeType)}
+                  </div>
+                )}
                 <div>
                   <p className="text-sm font-medium text-slate-900">{file.fileName}</p>
                   <p className="text-xs text-slate-500">
@@ -13,7 +13,7 @@ import { Badge } from "@/components/ui/badge";
 import { Textarea } from "@/components/ui/textarea";
 import { useToast } from "@/hooks/use-toast";
 import { apiRequest } from "@/lib/queryClient";
-import { Users, UserPlus, Trash2, Shield, Mail, Plus, X } from "lucide-react";
+import { Users, UserPlus, Trash2, Shield, Mail, Plus, X, RotateCw, Ban } from "lucide-react";
 
 interface Stakeholder {
   id: string;
@@ -21,13 +21,15 @@ interface Stakeholder {
   email: string;
   role: string;
   permissions: string;
+  invitationStatus: 'pending' | 'accepted' | 'expired' | 'revoked';
+  invitedAt?: string | null;
   createdAt: string;
 }
 
 interface StakeholderManagementProps {
   orderId: string;
   stakeholders: Stakeholder[];
-  currentUserRole?: string;
+  canManage?: boolean;
 }
 
 const stakeholderSchema = z.object({
@@ -47,16 +49,13 @@ const bulkInviteSchema = z.object({
 type StakeholderFormData = z.infer<typeof stakeholderSchema>;
 type BulkInviteFormData = z.infer<typeof bulkInviteSchema>;
 
-export default function StakeholderManagement({ orderId, stakeholders, currentUserRole }: StakeholderManagementProps) {
+export default function StakeholderManagement({ orderId, stakeholders, canManage = false }: StakeholderManagementProps) {
   const [isAddingStakeholder, setIsAddingStakeholder] = useState(false);
   const [isBulkInviting, setIsBulkInviting] = useState(false);
   const { toast } = useToast();
   const queryClient = useQueryClient();
 
-  const isAdmin = currentUserRole === 'admin';
-  
-  // Debug logging
-  console.log('StakeholderManagement rendered:', { orderId, currentUserRole, isAdmin, stakeholders: stakeholders?.length });
+  const isAdmin = canManage;
 
   const {
     register,
@@ -79,14 +78,14 @@ export default function StakeholderManagement({ orderId, stakeholders, currentUs
   });
 
   const addStakeholderMutation = useMutation({
-    mutationFn: async (data: StakeholderFormData & { inviterName?: string }) => {
+    mutationFn: async (data: StakeholderFormData) => {
       const response = await apiRequest("POST", `/api/orders/${orderId}/stakeholders`, data);
       return response.json();
     },
     onSuccess: () => {
       reset();
       setIsAddingStakeholder(false);
-      queryClient.invalidateQueries({ queryKey: ["/api/orders", orderId] });
+      queryClient.invalidateQueries({ queryKey: ["/api/orders"] });
       toast({
         title: "Stakeholder Added",
         description: "Stakeholder has been added successfully.",
@@ -107,7 +106,7 @@ export default function StakeholderManagement({ orderId, stakeholders, currentUs
       return response.json();
     },
     onSuccess: () => {
-      queryClient.invalidateQueries({ queryKey: ["/api/orders", orderId] });
+      queryClient.invalidateQueries({ queryKey: ["/api/orders"] });
       toast({
         title: "Stakeholder Removed",
         description: "Stakeholder has been removed successfully.",
@@ -128,7 +127,7 @@ export default function StakeholderManagement({ orderId, stakeholders, currentUs
       return response.json();
     },
     onSuccess: () => {
-      queryClient.invalidateQueries({ queryKey: ["/api/orders", orderId] });
+      queryClient.invalidateQueries({ queryKey: ["/api/orders"] });
       toast({
         title: "Permissions Updated",
         description: "Stakeholder permissions have been updated.",
@@ -143,19 +142,57 @@ export default function StakeholderManagement({ orderId, stakeholders, currentUs
     },
   });
 
+  const resendInvitationMutation = useMutation({
+    mutationFn: async (stakeholderId: string) => {
+      const response = await apiRequest("POST", `/api/stakeholders/${stakeholderId}/invitation/resend`);
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/orders"] });
+      toast({
+        title: "Invitation Resent",
+        description: "A new invitation link has been emailed.",
+      });
+    },
+    onError: () => {
+      toast({
+        title: "Error",
+        description: "Failed to resend invitation. Please try again.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const revokeInvitationMutation = useMutation({
+    mutationFn: async (stakeholderId: string) => {
+      const response = await apiRequest("POST", `/api/stakeholders/${stakeholderId}/invitation/revoke`);
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/orders"] });
+      toast({
+        title: "Invitation Revoked",
+        description: "The stakeholder can no longer access this order.",
+      });
+    },
+    onError: () => {
+      toast({
+        title: "Error",
+        description: "Failed to revoke invitation. Please try again.",
+        variant: "destructive",
+      });
+    },
+  });
+
   const bulkInviteMutation = useMutation({
     mutationFn: async (data: BulkInviteFormData) => {
-      const requestData = {
-        ...data,
-        inviterName: "System Admin" // This would normally come from current user context
-      };
-      const response = await apiRequest("POST", `/api/orders/${orderId}/stakeholders/bulk-invite`, requestData);
+      const response = await apiRequest("POST", `/api/orders/${orderId}/stakeholders/bulk-invite`, data);
       return response.json();
     },
     onSuccess: (result) => {
       resetBulk();
       setIsBulkInviting(false);
-      queryClient.invalidateQueries({ queryKey: ["/api/orders", orderId] });
+      queryClient.invalidateQueries({ queryKey: ["/api/orders"] });
       toast({
         title: "Invitations Sent",
         description: `Successfully sent ${result.successCount} invitations and added ${result.addedCount} stakeholders.`,
@@ -171,10 +208,7 @@ export default function StakeholderManagement({ orderId, stakeholders, currentUs
   });
 
   const onSubmit = (data: StakeholderFormData) => {
-    addStakeholderMutation.mutate({
-      ...data,
-      inviterName: "System Admin" // This would normally come from current user context
-    });
+    addStakeholderMutation.mutate(data);
   };
 
   const onSubmitBulkInvite = (data: BulkInviteFormData) => {
@@ -211,6 +245,21 @@ export default function StakeholderManagement({ orderId, stakeholders, currentUs
     }
   };
 
+  const getInvitationColor = (status: string) => {
+    switch (status) {
+      case "accepted":
+        return "bg-green-100 text-green-700";
+      case "pending":
+        return "bg-blue-100 text-blue-700";
+      case "expired":
+        return "bg-yellow-100 text-yellow-700";
+      case "revoked":
+        return "bg-red-100 text-red-700";
+      default:
+        return "bg-slate-100 text-slate-700";
+    }
+  };
+
   return (
     <Card>
       <CardHeader>
@@ -464,12 +513,39 @@ export default function StakeholderManagement({ orderId, stakeholders, currentUs
                     <Shield className="w-3 h-3 mr-1" />
                     {stakeholder.permissions}
                   </Badge>
+                  {stakeholder.invitationStatus !== 'accepted' && (
+                    <Badge className={getInvitationColor(stakeholder.invitationStatus)}>
+                      {stakeholder.invitationStatus === 'pending' ? 'invite pending' : `invite ${stakeholder.invitationStatus}`}
+                    </Badge>
+                  )}
                 </div>
                 <p className="text-sm text-slate-600">{stakeholder.email}</p>
               </div>
 
               {isAdmin && (
                 <div className="flex items-center space-x-2">
+                  {stakeholder.invitationStatus !== 'accepted' && (
+                    <Button
+                      size="sm"
+                      variant="outline"
+                      title="Resend invitation"
+                      onClick={() => resendInvitationMutation.mutate(stakeholder.id)}
+                      disabled={resendInvitationMutation.isPending}
+                    >
+                      <RotateCw className="w-4 h-4" />
+                    </Button>
+                  )}
+                  {(stakeholder.invitationStatus === 'pending' || stakeholder.invitationStatus === 'expired') && (
+                    <Button
+                      size="sm"
+                      variant="outline"
+                      title="Revoke invitation"
+                      onClick={() => revokeInvitationMutation.mutate(stakeholder.id)}
+                      disabled={revokeInvitationMutation.isPending}
+                    >
+                      <Ban className="w-4 h-4" />
+                    </Button>
+                  )}
                   <Select
                     value={stakeholder.permissions}
                     onValueChange={(value) =>
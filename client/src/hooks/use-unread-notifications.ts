@@ -0,0 +1,11 @@
+import { useQuery } from "@tanstack/react-query";
+
+// Shares the "/api/notifications" key prefix so invalidating the inbox refreshes the badge too
+export function useUnreadNotifications() {
+  const { data } = useQuery<{ count: number }>({
+    queryKey: ["/api/notifications", "unread-count"],
+    refetchInterval: 60_000,
+  });
+
+  return data?.count ?? 0;
+}
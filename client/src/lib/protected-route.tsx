@@ -0,0 +1,25 @@
+import { Route, Redirect } from "wouter";
+import { useAuth } from "@/hooks/use-auth";
+
+interface ProtectedRouteProps {
+  path: string;
+  component: React.ComponentType;
+}
+
+export function ProtectedRoute({ path, component: Component }: ProtectedRouteProps) {
+  const { user, isLoading } = useAuth();
+
+  return (
+    <Route path={path}>
+      {isLoading ? (
+        <div className="min-h-screen bg-slate-50 flex items-center justify-center text-slate-500">
+          Loading...
+        </div>
+      ) : user ? (
+        <Component />
+      ) : (
+        <Redirect to={`/login?next=${encodeURIComponent(window.location.pathname)}`} />
+      )}
+    </Route>
+  );
+}
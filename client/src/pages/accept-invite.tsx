@@ -0,0 +1,164 @@
+import { useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { useRoute, useLocation } from "wouter";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import { MailCheck, AlertCircle } from "lucide-react";
+
+interface InvitationData {
+  status: string;
+  order: { id: string; buyerName: string; styleNumber: string };
+  name: string;
+  email: string;
+  role: string;
+  permissions: string;
+  hasAccount: boolean;
+  signedIn: boolean;
+}
+
+export default function AcceptInvite() {
+  const [, params] = useRoute("/invite/:token");
+  const token = params?.token;
+  const [, navigate] = useLocation();
+  const [name, setName] = useState("");
+  const [password, setPassword] = useState("");
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const { data: invitation, isLoading, error } = useQuery<InvitationData>({
+    queryKey: ["/api/invitations", token],
+    enabled: !!token,
+  });
+
+  const acceptMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("POST", `/api/invitations/${token}/accept`, {
+        name: name || undefined,
+        password: password || undefined,
+      });
+      return response.json();
+    },
+    onSuccess: (result) => {
+      queryClient.clear();
+      queryClient.setQueryData(["/api/auth/me"], result.user);
+      navigate(`/order/${result.orderId}`);
+    },
+    onError: () => {
+      toast({
+        title: "Error",
+        description: "Failed to accept invitation. Please try again.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  if (isLoading) {
+    return (
+      <div className="min-h-screen bg-slate-50 flex items-center justify-center text-slate-500">
+        Loading invitation...
+      </div>
+    );
+  }
+
+  if (error || !invitation) {
+    return (
+      <div className="min-h-screen bg-slate-50 py-16">
+        <div className="max-w-md mx-auto px-4 text-center">
+          <AlertCircle className="w-12 h-12 mx-auto text-red-500 mb-4" />
+          <h1 className="text-2xl font-bold text-slate-900 mb-2">Invitation Unavailable</h1>
+          <p className="text-slate-600">
+            This invitation link is invalid, has already been used, has expired, or was revoked.
+            Ask the person who invited you to send a new one.
+          </p>
+        </div>
+      </div>
+    );
+  }
+
+  const needsPassword = !invitation.hasAccount;
+  // An existing account is only linked once its owner proves it is theirs
+  const needsSignIn = invitation.hasAccount && !invitation.signedIn;
+
+  return (
+    <div className="min-h-screen bg-slate-50 py-16">
+      <div className="max-w-md mx-auto px-4">
+        <div className="text-center mb-8">
+          <MailCheck className="w-12 h-12 mx-auto text-primary mb-4" />
+          <h1 className="text-3xl font-bold text-slate-900 mb-2">You're Invited</h1>
+          <p className="text-slate-600">Join the collaboration on order {invitation.order.id}</p>
+        </div>
+
+        <Card>
+          <CardHeader>
+            <CardTitle>Order {invitation.order.id}</CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <div className="bg-slate-50 rounded-lg p-4 text-sm space-y-1">
+              <p><span className="text-slate-600">Buyer:</span> {invitation.order.buyerName}</p>
+              <p><span className="text-slate-600">Style:</span> {invitation.order.styleNumber}</p>
+              <p><span className="text-slate-600">Invited as:</span> {invitation.email}</p>
+              <div className="flex items-center space-x-2 pt-1">
+                <Badge variant="secondary">{invitation.role.replace('_', ' ')}</Badge>
+                <Badge variant="outline">{invitation.permissions}</Badge>
+              </div>
+            </div>
+
+            {needsPassword && (
+              <>
+                <div>
+                  <Label htmlFor="name">Your Name</Label>
+                  <Input
+                    id="name"
+                    value={name}
+                    onChange={(e) => setName(e.target.value)}
+                    placeholder={invitation.name}
+                    className="mt-1"
+                  />
+                </div>
+                <div>
+                  <Label htmlFor="password">Choose a Password</Label>
+                  <Input
+                    id="password"
+                    type="password"
+                    value={password}
+                    onChange={(e) => setPassword(e.target.value)}
+                    placeholder="At least 8 characters"
+                    className="mt-1"
+                  />
+                </div>
+              </>
+            )}
+
+            {needsSignIn && (
+              <div>
+                <Label htmlFor="password">Password for {invitation.email}</Label>
+                <Input
+                  id="password"
+                  type="password"
+                  value={password}
+                  onChange={(e) => setPassword(e.target.value)}
+                  className="mt-1"
+                />
+              </div>
+            )}
+
+            <Button
+              className="w-full"
+              onClick={() => acceptMutation.mutate()}
+              disabled={acceptMutation.isPending || (needsPassword && password.length < 8) || (needsSignIn && !password)}
+            >
+              {acceptMutation.isPending
+                ? "Accepting..."
+                : needsPassword ? "Create Account & Accept" : "Accept & Sign In"}
+            </Button>
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  );
+}
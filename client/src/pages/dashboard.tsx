@@ -5,8 +5,13 @@ import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
 import { Input } from "@/components/ui/input";
-import { Bell, Package, Image, Plus, Search, Clock, User, Calendar, Package2, Mail } from "lucide-react";
+import ProgressBar from "@/components/order/progress-bar";
+import { Bell, Package, Image, Plus, Search, Clock, User, Calendar, Package2, Mail, LogOut, FileText, ShieldCheck, CalendarClock, AlertTriangle } from "lucide-react";
 import StakeholderManagement from "@/components/stakeholder-management";
+import { useAuth } from "@/hooks/use-auth";
+import { useUnreadNotifications } from "@/hooks/use-unread-notifications";
+import type { ProductionProgress } from "@shared/production";
+import { isAtRisk, type DeliveryRiskLevel } from "@shared/delivery-risk";
 
 interface Order {
   id: string;
@@ -18,11 +23,30 @@ interface Order {
   status: string;
   createdAt: string;
   stakeholders?: any[];
+  production?: ProductionProgress;
+  overdueMilestones?: number;
+  deliveryRisk?: DeliveryRisk | null;
+  access?: { actions: string[] };
 }
 
+interface DeliveryRisk {
+  score: number;
+  level: DeliveryRiskLevel;
+  reasons: string[];
+  assessedAt: string;
+}
+
+const RISK_COLORS: Record<DeliveryRiskLevel, string> = {
+  low: "bg-slate-100 text-slate-700",
+  medium: "bg-amber-100 text-amber-700",
+  high: "bg-red-100 text-red-700",
+};
+
 export default function Dashboard() {
   const [searchQuery, setSearchQuery] = useState("");
   const [location] = useLocation();
+  const { user, logoutMutation } = useAuth();
+  const unreadCount = useUnreadNotifications();
 
   const { data: orders = [], isLoading } = useQuery({
     queryKey: ["/api/orders"],
@@ -71,11 +95,14 @@ export default function Dashboard() {
     order.styleNumber.toLowerCase().includes(searchQuery.toLowerCase())
   );
 
+  // Orders the risk job flagged, highest risk first
+  const atRiskOrders = (orders as Order[])
+    .filter(order => order.deliveryRisk && isAtRisk(order.deliveryRisk.level))
+    .sort((a, b) => b.deliveryRisk!.score - a.deliveryRisk!.score);
+
   const getStatusColor = (status: string) => {
     switch (status) {
-      case "pending":
-        return "bg-yellow-100 text-yellow-700";
-      case "confirmed":
+      case "received":
         return "bg-blue-100 text-blue-700";
       case "in_production":
         return "bg-orange-100 text-orange-700";
@@ -85,6 +112,10 @@ export default function Dashboard() {
         return "bg-green-100 text-green-700";
       case "delivered":
         return "bg-slate-100 text-slate-700";
+      case "on_hold":
+        return "bg-yellow-100 text-yellow-700";
+      case "cancelled":
+        return "bg-red-100 text-red-700";
       default:
         return "bg-slate-100 text-slate-700";
     }
@@ -109,12 +140,56 @@ export default function Dashboard() {
               <Badge variant="secondary" className="text-xs">Manufacturing Platform</Badge>
             </div>
             
-            <Link href="/new-order">
-              <Button className="bg-blue-600 hover:bg-blue-700">
-                <Plus className="w-4 h-4 mr-2" />
-                New Order
+            <div className="flex items-center space-x-4">
+              {user && (
+                <div className="text-right hidden sm:block">
+                  <p className="text-sm font-medium text-slate-900">{user.name}</p>
+                  <p className="text-xs text-slate-500 capitalize">{user.role}</p>
+                </div>
+              )}
+              {user?.isAdmin && (
+                <Link href="/admin/email-outbox">
+                  <Button variant="ghost" size="sm">
+                    <Mail className="w-4 h-4 mr-2" />
+                    Email Delivery
+                  </Button>
+                </Link>
+              )}
+              {user?.isAdmin && (
+                <Link href="/admin/email-templates">
+                  <Button variant="ghost" size="sm">
+                    <FileText className="w-4 h-4 mr-2" />
+                    Email Templates
+                  </Button>
+                </Link>
+              )}
+              {user?.isAdmin && (
+                <Link href="/admin/tna-templates">
+                  <Button variant="ghost" size="sm">
+                    <CalendarClock className="w-4 h-4 mr-2" />
+                    TNA Templates
+                  </Button>
+                </Link>
+              )}
+              {user?.isAdmin && (
+                <Link href="/admin/media-integrity">
+                  <Button variant="ghost" size="sm">
+                    <ShieldCheck className="w-4 h-4 mr-2" />
+                    Media Integrity
+                  </Button>
+                </Link>
+              )}
+              <Button variant="outline" size="sm" onClick={() => logoutMutation.mutate()}>
+                <LogOut className="w-4 h-4 mr-2" />
+                Sign Out
               </Button>
-            </Link>
+              <Link href="/new-order">
+                <Button className="bg-blue-600 hover:bg-blue-700">
+                  <Plus className="w-4 h-4 mr-2" />
+                  New Order
+                </Button>
+              </Link>
+            </div>
           </div>
         </div>
       </div>
@@ -138,6 +213,9 @@ export default function Dashboard() {
                   >
                     <Icon className="w-5 h-5" />
                     <span>{tab.label}</span>
+                    {tab.id === "notifications" && unreadCount > 0 && (
+                      <Badge className="bg-red-500 text-white text-xs px-1.5 py-0">{unreadCount}</Badge>
+                    )}
                   </div>
                 </Link>
               );
@@ -166,6 +244,40 @@ export default function Dashboard() {
             </div>
           </div>
 
+          {/* Delivery Risk */}
+          {atRiskOrders.length > 0 && (
+            <Card className="border-red-200">
+              <CardHeader>
+                <CardTitle className="flex items-center space-x-2">
+                  <AlertTriangle className="w-5 h-5 text-red-600" />
+                  <span>At Risk of Missing Delivery</span>
+                </CardTitle>
+              </CardHeader>
+              <CardContent className="space-y-4">
+                {atRiskOrders.map(order => (
+                  <div key={order.id} className="flex items-start justify-between">
+                    <div>
+                      <div className="flex items-center space-x-2">
+                        <Link href={`/order/${order.id}`} className="font-medium text-slate-900 hover:underline">
+                          Order {order.id}
+                        </Link>
+                        <Badge className={RISK_COLORS[order.deliveryRisk!.level]}>
+                          {order.deliveryRisk!.level === "high" ? "High risk" : "At risk"}
+                        </Badge>
+                      </div>
+                      <ul className="text-sm text-slate-600 mt-1 list-disc pl-5">
+                        {order.deliveryRisk!.reasons.map(reason => (
+                          <li key={reason}>{reason}</li>
+                        ))}
+                      </ul>
+                    </div>
+                    <span className="text-sm text-slate-500 whitespace-nowrap">Due {formatDate(order.estimatedDelivery)}</span>
+                  </div>
+                ))}
+              </CardContent>
+            </Card>
+          )}
+
           {/* Search and Filters */}
           <Card>
             <CardHeader>
@@ -225,6 +337,17 @@ export default function Dashboard() {
                               {order.status.replace('_', ' ').toUpperCase()}
                             </Badge>
                             <span className="text-sm text-slate-600">Created {formatDate(order.createdAt)}</span>
+                            {order.deliveryRisk && isAtRisk(order.deliveryRisk.level) && (
+                              <Badge className={RISK_COLORS[order.deliveryRisk.level]} title={order.deliveryRisk.reasons.join("\n")}>
+                                {order.deliveryRisk.level === "high" ? "High risk" : "At risk"}
+                              </Badge>
+                            )}
+                            {!!order.overdueMilestones && (
+                              <Badge className="bg-red-100 text-red-700">
+                                <AlertTriangle className="w-3 h-3 mr-1" />
+                                {order.overdueMilestones} overdue {order.overdueMilestones === 1 ? "milestone" : "milestones"}
+                              </Badge>
+                            )}
                           </div>
                         </div>
                         <div className="flex space-x-2">
@@ -233,12 +356,14 @@ export default function Dashboard() {
                               View Details
                             </Button>
                           </Link>
-                          <Link href={`/send-update/${order.id}`}>
-                            <Button variant="outline" size="sm">
-                              <Mail className="w-4 h-4 mr-2" />
-                              Send Update
-                            </Button>
-                          </Link>
+                          {order.access?.actions.includes('update') && (
+                            <Link href={`/send-update/${order.id}`}>
+                              <Button variant="outline" size="sm">
+                                <Mail className="w-4 h-4 mr-2" />
+                                Send Update
+                              </Button>
+                            </Link>
+                          )}
                         </div>
                       </div>
 
@@ -268,12 +393,24 @@ export default function Dashboard() {
                         </div>
                       </div>
 
-                      {/* Stakeholder Management - Only show for admin users */}
+                      {order.production && order.production.totalStages > 0 && (
+                        <div className="mb-4">
+                          <div className="flex items-center justify-between text-sm mb-1">
+                            <span className="text-slate-600">
+                              {order.production.currentStage ? `Production · ${order.production.currentStage}` : "Production complete"}
+                            </span>
+                            <span className="font-medium text-slate-900">{order.production.percent}%</span>
+                          </div>
+                          <ProgressBar value={order.production.percent} />
+                        </div>
+                      )}
+
+                      {/* Stakeholder Management - editing only for admins and factory owners */}
                       <div className="border-t pt-4">
                         <StakeholderManagement 
                           orderId={order.id}
                           stakeholders={order.stakeholders || []}
-                          currentUserRole="admin"
+                          canManage={order.access?.actions.includes('manage_stakeholders')}
                         />
                       </div>
                     </div>
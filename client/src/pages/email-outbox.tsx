@@ -0,0 +1,210 @@
+import { useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { Link } from "wouter";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/use-auth";
+import { apiRequest } from "@/lib/queryClient";
+import { Mail, RotateCw, ArrowLeft } from "lucide-react";
+
+type OutboxStatus = 'pending' | 'sending' | 'sent' | 'dead';
+
+interface OutboxEmail {
+  id: string;
+  toAddress: string;
+  subject: string;
+  status: OutboxStatus;
+  attempts: number;
+  maxAttempts: number;
+  nextAttemptAt: string;
+  lastError: string | null;
+  sentAt: string | null;
+  createdAt: string;
+}
+
+interface OutboxPage {
+  items: OutboxEmail[];
+  counts: Record<OutboxStatus, number>;
+}
+
+const STATUSES: OutboxStatus[] = ['pending', 'sending', 'sent', 'dead'];
+
+export default function EmailOutbox() {
+  const [statusFilter, setStatusFilter] = useState<OutboxStatus | null>(null);
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const { data, isLoading } = useQuery<OutboxPage>({
+    queryKey: ["/api/admin/email-outbox", statusFilter],
+    queryFn: async () => {
+      const params = new URLSearchParams({ limit: "100" });
+      if (statusFilter) params.set("status", statusFilter);
+
+      const response = await fetch(`/api/admin/email-outbox?${params}`, { credentials: "include" });
+      if (!response.ok) throw new Error("Failed to fetch email outbox");
+      return response.json();
+    },
+    enabled: !!user?.isAdmin,
+    refetchInterval: 15_000,
+  });
+
+  const retryMutation = useMutation({
+    mutationFn: async (emailId: string) => {
+      const response = await apiRequest("POST", `/api/admin/email-outbox/${emailId}/retry`);
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/admin/email-outbox"] });
+      toast({
+        title: "Email Requeued",
+        description: "The email will be sent again shortly.",
+      });
+    },
+    onError: () => {
+      toast({
+        title: "Error",
+        description: "Failed to requeue email. Please try again.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const getStatusColor = (status: string) => {
+    switch (status) {
+      case "pending":
+        return "bg-yellow-100 text-yellow-700";
+      case "sending":
+        return "bg-blue-100 text-blue-700";
+      case "sent":
+        return "bg-green-100 text-green-700";
+      case "dead":
+        return "bg-red-100 text-red-700";
+      default:
+        return "bg-slate-100 text-slate-700";
+    }
+  };
+
+  const formatDateTime = (dateString: string) => {
+    return new Date(dateString).toLocaleString("en-US", {
+      month: "short",
+      day: "numeric",
+      hour: "2-digit",
+      minute: "2-digit",
+    });
+  };
+
+  if (!user?.isAdmin) {
+    return (
+      <div className="min-h-screen bg-slate-50 flex items-center justify-center text-slate-500">
+        Only platform admins can view email delivery.
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-slate-50 py-8">
+      <div className="max-w-6xl mx-auto px-4 space-y-6">
+        <div className="flex items-center justify-between">
+          <div>
+            <Link href="/" className="inline-flex items-center text-sm text-slate-600 hover:text-slate-900 mb-2">
+              <ArrowLeft className="w-4 h-4 mr-1" />
+              Back to orders
+            </Link>
+            <h1 className="text-3xl font-bold text-slate-900">Email Delivery</h1>
+            <p className="text-slate-600 mt-1">Outgoing notification emails and their delivery status</p>
+          </div>
+        </div>
+
+        <div className="flex items-center space-x-2">
+          <Button
+            variant={statusFilter === null ? "default" : "outline"}
+            size="sm"
+            onClick={() => setStatusFilter(null)}
+          >
+            All
+          </Button>
+          {STATUSES.map((status) => (
+            <Button
+              key={status}
+              variant={statusFilter === status ? "default" : "outline"}
+              size="sm"
+              onClick={() => setStatusFilter(status)}
+            >
+              <span className="capitalize">{status}</span>
+              <Badge variant="secondary" className="ml-2">{data?.counts[status] ?? 0}</Badge>
+            </Button>
+          ))}
+        </div>
+
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center space-x-2">
+              <Mail className="w-5 h-5" />
+              <span>Outbox</span>
+            </CardTitle>
+          </CardHeader>
+          <CardContent>
+            {isLoading ? (
+              <div className="text-center py-8 text-slate-500">Loading emails...</div>
+            ) : !data || data.items.length === 0 ? (
+              <div className="text-center py-8 text-slate-500">No emails</div>
+            ) : (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Recipient</TableHead>
+                    <TableHead>Subject</TableHead>
+                    <TableHead>Status</TableHead>
+                    <TableHead>Attempts</TableHead>
+                    <TableHead>Queued</TableHead>
+                    <TableHead></TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {data.items.map((email) => (
+                    <TableRow key={email.id}>
+                      <TableCell className="font-medium">{email.toAddress}</TableCell>
+                      <TableCell>
+                        <p>{email.subject}</p>
+                        {email.lastError && email.status !== 'sent' && (
+                          <p className="text-xs text-red-600 mt-1">{email.lastError}</p>
+                        )}
+                      </TableCell>
+                      <TableCell>
+                        <Badge className={getStatusColor(email.status)}>{email.status}</Badge>
+                        {email.status === 'pending' && email.attempts > 0 && (
+                          <p className="text-xs text-slate-500 mt-1">Retry {formatDateTime(email.nextAttemptAt)}</p>
+                        )}
+                      </TableCell>
+                      <TableCell>{email.attempts}/{email.maxAttempts}</TableCell>
+                      <TableCell className="text-sm text-slate-600">
+                        {formatDateTime(email.sentAt ?? email.createdAt)}
+                      </TableCell>
+                      <TableCell>
+                        {email.status === 'dead' && (
+                          <Button
+                            variant="outline"
+                            size="sm"
+                            onClick={() => retryMutation.mutate(email.id)}
+                            disabled={retryMutation.isPending}
+                          >
+                            <RotateCw className="w-4 h-4 mr-1" />
+                            Retry
+                          </Button>
+                        )}
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,407 @@
+import { useEffect, useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { Link } from "wouter";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/use-auth";
+import { apiRequest } from "@/lib/queryClient";
+import { ArrowLeft, FileText, Palette, RotateCcw, Save } from "lucide-react";
+
+interface EmailTemplate {
+  name: string;
+  description: string;
+  subject: string;
+  body: string;
+  variables: Record<string, string>;
+  isCustomized: boolean;
+  updatedAt: string | null;
+}
+
+interface EmailPreview {
+  subject: string;
+  html: string;
+  text: string;
+}
+
+interface EmailBranding {
+  productName: string;
+  logoUrl: string | null;
+  primaryColor: string;
+  footerText: string;
+}
+
+const SYNTAX_HELP = [
+  ["{{name}}", "Insert a variable (always escaped)"],
+  ["# Heading", "Heading"],
+  ["**bold**", "Bold text"],
+  ["> text", "Quoted block"],
+  ["[Label](url)", "Button"],
+  ["---", "Divider"],
+  ["{{#if name}}…{{else}}…{{/if}}", "Conditional"],
+  ["{{#each list}}…{{/each}}", "Repeat for each item"],
+];
+
+const templateLabel = (name: string) =>
+  name.split("_").map(word => word.charAt(0).toUpperCase() + word.slice(1)).join(" ");
+
+// Error messages from apiRequest look like "400: {json}"; show the server's message when there is one
+const errorMessage = (error: Error) => {
+  const json = error.message.replace(/^\d+:\s*/, "");
+  try {
+    return JSON.parse(json).message ?? error.message;
+  } catch {
+    return json;
+  }
+};
+
+function BrandingForm() {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [draft, setDraft] = useState<EmailBranding | null>(null);
+
+  const { data: branding } = useQuery<EmailBranding>({
+    queryKey: ["/api/admin/email-branding"],
+  });
+
+  useEffect(() => {
+    if (branding) setDraft(branding);
+  }, [branding]);
+
+  const saveMutation = useMutation({
+    mutationFn: async (values: EmailBranding) => {
+      const response = await apiRequest("PUT", "/api/admin/email-branding", {
+        ...values,
+        logoUrl: values.logoUrl || null,
+      });
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/admin/email-branding"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/admin/email-templates"] });
+      toast({
+        title: "Branding Saved",
+        description: "New emails will use the updated branding.",
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: errorMessage(error),
+        variant: "destructive",
+      });
+    },
+  });
+
+  if (!draft) return null;
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center space-x-2">
+          <Palette className="w-5 h-5" />
+          <span>Branding</span>
+        </CardTitle>
+      </CardHeader>
+      <CardContent>
+        <form
+          className="grid grid-cols-1 md:grid-cols-2 gap-4"
+          onSubmit={(e) => {
+            e.preventDefault();
+            saveMutation.mutate(draft);
+          }}
+        >
+          <div className="space-y-2">
+            <Label htmlFor="productName">Product name</Label>
+            <Input
+              id="productName"
+              value={draft.productName}
+              onChange={(e) => setDraft({ ...draft, productName: e.target.value })}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="logoUrl">Logo URL</Label>
+            <Input
+              id="logoUrl"
+              placeholder="https://example.com/logo.png"
+              value={draft.logoUrl ?? ""}
+              onChange={(e) => setDraft({ ...draft, logoUrl: e.target.value })}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="primaryColor">Primary color</Label>
+            <div className="flex items-center space-x-2">
+              <input
+                type="color"
+                aria-label="Pick primary color"
+                value={draft.primaryColor}
+                onChange={(e) => setDraft({ ...draft, primaryColor: e.target.value })}
+                className="h-9 w-12 rounded border border-slate-200"
+              />
+              <Input
+                id="primaryColor"
+                value={draft.primaryColor}
+                onChange={(e) => setDraft({ ...draft, primaryColor: e.target.value })}
+              />
+            </div>
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="footerText">Footer</Label>
+            <Input
+              id="footerText"
+              value={draft.footerText}
+              onChange={(e) => setDraft({ ...draft, footerText: e.target.value })}
+            />
+          </div>
+          <div className="md:col-span-2">
+            <Button type="submit" disabled={saveMutation.isPending}>
+              <Save className="w-4 h-4 mr-2" />
+              {saveMutation.isPending ? "Saving..." : "Save Branding"}
+            </Button>
+          </div>
+        </form>
+      </CardContent>
+    </Card>
+  );
+}
+
+export default function EmailTemplates() {
+  const [selectedName, setSelectedName] = useState<string | null>(null);
+  const [subject, setSubject] = useState("");
+  const [body, setBody] = useState("");
+  const [draftKey, setDraftKey] = useState("");
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const { data: templates, isLoading } = useQuery<EmailTemplate[]>({
+    queryKey: ["/api/admin/email-templates"],
+    enabled: !!user?.isAdmin,
+  });
+
+  const selected = templates?.find(t => t.name === selectedName) ?? templates?.[0];
+  const isDirty = !!selected && (subject !== selected.subject || body !== selected.body);
+
+  // Load the template into the editor when switching templates or after it is saved
+  useEffect(() => {
+    if (selected) {
+      setSubject(selected.subject);
+      setBody(selected.body);
+    }
+  }, [selected?.name, selected?.subject, selected?.body]);
+
+  // Re-render the preview shortly after the author stops typing
+  useEffect(() => {
+    const timer = setTimeout(() => setDraftKey(`${subject}\u0000${body}`), 400);
+    return () => clearTimeout(timer);
+  }, [subject, body]);
+
+  const { data: preview, error: previewError } = useQuery<EmailPreview, Error>({
+    queryKey: ["/api/admin/email-templates", selected?.name, "preview", draftKey],
+    queryFn: async () => {
+      const [draftSubject, draftBody] = draftKey.split("\u0000");
+      const response = await apiRequest("POST", `/api/admin/email-templates/${selected!.name}/preview`, {
+        subject: draftSubject,
+        body: draftBody,
+      });
+      return response.json();
+    },
+    enabled: !!selected && draftKey !== "",
+    retry: false,
+  });
+
+  const saveMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("PUT", `/api/admin/email-templates/${selected!.name}`, { subject, body });
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/admin/email-templates"] });
+      toast({
+        title: "Template Saved",
+        description: `The ${templateLabel(selected!.name)} email has been updated.`,
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: errorMessage(error),
+        variant: "destructive",
+      });
+    },
+  });
+
+  const resetMutation = useMutation({
+    mutationFn: async () => {
+      await apiRequest("DELETE", `/api/admin/email-templates/${selected!.name}`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/admin/email-templates"] });
+      toast({
+        title: "Template Reset",
+        description: `The ${templateLabel(selected!.name)} email is back to its default wording.`,
+      });
+    },
+    onError: () => {
+      toast({
+        title: "Error",
+        description: "Failed to reset template. Please try again.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  if (!user?.isAdmin) {
+    return (
+      <div className="min-h-screen bg-slate-50 flex items-center justify-center text-slate-500">
+        Only platform admins can edit email templates.
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-slate-50 py-8">
+      <div className="max-w-6xl mx-auto px-4 space-y-6">
+        <div>
+          <Link href="/" className="inline-flex items-center text-sm text-slate-600 hover:text-slate-900 mb-2">
+            <ArrowLeft className="w-4 h-4 mr-1" />
+            Back to orders
+          </Link>
+          <h1 className="text-3xl font-bold text-slate-900">Email Templates</h1>
+          <p className="text-slate-600 mt-1">Wording and branding of the emails the platform sends</p>
+        </div>
+
+        {isLoading || !templates || !selected ? (
+          <div className="text-center py-8 text-slate-500">Loading templates...</div>
+        ) : (
+          <div className="grid grid-cols-1 lg:grid-cols-4 gap-6">
+            <div className="space-y-2">
+              {templates.map((template) => (
+                <button
+                  key={template.name}
+                  onClick={() => setSelectedName(template.name)}
+                  className={`w-full text-left p-3 rounded-lg border transition-colors ${
+                    template.name === selected.name
+                      ? "bg-blue-50 border-blue-200"
+                      : "bg-white border-slate-200 hover:bg-slate-50"
+                  }`}
+                >
+                  <div className="flex items-center justify-between">
+                    <span className="font-medium text-slate-900">{templateLabel(template.name)}</span>
+                    {template.isCustomized && <Badge variant="secondary">Edited</Badge>}
+                  </div>
+                  <p className="text-xs text-slate-500 mt-1">{template.description}</p>
+                </button>
+              ))}
+            </div>
+
+            <div className="lg:col-span-3 space-y-6">
+              <Card>
+                <CardHeader>
+                  <CardTitle className="flex items-center space-x-2">
+                    <FileText className="w-5 h-5" />
+                    <span>{templateLabel(selected.name)}</span>
+                  </CardTitle>
+                </CardHeader>
+                <CardContent className="space-y-4">
+                  <div className="space-y-2">
+                    <Label htmlFor="subject">Subject</Label>
+                    <Input id="subject" value={subject} onChange={(e) => setSubject(e.target.value)} />
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="body">Body</Label>
+                    <Textarea
+                      id="body"
+                      value={body}
+                      onChange={(e) => setBody(e.target.value)}
+                      rows={16}
+                      className="font-mono text-sm"
+                    />
+                  </div>
+
+                  <div className="grid grid-cols-1 md:grid-cols-2 gap-4 text-sm">
+                    <div>
+                      <h4 className="font-medium text-slate-900 mb-2">Variables</h4>
+                      <ul className="space-y-1">
+                        {Object.entries(selected.variables).map(([name, description]) => (
+                          <li key={name}>
+                            <code className="text-blue-700">{`{{${name}}}`}</code>
+                            <span className="text-slate-600"> — {description}</span>
+                          </li>
+                        ))}
+                      </ul>
+                    </div>
+                    <div>
+                      <h4 className="font-medium text-slate-900 mb-2">Formatting</h4>
+                      <ul className="space-y-1">
+                        {SYNTAX_HELP.map(([syntax, description]) => (
+                          <li key={syntax}>
+                            <code className="text-blue-700">{syntax}</code>
+                            <span className="text-slate-600"> — {description}</span>
+                          </li>
+                        ))}
+                      </ul>
+                    </div>
+                  </div>
+
+                  <div className="flex items-center space-x-2">
+                    <Button onClick={() => saveMutation.mutate()} disabled={!isDirty || saveMutation.isPending}>
+                      <Save className="w-4 h-4 mr-2" />
+                      {saveMutation.isPending ? "Saving..." : "Save Template"}
+                    </Button>
+                    {selected.isCustomized && (
+                      <Button
+                        variant="outline"
+                        onClick={() => resetMutation.mutate()}
+                        disabled={resetMutation.isPending}
+                      >
+                        <RotateCcw className="w-4 h-4 mr-2" />
+                        Reset to Default
+                      </Button>
+                    )}
+                  </div>
+                </CardContent>
+              </Card>
+
+              <Card>
+                <CardHeader>
+                  <CardTitle>Preview</CardTitle>
+                </CardHeader>
+                <CardContent className="space-y-4">
+                  {previewError ? (
+                    <div className="p-3 rounded bg-red-50 text-sm text-red-700">{errorMessage(previewError)}</div>
+                  ) : !preview ? (
+                    <div className="text-center py-8 text-slate-500">Rendering preview...</div>
+                  ) : (
+                    <>
+                      <p className="text-sm">
+                        <span className="font-medium text-slate-900">Subject: </span>
+                        <span className="text-slate-700">{preview.subject}</span>
+                      </p>
+                      <iframe
+                        title="HTML preview"
+                        sandbox=""
+                        srcDoc={preview.html}
+                        className="w-full h-96 rounded border border-slate-200 bg-white"
+                      />
+                      <div>
+                        <h4 className="text-sm font-medium text-slate-900 mb-2">Plain text</h4>
+                        <pre className="p-3 rounded bg-slate-100 text-xs text-slate-700 whitespace-pre-wrap">{preview.text}</pre>
+                      </div>
+                    </>
+                  )}
+                </CardContent>
+              </Card>
+            </div>
+          </div>
+        )}
+
+        <BrandingForm />
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,173 @@
+import { useState } from "react";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { z } from "zod";
+import { Redirect } from "wouter";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/use-auth";
+import { LogIn, Shirt } from "lucide-react";
+
+const loginSchema = z.object({
+  email: z.string().email("Valid email is required"),
+  password: z.string().min(1, "Password is required"),
+});
+
+const registerSchema = z.object({
+  name: z.string().min(1, "Name is required"),
+  email: z.string().email("Valid email is required"),
+  password: z.string().min(8, "Password must be at least 8 characters"),
+  role: z.enum(['manufacturer', 'buyer']),
+});
+
+type LoginFormData = z.infer<typeof loginSchema>;
+type RegisterFormData = z.infer<typeof registerSchema>;
+
+export default function Login() {
+  const [mode, setMode] = useState<'login' | 'register'>('login');
+  const { user, loginMutation, registerMutation } = useAuth();
+  const { toast } = useToast();
+
+  const loginForm = useForm<LoginFormData>({
+    resolver: zodResolver(loginSchema),
+  });
+
+  const registerForm = useForm<RegisterFormData>({
+    resolver: zodResolver(registerSchema),
+  });
+
+  if (user) {
+    const next = new URLSearchParams(window.location.search).get("next");
+    return <Redirect to={next && next.startsWith("/") ? next : "/"} />;
+  }
+
+  const onLogin = (data: LoginFormData) => {
+    loginMutation.mutate(data, {
+      onError: () => {
+        toast({
+          title: "Login Failed",
+          description: "Invalid email or password.",
+          variant: "destructive",
+        });
+      },
+    });
+  };
+
+  const onRegister = (data: RegisterFormData) => {
+    registerMutation.mutate(data, {
+      onError: () => {
+        toast({
+          title: "Error",
+          description: "Failed to create account. The email may already be registered.",
+          variant: "destructive",
+        });
+      },
+    });
+  };
+
+  return (
+    <div className="min-h-screen bg-slate-50 py-16">
+      <div className="max-w-md mx-auto px-4">
+        <div className="text-center mb-8">
+          <Shirt className="w-12 h-12 mx-auto text-primary mb-4" />
+          <h1 className="text-3xl font-bold text-slate-900 mb-2">GarmentSync</h1>
+          <p className="text-slate-600">
+            {mode === 'login' ? "Sign in to track your orders" : "Create an account to get started"}
+          </p>
+        </div>
+
+        <Card>
+          <CardHeader>
+            <CardTitle>{mode === 'login' ? "Sign In" : "Create Account"}</CardTitle>
+          </CardHeader>
+          <CardContent>
+            {mode === 'login' ? (
+              <form onSubmit={loginForm.handleSubmit(onLogin)} className="space-y-4">
+                <div>
+                  <Label htmlFor="email">Email</Label>
+                  <Input id="email" type="email" {...loginForm.register("email")} className="mt-1" />
+                  {loginForm.formState.errors.email && (
+                    <p className="text-sm text-red-500 mt-1">{loginForm.formState.errors.email.message}</p>
+                  )}
+                </div>
+
+                <div>
+                  <Label htmlFor="password">Password</Label>
+                  <Input id="password" type="password" {...loginForm.register("password")} className="mt-1" />
+                  {loginForm.formState.errors.password && (
+                    <p className="text-sm text-red-500 mt-1">{loginForm.formState.errors.password.message}</p>
+                  )}
+                </div>
+
+                <Button type="submit" className="w-full" disabled={loginMutation.isPending}>
+                  <LogIn className="w-4 h-4 mr-2" />
+                  {loginMutation.isPending ? "Signing In..." : "Sign In"}
+                </Button>
+              </form>
+            ) : (
+              <form onSubmit={registerForm.handleSubmit(onRegister)} className="space-y-4">
+                <div>
+                  <Label htmlFor="name">Name</Label>
+                  <Input id="name" {...registerForm.register("name")} className="mt-1" />
+                  {registerForm.formState.errors.name && (
+                    <p className="text-sm text-red-500 mt-1">{registerForm.formState.errors.name.message}</p>
+                  )}
+                </div>
+
+                <div>
+                  <Label htmlFor="registerEmail">Email</Label>
+                  <Input id="registerEmail" type="email" {...registerForm.register("email")} className="mt-1" />
+                  {registerForm.formState.errors.email && (
+                    <p className="text-sm text-red-500 mt-1">{registerForm.formState.errors.email.message}</p>
+                  )}
+                </div>
+
+                <div>
+                  <Label htmlFor="registerPassword">Password</Label>
+                  <Input id="registerPassword" type="password" {...registerForm.register("password")} className="mt-1" />
+                  {registerForm.formState.errors.password && (
+                    <p className="text-sm text-red-500 mt-1">{registerForm.formState.errors.password.message}</p>
+                  )}
+                </div>
+
+                <div>
+                  <Label>Role</Label>
+                  <Select onValueChange={(value) => registerForm.setValue("role", value as "manufacturer" | "buyer")}>
+                    <SelectTrigger className="mt-1">
+                      <SelectValue placeholder="Select your role" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="manufacturer">Manufacturer</SelectItem>
+                      <SelectItem value="buyer">Buyer</SelectItem>
+                    </SelectContent>
+                  </Select>
+                  {registerForm.formState.errors.role && (
+                    <p className="text-sm text-red-500 mt-1">{registerForm.formState.errors.role.message}</p>
+                  )}
+                </div>
+
+                <Button type="submit" className="w-full" disabled={registerMutation.isPending}>
+                  {registerMutation.isPending ? "Creating Account..." : "Create Account"}
+                </Button>
+              </form>
+            )}
+
+            <div className="text-center mt-6">
+              <Button
+                type="button"
+                variant="link"
+                onClick={() => setMode(mode === 'login' ? 'register' : 'login')}
+              >
+                {mode === 'login' ? "Don't have an account? Create one" : "Already have an account? Sign in"}
+              </Button>
+            </div>
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  );
+}
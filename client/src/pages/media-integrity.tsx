@@ -0,0 +1,171 @@
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { Link } from "wouter";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/use-auth";
+import { apiRequest } from "@/lib/queryClient";
+import { ShieldCheck, RotateCw, ArrowLeft } from "lucide-react";
+
+interface AffectedFile {
+  id: string;
+  orderId: string;
+  originalName: string;
+  uploadedBy: string;
+  uploadedAt: string;
+}
+
+interface DamagedBlob {
+  hash: string;
+  storageKey: string;
+  size: number;
+  integrityStatus: 'missing' | 'corrupt';
+  lastVerifiedAt: string | null;
+  files: AffectedFile[];
+}
+
+interface IntegrityReport {
+  lastRun: {
+    startedAt: string;
+    finishedAt: string;
+    checked: number;
+    missing: number;
+    corrupt: number;
+  } | null;
+  damaged: DamagedBlob[];
+}
+
+export default function MediaIntegrity() {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const { data, isLoading } = useQuery<IntegrityReport>({
+    queryKey: ["/api/admin/media-integrity"],
+    enabled: !!user?.isAdmin,
+    refetchInterval: 15_000,
+  });
+
+  const runMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("POST", "/api/admin/media-integrity/run");
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/admin/media-integrity"] });
+      toast({
+        title: "Check Started",
+        description: "Stored files are being verified in the background.",
+      });
+    },
+    onError: () => {
+      toast({
+        title: "Error",
+        description: "Failed to start the integrity check. Please try again.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const formatDateTime = (dateString: string) => {
+    return new Date(dateString).toLocaleString("en-US", {
+      month: "short",
+      day: "numeric",
+      hour: "2-digit",
+      minute: "2-digit",
+    });
+  };
+
+  if (!user?.isAdmin) {
+    return (
+      <div className="min-h-screen bg-slate-50 flex items-center justify-center text-slate-500">
+        Only platform admins can view media integrity.
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-slate-50 py-8">
+      <div className="max-w-6xl mx-auto px-4 space-y-6">
+        <div className="flex items-center justify-between">
+          <div>
+            <Link href="/" className="inline-flex items-center text-sm text-slate-600 hover:text-slate-900 mb-2">
+              <ArrowLeft className="w-4 h-4 mr-1" />
+              Back to orders
+            </Link>
+            <h1 className="text-3xl font-bold text-slate-900">Media Integrity</h1>
+            <p className="text-slate-600 mt-1">Stored files that are missing or no longer match their checksum</p>
+          </div>
+          <Button variant="outline" onClick={() => runMutation.mutate()} disabled={runMutation.isPending}>
+            <RotateCw className="w-4 h-4 mr-2" />
+            Check Now
+          </Button>
+        </div>
+
+        <p className="text-sm text-slate-600">
+          {data?.lastRun
+            ? `Last check finished ${formatDateTime(data.lastRun.finishedAt)}: ${data.lastRun.checked} files checked, ${data.lastRun.missing} missing, ${data.lastRun.corrupt} corrupt.`
+            : "No check has run since the server started."}
+        </p>
+
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center space-x-2">
+              <ShieldCheck className="w-5 h-5" />
+              <span>Damaged Files</span>
+            </CardTitle>
+          </CardHeader>
+          <CardContent>
+            {isLoading ? (
+              <div className="text-center py-8 text-slate-500">Loading report...</div>
+            ) : !data || data.damaged.length === 0 ? (
+              <div className="text-center py-8 text-slate-500">No damaged files</div>
+            ) : (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Status</TableHead>
+                    <TableHead>Affected Files</TableHead>
+                    <TableHead>Storage Key</TableHead>
+                    <TableHead>Last Checked</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {data.damaged.map((blob) => (
+                    <TableRow key={blob.hash}>
+                      <TableCell>
+                        <Badge className="bg-red-100 text-red-700">{blob.integrityStatus}</Badge>
+                      </TableCell>
+                      <TableCell>
+                        {blob.files.map((file) => (
+                          <p key={file.id} className="text-sm">
+                            <Link href={`/order/${file.orderId}`} className="font-medium hover:underline">
+                              {file.orderId}
+                            </Link>{" "}
+                            {file.originalName}
+                            <span className="text-xs text-slate-500"> · {file.uploadedBy}</span>
+                          </p>
+                        ))}
+                      </TableCell>
+                      <TableCell className="font-mono text-xs text-slate-600">{blob.storageKey}</TableCell>
+                      <TableCell className="text-sm text-slate-600">
+                        {blob.lastVerifiedAt ? formatDateTime(blob.lastVerifiedAt) : "—"}
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            )}
+            {data && data.damaged.length > 0 && (
+              <p className="text-xs text-slate-500 mt-4">
+                Uploading the original file again to any order restores the stored copy for every file that shares it.
+              </p>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  );
+}
@@ -8,7 +8,8 @@ import { Badge } from "@/components/ui/badge";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { useToast } from "@/hooks/use-toast";
 import { apiRequest } from "@/lib/queryClient";
-import { Image, Upload, Download, Trash2, Eye, Search, Filter, Package, Calendar } from "lucide-react";
+import { Image, Upload, Download, Trash2, Eye, Search, Filter, Package, Calendar, History, PenTool, FileArchive, ShieldCheck, ShieldAlert, ShieldQuestion, Loader2 } from "lucide-react";
+import AnnotationViewer from "@/components/media/annotation-viewer";
 
 interface MediaFile {
   id: string;
@@ -22,6 +23,23 @@ interface MediaFile {
   uploadedAt: string;
   category: 'product_photos' | 'technical_drawings' | 'specifications' | 'samples' | 'other';
   description?: string;
+  documentId: string | null;
+  version: number;
+  changeNote: string | null;
+  isLatest: boolean;
+  scanStatus: 'pending' | 'scanning' | 'clean' | 'infected' | 'failed';
+  scanVerdict: string | null;
+  scannedBy: string | null;
+  scannedAt: string | null;
+  previewStatus: 'pending' | 'processing' | 'ready' | 'failed' | 'unsupported';
+  thumbnailUrls: Partial<Record<'small' | 'medium' | 'large', string>> | null;
+}
+
+// An earlier upload of the same content, reported by the server after upload
+interface DuplicateFile {
+  id: string;
+  orderId: string;
+  originalName: string;
 }
 
 interface Order {
@@ -31,24 +49,118 @@ interface Order {
   status: string;
 }
 
+// Photos only open once the server has re-saved them without their location data
+const canOpen = (file: MediaFile) =>
+  file.scanStatus === 'clean' &&
+  (!file.mimeType.startsWith('image/') || file.previewStatus === 'ready' || file.previewStatus === 'unsupported');
+
+const formatVersionDate = (dateString: string) =>
+  new Date(dateString).toLocaleDateString("en-US", { year: "numeric", month: "short", day: "numeric" });
+
+// Malware scan verdict; files can only be opened once the scan has passed them
+function ScanBadge({ file }: { file: MediaFile }) {
+  switch (file.scanStatus) {
+    case 'pending':
+    case 'scanning':
+      return (
+        <Badge variant="outline" className="text-xs text-slate-600">
+          <Loader2 className="w-3 h-3 mr-1 animate-spin" />
+          Scanning
+        </Badge>
+      );
+    case 'infected':
+      return (
+        <Badge className="text-xs bg-red-100 text-red-700" title={file.scanVerdict ?? undefined}>
+          <ShieldAlert className="w-3 h-3 mr-1" />
+          Rejected: {file.scanVerdict}
+        </Badge>
+      );
+    case 'failed':
+      return (
+        <Badge className="text-xs bg-amber-100 text-amber-700" title={file.scanVerdict ?? undefined}>
+          <ShieldQuestion className="w-3 h-3 mr-1" />
+          Not scanned
+        </Badge>
+      );
+    default:
+      // Deployments without a scanner mark files clean without checking them
+      return file.scannedBy && file.scannedBy !== 'none' ? (
+        <Badge variant="outline" className="text-xs text-green-700" title={`Scanned by ${file.scannedBy}`}>
+          <ShieldCheck className="w-3 h-3 mr-1" />
+          Scanned
+        </Badge>
+      ) : null;
+  }
+}
+
+// Earlier versions of a document, loaded when its history is opened
+function VersionHistory({ fileId }: { fileId: string }) {
+  const { data: versions = [], isLoading } = useQuery<MediaFile[]>({
+    queryKey: ["/api/media", fileId, "versions"],
+  });
+
+  if (isLoading) {
+    return <p className="text-xs text-slate-500 mt-3">Loading versions...</p>;
+  }
+
+  return (
+    <div className="mt-3 border-t pt-3 space-y-2">
+      {versions.map((version) => (
+        <div key={version.id} className="flex items-start justify-between text-sm">
+          <div>
+            <div className="flex items-center space-x-2">
+              <Badge variant={version.isLatest ? "default" : "secondary"} className="text-xs">v{version.version}</Badge>
+              <span className="text-slate-700">{version.originalName}</span>
+              {version.isLatest && <span className="text-xs text-green-600">current</span>}
+            </div>
+            <p className="text-xs text-slate-500 mt-1">
+              {formatVersionDate(version.uploadedAt)} by {version.uploadedBy}
+            </p>
+            {version.changeNote && <p className="text-xs text-slate-600 mt-1">{version.changeNote}</p>}
+          </div>
+          {canOpen(version) ? (
+            <a href={`${version.url}?download=1`} className="text-slate-500 hover:text-slate-900">
+              <Download className="w-4 h-4" />
+            </a>
+          ) : (
+            <ScanBadge file={version} />
+          )}
+        </div>
+      ))}
+    </div>
+  );
+}
+
 export default function Media() {
   const [selectedFiles, setSelectedFiles] = useState<File[]>([]);
   const [uploadingOrderId, setUploadingOrderId] = useState("");
   const [uploadCategory, setUploadCategory] = useState<string>("");
   const [uploadDescription, setUploadDescription] = useState("");
+  const [revisionOf, setRevisionOf] = useState("none");
+  const [changeNote, setChangeNote] = useState("");
+  const [historyFileId, setHistoryFileId] = useState<string | null>(null);
+  const [annotatingFile, setAnnotatingFile] = useState<MediaFile | null>(null);
   const [searchQuery, setSearchQuery] = useState("");
   const [filterCategory, setFilterCategory] = useState<string>("all");
   const [filterOrder, setFilterOrder] = useState<string>("all");
   const { toast } = useToast();
   const queryClient = useQueryClient();
 
-  const { data: mediaFiles = [], isLoading } = useQuery({
+  const { data: mediaFiles = [], isLoading } = useQuery<MediaFile[]>({
     queryKey: ["/api/media"],
     queryFn: async () => {
       const response = await fetch("/api/media");
       if (!response.ok) throw new Error("Failed to fetch media files");
       return response.json();
     },
+    // Scans and thumbnails run in the background after upload; check back until they are done
+    refetchInterval: (query) =>
+      query.state.data?.some(file =>
+        file.scanStatus === 'pending' || file.scanStatus === 'scanning' ||
+        (file.scanStatus === 'clean' && (file.previewStatus === 'pending' || file.previewStatus === 'processing'))
+      )
+        ? 5000
+        : false,
   });
 
   const { data: orders = [] } = useQuery({
@@ -66,24 +178,40 @@ export default function Media() {
         method: "POST",
         body: formData,
       });
-      if (!response.ok) throw new Error("Failed to upload files");
+      if (!response.ok) {
+        // Size and file type limits come back with a message worth showing
+        const body = await response.json().catch(() => null);
+        throw new Error(body?.message || "Failed to upload files. Please try again.");
+      }
       return response.json();
     },
-    onSuccess: () => {
+    onSuccess: (data: { files: Array<MediaFile & { duplicates: DuplicateFile[] }> }) => {
       setSelectedFiles([]);
       setUploadingOrderId("");
       setUploadCategory("");
       setUploadDescription("");
+      setRevisionOf("none");
+      setChangeNote("");
       queryClient.invalidateQueries({ queryKey: ["/api/media"] });
+
+      // The same bytes were uploaded before; say where so nobody keeps copies by accident
+      const hints = data.files
+        .filter((file) => file.duplicates.length > 0)
+        .map((file) => {
+          const orderIds = Array.from(new Set(file.duplicates.map((duplicate) => duplicate.orderId)));
+          return `${file.originalName} already exists on ${orderIds.join(", ")}`;
+        });
       toast({
         title: "Upload Successful",
-        description: "Files have been uploaded successfully.",
+        description: hints.length > 0
+          ? `Files uploaded. ${hints.join(". ")}.`
+          : "Files have been uploaded successfully.",
       });
     },
-    onError: () => {
+    onError: (error: Error) => {
       toast({
         title: "Upload Failed",
-        description: "Failed to upload files. Please try again.",
+        description: error.message,
         variant: "destructive",
       });
     },
@@ -116,8 +244,10 @@ export default function Media() {
     }
   };
 
+  const isRevision = revisionOf !== "none";
+
   const handleUpload = () => {
-    if (selectedFiles.length === 0 || !uploadingOrderId || !uploadCategory) {
+    if (selectedFiles.length === 0 || !uploadingOrderId || (!uploadCategory && !isRevision)) {
       toast({
         title: "Missing Information",
         description: "Please select files, order, and category.",
@@ -125,13 +255,28 @@ export default function Media() {
       });
       return;
     }
+    if (isRevision && selectedFiles.length !== 1) {
+      toast({
+        title: "One File Per Version",
+        description: "Select a single file to upload as the new version.",
+        variant: "destructive",
+      });
+      return;
+    }
 
     const formData = new FormData();
     selectedFiles.forEach((file) => {
       formData.append("files", file);
     });
     formData.append("orderId", uploadingOrderId);
-    formData.append("category", uploadCategory);
+    if (isRevision) {
+      formData.append("revisionOf", revisionOf);
+      if (changeNote) {
+        formData.append("changeNote", changeNote);
+      }
+    } else {
+      formData.append("category", uploadCategory);
+    }
     if (uploadDescription) {
       formData.append("description", uploadDescription);
     }
@@ -209,7 +354,7 @@ export default function Media() {
                 type="file"
                 multiple
                 onChange={handleFileSelect}
-                accept="image/*,.pdf,.doc,.docx,.xls,.xlsx"
+                accept="image/*,.pdf,.doc,.docx,.xls,.xlsx,.txt,.csv"
                 className="cursor-pointer"
               />
               {selectedFiles.length > 0 && (
@@ -221,7 +366,13 @@ export default function Media() {
 
             <div>
               <Label>Order</Label>
-              <Select value={uploadingOrderId} onValueChange={setUploadingOrderId}>
+              <Select
+                value={uploadingOrderId}
+                onValueChange={(value) => {
+                  setUploadingOrderId(value);
+                  setRevisionOf("none");
+                }}
+              >
                 <SelectTrigger>
                   <SelectValue placeholder="Select order" />
                 </SelectTrigger>
@@ -235,9 +386,42 @@ export default function Media() {
               </Select>
             </div>
 
+            {uploadingOrderId && (
+              <div>
+                <Label>New Version Of</Label>
+                <Select value={revisionOf} onValueChange={setRevisionOf}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="none">Nothing — this is a new file</SelectItem>
+                    {mediaFiles
+                      .filter((file) => file.orderId === uploadingOrderId)
+                      .map((file) => (
+                        <SelectItem key={file.id} value={file.id}>
+                          {file.originalName} (v{file.version})
+                        </SelectItem>
+                      ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            )}
+
+            {isRevision && (
+              <div>
+                <Label htmlFor="change-note">What Changed</Label>
+                <Input
+                  id="change-note"
+                  value={changeNote}
+                  onChange={(e) => setChangeNote(e.target.value)}
+                  placeholder="e.g. Sleeve length reduced by 1.5 cm"
+                />
+              </div>
+            )}
+
             <div>
               <Label>Category</Label>
-              <Select value={uploadCategory} onValueChange={setUploadCategory}>
+              <Select value={uploadCategory} onValueChange={setUploadCategory} disabled={isRevision}>
                 <SelectTrigger>
                   <SelectValue placeholder="Select category" />
                 </SelectTrigger>
@@ -263,7 +447,7 @@ export default function Media() {
 
             <Button
               onClick={handleUpload}
-              disabled={selectedFiles.length === 0 || !uploadingOrderId || !uploadCategory || uploadMutation.isPending}
+              disabled={selectedFiles.length === 0 || !uploadingOrderId || (!uploadCategory && !isRevision) || uploadMutation.isPending}
               className="w-full"
             >
               <Upload className="w-4 h-4 mr-2" />
@@ -323,6 +507,18 @@ export default function Media() {
                   ))}
                 </SelectContent>
               </Select>
+
+              {/* Archives are built per order, so pick an order to download everything on it */}
+              <Button
+                variant="outline"
+                disabled={filterOrder === "all" || filteredFiles.length === 0}
+                onClick={() => {
+                  window.location.href = `/api/orders/${encodeURIComponent(filterOrder)}/media/archive?category=${filterCategory}`;
+                }}
+              >
+                <FileArchive className="w-4 h-4 mr-2" />
+                Download All
+              </Button>
             </div>
           </CardHeader>
           
@@ -343,7 +539,15 @@ export default function Media() {
                   <div key={file.id} className="border rounded-lg p-4 hover:bg-slate-50 transition-colors">
                     <div className="flex items-center justify-between">
                       <div className="flex items-center space-x-3 flex-1">
-                        {file.mimeType.startsWith('image/') ? (
+                        {file.thumbnailUrls?.small ? (
+                          <img
+                            src={file.thumbnailUrls.small}
+                            srcSet={file.thumbnailUrls.medium ? `${file.thumbnailUrls.small} 1x, ${file.thumbnailUrls.medium} 2x` : undefined}
+                            alt={file.originalName}
+                            loading="lazy"
+                            className="w-12 h-12 rounded object-cover bg-slate-100"
+                          />
+                        ) : file.mimeType.startsWith('image/') ? (
                           <div className="w-12 h-12 bg-slate-100 rounded flex items-center justify-center">
                             <Image className="w-6 h-6 text-slate-500" />
                           </div>
@@ -354,7 +558,13 @@ export default function Media() {
                         )}
                         
                         <div className="flex-1 min-w-0">
-                          <h4 className="font-medium text-slate-900 truncate">{file.originalName}</h4>
+                          <div className="flex items-center space-x-2">
+                            <h4 className="font-medium text-slate-900 truncate">{file.originalName}</h4>
+                            {file.version > 1 && (
+                              <Badge variant="outline" className="text-xs">v{file.version}</Badge>
+                            )}
+                            <ScanBadge file={file} />
+                          </div>
                           <div className="flex items-center space-x-4 text-sm text-slate-600 mt-1">
                             <span>Order: {file.orderId}</span>
                             <Badge variant="secondary" className={`text-xs ${getCategoryColor(file.category)}`}>
@@ -373,10 +583,29 @@ export default function Media() {
                       </div>
                       
                       <div className="flex items-center space-x-2">
+                        {file.version > 1 && (
+                          <Button
+                            variant="outline"
+                            size="sm"
+                            onClick={() => setHistoryFileId(historyFileId === file.id ? null : file.id)}
+                          >
+                            <History className="w-4 h-4" />
+                          </Button>
+                        )}
+                        {file.mimeType.startsWith('image/') && canOpen(file) && (
+                          <Button
+                            variant="outline"
+                            size="sm"
+                            onClick={() => setAnnotatingFile(file)}
+                          >
+                            <PenTool className="w-4 h-4" />
+                          </Button>
+                        )}
                         <Button
                           variant="outline"
                           size="sm"
                           onClick={() => window.open(file.url, '_blank')}
+                          disabled={!canOpen(file)}
                         >
                           <Eye className="w-4 h-4" />
                         </Button>
@@ -385,10 +614,11 @@ export default function Media() {
                           size="sm"
                           onClick={() => {
                             const link = document.createElement('a');
-                            link.href = file.url;
+                            link.href = `${file.url}?download=1`;
                             link.download = file.originalName;
                             link.click();
                           }}
+                          disabled={!canOpen(file)}
                         >
                           <Download className="w-4 h-4" />
                         </Button>
@@ -402,6 +632,7 @@ export default function Media() {
                         </Button>
                       </div>
                     </div>
+                    {historyFileId === file.id && <VersionHistory fileId={file.id} />}
                   </div>
                 ))}
               </div>
@@ -409,6 +640,14 @@ export default function Media() {
           </CardContent>
         </Card>
       </div>
+
+      {annotatingFile && (
+        <AnnotationViewer
+          file={annotatingFile}
+          isOpen={!!annotatingFile}
+          onClose={() => setAnnotatingFile(null)}
+        />
+      )}
     </div>
   );
 }
\ No newline at end of file
@@ -10,7 +10,9 @@ import { Label } from "@/components/ui/label";
 import { useToast } from "@/hooks/use-toast";
 import { apiRequest } from "@/lib/queryClient";
 import { CheckCircle, Link as LinkIcon, Package } from "lucide-react";
-import { insertOrderSchema } from "@shared/schema";
+import { insertOrderSchema, lineItemsTotal, type OrderLineItemInput } from "@shared/schema";
+import LineItemGrid from "@/components/order/line-item-grid";
+import TnaTemplateSelect from "@/components/order/tna-template-select";
 
 // Form schema that extends the insert schema to handle form data
 const formOrderSchema = insertOrderSchema.extend({
@@ -21,6 +23,9 @@ type OrderFormData = z.infer<typeof formOrderSchema>;
 
 export default function NewOrder() {
   const [orderCreated, setOrderCreated] = useState<string | null>(null);
+  const [lineItems, setLineItems] = useState<OrderLineItemInput[]>([]);
+  const [lineItemError, setLineItemError] = useState<string | null>(null);
+  const [tnaTemplateId, setTnaTemplateId] = useState("");
   const { toast } = useToast();
 
   const {
@@ -28,6 +33,7 @@ export default function NewOrder() {
     handleSubmit,
     formState: { errors },
     reset,
+    watch,
   } = useForm<OrderFormData>({
     resolver: zodResolver(formOrderSchema),
   });
@@ -37,12 +43,16 @@ export default function NewOrder() {
       const response = await apiRequest("POST", "/api/orders", {
         ...data,
         estimatedDelivery: new Date(data.estimatedDelivery).toISOString(),
+        lineItems,
+        tnaTemplateId: tnaTemplateId || undefined,
       });
       return response.json();
     },
     onSuccess: (order) => {
       setOrderCreated(order.id);
       reset();
+      setLineItems([]);
+      setTnaTemplateId("");
       toast({
         title: "Order Created Successfully",
         description: `Order ${order.id} has been created.`,
@@ -58,6 +68,12 @@ export default function NewOrder() {
   });
 
   const onSubmit = (data: OrderFormData) => {
+    const total = lineItemsTotal(lineItems);
+    if (lineItems.length > 0 && total !== data.quantity) {
+      setLineItemError(`Line items add up to ${total} pieces but the order quantity is ${data.quantity}`);
+      return;
+    }
+    setLineItemError(null);
     createOrderMutation.mutate(data);
   };
 
@@ -201,6 +217,27 @@ export default function NewOrder() {
                   </div>
                 </div>
 
+                <div>
+                  <h3 className="text-sm font-medium text-slate-900">Size & Color Breakdown</h3>
+                  <p className="text-sm text-slate-600 mb-3">Optional. Split the quantity by colorway and size.</p>
+                  <LineItemGrid
+                    quantity={watch("quantity")}
+                    onChange={(items) => {
+                      setLineItems(items);
+                      setLineItemError(null);
+                    }}
+                  />
+                  {lineItemError && (
+                    <p className="text-sm text-red-500 mt-1">{lineItemError}</p>
+                  )}
+                </div>
+
+                <div>
+                  <Label htmlFor="tnaTemplate">TNA Template</Label>
+                  <TnaTemplateSelect id="tnaTemplate" value={tnaTemplateId} onChange={setTnaTemplateId} />
+                  <p className="text-sm text-slate-600 mt-1">Milestones are planned back from the delivery date.</p>
+                </div>
+
                 <Button
                   type="submit"
                   className="w-full"
@@ -1,44 +1,63 @@
 import { useState } from "react";
 import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { Link } from "wouter";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
-import { Textarea } from "@/components/ui/textarea";
-import { Input } from "@/components/ui/input";
+import { Checkbox } from "@/components/ui/checkbox";
 import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { useToast } from "@/hooks/use-toast";
+import { useUnreadNotifications } from "@/hooks/use-unread-notifications";
 import { apiRequest } from "@/lib/queryClient";
-import { Bell, Mail, Reply, Send, Eye, Clock, User } from "lucide-react";
+import { Bell, MessageSquare, AtSign, FilePen, RefreshCw, UserPlus, FileStack, ShieldAlert, Eye, Clock, User, CheckCheck, ChevronLeft, ChevronRight } from "lucide-react";
 
 interface Notification {
   id: string;
-  type: 'email' | 'system' | 'order_update';
+  type: 'update' | 'comment' | 'mention' | 'status_change' | 'amendment' | 'invitation' | 'document_revision' | 'file_rejected';
+  priority: 'normal' | 'high';
   title: string;
   message: string;
-  from: string;
-  to: string;
-  orderId?: string;
+  orderId: string | null;
+  actorName: string | null;
   isRead: boolean;
   createdAt: string;
-  emailId?: string;
 }
 
+interface NotificationPage {
+  items: Notification[];
+  total: number;
+  limit: number;
+  offset: number;
+}
+
+const PAGE_SIZE = 20;
+
 export default function Notifications() {
   const [selectedNotification, setSelectedNotification] = useState<Notification | null>(null);
-  const [replyMessage, setReplyMessage] = useState("");
-  const [replySubject, setReplySubject] = useState("");
+  const [typeFilter, setTypeFilter] = useState("all");
+  const [unreadOnly, setUnreadOnly] = useState(false);
+  const [offset, setOffset] = useState(0);
+  const unreadCount = useUnreadNotifications();
   const { toast } = useToast();
   const queryClient = useQueryClient();
 
-  const { data: notifications = [], isLoading } = useQuery({
-    queryKey: ["/api/notifications"],
+  const { data, isLoading } = useQuery<NotificationPage>({
+    queryKey: ["/api/notifications", { type: typeFilter, unreadOnly, offset }],
     queryFn: async () => {
-      const response = await fetch("/api/notifications");
+      const params = new URLSearchParams({ limit: String(PAGE_SIZE), offset: String(offset) });
+      if (typeFilter !== "all") params.set("type", typeFilter);
+      if (unreadOnly) params.set("unread", "true");
+
+      const response = await fetch(`/api/notifications?${params}`, { credentials: "include" });
       if (!response.ok) throw new Error("Failed to fetch notifications");
       return response.json();
     },
   });
 
+  const notifications = data?.items ?? [];
+  const total = data?.total ?? 0;
+
   const markAsReadMutation = useMutation({
     mutationFn: async (notificationId: string) => {
       const response = await apiRequest("PATCH", `/api/notifications/${notificationId}/read`);
@@ -49,25 +68,22 @@ export default function Notifications() {
     },
   });
 
-  const sendReplyMutation = useMutation({
-    mutationFn: async (data: { notificationId: string; subject: string; message: string; to: string }) => {
-      const response = await apiRequest("POST", `/api/notifications/${data.notificationId}/reply`, data);
+  const markAllAsReadMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("POST", "/api/notifications/read-all", {});
       return response.json();
     },
-    onSuccess: () => {
-      setReplyMessage("");
-      setReplySubject("");
-      setSelectedNotification(null);
+    onSuccess: (result: { updated: number }) => {
       queryClient.invalidateQueries({ queryKey: ["/api/notifications"] });
       toast({
-        title: "Reply Sent",
-        description: "Your reply has been sent successfully.",
+        title: "All Caught Up",
+        description: `${result.updated} notification${result.updated === 1 ? "" : "s"} marked as read.`,
       });
     },
     onError: () => {
       toast({
         title: "Error",
-        description: "Failed to send reply. Please try again.",
+        description: "Failed to mark notifications as read. Please try again.",
         variant: "destructive",
       });
     },
@@ -78,39 +94,53 @@ export default function Notifications() {
     if (!notification.isRead) {
       markAsReadMutation.mutate(notification.id);
     }
-    if (notification.type === 'email') {
-      setReplySubject(`Re: ${notification.title}`);
-    }
   };
 
-  const handleSendReply = () => {
-    if (!selectedNotification || !replyMessage.trim()) return;
-    
-    sendReplyMutation.mutate({
-      notificationId: selectedNotification.id,
-      subject: replySubject || `Re: ${selectedNotification.title}`,
-      message: replyMessage,
-      to: selectedNotification.from,
-    });
+  const changeFilter = (apply: () => void) => {
+    apply();
+    setOffset(0);
+    setSelectedNotification(null);
   };
 
   const getNotificationIcon = (type: string) => {
     switch (type) {
-      case 'email':
-        return <Mail className="w-5 h-5 text-blue-500" />;
-      case 'order_update':
-        return <Bell className="w-5 h-5 text-orange-500" />;
+      case 'comment':
+        return <MessageSquare className="w-5 h-5 text-green-500" />;
+      case 'mention':
+        return <AtSign className="w-5 h-5 text-rose-500" />;
+      case 'status_change':
+        return <RefreshCw className="w-5 h-5 text-orange-500" />;
+      case 'amendment':
+        return <FilePen className="w-5 h-5 text-indigo-500" />;
+      case 'invitation':
+        return <UserPlus className="w-5 h-5 text-purple-500" />;
+      case 'document_revision':
+        return <FileStack className="w-5 h-5 text-teal-500" />;
+      case 'file_rejected':
+        return <ShieldAlert className="w-5 h-5 text-red-500" />;
       default:
-        return <Bell className="w-5 h-5 text-slate-500" />;
+        return <Bell className="w-5 h-5 text-blue-500" />;
     }
   };
 
   const getTypeColor = (type: string) => {
     switch (type) {
-      case 'email':
+      case 'update':
         return "bg-blue-100 text-blue-700";
-      case 'order_update':
+      case 'comment':
+        return "bg-green-100 text-green-700";
+      case 'mention':
+        return "bg-rose-100 text-rose-700";
+      case 'status_change':
         return "bg-orange-100 text-orange-700";
+      case 'amendment':
+        return "bg-indigo-100 text-indigo-700";
+      case 'invitation':
+        return "bg-purple-100 text-purple-700";
+      case 'document_revision':
+        return "bg-teal-100 text-teal-700";
+      case 'file_rejected':
+        return "bg-red-100 text-red-700";
       default:
         return "bg-slate-100 text-slate-700";
     }
@@ -131,12 +161,19 @@ export default function Notifications() {
       <div className="flex items-center justify-between">
         <div>
           <h1 className="text-3xl font-bold text-slate-900">Notifications</h1>
-          <p className="text-slate-600 mt-1">Manage notifications and respond to messages</p>
+          <p className="text-slate-600 mt-1">Activity on the orders you collaborate on</p>
         </div>
         <div className="flex items-center space-x-2">
-          <Badge variant="secondary">
-            {notifications.filter((n: Notification) => !n.isRead).length} unread
-          </Badge>
+          <Badge variant="secondary">{unreadCount} unread</Badge>
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() => markAllAsReadMutation.mutate()}
+            disabled={unreadCount === 0 || markAllAsReadMutation.isPending}
+          >
+            <CheckCheck className="w-4 h-4 mr-2" />
+            Mark All Read
+          </Button>
         </div>
       </div>
 
@@ -148,6 +185,32 @@ export default function Notifications() {
               <Bell className="w-5 h-5" />
               <span>Recent Notifications</span>
             </CardTitle>
+            <div className="flex items-center space-x-4 pt-2">
+              <Select value={typeFilter} onValueChange={(value) => changeFilter(() => setTypeFilter(value))}>
+                <SelectTrigger className="w-48">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="all">All types</SelectItem>
+                  <SelectItem value="status_change">Status changes</SelectItem>
+                  <SelectItem value="update">Updates</SelectItem>
+                  <SelectItem value="comment">Comments</SelectItem>
+                  <SelectItem value="mention">Mentions</SelectItem>
+                  <SelectItem value="amendment">Amendments</SelectItem>
+                  <SelectItem value="invitation">Invitations</SelectItem>
+                  <SelectItem value="document_revision">Document versions</SelectItem>
+                  <SelectItem value="file_rejected">Rejected files</SelectItem>
+                </SelectContent>
+              </Select>
+              <div className="flex items-center space-x-2">
+                <Checkbox
+                  id="unreadOnly"
+                  checked={unreadOnly}
+                  onCheckedChange={(checked) => changeFilter(() => setUnreadOnly(checked === true))}
+                />
+                <Label htmlFor="unreadOnly">Unread only</Label>
+              </div>
+            </div>
           </CardHeader>
           <CardContent>
             {isLoading ? (
@@ -156,13 +219,15 @@ export default function Notifications() {
               <div className="text-center py-8 text-slate-500">No notifications yet</div>
             ) : (
               <div className="space-y-3">
-                {notifications.map((notification: Notification) => (
+                {notifications.map((notification) => (
                   <div
                     key={notification.id}
                     className={`p-4 border rounded-lg cursor-pointer transition-colors ${
                       !notification.isRead
                         ? "bg-blue-50 border-blue-200 hover:bg-blue-100"
                         : "bg-white border-slate-200 hover:bg-slate-50"
+                    } ${
+                      notification.priority === 'high' ? "border-l-4 border-l-rose-500" : ""
                     } ${
                       selectedNotification?.id === notification.id ? "ring-2 ring-blue-500" : ""
                     }`}
@@ -180,13 +245,15 @@ export default function Notifications() {
                           </Badge>
                         </div>
                         <p className="text-sm text-slate-600 mt-1 line-clamp-2">
-                          {notification.message.substring(0, 100)}...
+                          {notification.message}
                         </p>
                         <div className="flex items-center space-x-4 mt-2 text-xs text-slate-500">
-                          <div className="flex items-center space-x-1">
-                            <User className="w-3 h-3" />
-                            <span>From: {notification.from}</span>
-                          </div>
+                          {notification.actorName && (
+                            <div className="flex items-center space-x-1">
+                              <User className="w-3 h-3" />
+                              <span>{notification.actorName}</span>
+                            </div>
+                          )}
                           <div className="flex items-center space-x-1">
                             <Clock className="w-3 h-3" />
                             <span>{formatDateTime(notification.createdAt)}</span>
@@ -194,17 +261,43 @@ export default function Notifications() {
                         </div>
                       </div>
                       {!notification.isRead && (
-                        <div className="w-2 h-2 bg-blue-500 rounded-full"></div>
+                        <div className={`w-2 h-2 rounded-full ${notification.priority === 'high' ? "bg-rose-500" : "bg-blue-500"}`}></div>
                       )}
                     </div>
                   </div>
                 ))}
               </div>
             )}
+
+            {total > PAGE_SIZE && (
+              <div className="flex items-center justify-between mt-4 text-sm text-slate-600">
+                <span>
+                  {offset + 1}–{Math.min(offset + PAGE_SIZE, total)} of {total}
+                </span>
+                <div className="flex space-x-2">
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => setOffset(Math.max(0, offset - PAGE_SIZE))}
+                    disabled={offset === 0}
+                  >
+                    <ChevronLeft className="w-4 h-4" />
+                  </Button>
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => setOffset(offset + PAGE_SIZE)}
+                    disabled={offset + PAGE_SIZE >= total}
+                  >
+                    <ChevronRight className="w-4 h-4" />
+                  </Button>
+                </div>
+              </div>
+            )}
           </CardContent>
         </Card>
 
-        {/* Notification Detail & Reply */}
+        {/* Notification Detail */}
         <Card>
           <CardHeader>
             <CardTitle className="flex items-center space-x-2">
@@ -214,69 +307,25 @@ export default function Notifications() {
           </CardHeader>
           <CardContent>
             {selectedNotification ? (
-              <div className="space-y-6">
-                {/* Notification Content */}
-                <div className="space-y-4">
-                  <div>
-                    <h3 className="text-lg font-medium text-slate-900">{selectedNotification.title}</h3>
-                    <div className="flex items-center space-x-4 mt-2 text-sm text-slate-600">
-                      <span>From: {selectedNotification.from}</span>
-                      <span>To: {selectedNotification.to}</span>
-                      <span>{formatDateTime(selectedNotification.createdAt)}</span>
-                    </div>
-                  </div>
-                  
-                  <div className="bg-slate-50 p-4 rounded-lg">
-                    <p className="text-slate-700 whitespace-pre-wrap">{selectedNotification.message}</p>
+              <div className="space-y-4">
+                <div>
+                  <h3 className="text-lg font-medium text-slate-900">{selectedNotification.title}</h3>
+                  <div className="flex items-center space-x-4 mt-2 text-sm text-slate-600">
+                    {selectedNotification.actorName && <span>From: {selectedNotification.actorName}</span>}
+                    <span>{formatDateTime(selectedNotification.createdAt)}</span>
                   </div>
+                </div>
 
-                  {selectedNotification.orderId && (
-                    <div className="flex items-center space-x-2">
-                      <Badge variant="outline">Order: {selectedNotification.orderId}</Badge>
-                    </div>
-                  )}
+                <div className="bg-slate-50 p-4 rounded-lg">
+                  <p className="text-slate-700 whitespace-pre-wrap">{selectedNotification.message}</p>
                 </div>
 
-                {/* Reply Form */}
-                {selectedNotification.type === 'email' && (
-                  <div className="border-t pt-6">
-                    <h4 className="text-md font-medium text-slate-900 mb-4 flex items-center space-x-2">
-                      <Reply className="w-4 h-4" />
-                      <span>Send Reply</span>
-                    </h4>
-                    
-                    <div className="space-y-4">
-                      <div>
-                        <Label htmlFor="replySubject">Subject</Label>
-                        <Input
-                          id="replySubject"
-                          value={replySubject}
-                          onChange={(e) => setReplySubject(e.target.value)}
-                          placeholder="Reply subject"
-                        />
-                      </div>
-                      
-                      <div>
-                        <Label htmlFor="replyMessage">Message</Label>
-                        <Textarea
-                          id="replyMessage"
-                          value={replyMessage}
-                          onChange={(e) => setReplyMessage(e.target.value)}
-                          placeholder="Type your reply..."
-                          rows={6}
-                        />
-                      </div>
-                      
-                      <Button
-                        onClick={handleSendReply}
-                        disabled={!replyMessage.trim() || sendReplyMutation.isPending}
-                        className="w-full"
-                      >
-                        <Send className="w-4 h-4 mr-2" />
-                        {sendReplyMutation.isPending ? "Sending..." : "Send Reply"}
-                      </Button>
-                    </div>
-                  </div>
+                {selectedNotification.orderId && (
+                  <Link href={`/order/${selectedNotification.orderId}`}>
+                    <Button variant="outline" size="sm">
+                      View Order {selectedNotification.orderId}
+                    </Button>
+                  </Link>
                 )}
               </div>
             ) : (
@@ -290,4 +339,4 @@ export default function Notifications() {
       </div>
     </div>
   );
-}
\ No newline at end of file
+}
@@ -1,3 +1,4 @@
+import { useState } from "react";
 import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
 import { useRoute } from "wouter";
 import { useForm } from "react-hook-form";
@@ -6,14 +7,24 @@ import { z } from "zod";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
 import { Button } from "@/components/ui/button";
-import { Textarea } from "@/components/ui/textarea";
-import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
-import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/use-auth";
 import { apiRequest } from "@/lib/queryClient";
-import { Calendar, Package2, Mail, User, Clock, MessageSquare, Send } from "lucide-react";
+import { Calendar, Package2, Mail, User, Clock, MessageSquare, Send, FileArchive } from "lucide-react";
 import StakeholderManagement from "@/components/stakeholder-management";
+import StatusPanel from "@/components/order/status-panel";
+import NotificationPreferences from "@/components/order/notification-preferences";
+import AttachmentList, { type Attachment } from "@/components/media/attachment-list";
+import AttachmentPicker from "@/components/media/attachment-picker";
+import CommentEntry, { type CommentEntryData } from "@/components/order/comment-entry";
+import MentionTextarea from "@/components/order/mention-textarea";
+import MentionText from "@/components/order/mention-text";
+import LineItemMatrix, { type LineItem } from "@/components/order/line-item-matrix";
+import OrderAmendments from "@/components/order/order-amendments";
+import ProductionStages, { type ProductionStageData } from "@/components/order/production-stages";
+import Shipments from "@/components/order/shipments";
+import TnaTimeline, { type MilestoneData } from "@/components/order/tna-timeline";
 
 interface OrderData {
   id: string;
@@ -23,10 +34,23 @@ interface OrderData {
   estimatedDelivery: string;
   buyerEmail: string;
   status: string;
+  revision: number;
   createdAt: string;
+  lineItems: LineItem[];
+  productionStages: ProductionStageData[];
+  milestones: MilestoneData[];
   updates: UpdateData[];
   comments: CommentData[];
   stakeholders: StakeholderData[];
+  statusHistory: StatusHistoryData[];
+  access: OrderAccess;
+}
+
+interface OrderAccess {
+  stakeholderId: string | null;
+  role: string | null;
+  permissions: string | null;
+  actions: Array<'view' | 'comment' | 'update' | 'change_status' | 'manage_stakeholders'>;
 }
 
 interface UpdateData {
@@ -34,14 +58,18 @@ interface UpdateData {
   message: string;
   authorName: string;
   authorRole: string;
+  attachments: Attachment[];
   createdAt: string;
 }
 
-interface CommentData {
+type CommentData = CommentEntryData;
+
+interface StatusHistoryData {
   id: string;
-  message: string;
-  authorName: string;
-  authorRole: string;
+  fromStatus: string | null;
+  toStatus: string;
+  changedByName: string;
+  reason: string | null;
   createdAt: string;
 }
 
@@ -51,13 +79,14 @@ interface StakeholderData {
   email: string;
   role: string;
   permissions: string;
+  invitationStatus: 'pending' | 'accepted' | 'expired' | 'revoked';
+  invitedAt?: string | null;
+  notificationPreferences: { update: boolean; comment: boolean; status_change: boolean; document_revision: boolean; amendment: boolean; mentions_only?: boolean };
   createdAt: string;
 }
 
 const commentSchema = z.object({
   message: z.string().min(1, "Comment is required"),
-  authorName: z.string().min(1, "Name is required"),
-  authorRole: z.enum(['manufacturer', 'buyer']),
 });
 
 type CommentFormData = z.infer<typeof commentSchema>;
@@ -65,7 +94,9 @@ type CommentFormData = z.infer<typeof commentSchema>;
 export default function OrderDetail() {
   const [, params] = useRoute("/order/:id");
   const orderId = params?.id;
+  const [attachmentIds, setAttachmentIds] = useState<string[]>([]);
   const { toast } = useToast();
+  const { user } = useAuth();
   const queryClient = useQueryClient();
 
   const { data: order, isLoading } = useQuery<OrderData>({
@@ -73,23 +104,31 @@ export default function OrderDetail() {
     enabled: !!orderId,
   });
 
+  // Only the count is needed, to offer the media download when there is something to download
+  const { data: mediaFiles = [] } = useQuery<Array<{ id: string }>>({
+    queryKey: [`/api/media?orderId=${encodeURIComponent(orderId ?? "")}`],
+    enabled: !!orderId,
+  });
+
   const {
-    register,
     handleSubmit,
     formState: { errors },
     reset,
     setValue,
+    watch,
   } = useForm<CommentFormData>({
     resolver: zodResolver(commentSchema),
+    defaultValues: { message: "" },
   });
 
   const addCommentMutation = useMutation({
     mutationFn: async (data: CommentFormData) => {
-      const response = await apiRequest("POST", `/api/orders/${orderId}/comments`, data);
+      const response = await apiRequest("POST", `/api/orders/${orderId}/comments`, { ...data, attachmentIds });
       return response.json();
     },
     onSuccess: () => {
       reset();
+      setAttachmentIds([]);
       queryClient.invalidateQueries({ queryKey: ["/api/orders", orderId] });
       toast({
         title: "Comment Added",
@@ -109,6 +148,12 @@ export default function OrderDetail() {
     addCommentMutation.mutate(data);
   };
 
+  const ownStakeholder = order?.stakeholders?.find(s => s.id === order.access.stakeholderId);
+  // Revoked stakeholders can't be mentioned; the server ignores them too
+  const mentionable = (order?.stakeholders ?? [])
+    .filter(s => s.invitationStatus !== 'revoked')
+    .map(s => ({ id: s.id, name: s.name }));
+
   if (isLoading) {
     return (
       <div className="min-h-screen bg-slate-50 py-8">
@@ -145,6 +190,10 @@ export default function OrderDetail() {
         return "bg-green-100 text-green-700";
       case "delivered":
         return "bg-green-100 text-green-700";
+      case "on_hold":
+        return "bg-orange-100 text-orange-700";
+      case "cancelled":
+        return "bg-red-100 text-red-700";
       default:
         return "bg-slate-100 text-slate-700";
     }
@@ -171,14 +220,24 @@ export default function OrderDetail() {
   return (
     <div className="min-h-screen bg-slate-50 py-8">
       <div className="max-w-4xl mx-auto px-4">
-        <div className="mb-8">
-          <h1 className="text-3xl font-bold text-slate-900 mb-2">Order {order.id}</h1>
-          <div className="flex items-center space-x-4">
-            <Badge className={getStatusColor(order.status)}>
-              {order.status.replace('_', ' ').toUpperCase()}
-            </Badge>
-            <span className="text-slate-600">Created {formatDate(order.createdAt)}</span>
+        <div className="mb-8 flex items-start justify-between">
+          <div>
+            <h1 className="text-3xl font-bold text-slate-900 mb-2">Order {order.id}</h1>
+            <div className="flex items-center space-x-4">
+              <Badge className={getStatusColor(order.status)}>
+                {order.status.replace('_', ' ').toUpperCase()}
+              </Badge>
+              <span className="text-slate-600">Created {formatDate(order.createdAt)}</span>
+            </div>
           </div>
+          {mediaFiles.length > 0 && (
+            <Button variant="outline" asChild>
+              <a href={`/api/orders/${encodeURIComponent(order.id)}/media/archive`}>
+                <FileArchive className="w-4 h-4 mr-2" />
+                Download All Media ({mediaFiles.length})
+              </a>
+            </Button>
+          )}
         </div>
 
         <div className="grid grid-cols-1 lg:grid-cols-3 gap-8">
@@ -187,9 +246,25 @@ export default function OrderDetail() {
             <StakeholderManagement 
               orderId={order.id}
               stakeholders={order.stakeholders || []}
-              currentUserRole="admin" // This should come from user context
+              canManage={order.access.actions.includes('manage_stakeholders')}
             />
 
+            {/* Status */}
+            <StatusPanel
+              orderId={order.id}
+              status={order.status}
+              history={order.statusHistory || []}
+              canChangeStatus={order.access.actions.includes('change_status')}
+            />
+
+            {/* Notification Preferences */}
+            {ownStakeholder && (
+              <NotificationPreferences
+                stakeholderId={ownStakeholder.id}
+                preferences={ownStakeholder.notificationPreferences}
+              />
+            )}
+
             {/* Order Details */}
             <Card className="mt-6">
               <CardHeader>
@@ -240,67 +315,87 @@ export default function OrderDetail() {
               </CardContent>
             </Card>
 
+            {order.lineItems?.length > 0 && (
+              <LineItemMatrix lineItems={order.lineItems} orderQuantity={order.quantity} />
+            )}
+
+            <ProductionStages
+              orderId={order.id}
+              orderQuantity={order.quantity}
+              stages={order.productionStages}
+              lineItems={order.lineItems}
+              canRecord={order.access.actions.includes('update') && order.access.role !== 'buyer' && order.access.role !== 'buyer_employee'}
+            />
+
+            <Shipments
+              orderId={order.id}
+              orderQuantity={order.quantity}
+              lineItems={order.lineItems}
+              canRecord={order.access.actions.includes('update') && order.access.role !== 'buyer' && order.access.role !== 'buyer_employee'}
+            />
+
+            <TnaTimeline
+              orderId={order.id}
+              milestones={order.milestones}
+              stakeholders={order.stakeholders || []}
+              canEdit={order.access.actions.includes('update')}
+              ownStakeholderId={order.access.stakeholderId}
+            />
+
+            <OrderAmendments
+              // Remounting on a new revision starts the proposal form from the amended order
+              key={order.revision}
+              order={order}
+              canPropose={order.access.actions.includes('update')}
+              canDecide={order.access.role === 'buyer' || order.access.role === 'buyer_employee'}
+              canManage={order.access.actions.includes('manage_stakeholders')}
+              currentUserId={user?.id}
+            />
+
             {/* Add Comment Form */}
-            <Card className="mt-6">
-              <CardHeader>
-                <CardTitle className="flex items-center space-x-2">
-                  <MessageSquare className="w-5 h-5" />
-                  <span>Add Comment</span>
-                </CardTitle>
-              </CardHeader>
-              <CardContent>
-                <form onSubmit={handleSubmit(onSubmitComment)} className="space-y-4">
-                  <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            {order.access.actions.includes('comment') && (
+              <Card className="mt-6">
+                <CardHeader>
+                  <CardTitle className="flex items-center space-x-2">
+                    <MessageSquare className="w-5 h-5" />
+                    <span>Add Comment</span>
+                  </CardTitle>
+                </CardHeader>
+                <CardContent>
+                  <form onSubmit={handleSubmit(onSubmitComment)} className="space-y-4">
                     <div>
-                      <Input
-                        {...register("authorName")}
-                        placeholder="Your name"
+                      <MentionTextarea
+                        value={watch("message")}
+                        onChange={(message) => setValue("message", message, { shouldValidate: !!errors.message })}
+                        people={mentionable}
+                        placeholder="Add your comment... Type @ to mention someone"
+                        rows={3}
                         className="w-full"
                       />
-                      {errors.authorName && (
-                        <p className="text-sm text-red-500 mt-1">{errors.authorName.message}</p>
+                      {errors.message && (
+                        <p className="text-sm text-red-500 mt-1">{errors.message.message}</p>
                       )}
-                    </div>
-                    
-                    <div>
-                      <Select onValueChange={(value) => setValue("authorRole", value as "manufacturer" | "buyer")}>
-                        <SelectTrigger>
-                          <SelectValue placeholder="Select your role" />
-                        </SelectTrigger>
-                        <SelectContent>
-                          <SelectItem value="manufacturer">Manufacturer</SelectItem>
-                          <SelectItem value="buyer">Buyer</SelectItem>
-                        </SelectContent>
-                      </Select>
-                      {errors.authorRole && (
-                        <p className="text-sm text-red-500 mt-1">{errors.authorRole.message}</p>
+                      {user && (
+                        <p className="text-sm text-slate-600 mt-1">
+                          Commenting as {user.name} ({user.role})
+                        </p>
                       )}
                     </div>
-                  </div>
 
-                  <div>
-                    <Textarea
-                      {...register("message")}
-                      placeholder="Add your comment..."
-                      rows={3}
-                      className="w-full"
-                    />
-                    {errors.message && (
-                      <p className="text-sm text-red-500 mt-1">{errors.message.message}</p>
-                    )}
-                  </div>
+                    <AttachmentPicker orderId={order.id} selectedIds={attachmentIds} onChange={setAttachmentIds} />
 
-                  <Button
-                    type="submit"
-                    disabled={addCommentMutation.isPending}
-                    className="w-full"
-                  >
-                    <Send className="w-4 h-4 mr-2" />
-                    {addCommentMutation.isPending ? "Adding Comment..." : "Add Comment"}
-                  </Button>
-                </form>
-              </CardContent>
-            </Card>
+                    <Button
+                      type="submit"
+                      disabled={addCommentMutation.isPending}
+                      className="w-full"
+                    >
+                      <Send className="w-4 h-4 mr-2" />
+                      {addCommentMutation.isPending ? "Adding Comment..." : "Add Comment"}
+                    </Button>
+                  </form>
+                </CardContent>
+              </Card>
+            )}
           </div>
 
           <div className="lg:col-span-1">
@@ -311,13 +406,14 @@ export default function OrderDetail() {
               <CardContent>
                 <div className="space-y-4">
                   {(() => {
-                    // Combine updates and comments, then sort by date
+                    // Combine updates and top-level comments, then sort by date; replies show under their comment
+                    const comments = order.comments || [];
                     const allActivity = [
                       ...(order.updates || []).map(update => ({
                         ...update,
                         type: 'update' as const,
                       })),
-                      ...(order.comments || []).map(comment => ({
+                      ...comments.filter(comment => !comment.parentId).map(comment => ({
                         ...comment,
                         type: 'comment' as const,
                       })),
@@ -338,22 +434,44 @@ export default function OrderDetail() {
                               }`}>
                                 {item.type === 'update' ? 'Update' : 'Comment'}
                               </span>
+                              {item.type === 'comment' && item.annotationId && (
+                                <span className="text-xs px-2 py-1 rounded-full bg-red-100 text-red-700">
+                                  On photo
+                                </span>
+                              )}
                               <span className={`text-xs px-2 py-1 rounded-full ${
-                                item.authorRole === 'manufacturer'
+                                item.authorRole === 'system'
+                                  ? 'bg-slate-100 text-slate-700'
+                                  : item.authorRole === 'manufacturer'
                                   ? 'bg-purple-100 text-purple-700'
                                   : 'bg-orange-100 text-orange-700'
                               }`}>
                                 {item.authorRole}
                               </span>
                             </div>
-                            <p className="text-sm text-slate-900">{item.message}</p>
-                            <div className="flex items-center space-x-2 mt-2">
-                              <p className="text-xs font-medium text-slate-700">{item.authorName}</p>
-                              <div className="flex items-center space-x-1">
-                                <Clock className="w-3 h-3 text-slate-400" />
-                                <p className="text-xs text-slate-500">{formatDateTime(item.createdAt)}</p>
-                              </div>
-                            </div>
+                            {item.type === 'comment' ? (
+                              <CommentEntry
+                                orderId={order.id}
+                                comment={item}
+                                replies={comments.filter(reply => reply.parentId === item.id)}
+                                currentUserId={user?.id}
+                                canComment={order.access.actions.includes('comment')}
+                                canModerate={order.access.actions.includes('manage_stakeholders')}
+                                people={mentionable}
+                              />
+                            ) : (
+                              <>
+                                <MentionText text={item.message} people={mentionable} className="text-sm text-slate-900" />
+                                <AttachmentList attachments={item.attachments ?? []} />
+                                <div className="flex items-center space-x-2 mt-2">
+                                  <p className="text-xs font-medium text-slate-700">{item.authorName}</p>
+                                  <div className="flex items-center space-x-1">
+                                    <Clock className="w-3 h-3 text-slate-400" />
+                                    <p className="text-xs text-slate-500">{formatDateTime(item.createdAt)}</p>
+                                  </div>
+                                </div>
+                              </>
+                            )}
                           </div>
                         </div>
                       ))
@@ -5,19 +5,18 @@ import { zodResolver } from "@hookform/resolvers/zod";
 import { z } from "zod";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
-import { Textarea } from "@/components/ui/textarea";
-import { Input } from "@/components/ui/input";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Label } from "@/components/ui/label";
 import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/use-auth";
 import { apiRequest } from "@/lib/queryClient";
 import { Send, CheckCircle, Package } from "lucide-react";
+import AttachmentPicker from "@/components/media/attachment-picker";
+import MentionTextarea from "@/components/order/mention-textarea";
 
 const updateSchema = z.object({
   orderId: z.string().min(1, "Please select an order"),
   message: z.string().min(1, "Update message is required"),
-  authorName: z.string().min(1, "Name is required"),
-  authorRole: z.enum(['manufacturer', 'buyer']),
 });
 
 type UpdateFormData = z.infer<typeof updateSchema>;
@@ -31,7 +30,9 @@ interface Order {
 
 export default function SendUpdate() {
   const [updateSent, setUpdateSent] = useState(false);
+  const [attachmentIds, setAttachmentIds] = useState<string[]>([]);
   const { toast } = useToast();
+  const { user } = useAuth();
   const queryClient = useQueryClient();
 
   const { data: orders } = useQuery<Order[]>({
@@ -47,22 +48,32 @@ export default function SendUpdate() {
     watch,
   } = useForm<UpdateFormData>({
     resolver: zodResolver(updateSchema),
+    defaultValues: { message: "" },
   });
 
   const selectedOrderId = watch("orderId");
 
+  // The selected order's stakeholders, for @mention suggestions
+  const { data: selectedOrderDetail } = useQuery<{ stakeholders: Array<{ id: string; name: string; invitationStatus: string }> }>({
+    queryKey: ["/api/orders", selectedOrderId],
+    enabled: !!selectedOrderId,
+  });
+  const mentionable = (selectedOrderDetail?.stakeholders ?? [])
+    .filter(s => s.invitationStatus !== 'revoked')
+    .map(s => ({ id: s.id, name: s.name }));
+
   const sendUpdateMutation = useMutation({
     mutationFn: async (data: UpdateFormData) => {
       const response = await apiRequest("POST", `/api/orders/${data.orderId}/updates`, {
         message: data.message,
-        authorName: data.authorName,
-        authorRole: data.authorRole,
+        attachmentIds,
       });
       return response.json();
     },
     onSuccess: () => {
       setUpdateSent(true);
       reset();
+      setAttachmentIds([]);
       queryClient.invalidateQueries({ queryKey: ["/api/orders"] });
       toast({
         title: "Update Sent",
@@ -114,7 +125,11 @@ export default function SendUpdate() {
               <div>
                 <Label htmlFor="order-select">Choose Order</Label>
                 <Select
-                  onValueChange={(value) => setValue("orderId", value)}
+                  onValueChange={(value) => {
+                    setValue("orderId", value);
+                    // Attachments belong to the order they were picked from
+                    setAttachmentIds([]);
+                  }}
                   {...register("orderId")}
                 >
                   <SelectTrigger className="mt-1">
@@ -133,37 +148,6 @@ export default function SendUpdate() {
                 )}
               </div>
 
-              <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
-                <div>
-                  <Label htmlFor="authorName">Your Name</Label>
-                  <Input
-                    id="authorName"
-                    {...register("authorName")}
-                    placeholder="Enter your name"
-                    className="mt-1"
-                  />
-                  {errors.authorName && (
-                    <p className="text-sm text-red-500 mt-1">{errors.authorName.message}</p>
-                  )}
-                </div>
-                
-                <div>
-                  <Label htmlFor="role-select">Your Role</Label>
-                  <Select onValueChange={(value) => setValue("authorRole", value as "manufacturer" | "buyer")}>
-                    <SelectTrigger className="mt-1">
-                      <SelectValue placeholder="Select your role" />
-                    </SelectTrigger>
-                    <SelectContent>
-                      <SelectItem value="manufacturer">Manufacturer</SelectItem>
-                      <SelectItem value="buyer">Buyer</SelectItem>
-                    </SelectContent>
-                  </Select>
-                  {errors.authorRole && (
-                    <p className="text-sm text-red-500 mt-1">{errors.authorRole.message}</p>
-                  )}
-                </div>
-              </div>
-
               {selectedOrder && (
                 <div className="bg-slate-50 rounded-lg p-4">
                   <div className="flex items-center space-x-3 mb-2">
@@ -193,18 +177,34 @@ export default function SendUpdate() {
 
               <div>
                 <Label htmlFor="message">Update Message</Label>
-                <Textarea
+                <MentionTextarea
                   id="message"
-                  {...register("message")}
-                  placeholder="Enter your update message here..."
+                  value={watch("message")}
+                  onChange={(message) => setValue("message", message, { shouldValidate: !!errors.message })}
+                  people={mentionable}
+                  placeholder="Enter your update message here... Type @ to mention someone"
                   rows={6}
                   className="mt-1"
                 />
                 {errors.message && (
                   <p className="text-sm text-red-500 mt-1">{errors.message.message}</p>
                 )}
+                {user && (
+                  <p className="text-sm text-slate-600 mt-1">
+                    Posting as {user.name} ({user.role})
+                  </p>
+                )}
               </div>
 
+              {selectedOrderId && (
+                <div>
+                  <Label>Attachments</Label>
+                  <div className="mt-1">
+                    <AttachmentPicker orderId={selectedOrderId} selectedIds={attachmentIds} onChange={setAttachmentIds} />
+                  </div>
+                </div>
+              )}
+
               <Button
                 type="submit"
                 className="w-full"
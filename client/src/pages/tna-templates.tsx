@@ -0,0 +1,303 @@
+import { useEffect, useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { Link } from "wouter";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/use-auth";
+import { apiRequest } from "@/lib/queryClient";
+import { ArrowLeft, CalendarClock, Copy, Plus, Save, Star, Trash2, X } from "lucide-react";
+import type { TnaTemplateOption } from "@/components/order/tna-template-select";
+
+interface MilestoneRow {
+  name: string;
+  daysBeforeDelivery: string;
+}
+
+// The editor works on a new template until one is selected
+const NEW_TEMPLATE = "new";
+
+// Error messages from apiRequest look like "400: {json}"; show the server's message when there is one
+const errorMessage = (error: Error) => {
+  const json = error.message.replace(/^\d+:\s*/, "");
+  try {
+    return JSON.parse(json).message ?? error.message;
+  } catch {
+    return json;
+  }
+};
+
+const toRows = (template: TnaTemplateOption): MilestoneRow[] =>
+  template.milestones.map(milestone => ({ name: milestone.name, daysBeforeDelivery: String(milestone.daysBeforeDelivery) }));
+
+export default function TnaTemplates() {
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [name, setName] = useState("");
+  const [rows, setRows] = useState<MilestoneRow[]>([{ name: "", daysBeforeDelivery: "" }]);
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const { data: templates, isLoading } = useQuery<TnaTemplateOption[]>({
+    queryKey: ["/api/tna-templates"],
+    enabled: !!user?.isAdmin,
+  });
+
+  const selected = selectedId === NEW_TEMPLATE ? undefined : templates?.find(t => t.id === selectedId) ?? templates?.[0];
+  const customDefault = templates?.find(t => t.isDefault && !t.builtIn);
+
+  // Load the template into the editor when switching templates or after it is saved
+  useEffect(() => {
+    if (selected) {
+      setName(selected.name);
+      setRows(toRows(selected));
+    }
+  }, [selected?.id, selected?.name, selected?.milestones]);
+
+  const startNew = (from?: TnaTemplateOption) => {
+    setSelectedId(NEW_TEMPLATE);
+    setName(from ? `${from.name} copy` : "");
+    setRows(from ? toRows(from) : [{ name: "", daysBeforeDelivery: "" }]);
+  };
+
+  const updateRow = (index: number, changes: Partial<MilestoneRow>) =>
+    setRows(rows.map((row, i) => (i === index ? { ...row, ...changes } : row)));
+
+  const milestones = rows.map(row => ({ name: row.name.trim(), daysBeforeDelivery: parseInt(row.daysBeforeDelivery, 10) }));
+  const isValid = name.trim() !== "" && milestones.length > 0
+    && milestones.every(milestone => milestone.name !== "" && milestone.daysBeforeDelivery >= 0);
+
+  const invalidateTemplates = () => queryClient.invalidateQueries({ queryKey: ["/api/tna-templates"] });
+
+  const saveMutation = useMutation({
+    mutationFn: async () => {
+      const payload = { name: name.trim(), milestones };
+      const response = selected
+        ? await apiRequest("PUT", `/api/admin/tna-templates/${selected.id}`, { ...payload, isDefault: selected.isDefault })
+        : await apiRequest("POST", "/api/admin/tna-templates", payload);
+      return response.json();
+    },
+    onSuccess: (template: TnaTemplateOption) => {
+      setSelectedId(template.id);
+      invalidateTemplates();
+      toast({
+        title: "Template Saved",
+        description: `${template.name} will be offered for new orders.`,
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: errorMessage(error),
+        variant: "destructive",
+      });
+    },
+  });
+
+  // The built-in template becomes the default again once no custom template is
+  const makeDefaultMutation = useMutation({
+    mutationFn: async (template: TnaTemplateOption) => {
+      const target = template.builtIn ? customDefault! : template;
+      await apiRequest("PUT", `/api/admin/tna-templates/${target.id}`, {
+        name: target.name,
+        milestones: target.milestones,
+        isDefault: !template.builtIn,
+      });
+    },
+    onSuccess: (_, template) => {
+      invalidateTemplates();
+      toast({
+        title: "Default Template Changed",
+        description: `New orders will be planned with ${template.name} unless another template is picked.`,
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: errorMessage(error),
+        variant: "destructive",
+      });
+    },
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (template: TnaTemplateOption) => {
+      await apiRequest("DELETE", `/api/admin/tna-templates/${template.id}`);
+    },
+    onSuccess: (_, template) => {
+      setSelectedId(null);
+      invalidateTemplates();
+      toast({
+        title: "Template Deleted",
+        description: `Orders already planned with ${template.name} keep their milestones.`,
+      });
+    },
+    onError: () => {
+      toast({
+        title: "Error",
+        description: "Failed to delete template. Please try again.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  if (!user?.isAdmin) {
+    return (
+      <div className="min-h-screen bg-slate-50 flex items-center justify-center text-slate-500">
+        Only platform admins can edit TNA templates.
+      </div>
+    );
+  }
+
+  const readOnly = !!selected?.builtIn;
+
+  return (
+    <div className="min-h-screen bg-slate-50 py-8">
+      <div className="max-w-6xl mx-auto px-4 space-y-6">
+        <div>
+          <Link href="/" className="inline-flex items-center text-sm text-slate-600 hover:text-slate-900 mb-2">
+            <ArrowLeft className="w-4 h-4 mr-1" />
+            Back to orders
+          </Link>
+          <h1 className="text-3xl font-bold text-slate-900">TNA Templates</h1>
+          <p className="text-slate-600 mt-1">Milestones new orders are planned with, counted back from the delivery date</p>
+        </div>
+
+        {isLoading || !templates ? (
+          <div className="text-center py-8 text-slate-500">Loading templates...</div>
+        ) : (
+          <div className="grid grid-cols-1 lg:grid-cols-4 gap-6">
+            <div className="space-y-2">
+              {templates.map((template) => (
+                <button
+                  key={template.id}
+                  onClick={() => setSelectedId(template.id)}
+                  className={`w-full text-left p-3 rounded-lg border transition-colors ${
+                    template.id === selected?.id
+                      ? "bg-blue-50 border-blue-200"
+                      : "bg-white border-slate-200 hover:bg-slate-50"
+                  }`}
+                >
+                  <div className="flex items-center justify-between">
+                    <span className="font-medium text-slate-900">{template.name}</span>
+                    {template.isDefault && <Badge variant="secondary">Default</Badge>}
+                  </div>
+                  <p className="text-xs text-slate-500 mt-1">
+                    {template.milestones.length} milestones{template.builtIn && " · Built in"}
+                  </p>
+                </button>
+              ))}
+              <Button variant="outline" className="w-full" onClick={() => startNew()}>
+                <Plus className="w-4 h-4 mr-2" />
+                New Template
+              </Button>
+            </div>
+
+            <Card className="lg:col-span-3">
+              <CardHeader>
+                <CardTitle className="flex items-center justify-between">
+                  <span className="flex items-center space-x-2">
+                    <CalendarClock className="w-5 h-5" />
+                    <span>{selected ? selected.name : "New Template"}</span>
+                  </span>
+                  {selected && (
+                    <span className="flex space-x-2">
+                      {!selected.isDefault && (
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          onClick={() => makeDefaultMutation.mutate(selected)}
+                          disabled={makeDefaultMutation.isPending}
+                        >
+                          <Star className="w-4 h-4 mr-2" />
+                          Make Default
+                        </Button>
+                      )}
+                      <Button variant="outline" size="sm" onClick={() => startNew(selected)}>
+                        <Copy className="w-4 h-4 mr-2" />
+                        Copy
+                      </Button>
+                      {!selected.builtIn && (
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          onClick={() => deleteMutation.mutate(selected)}
+                          disabled={deleteMutation.isPending}
+                        >
+                          <Trash2 className="w-4 h-4 mr-2" />
+                          Delete
+                        </Button>
+                      )}
+                    </span>
+                  )}
+                </CardTitle>
+              </CardHeader>
+              <CardContent className="space-y-4">
+                {readOnly && (
+                  <p className="text-sm text-slate-500">The built-in template can't be edited. Copy it to make your own.</p>
+                )}
+                <div className="space-y-2">
+                  <Label htmlFor="templateName">Name</Label>
+                  <Input id="templateName" value={name} disabled={readOnly} onChange={(e) => setName(e.target.value)} />
+                </div>
+
+                <div className="space-y-2">
+                  <div className="grid grid-cols-[1fr_10rem_2.5rem] gap-2 text-sm font-medium text-slate-700">
+                    <span>Milestone</span>
+                    <span>Days before delivery</span>
+                  </div>
+                  {rows.map((row, index) => (
+                    <div key={index} className="grid grid-cols-[1fr_10rem_2.5rem] gap-2">
+                      <Input
+                        aria-label={`Milestone ${index + 1} name`}
+                        value={row.name}
+                        disabled={readOnly}
+                        onChange={(e) => updateRow(index, { name: e.target.value })}
+                        placeholder="e.g. PP sample approved"
+                      />
+                      <Input
+                        aria-label={`Milestone ${index + 1} days before delivery`}
+                        type="number"
+                        min={0}
+                        value={row.daysBeforeDelivery}
+                        disabled={readOnly}
+                        onChange={(e) => updateRow(index, { daysBeforeDelivery: e.target.value })}
+                      />
+                      {!readOnly && (
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          aria-label={`Remove milestone ${index + 1}`}
+                          onClick={() => setRows(rows.filter((_, i) => i !== index))}
+                          disabled={rows.length === 1}
+                        >
+                          <X className="w-4 h-4" />
+                        </Button>
+                      )}
+                    </div>
+                  ))}
+                  {!readOnly && (
+                    <Button variant="outline" size="sm" onClick={() => setRows([...rows, { name: "", daysBeforeDelivery: "" }])}>
+                      <Plus className="w-4 h-4 mr-2" />
+                      Add Milestone
+                    </Button>
+                  )}
+                </div>
+
+                {!readOnly && (
+                  <Button onClick={() => saveMutation.mutate()} disabled={!isValid || saveMutation.isPending}>
+                    <Save className="w-4 h-4 mr-2" />
+                    {saveMutation.isPending ? "Saving..." : "Save Template"}
+                  </Button>
+                )}
+              </CardContent>
+            </Card>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,38 @@
+CREATE TABLE "comments" (
+	"id" varchar PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"order_id" varchar NOT NULL,
+	"message" text NOT NULL,
+	"author_name" text NOT NULL,
+	"author_role" text NOT NULL,
+	"created_at" timestamp DEFAULT now()
+);
+--> statement-breakpoint
+CREATE TABLE "orders" (
+	"id" varchar PRIMARY KEY NOT NULL,
+	"buyer_name" text NOT NULL,
+	"style_number" text NOT NULL,
+	"quantity" integer NOT NULL,
+	"estimated_delivery" timestamp NOT NULL,
+	"buyer_email" text NOT NULL,
+	"status" text DEFAULT 'received' NOT NULL,
+	"created_at" timestamp DEFAULT now()
+);
+--> statement-breakpoint
+CREATE TABLE "stakeholders" (
+	"id" varchar PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"order_id" varchar NOT NULL,
+	"name" text NOT NULL,
+	"email" text NOT NULL,
+	"role" text NOT NULL,
+	"permissions" text DEFAULT 'read' NOT NULL,
+	"created_at" timestamp DEFAULT now()
+);
+--> statement-breakpoint
+CREATE TABLE "updates" (
+	"id" varchar PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"order_id" varchar NOT NULL,
+	"message" text NOT NULL,
+	"author_name" text NOT NULL,
+	"author_role" text NOT NULL,
+	"created_at" timestamp DEFAULT now()
+);
@@ -0,0 +1,15 @@
+CREATE TABLE "invitation_tokens" (
+	"id" varchar PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"stakeholder_id" varchar NOT NULL,
+	"token_hash" text NOT NULL,
+	"expires_at" timestamp NOT NULL,
+	"used_at" timestamp,
+	"created_at" timestamp DEFAULT now(),
+	CONSTRAINT "invitation_tokens_token_hash_unique" UNIQUE("token_hash")
+);
+--> statement-breakpoint
+ALTER TABLE "stakeholders" ADD COLUMN "user_id" varchar;--> statement-breakpoint
+ALTER TABLE "stakeholders" ADD COLUMN "invitation_status" text DEFAULT 'pending' NOT NULL;--> statement-breakpoint
+ALTER TABLE "stakeholders" ADD COLUMN "invited_at" timestamp;--> statement-breakpoint
+ALTER TABLE "stakeholders" ADD COLUMN "invitation_expires_at" timestamp;--> statement-breakpoint
+ALTER TABLE "stakeholders" ADD COLUMN "accepted_at" timestamp;
\ No newline at end of file
@@ -0,0 +1,10 @@
+CREATE TABLE "status_history" (
+	"id" varchar PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"order_id" varchar NOT NULL,
+	"from_status" text,
+	"to_status" text NOT NULL,
+	"changed_by_id" varchar,
+	"changed_by_name" text NOT NULL,
+	"reason" text,
+	"created_at" timestamp DEFAULT now()
+);
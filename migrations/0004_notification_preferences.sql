@@ -0,0 +1 @@
+ALTER TABLE "stakeholders" ADD COLUMN "notification_preferences" jsonb DEFAULT '{"update":true,"comment":true,"status_change":true}'::jsonb NOT NULL;
\ No newline at end of file
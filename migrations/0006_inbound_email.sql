@@ -0,0 +1,25 @@
+CREATE TABLE "inbound_emails" (
+	"id" varchar PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"message_id" text,
+	"from_address" text NOT NULL,
+	"subject" text,
+	"order_id" varchar,
+	"comment_id" varchar,
+	"status" text NOT NULL,
+	"reason" text,
+	"received_at" timestamp DEFAULT now(),
+	CONSTRAINT "inbound_emails_message_id_unique" UNIQUE("message_id")
+);
+--> statement-breakpoint
+CREATE TABLE "media_files" (
+	"id" varchar PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"order_id" varchar NOT NULL,
+	"filename" text NOT NULL,
+	"original_name" text NOT NULL,
+	"size" integer NOT NULL,
+	"mime_type" text NOT NULL,
+	"category" text DEFAULT 'other' NOT NULL,
+	"description" text,
+	"uploaded_by" text NOT NULL,
+	"uploaded_at" timestamp DEFAULT now()
+);
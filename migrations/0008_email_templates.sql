@@ -0,0 +1,16 @@
+CREATE TABLE "email_branding" (
+	"id" varchar PRIMARY KEY DEFAULT 'default' NOT NULL,
+	"product_name" text NOT NULL,
+	"logo_url" text,
+	"primary_color" text NOT NULL,
+	"footer_text" text NOT NULL,
+	"updated_at" timestamp DEFAULT now()
+);
+--> statement-breakpoint
+CREATE TABLE "email_templates" (
+	"name" text PRIMARY KEY NOT NULL,
+	"subject" text NOT NULL,
+	"body" text NOT NULL,
+	"updated_by" varchar,
+	"updated_at" timestamp DEFAULT now()
+);
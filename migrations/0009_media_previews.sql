@@ -0,0 +1,5 @@
+ALTER TABLE "media_files" ADD COLUMN "preview_status" text DEFAULT 'pending' NOT NULL;--> statement-breakpoint
+ALTER TABLE "media_files" ADD COLUMN "preview_locked_at" timestamp;--> statement-breakpoint
+ALTER TABLE "media_files" ADD COLUMN "preview_error" text;--> statement-breakpoint
+ALTER TABLE "media_files" ADD COLUMN "thumbnails" jsonb;--> statement-breakpoint
+CREATE INDEX "media_files_preview_status_idx" ON "media_files" USING btree ("preview_status");
\ No newline at end of file
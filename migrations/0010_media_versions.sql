@@ -0,0 +1,6 @@
+ALTER TABLE "stakeholders" ALTER COLUMN "notification_preferences" SET DEFAULT '{"update":true,"comment":true,"status_change":true,"document_revision":true}'::jsonb;--> statement-breakpoint
+ALTER TABLE "media_files" ADD COLUMN "document_id" varchar;--> statement-breakpoint
+ALTER TABLE "media_files" ADD COLUMN "version" integer DEFAULT 1 NOT NULL;--> statement-breakpoint
+ALTER TABLE "media_files" ADD COLUMN "change_note" text;--> statement-breakpoint
+ALTER TABLE "media_files" ADD COLUMN "is_latest" boolean DEFAULT true NOT NULL;--> statement-breakpoint
+CREATE INDEX "media_files_document_idx" ON "media_files" USING btree ("document_id");
\ No newline at end of file
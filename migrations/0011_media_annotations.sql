@@ -0,0 +1,14 @@
+CREATE TABLE "media_annotations" (
+	"id" varchar PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"media_file_id" varchar NOT NULL,
+	"order_id" varchar NOT NULL,
+	"version" integer NOT NULL,
+	"shape" jsonb NOT NULL,
+	"author_id" varchar,
+	"author_name" text NOT NULL,
+	"created_at" timestamp DEFAULT now()
+);
+--> statement-breakpoint
+ALTER TABLE "comments" ADD COLUMN "annotation_id" varchar;--> statement-breakpoint
+CREATE INDEX "media_annotations_media_file_idx" ON "media_annotations" USING btree ("media_file_id");--> statement-breakpoint
+CREATE INDEX "comments_annotation_idx" ON "comments" USING btree ("annotation_id");
\ No newline at end of file
@@ -0,0 +1,13 @@
+CREATE TABLE "media_blobs" (
+	"hash" varchar(64) PRIMARY KEY NOT NULL,
+	"storage_key" text NOT NULL,
+	"size" integer NOT NULL,
+	"checksum" varchar(64) NOT NULL,
+	"integrity_status" text DEFAULT 'ok' NOT NULL,
+	"last_verified_at" timestamp,
+	"created_at" timestamp DEFAULT now()
+);
+--> statement-breakpoint
+ALTER TABLE "media_files" ADD COLUMN "content_hash" varchar(64);--> statement-breakpoint
+CREATE INDEX "media_blobs_last_verified_idx" ON "media_blobs" USING btree ("last_verified_at");--> statement-breakpoint
+CREATE INDEX "media_files_content_hash_idx" ON "media_files" USING btree ("content_hash");
\ No newline at end of file
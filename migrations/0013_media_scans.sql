@@ -0,0 +1,6 @@
+ALTER TABLE "media_files" ADD COLUMN "scan_status" text DEFAULT 'pending' NOT NULL;--> statement-breakpoint
+ALTER TABLE "media_files" ADD COLUMN "scan_locked_at" timestamp;--> statement-breakpoint
+ALTER TABLE "media_files" ADD COLUMN "scan_verdict" text;--> statement-breakpoint
+ALTER TABLE "media_files" ADD COLUMN "scanned_by" text;--> statement-breakpoint
+ALTER TABLE "media_files" ADD COLUMN "scanned_at" timestamp;--> statement-breakpoint
+CREATE INDEX "media_files_scan_status_idx" ON "media_files" USING btree ("scan_status");
\ No newline at end of file
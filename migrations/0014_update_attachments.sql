@@ -0,0 +1,2 @@
+ALTER TABLE "comments" ADD COLUMN "attachment_ids" jsonb DEFAULT '[]'::jsonb NOT NULL;--> statement-breakpoint
+ALTER TABLE "updates" ADD COLUMN "attachment_ids" jsonb DEFAULT '[]'::jsonb NOT NULL;
\ No newline at end of file
@@ -0,0 +1,15 @@
+CREATE TABLE "comment_revisions" (
+	"id" varchar PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"comment_id" varchar NOT NULL,
+	"message" text NOT NULL,
+	"edited_by_id" varchar,
+	"edited_by_name" text NOT NULL,
+	"created_at" timestamp DEFAULT now()
+);
+--> statement-breakpoint
+ALTER TABLE "comments" ADD COLUMN "parent_id" varchar;--> statement-breakpoint
+ALTER TABLE "comments" ADD COLUMN "edited_at" timestamp;--> statement-breakpoint
+ALTER TABLE "comments" ADD COLUMN "deleted_at" timestamp;--> statement-breakpoint
+ALTER TABLE "comments" ADD COLUMN "deleted_by_name" text;--> statement-breakpoint
+CREATE INDEX "comment_revisions_comment_idx" ON "comment_revisions" USING btree ("comment_id");--> statement-breakpoint
+CREATE INDEX "comments_parent_idx" ON "comments" USING btree ("parent_id");
\ No newline at end of file
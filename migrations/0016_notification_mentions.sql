@@ -0,0 +1,2 @@
+ALTER TABLE "stakeholders" ALTER COLUMN "notification_preferences" SET DEFAULT '{"update":true,"comment":true,"status_change":true,"document_revision":true,"mentions_only":false}'::jsonb;--> statement-breakpoint
+ALTER TABLE "notifications" ADD COLUMN "priority" text DEFAULT 'normal' NOT NULL;
\ No newline at end of file
@@ -0,0 +1,11 @@
+CREATE TABLE "order_line_items" (
+	"id" varchar PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"order_id" varchar NOT NULL,
+	"color" text NOT NULL,
+	"size" text NOT NULL,
+	"quantity" integer NOT NULL,
+	"position" integer NOT NULL,
+	"created_at" timestamp DEFAULT now()
+);
+--> statement-breakpoint
+CREATE INDEX "order_line_items_order_idx" ON "order_line_items" USING btree ("order_id","position");
\ No newline at end of file
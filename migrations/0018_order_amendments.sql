@@ -0,0 +1,21 @@
+CREATE TABLE "order_amendments" (
+	"id" varchar PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"order_id" varchar NOT NULL,
+	"base_revision" integer NOT NULL,
+	"revision" integer,
+	"changes" jsonb NOT NULL,
+	"reason" text,
+	"status" text DEFAULT 'pending' NOT NULL,
+	"requires_approval" boolean NOT NULL,
+	"proposed_by_id" varchar,
+	"proposed_by_name" text NOT NULL,
+	"decided_by_id" varchar,
+	"decided_by_name" text,
+	"decision_note" text,
+	"decided_at" timestamp,
+	"created_at" timestamp DEFAULT now()
+);
+--> statement-breakpoint
+ALTER TABLE "stakeholders" ALTER COLUMN "notification_preferences" SET DEFAULT '{"update":true,"comment":true,"status_change":true,"document_revision":true,"amendment":true,"mentions_only":false}'::jsonb;--> statement-breakpoint
+ALTER TABLE "orders" ADD COLUMN "revision" integer DEFAULT 1 NOT NULL;--> statement-breakpoint
+CREATE INDEX "order_amendments_order_idx" ON "order_amendments" USING btree ("order_id","created_at");
\ No newline at end of file
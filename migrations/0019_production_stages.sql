@@ -0,0 +1,29 @@
+CREATE TABLE "production_stages" (
+	"id" varchar PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"order_id" varchar NOT NULL,
+	"name" text NOT NULL,
+	"position" integer NOT NULL,
+	"planned_quantity" integer NOT NULL,
+	"planned_start" timestamp,
+	"planned_end" timestamp,
+	"completed_quantity" integer DEFAULT 0 NOT NULL,
+	"actual_start" timestamp,
+	"actual_end" timestamp,
+	"created_at" timestamp DEFAULT now()
+);
+--> statement-breakpoint
+CREATE TABLE "stage_outputs" (
+	"id" varchar PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"stage_id" varchar NOT NULL,
+	"order_id" varchar NOT NULL,
+	"line_item_id" varchar,
+	"quantity" integer NOT NULL,
+	"produced_on" timestamp NOT NULL,
+	"note" text,
+	"recorded_by_id" varchar,
+	"recorded_by_name" text NOT NULL,
+	"created_at" timestamp DEFAULT now()
+);
+--> statement-breakpoint
+CREATE INDEX "production_stages_order_idx" ON "production_stages" USING btree ("order_id","position");--> statement-breakpoint
+CREATE INDEX "stage_outputs_order_idx" ON "stage_outputs" USING btree ("order_id","produced_on");
\ No newline at end of file
@@ -0,0 +1,24 @@
+CREATE TABLE "order_milestones" (
+	"id" varchar PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"order_id" varchar NOT NULL,
+	"name" text NOT NULL,
+	"position" integer NOT NULL,
+	"planned_date" timestamp NOT NULL,
+	"actual_date" timestamp,
+	"owner_stakeholder_id" varchar,
+	"completed_by_id" varchar,
+	"completed_by_name" text,
+	"created_at" timestamp DEFAULT now()
+);
+--> statement-breakpoint
+CREATE TABLE "tna_templates" (
+	"id" varchar PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"name" text NOT NULL,
+	"milestones" jsonb NOT NULL,
+	"is_default" boolean DEFAULT false NOT NULL,
+	"updated_by" varchar,
+	"created_at" timestamp DEFAULT now(),
+	"updated_at" timestamp DEFAULT now()
+);
+--> statement-breakpoint
+CREATE INDEX "order_milestones_order_idx" ON "order_milestones" USING btree ("order_id","position");
\ No newline at end of file
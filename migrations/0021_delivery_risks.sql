@@ -0,0 +1,8 @@
+CREATE TABLE "delivery_risks" (
+	"order_id" varchar PRIMARY KEY NOT NULL,
+	"score" integer NOT NULL,
+	"level" text NOT NULL,
+	"reasons" jsonb DEFAULT '[]'::jsonb NOT NULL,
+	"assessed_at" timestamp NOT NULL,
+	"alerted_at" timestamp
+);
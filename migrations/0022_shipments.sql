@@ -0,0 +1,14 @@
+CREATE TABLE "shipments" (
+	"id" varchar PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"order_id" varchar NOT NULL,
+	"line_item_id" varchar,
+	"quantity" integer NOT NULL,
+	"shipped_on" timestamp NOT NULL,
+	"reference" text,
+	"note" text,
+	"recorded_by_id" varchar,
+	"recorded_by_name" text NOT NULL,
+	"created_at" timestamp DEFAULT now()
+);
+--> statement-breakpoint
+CREATE INDEX "shipments_order_idx" ON "shipments" USING btree ("order_id","shipped_on");
\ No newline at end of file
@@ -0,0 +1,166 @@
+import { storage } from "./storage";
+import { isBuyerSide } from "./permissions";
+import { stagesFollowingQuantity } from "./production";
+import { milestonesFollowingDelivery } from "./tna";
+import {
+  COMMERCIAL_FIELDS,
+  lineItemKey,
+  lineItemsTotal,
+  type AmendableField,
+  type AmendmentChanges,
+  type Order,
+  type OrderAmendment,
+  type OrderAmendmentProposal,
+  type OrderChanges,
+  type OrderLineItemInput,
+  type Stakeholder,
+  type User,
+} from "@shared/schema";
+
+// A proposed change that can't be made to the order
+export class AmendmentError extends Error {}
+
+const FIELD_LABELS: Record<AmendableField, string> = {
+  buyerName: "Buyer",
+  buyerEmail: "Buyer email",
+  styleNumber: "Style number",
+  quantity: "Quantity",
+  estimatedDelivery: "Estimated delivery",
+  lineItems: "Size/color breakdown",
+};
+
+function sameLineItems(a: OrderLineItemInput[], b: OrderLineItemInput[]): boolean {
+  const quantities = new Map(a.map(item => [lineItemKey(item), item.quantity]));
+  return a.length === b.length && b.every(item => quantities.get(lineItemKey(item)) === item.quantity);
+}
+
+/**
+ * Compares a proposal with the order as it stands and returns the fields it would change.
+ * Throws AmendmentError if the result would leave the size/color breakdown out of step with
+ * the order quantity.
+ */
+export async function diffOrder(order: Order, proposal: OrderAmendmentProposal): Promise<AmendmentChanges> {
+  const changes: AmendmentChanges = {};
+
+  for (const field of ['buyerName', 'buyerEmail', 'styleNumber'] as const) {
+    const to = proposal[field];
+    if (to !== undefined && to !== order[field]) {
+      changes[field] = { from: order[field], to };
+    }
+  }
+  if (proposal.quantity !== undefined && proposal.quantity !== order.quantity) {
+    changes.quantity = { from: order.quantity, to: proposal.quantity };
+  }
+  if (proposal.estimatedDelivery !== undefined) {
+    const from = order.estimatedDelivery.toISOString();
+    const to = new Date(proposal.estimatedDelivery).toISOString();
+    if (from !== to) changes.estimatedDelivery = { from, to };
+  }
+
+  const current = (await storage.getOrderLineItems(order.id)).map(({ color, size, quantity }) => ({ color, size, quantity }));
+  if (proposal.lineItems && !sameLineItems(current, proposal.lineItems)) {
+    changes.lineItems = { from: current, to: proposal.lineItems };
+  }
+
+  const quantity = changes.quantity?.to ?? order.quantity;
+  const lineItems = changes.lineItems?.to ?? current;
+  if (lineItems.length > 0 && lineItemsTotal(lineItems) !== quantity) {
+    throw new AmendmentError(
+      `The size/color breakdown adds up to ${lineItemsTotal(lineItems)} pieces but the order quantity would be ${quantity}`
+    );
+  }
+  return changes;
+}
+
+// The buyer side has to agree to new commercial terms, unless it proposed them itself
+export function needsApproval(changes: AmendmentChanges, proposer: Stakeholder | undefined): boolean {
+  return !isBuyerSide(proposer) && COMMERCIAL_FIELDS.some(field => changes[field] !== undefined);
+}
+
+/**
+ * Approves a pending amendment and writes its changes to the order as the next revision, along
+ * with the production stages and open milestones that follow them, all in one go. Returns
+ * undefined if someone else decided the amendment first or the order has changed since it was
+ * proposed.
+ */
+export async function applyAmendment(
+  order: Order,
+  amendment: OrderAmendment,
+  approver: Pick<User, "id" | "name">,
+  note?: string
+): Promise<{ order: Order; amendment: OrderAmendment } | undefined> {
+  const { changes } = amendment;
+  const revision = amendment.baseRevision + 1;
+  const orderChanges: OrderChanges = { revision };
+  if (changes.buyerName) orderChanges.buyerName = changes.buyerName.to;
+  if (changes.buyerEmail) orderChanges.buyerEmail = changes.buyerEmail.to;
+  if (changes.styleNumber) orderChanges.styleNumber = changes.styleNumber.to;
+  if (changes.quantity) orderChanges.quantity = changes.quantity.to;
+  if (changes.estimatedDelivery) orderChanges.estimatedDelivery = new Date(changes.estimatedDelivery.to);
+
+  return storage.applyOrderAmendment(amendment.id, {
+    decision: {
+      status: 'approved',
+      decidedById: approver.id,
+      decidedByName: approver.name,
+      decisionNote: note,
+      revision,
+    },
+    orderChanges,
+    lineItems: changes.lineItems?.to,
+    productionStages: changes.quantity
+      ? await stagesFollowingQuantity(order.id, changes.quantity.from, changes.quantity.to)
+      : undefined,
+    milestoneDates: changes.estimatedDelivery
+      ? await milestonesFollowingDelivery(order.id, new Date(changes.estimatedDelivery.from), new Date(changes.estimatedDelivery.to))
+      : undefined,
+  });
+}
+
+function formatDate(iso: string): string {
+  return new Date(iso).toLocaleDateString('en-US', { year: 'numeric', month: 'long', day: 'numeric' });
+}
+
+// Only the cells that differ, e.g. "Navy/M 200" -> "Navy/M 250"; a missing cell shows as "–"
+function describeLineItems(from: OrderLineItemInput[], to: OrderLineItemInput[]): { from: string; to: string } {
+  const before = new Map(from.map(item => [lineItemKey(item), item]));
+  const after = new Map(to.map(item => [lineItemKey(item), item]));
+  const cells = Array.from(new Map([...from, ...to].map(item => [lineItemKey(item), item])).entries())
+    .filter(([key]) => before.get(key)?.quantity !== after.get(key)?.quantity);
+
+  const describe = (side: Map<string, OrderLineItemInput>) => cells
+    .map(([key, item]) => `${item.color}/${item.size} ${side.get(key)?.quantity.toLocaleString('en-US') ?? '–'}`)
+    .join(', ');
+  return { from: describe(before), to: describe(after) };
+}
+
+// The amendment's changes as readable label/from/to rows, for the timeline and emails
+export function describeChanges(changes: AmendmentChanges): { label: string; from: string; to: string }[] {
+  const rows: { label: string; from: string; to: string }[] = [];
+  for (const field of ['buyerName', 'buyerEmail', 'styleNumber'] as const) {
+    const change = changes[field];
+    if (change) rows.push({ label: FIELD_LABELS[field], ...change });
+  }
+  if (changes.quantity) {
+    rows.push({
+      label: FIELD_LABELS.quantity,
+      from: changes.quantity.from.toLocaleString('en-US'),
+      to: changes.quantity.to.toLocaleString('en-US'),
+    });
+  }
+  if (changes.estimatedDelivery) {
+    rows.push({
+      label: FIELD_LABELS.estimatedDelivery,
+      from: formatDate(changes.estimatedDelivery.from),
+      to: formatDate(changes.estimatedDelivery.to),
+    });
+  }
+  if (changes.lineItems) {
+    rows.push({ label: FIELD_LABELS.lineItems, ...describeLineItems(changes.lineItems.from, changes.lineItems.to) });
+  }
+  return rows;
+}
+
+export function summarizeChanges(changes: AmendmentChanges): string {
+  return describeChanges(changes).map(row => `${row.label} ${row.from} → ${row.to}`).join('; ');
+}
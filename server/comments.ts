@@ -0,0 +1,29 @@
+import { storage } from "./storage";
+import type { Comment } from "@shared/schema";
+
+// A reply pointed at a comment it can't be attached to
+export class CommentThreadError extends Error {}
+
+// Deleted comments keep their place in the thread, but their text and files are only kept for audit
+export function withCommentState(comment: Comment): Comment {
+  if (!comment.deletedAt) return comment;
+  return { ...comment, message: "", attachmentIds: [] };
+}
+
+/**
+ * Finds the comment a reply belongs under. Threads are one level deep, so replying to a reply
+ * joins its parent's thread. Photo annotations keep their own threads.
+ */
+export async function threadParentFor(orderId: string, parentId: string): Promise<string> {
+  const parent = await storage.getComment(parentId);
+  if (!parent || parent.orderId !== orderId) {
+    throw new CommentThreadError("The comment being replied to is not on this order");
+  }
+  if (parent.deletedAt) {
+    throw new CommentThreadError("The comment being replied to has been deleted");
+  }
+  if (parent.annotationId) {
+    throw new CommentThreadError("Reply to photo comments in the photo's annotation thread");
+  }
+  return parent.parentId ?? parent.id;
+}
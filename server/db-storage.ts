@@ -0,0 +1,1120 @@
+import { and, asc, desc, eq, inArray, isNull, lt, lte, ne, or, sql } from "drizzle-orm";
+import {
+  users,
+  orders,
+  orderLineItems,
+  orderAmendments,
+  productionStages,
+  stageOutputs,
+  shipments,
+  tnaTemplates,
+  orderMilestones,
+  deliveryRisks,
+  updates,
+  comments,
+  commentRevisions,
+  stakeholders,
+  invitationTokens,
+  statusHistory,
+  notifications,
+  mediaFiles,
+  mediaAnnotations,
+  mediaBlobs,
+  inboundEmails,
+  emailOutbox,
+  emailTemplates,
+  emailBranding,
+  type User,
+  type InsertUser,
+  type Order,
+  type OrderChanges,
+  type OrderLineItem,
+  type OrderAmendment,
+  type InsertOrderAmendment,
+  type AmendmentDecision,
+  type AmendmentApplication,
+  type OrderLineItemInput,
+  type ProductionStage,
+  type ProductionStageInput,
+  type StageOutput,
+  type InsertStageOutput,
+  type Shipment,
+  type InsertShipment,
+  type TnaTemplate,
+  type TnaTemplateInput,
+  type OrderMilestone,
+  type DeliveryRisk,
+  type InsertDeliveryRisk,
+  type InsertOrderMilestone,
+  type OrderMilestoneChanges,
+  type Update,
+  type Comment,
+  type CommentRevision,
+  type Stakeholder,
+  type InsertOrder,
+  type InsertUpdate,
+  type InsertComment,
+  type InsertStakeholder,
+  type StatusHistory,
+  type InsertStatusHistory,
+  type StakeholderChanges,
+  type InvitationToken,
+  type InsertInvitationToken,
+  type Notification,
+  type InsertNotification,
+  type NotificationFilter,
+  type MediaFile,
+  type InsertMediaFile,
+  type MediaFileChanges,
+  type InboundEmail,
+  type InsertInboundEmail,
+  type OutboxEmail,
+  type InsertOutboxEmail,
+  type OutboxStatus,
+  type EmailTemplateOverride,
+  type EmailBranding,
+  type InsertEmailBranding,
+  type MediaAnnotation,
+  type InsertMediaAnnotation,
+  type AnnotationThread,
+  type MediaBlob,
+  type InsertMediaBlob,
+  type MediaBlobChanges,
+  lineItemKey,
+} from "@shared/schema";
+import { isStageComplete } from "@shared/production";
+import type { Database } from "./db";
+import type { IStorage } from "./storage";
+import { MediaBlobReleasedError } from "./media-storage";
+
+// The latest day a stage produced anything; takes the open transaction so it sees new output
+async function lastProductionDay(db: Pick<Database, "select">, stageId: string): Promise<Date | null> {
+  const [last] = await db
+    .select({ day: sql<Date | null>`max(${stageOutputs.producedOn})`.mapWith(stageOutputs.producedOn) })
+    .from(stageOutputs)
+    .where(eq(stageOutputs.stageId, stageId));
+  return last?.day ?? null;
+}
+
+type Writer = Pick<Database, "select" | "insert" | "update" | "delete">;
+
+// Share-locks the blob a new media file points at, so it cannot be released until the file is committed
+async function referenceMediaBlob(tx: Writer, hash: string | undefined): Promise<void> {
+  if (!hash) return;
+  const [blob] = await tx.select({ hash: mediaBlobs.hash }).from(mediaBlobs).where(eq(mediaBlobs.hash, hash)).for("share");
+  if (!blob) throw new MediaBlobReleasedError(hash);
+}
+
+// Cells keep their id while they exist; run inside a transaction
+async function writeOrderLineItems(tx: Writer, orderId: string, items: OrderLineItemInput[]): Promise<OrderLineItem[]> {
+  const current = await tx.select().from(orderLineItems).where(eq(orderLineItems.orderId, orderId)).for("update");
+  const existing = new Map(current.map(item => [lineItemKey(item), item]));
+
+  const replaced: OrderLineItem[] = [];
+  for (let position = 0; position < items.length; position++) {
+    const input = items[position];
+    const previous = existing.get(lineItemKey(input));
+    existing.delete(lineItemKey(input));
+    const values = { color: input.color, size: input.size, quantity: input.quantity, position };
+    const [item] = previous
+      ? await tx.update(orderLineItems).set(values).where(eq(orderLineItems.id, previous.id)).returning()
+      : await tx.insert(orderLineItems).values({ ...values, orderId }).returning();
+    replaced.push(item);
+  }
+
+  const removed = Array.from(existing.values()).map(item => item.id);
+  if (removed.length > 0) {
+    await tx.delete(orderLineItems).where(inArray(orderLineItems.id, removed));
+  }
+  return replaced;
+}
+
+// Stages keep their id and recorded output while they exist; run inside a transaction
+async function writeProductionStages(tx: Writer, orderId: string, inputs: ProductionStageInput[]): Promise<ProductionStage[]> {
+  const current = await tx.select().from(productionStages).where(eq(productionStages.orderId, orderId)).for("update");
+  const existing = new Map(current.map(stage => [stage.id, stage]));
+
+  const replaced: ProductionStage[] = [];
+  for (let position = 0; position < inputs.length; position++) {
+    const input = inputs[position];
+    const previous = input.id ? existing.get(input.id) : undefined;
+    if (previous) existing.delete(previous.id);
+
+    const values = {
+      name: input.name,
+      position,
+      plannedQuantity: input.plannedQuantity,
+      plannedStart: input.plannedStart ?? null,
+      plannedEnd: input.plannedEnd ?? null,
+    };
+    if (!previous) {
+      const [stage] = await tx.insert(productionStages).values({ ...values, orderId }).returning();
+      replaced.push(stage);
+      continue;
+    }
+
+    const actualEnd = isStageComplete({ ...input, completedQuantity: previous.completedQuantity })
+      ? await lastProductionDay(tx, previous.id)
+      : null;
+    const [stage] = await tx
+      .update(productionStages)
+      .set({ ...values, actualEnd })
+      .where(eq(productionStages.id, previous.id))
+      .returning();
+    replaced.push(stage);
+  }
+
+  const removed = Array.from(existing.keys());
+  if (removed.length > 0) {
+    await tx.delete(productionStages).where(inArray(productionStages.id, removed));
+  }
+  return replaced;
+}
+
+export class DrizzleStorage implements IStorage {
+  constructor(private db: Database) {}
+
+  // Users
+  async getUser(id: string): Promise<User | undefined> {
+    const [user] = await this.db.select().from(users).where(eq(users.id, id));
+    return user;
+  }
+
+  async getUserByEmail(email: string): Promise<User | undefined> {
+    const [user] = await this.db.select().from(users).where(eq(users.email, email.toLowerCase()));
+    return user;
+  }
+
+  async createUser(insertUser: InsertUser): Promise<User> {
+    const [user] = await this.db
+      .insert(users)
+      .values({ ...insertUser, email: insertUser.email.toLowerCase() })
+      .returning();
+    return user;
+  }
+
+  // Orders
+  async getOrder(id: string): Promise<Order | undefined> {
+    const [order] = await this.db.select().from(orders).where(eq(orders.id, id));
+    return order;
+  }
+
+  async getAllOrders(): Promise<Order[]> {
+    return this.db.select().from(orders).orderBy(desc(orders.createdAt));
+  }
+
+  async createOrder(insertOrder: InsertOrder): Promise<Order> {
+    const [order] = await this.db
+      .insert(orders)
+      .values({ ...insertOrder, status: insertOrder.status || "received" })
+      .returning();
+    return order;
+  }
+
+  async updateOrderStatus(id: string, status: string): Promise<Order | undefined> {
+    const [order] = await this.db
+      .update(orders)
+      .set({ status })
+      .where(eq(orders.id, id))
+      .returning();
+    return order;
+  }
+
+  async updateOrder(id: string, changes: OrderChanges): Promise<Order | undefined> {
+    const [order] = await this.db
+      .update(orders)
+      .set(changes)
+      .where(eq(orders.id, id))
+      .returning();
+    return order;
+  }
+
+  // Order line items
+  async getOrderLineItems(orderId: string): Promise<OrderLineItem[]> {
+    return this.db
+      .select()
+      .from(orderLineItems)
+      .where(eq(orderLineItems.orderId, orderId))
+      .orderBy(asc(orderLineItems.position));
+  }
+
+  async replaceOrderLineItems(orderId: string, items: OrderLineItemInput[]): Promise<OrderLineItem[]> {
+    return this.db.transaction(tx => writeOrderLineItems(tx, orderId, items));
+  }
+
+  // Order amendments
+  async getOrderAmendment(id: string): Promise<OrderAmendment | undefined> {
+    const [amendment] = await this.db.select().from(orderAmendments).where(eq(orderAmendments.id, id));
+    return amendment;
+  }
+
+  async getOrderAmendmentsByOrder(orderId: string): Promise<OrderAmendment[]> {
+    return this.db
+      .select()
+      .from(orderAmendments)
+      .where(eq(orderAmendments.orderId, orderId))
+      .orderBy(desc(orderAmendments.createdAt));
+  }
+
+  async createOrderAmendment(amendment: InsertOrderAmendment): Promise<OrderAmendment> {
+    const [created] = await this.db.insert(orderAmendments).values(amendment).returning();
+    return created;
+  }
+
+  async decideOrderAmendment(id: string, decision: AmendmentDecision): Promise<OrderAmendment | undefined> {
+    const [decided] = await this.db
+      .update(orderAmendments)
+      .set({ ...decision, decidedAt: new Date() })
+      .where(and(eq(orderAmendments.id, id), eq(orderAmendments.status, 'pending')))
+      .returning();
+    return decided;
+  }
+
+  async applyOrderAmendment(id: string, application: AmendmentApplication): Promise<{ order: Order; amendment: OrderAmendment } | undefined> {
+    return this.db.transaction(async (tx) => {
+      const [amendment] = await tx.select().from(orderAmendments).where(eq(orderAmendments.id, id)).for("update");
+      if (!amendment || amendment.status !== 'pending') return undefined;
+
+      // Guarded by the revision the amendment was proposed against, so a concurrent amendment wins
+      // or loses as a whole
+      const [order] = await tx
+        .update(orders)
+        .set(application.orderChanges)
+        .where(and(eq(orders.id, amendment.orderId), eq(orders.revision, amendment.baseRevision)))
+        .returning();
+      if (!order) return undefined;
+
+      const [decided] = await tx
+        .update(orderAmendments)
+        .set({ ...application.decision, decidedAt: new Date() })
+        .where(eq(orderAmendments.id, id))
+        .returning();
+      if (application.lineItems) {
+        await writeOrderLineItems(tx, order.id, application.lineItems);
+      }
+      if (application.productionStages) {
+        await writeProductionStages(tx, order.id, application.productionStages);
+      }
+      for (const { id: milestoneId, plannedDate } of application.milestoneDates ?? []) {
+        await tx.update(orderMilestones).set({ plannedDate }).where(eq(orderMilestones.id, milestoneId));
+      }
+      return { order, amendment: decided };
+    });
+  }
+
+  // Production stages
+  async getProductionStage(id: string): Promise<ProductionStage | undefined> {
+    const [stage] = await this.db.select().from(productionStages).where(eq(productionStages.id, id));
+    return stage;
+  }
+
+  async getProductionStages(orderId: string): Promise<ProductionStage[]> {
+    return this.db
+      .select()
+      .from(productionStages)
+      .where(eq(productionStages.orderId, orderId))
+      .orderBy(asc(productionStages.position));
+  }
+
+  async replaceProductionStages(orderId: string, inputs: ProductionStageInput[]): Promise<ProductionStage[]> {
+    return this.db.transaction(tx => writeProductionStages(tx, orderId, inputs));
+  }
+
+  async getStageOutputsByOrder(orderId: string): Promise<StageOutput[]> {
+    return this.db
+      .select()
+      .from(stageOutputs)
+      .where(eq(stageOutputs.orderId, orderId))
+      .orderBy(desc(stageOutputs.producedOn), desc(stageOutputs.createdAt));
+  }
+
+  async recordStageOutput(insertOutput: InsertStageOutput): Promise<{ stage: ProductionStage; output: StageOutput } | undefined> {
+    return this.db.transaction(async (tx) => {
+      const [current] = await tx
+        .select()
+        .from(productionStages)
+        .where(eq(productionStages.id, insertOutput.stageId))
+        .for("update");
+      if (!current) return undefined;
+
+      const [output] = await tx.insert(stageOutputs).values(insertOutput).returning();
+      const completedQuantity = current.completedQuantity + output.quantity;
+      const [stage] = await tx
+        .update(productionStages)
+        .set({
+          completedQuantity,
+          actualStart: !current.actualStart || output.producedOn < current.actualStart ? output.producedOn : current.actualStart,
+          actualEnd: isStageComplete({ ...current, completedQuantity }) ? await lastProductionDay(tx, current.id) : null,
+        })
+        .where(eq(productionStages.id, current.id))
+        .returning();
+      return { stage, output };
+    });
+  }
+
+  async getShipmentsByOrder(orderId: string): Promise<Shipment[]> {
+    return this.db
+      .select()
+      .from(shipments)
+      .where(eq(shipments.orderId, orderId))
+      .orderBy(desc(shipments.shippedOn), desc(shipments.createdAt));
+  }
+
+  async recordShipment(insertShipment: InsertShipment): Promise<Shipment> {
+    const [shipment] = await this.db.insert(shipments).values(insertShipment).returning();
+    return shipment;
+  }
+
+  // TNA templates
+  async getTnaTemplates(): Promise<TnaTemplate[]> {
+    return this.db.select().from(tnaTemplates).orderBy(asc(tnaTemplates.name));
+  }
+
+  async getTnaTemplate(id: string): Promise<TnaTemplate | undefined> {
+    const [template] = await this.db.select().from(tnaTemplates).where(eq(tnaTemplates.id, id));
+    return template;
+  }
+
+  async createTnaTemplate(input: TnaTemplateInput, updatedBy: string): Promise<TnaTemplate> {
+    return this.db.transaction(async (tx) => {
+      if (input.isDefault) {
+        await tx.update(tnaTemplates).set({ isDefault: false }).where(eq(tnaTemplates.isDefault, true));
+      }
+      const [template] = await tx
+        .insert(tnaTemplates)
+        .values({ name: input.name, milestones: input.milestones, isDefault: input.isDefault ?? false, updatedBy })
+        .returning();
+      return template;
+    });
+  }
+
+  async updateTnaTemplate(id: string, input: TnaTemplateInput, updatedBy: string): Promise<TnaTemplate | undefined> {
+    return this.db.transaction(async (tx) => {
+      if (input.isDefault) {
+        await tx.update(tnaTemplates).set({ isDefault: false }).where(and(eq(tnaTemplates.isDefault, true), ne(tnaTemplates.id, id)));
+      }
+      const [template] = await tx
+        .update(tnaTemplates)
+        .set({ name: input.name, milestones: input.milestones, isDefault: input.isDefault ?? false, updatedBy, updatedAt: new Date() })
+        .where(eq(tnaTemplates.id, id))
+        .returning();
+      return template;
+    });
+  }
+
+  async deleteTnaTemplate(id: string): Promise<boolean> {
+    const deleted = await this.db
+      .delete(tnaTemplates)
+      .where(eq(tnaTemplates.id, id))
+      .returning({ id: tnaTemplates.id });
+    return deleted.length > 0;
+  }
+
+  // Order milestones
+  async getOrderMilestone(id: string): Promise<OrderMilestone | undefined> {
+    const [milestone] = await this.db.select().from(orderMilestones).where(eq(orderMilestones.id, id));
+    return milestone;
+  }
+
+  async getOrderMilestones(orderId: string): Promise<OrderMilestone[]> {
+    return this.db
+      .select()
+      .from(orderMilestones)
+      .where(eq(orderMilestones.orderId, orderId))
+      .orderBy(asc(orderMilestones.plannedDate), asc(orderMilestones.position));
+  }
+
+  async createOrderMilestones(milestones: InsertOrderMilestone[]): Promise<OrderMilestone[]> {
+    if (milestones.length === 0) return [];
+    return this.db.insert(orderMilestones).values(milestones).returning();
+  }
+
+  async updateOrderMilestone(id: string, changes: OrderMilestoneChanges): Promise<OrderMilestone | undefined> {
+    if (Object.keys(changes).length === 0) return this.getOrderMilestone(id);
+    const [milestone] = await this.db
+      .update(orderMilestones)
+      .set(changes)
+      .where(eq(orderMilestones.id, id))
+      .returning();
+    return milestone;
+  }
+
+  // Delivery risks
+  async getDeliveryRisks(): Promise<DeliveryRisk[]> {
+    return this.db.select().from(deliveryRisks).orderBy(desc(deliveryRisks.score));
+  }
+
+  async saveDeliveryRisk(risk: InsertDeliveryRisk): Promise<DeliveryRisk> {
+    const { orderId, ...assessment } = risk;
+    const [saved] = await this.db
+      .insert(deliveryRisks)
+      .values(risk)
+      .onConflictDoUpdate({ target: deliveryRisks.orderId, set: assessment })
+      .returning();
+    return saved;
+  }
+
+  async deleteDeliveryRisk(orderId: string): Promise<void> {
+    await this.db.delete(deliveryRisks).where(eq(deliveryRisks.orderId, orderId));
+  }
+
+  async markDeliveryRisksAlerted(orderIds: string[], alertedAt: Date): Promise<void> {
+    if (orderIds.length === 0) return;
+    await this.db.update(deliveryRisks).set({ alertedAt }).where(inArray(deliveryRisks.orderId, orderIds));
+  }
+
+  // Status history
+  async getStatusHistoryByOrder(orderId: string): Promise<StatusHistory[]> {
+    return this.db
+      .select()
+      .from(statusHistory)
+      .where(eq(statusHistory.orderId, orderId))
+      .orderBy(asc(statusHistory.createdAt));
+  }
+
+  async createStatusHistory(insertEntry: InsertStatusHistory): Promise<StatusHistory> {
+    const [entry] = await this.db.insert(statusHistory).values(insertEntry).returning();
+    return entry;
+  }
+
+  // Updates
+  async getUpdatesByOrder(orderId: string): Promise<Update[]> {
+    return this.db
+      .select()
+      .from(updates)
+      .where(eq(updates.orderId, orderId))
+      .orderBy(desc(updates.createdAt));
+  }
+
+  async createUpdate(insertUpdate: InsertUpdate): Promise<Update> {
+    const [update] = await this.db.insert(updates).values(insertUpdate).returning();
+    return update;
+  }
+
+  // Comments
+  async getComment(id: string): Promise<Comment | undefined> {
+    const [comment] = await this.db.select().from(comments).where(eq(comments.id, id));
+    return comment;
+  }
+
+  async getCommentsByOrder(orderId: string): Promise<Comment[]> {
+    return this.db
+      .select()
+      .from(comments)
+      .where(eq(comments.orderId, orderId))
+      .orderBy(asc(comments.createdAt));
+  }
+
+  async createComment(insertComment: InsertComment): Promise<Comment> {
+    const [comment] = await this.db.insert(comments).values(insertComment).returning();
+    return comment;
+  }
+
+  async editComment(id: string, message: string, editor: Pick<User, "id" | "name">): Promise<Comment | undefined> {
+    return this.db.transaction(async (tx) => {
+      // Locked so two concurrent edits each record the wording they replaced
+      const [comment] = await tx.select().from(comments).where(eq(comments.id, id)).for("update");
+      if (!comment) return undefined;
+
+      await tx.insert(commentRevisions).values({
+        commentId: id,
+        message: comment.message,
+        editedById: editor.id,
+        editedByName: editor.name,
+      });
+      const [edited] = await tx
+        .update(comments)
+        .set({ message, editedAt: new Date() })
+        .where(eq(comments.id, id))
+        .returning();
+      return edited;
+    });
+  }
+
+  async getCommentRevisions(commentId: string): Promise<CommentRevision[]> {
+    return this.db
+      .select()
+      .from(commentRevisions)
+      .where(eq(commentRevisions.commentId, commentId))
+      .orderBy(desc(commentRevisions.createdAt));
+  }
+
+  async deleteComment(id: string, deletedByName: string): Promise<Comment | undefined> {
+    const [deleted] = await this.db
+      .update(comments)
+      .set({ deletedAt: new Date(), deletedByName })
+      .where(and(eq(comments.id, id), isNull(comments.deletedAt)))
+      .returning();
+    return deleted ?? this.getComment(id);
+  }
+
+  // Stakeholders
+  async getStakeholder(id: string): Promise<Stakeholder | undefined> {
+    const [stakeholder] = await this.db.select().from(stakeholders).where(eq(stakeholders.id, id));
+    return stakeholder;
+  }
+
+  async getStakeholdersByOrder(orderId: string): Promise<Stakeholder[]> {
+    return this.db
+      .select()
+      .from(stakeholders)
+      .where(eq(stakeholders.orderId, orderId))
+      .orderBy(asc(stakeholders.createdAt));
+  }
+
+  async getStakeholdersByUser(userId: string): Promise<Stakeholder[]> {
+    return this.db.select().from(stakeholders).where(eq(stakeholders.userId, userId));
+  }
+
+  async createStakeholder(insertStakeholder: InsertStakeholder): Promise<Stakeholder> {
+    const [stakeholder] = await this.db.insert(stakeholders).values(insertStakeholder).returning();
+    return stakeholder;
+  }
+
+  async deleteStakeholder(id: string): Promise<boolean> {
+    const deleted = await this.db
+      .delete(stakeholders)
+      .where(eq(stakeholders.id, id))
+      .returning({ id: stakeholders.id });
+    return deleted.length > 0;
+  }
+
+  async updateStakeholderPermissions(id: string, permissions: string): Promise<Stakeholder | undefined> {
+    const [stakeholder] = await this.db
+      .update(stakeholders)
+      .set({ permissions })
+      .where(eq(stakeholders.id, id))
+      .returning();
+    return stakeholder;
+  }
+
+  async updateStakeholder(id: string, changes: StakeholderChanges): Promise<Stakeholder | undefined> {
+    const [stakeholder] = await this.db
+      .update(stakeholders)
+      .set(changes)
+      .where(eq(stakeholders.id, id))
+      .returning();
+    return stakeholder;
+  }
+
+  // Invitation tokens
+  async createInvitationToken(insertToken: InsertInvitationToken): Promise<InvitationToken> {
+    const [token] = await this.db.insert(invitationTokens).values(insertToken).returning();
+    return token;
+  }
+
+  async getInvitationTokenByHash(tokenHash: string): Promise<InvitationToken | undefined> {
+    const [token] = await this.db
+      .select()
+      .from(invitationTokens)
+      .where(eq(invitationTokens.tokenHash, tokenHash));
+    return token;
+  }
+
+  async markInvitationTokenUsed(id: string): Promise<boolean> {
+    const claimed = await this.db
+      .update(invitationTokens)
+      .set({ usedAt: new Date() })
+      .where(and(eq(invitationTokens.id, id), isNull(invitationTokens.usedAt)))
+      .returning({ id: invitationTokens.id });
+    return claimed.length > 0;
+  }
+
+  async invalidateInvitationTokens(stakeholderId: string): Promise<void> {
+    await this.db
+      .update(invitationTokens)
+      .set({ usedAt: new Date() })
+      .where(and(eq(invitationTokens.stakeholderId, stakeholderId), isNull(invitationTokens.usedAt)));
+  }
+
+  // Notifications
+  private notificationConditions(recipientEmail: string, filter: NotificationFilter) {
+    return and(
+      eq(notifications.recipientEmail, recipientEmail.toLowerCase()),
+      filter.type ? eq(notifications.type, filter.type) : undefined,
+      filter.orderId ? eq(notifications.orderId, filter.orderId) : undefined,
+      filter.unreadOnly ? eq(notifications.isRead, false) : undefined,
+    );
+  }
+
+  async getNotification(id: string): Promise<Notification | undefined> {
+    const [notification] = await this.db.select().from(notifications).where(eq(notifications.id, id));
+    return notification;
+  }
+
+  async getNotifications(recipientEmail: string, filter: NotificationFilter, limit: number, offset: number): Promise<Notification[]> {
+    return this.db
+      .select()
+      .from(notifications)
+      .where(this.notificationConditions(recipientEmail, filter))
+      .orderBy(desc(notifications.createdAt))
+      .limit(limit)
+      .offset(offset);
+  }
+
+  async countNotifications(recipientEmail: string, filter: NotificationFilter): Promise<number> {
+    const [{ count }] = await this.db
+      .select({ count: sql<number>`count(*)::int` })
+      .from(notifications)
+      .where(this.notificationConditions(recipientEmail, filter));
+    return count;
+  }
+
+  async createNotifications(insertNotifications: InsertNotification[]): Promise<Notification[]> {
+    if (insertNotifications.length === 0) return [];
+    return this.db
+      .insert(notifications)
+      .values(insertNotifications.map(n => ({ ...n, recipientEmail: n.recipientEmail.toLowerCase() })))
+      .returning();
+  }
+
+  async markNotificationRead(id: string): Promise<Notification | undefined> {
+    const [notification] = await this.db
+      .update(notifications)
+      .set({ isRead: true, readAt: sql`coalesce(${notifications.readAt}, now())` })
+      .where(eq(notifications.id, id))
+      .returning();
+    return notification;
+  }
+
+  async markAllNotificationsRead(recipientEmail: string, filter: NotificationFilter): Promise<number> {
+    const updated = await this.db
+      .update(notifications)
+      .set({ isRead: true, readAt: new Date() })
+      .where(this.notificationConditions(recipientEmail, { ...filter, unreadOnly: true }))
+      .returning({ id: notifications.id });
+    return updated.length;
+  }
+
+  async updateNotificationMessages(entityId: string, message: string): Promise<void> {
+    await this.db.update(notifications).set({ message }).where(eq(notifications.entityId, entityId));
+  }
+
+  // Media
+  async getMediaFile(id: string): Promise<MediaFile | undefined> {
+    const [file] = await this.db.select().from(mediaFiles).where(eq(mediaFiles.id, id));
+    return file;
+  }
+
+  async getMediaFilesByOrder(orderId: string): Promise<MediaFile[]> {
+    return this.db
+      .select()
+      .from(mediaFiles)
+      .where(eq(mediaFiles.orderId, orderId))
+      .orderBy(desc(mediaFiles.uploadedAt));
+  }
+
+  async createMediaFile(insertFile: InsertMediaFile): Promise<MediaFile> {
+    return this.db.transaction(async (tx) => {
+      await referenceMediaBlob(tx, insertFile.contentHash);
+      const [file] = await tx.insert(mediaFiles).values(insertFile).returning();
+      return file;
+    });
+  }
+
+  async updateMediaFile(id: string, changes: MediaFileChanges): Promise<MediaFile | undefined> {
+    const [file] = await this.db
+      .update(mediaFiles)
+      .set(changes)
+      .where(eq(mediaFiles.id, id))
+      .returning();
+    return file;
+  }
+
+  // Every version of a document, newest first
+  async getMediaFileVersions(documentId: string): Promise<MediaFile[]> {
+    return this.db
+      .select()
+      .from(mediaFiles)
+      .where(or(eq(mediaFiles.id, documentId), eq(mediaFiles.documentId, documentId)))
+      .orderBy(desc(mediaFiles.version));
+  }
+
+  // The new version stays behind the current one until it is promoted
+  async createMediaFileVersion(documentId: string, insertFile: InsertMediaFile): Promise<MediaFile> {
+    return this.db.transaction(async (tx) => {
+      // Locking the chain keeps two simultaneous revisions from claiming the same version number
+      const versions = await tx
+        .select({ version: mediaFiles.version })
+        .from(mediaFiles)
+        .where(or(eq(mediaFiles.id, documentId), eq(mediaFiles.documentId, documentId)))
+        .orderBy(desc(mediaFiles.version))
+        .for("update");
+      await referenceMediaBlob(tx, insertFile.contentHash);
+
+      const [file] = await tx
+        .insert(mediaFiles)
+        .values({ ...insertFile, documentId, version: (versions[0]?.version ?? 0) + 1, isLatest: false })
+        .returning();
+      return file;
+    });
+  }
+
+  async promoteMediaFileVersion(id: string): Promise<boolean> {
+    return this.db.transaction(async (tx) => {
+      const [file] = await tx
+        .select({ documentId: mediaFiles.documentId, version: mediaFiles.version })
+        .from(mediaFiles)
+        .where(eq(mediaFiles.id, id));
+      if (!file) return false;
+
+      // Locking the whole chain keeps two versions passing their scans at once from both taking over
+      const documentId = file.documentId ?? id;
+      const chain = or(eq(mediaFiles.id, documentId), eq(mediaFiles.documentId, documentId));
+      const versions = await tx
+        .select({ version: mediaFiles.version, isLatest: mediaFiles.isLatest })
+        .from(mediaFiles)
+        .where(chain)
+        .for("update");
+      const latest = versions.find(version => version.isLatest);
+      if (latest && latest.version >= file.version) return false;
+
+      await tx.update(mediaFiles).set({ isLatest: false }).where(and(chain, eq(mediaFiles.isLatest, true)));
+      await tx.update(mediaFiles).set({ isLatest: true }).where(eq(mediaFiles.id, id));
+      return true;
+    });
+  }
+
+  // Deleting the newest version of a document makes the newest clean one before it (or the first
+  // version) current again. The file's annotations go with it; their comments stay on the order
+  // timeline.
+  async deleteMediaFile(id: string): Promise<boolean> {
+    return this.db.transaction(async (tx) => {
+      const [deleted] = await tx.delete(mediaFiles).where(eq(mediaFiles.id, id)).returning();
+      if (!deleted) return false;
+
+      const annotations = await tx
+        .delete(mediaAnnotations)
+        .where(eq(mediaAnnotations.mediaFileId, id))
+        .returning({ id: mediaAnnotations.id });
+      if (annotations.length > 0) {
+        await tx
+          .update(comments)
+          .set({ annotationId: null })
+          .where(inArray(comments.annotationId, annotations.map(a => a.id)));
+      }
+
+      if (deleted.isLatest) {
+        const documentId = deleted.documentId ?? deleted.id;
+        const [previous] = await tx
+          .select({ id: mediaFiles.id })
+          .from(mediaFiles)
+          .where(and(
+            or(eq(mediaFiles.id, documentId), eq(mediaFiles.documentId, documentId)),
+            or(eq(mediaFiles.scanStatus, "clean"), isNull(mediaFiles.documentId)),
+          ))
+          .orderBy(desc(mediaFiles.version))
+          .limit(1);
+        if (previous) {
+          await tx.update(mediaFiles).set({ isLatest: true }).where(eq(mediaFiles.id, previous.id));
+        }
+      }
+      return true;
+    });
+  }
+
+  async claimPendingScans(limit: number, staleBefore: Date): Promise<MediaFile[]> {
+    const due = this.db
+      .select({ id: mediaFiles.id })
+      .from(mediaFiles)
+      .where(or(
+        eq(mediaFiles.scanStatus, "pending"),
+        and(eq(mediaFiles.scanStatus, "scanning"), lt(mediaFiles.scanLockedAt, staleBefore)),
+      ))
+      .orderBy(asc(mediaFiles.uploadedAt))
+      .limit(limit)
+      .for("update", { skipLocked: true });
+
+    return this.db
+      .update(mediaFiles)
+      .set({ scanStatus: "scanning", scanLockedAt: new Date() })
+      .where(inArray(mediaFiles.id, due))
+      .returning();
+  }
+
+  async claimPendingPreviews(limit: number, staleBefore: Date): Promise<MediaFile[]> {
+    const due = this.db
+      .select({ id: mediaFiles.id })
+      .from(mediaFiles)
+      .where(and(
+        eq(mediaFiles.scanStatus, "clean"),
+        or(
+          eq(mediaFiles.previewStatus, "pending"),
+          and(eq(mediaFiles.previewStatus, "processing"), lt(mediaFiles.previewLockedAt, staleBefore)),
+        ),
+      ))
+      .orderBy(asc(mediaFiles.uploadedAt))
+      .limit(limit)
+      .for("update", { skipLocked: true });
+
+    return this.db
+      .update(mediaFiles)
+      .set({ previewStatus: "processing", previewLockedAt: new Date() })
+      .where(inArray(mediaFiles.id, due))
+      .returning();
+  }
+
+  // Media blobs
+  async getMediaBlob(hash: string): Promise<MediaBlob | undefined> {
+    const [blob] = await this.db.select().from(mediaBlobs).where(eq(mediaBlobs.hash, hash));
+    return blob;
+  }
+
+  async createMediaBlob(insertBlob: InsertMediaBlob): Promise<MediaBlob> {
+    const [created] = await this.db
+      .insert(mediaBlobs)
+      .values(insertBlob)
+      .onConflictDoNothing({ target: mediaBlobs.hash })
+      .returning();
+    // Someone stored the same bytes first
+    return created ?? (await this.getMediaBlob(insertBlob.hash))!;
+  }
+
+  async updateMediaBlob(hash: string, changes: MediaBlobChanges): Promise<MediaBlob | undefined> {
+    const [blob] = await this.db
+      .update(mediaBlobs)
+      .set(changes)
+      .where(eq(mediaBlobs.hash, hash))
+      .returning();
+    return blob;
+  }
+
+  async relocateMediaBlob(hash: string, object: Pick<MediaBlob, "storageKey" | "size" | "checksum">): Promise<void> {
+    await this.db.transaction(async (tx) => {
+      await tx.update(mediaBlobs).set(object).where(eq(mediaBlobs.hash, hash));
+      await tx
+        .update(mediaFiles)
+        .set({ filename: object.storageKey, size: object.size })
+        .where(eq(mediaFiles.contentHash, hash));
+    });
+  }
+
+  async releaseMediaBlob(hash: string): Promise<MediaBlob | undefined> {
+    return this.db.transaction(async (tx) => {
+      // Waits for any transaction referencing the blob, so the check below sees its file
+      const [blob] = await tx.select().from(mediaBlobs).where(eq(mediaBlobs.hash, hash)).for("update");
+      if (!blob) return undefined;
+
+      const [reference] = await tx
+        .select({ id: mediaFiles.id })
+        .from(mediaFiles)
+        .where(eq(mediaFiles.contentHash, hash))
+        .limit(1);
+      if (reference) return undefined;
+
+      await tx.delete(mediaBlobs).where(eq(mediaBlobs.hash, hash));
+      return blob;
+    });
+  }
+
+  async getMediaFilesByHash(hash: string): Promise<MediaFile[]> {
+    return this.db
+      .select()
+      .from(mediaFiles)
+      .where(eq(mediaFiles.contentHash, hash))
+      .orderBy(asc(mediaFiles.uploadedAt));
+  }
+
+  // Never-verified blobs first, then those checked longest ago
+  async getBlobsDueForVerification(verifiedBefore: Date, limit: number): Promise<MediaBlob[]> {
+    return this.db
+      .select()
+      .from(mediaBlobs)
+      .where(or(isNull(mediaBlobs.lastVerifiedAt), lt(mediaBlobs.lastVerifiedAt, verifiedBefore)))
+      .orderBy(sql`${mediaBlobs.lastVerifiedAt} asc nulls first`)
+      .limit(limit);
+  }
+
+  async getDamagedMediaBlobs(): Promise<MediaBlob[]> {
+    return this.db
+      .select()
+      .from(mediaBlobs)
+      .where(ne(mediaBlobs.integrityStatus, "ok"))
+      .orderBy(asc(mediaBlobs.createdAt));
+  }
+
+  // Media annotations
+  async getAnnotation(id: string): Promise<MediaAnnotation | undefined> {
+    const [annotation] = await this.db.select().from(mediaAnnotations).where(eq(mediaAnnotations.id, id));
+    return annotation;
+  }
+
+  async getAnnotationsByMediaFile(mediaFileId: string): Promise<AnnotationThread[]> {
+    const annotations = await this.db
+      .select()
+      .from(mediaAnnotations)
+      .where(eq(mediaAnnotations.mediaFileId, mediaFileId))
+      .orderBy(asc(mediaAnnotations.createdAt));
+    if (annotations.length === 0) return [];
+
+    const threadComments = await this.db
+      .select()
+      .from(comments)
+      .where(inArray(comments.annotationId, annotations.map(a => a.id)))
+      .orderBy(asc(comments.createdAt));
+
+    return annotations.map(annotation => ({
+      ...annotation,
+      comments: threadComments.filter(comment => comment.annotationId === annotation.id),
+    }));
+  }
+
+  async createAnnotation(insertAnnotation: InsertMediaAnnotation, insertComment: InsertComment): Promise<AnnotationThread> {
+    return this.db.transaction(async (tx) => {
+      const [annotation] = await tx.insert(mediaAnnotations).values(insertAnnotation).returning();
+      const [comment] = await tx
+        .insert(comments)
+        .values({ ...insertComment, annotationId: annotation.id })
+        .returning();
+      return { ...annotation, comments: [comment] };
+    });
+  }
+
+  // Removes the annotation together with its comment thread
+  async deleteAnnotation(id: string): Promise<boolean> {
+    return this.db.transaction(async (tx) => {
+      const deleted = await tx.delete(mediaAnnotations).where(eq(mediaAnnotations.id, id)).returning();
+      if (deleted.length === 0) return false;
+
+      await tx.delete(comments).where(eq(comments.annotationId, id));
+      return true;
+    });
+  }
+
+
+  // Inbound email
+  async getInboundEmailByMessageId(messageId: string): Promise<InboundEmail | undefined> {
+    const [email] = await this.db.select().from(inboundEmails).where(eq(inboundEmails.messageId, messageId));
+    return email;
+  }
+
+  async createInboundEmail(insertEmail: InsertInboundEmail): Promise<InboundEmail> {
+    const [email] = await this.db.insert(inboundEmails).values(insertEmail).returning();
+    return email;
+  }
+
+  // Email outbox
+  async enqueueEmails(insertEmails: InsertOutboxEmail[]): Promise<OutboxEmail[]> {
+    if (insertEmails.length === 0) return [];
+    return this.db.insert(emailOutbox).values(insertEmails).returning();
+  }
+
+  // SKIP LOCKED lets several server instances drain the outbox without sending anything twice
+  async claimDueEmails(limit: number, staleBefore: Date): Promise<OutboxEmail[]> {
+    const now = new Date();
+    const due = this.db
+      .select({ id: emailOutbox.id })
+      .from(emailOutbox)
+      .where(or(
+        and(eq(emailOutbox.status, "pending"), lte(emailOutbox.nextAttemptAt, now)),
+        and(eq(emailOutbox.status, "sending"), lt(emailOutbox.lockedAt, staleBefore)),
+      ))
+      .orderBy(asc(emailOutbox.nextAttemptAt))
+      .limit(limit)
+      .for("update", { skipLocked: true });
+
+    return this.db
+      .update(emailOutbox)
+      .set({ status: "sending", lockedAt: now, attempts: sql`${emailOutbox.attempts} + 1` })
+      .where(inArray(emailOutbox.id, due))
+      .returning();
+  }
+
+  async markEmailSent(id: string): Promise<void> {
+    await this.db
+      .update(emailOutbox)
+      .set({ status: "sent", sentAt: new Date(), lockedAt: null, lastError: null })
+      .where(eq(emailOutbox.id, id));
+  }
+
+  async markEmailFailed(id: string, error: string, retryAt: Date | null): Promise<void> {
+    await this.db
+      .update(emailOutbox)
+      .set(retryAt
+        ? { status: "pending", nextAttemptAt: retryAt, lockedAt: null, lastError: error }
+        : { status: "dead", lockedAt: null, lastError: error })
+      .where(eq(emailOutbox.id, id));
+  }
+
+  async requeueEmail(id: string): Promise<OutboxEmail | undefined> {
+    const [email] = await this.db
+      .update(emailOutbox)
+      .set({ status: "pending", attempts: 0, nextAttemptAt: new Date(), lockedAt: null })
+      .where(eq(emailOutbox.id, id))
+      .returning();
+    return email;
+  }
+
+  async getOutboxEmails(status: OutboxStatus | undefined, limit: number, offset: number): Promise<OutboxEmail[]> {
+    return this.db
+      .select()
+      .from(emailOutbox)
+      .where(status ? eq(emailOutbox.status, status) : undefined)
+      .orderBy(desc(emailOutbox.createdAt))
+      .limit(limit)
+      .offset(offset);
+  }
+
+  async countOutboxEmails(): Promise<Record<OutboxStatus, number>> {
+    const rows = await this.db
+      .select({ status: emailOutbox.status, count: sql<number>`count(*)::int` })
+      .from(emailOutbox)
+      .groupBy(emailOutbox.status);
+
+    const counts: Record<OutboxStatus, number> = { pending: 0, sending: 0, sent: 0, dead: 0 };
+    rows.forEach(row => {
+      counts[row.status as OutboxStatus] = row.count;
+    });
+    return counts;
+  }
+
+  // Email templates and branding
+  async getEmailTemplate(name: string): Promise<EmailTemplateOverride | undefined> {
+    const [template] = await this.db.select().from(emailTemplates).where(eq(emailTemplates.name, name));
+    return template;
+  }
+
+  async listEmailTemplates(): Promise<EmailTemplateOverride[]> {
+    return this.db.select().from(emailTemplates).orderBy(asc(emailTemplates.name));
+  }
+
+  async saveEmailTemplate(name: string, subject: string, body: string, updatedBy: string): Promise<EmailTemplateOverride> {
+    const [template] = await this.db
+      .insert(emailTemplates)
+      .values({ name, subject, body, updatedBy })
+      .onConflictDoUpdate({
+        target: emailTemplates.name,
+        set: { subject, body, updatedBy, updatedAt: new Date() },
+      })
+      .returning();
+    return template;
+  }
+
+  async deleteEmailTemplate(name: string): Promise<boolean> {
+    const deleted = await this.db
+      .delete(emailTemplates)
+      .where(eq(emailTemplates.name, name))
+      .returning({ name: emailTemplates.name });
+    return deleted.length > 0;
+  }
+
+  async getEmailBranding(): Promise<EmailBranding | undefined> {
+    const [branding] = await this.db.select().from(emailBranding).where(eq(emailBranding.id, "default"));
+    return branding;
+  }
+
+  async saveEmailBranding(branding: InsertEmailBranding): Promise<EmailBranding> {
+    const values = {
+      productName: branding.productName,
+      logoUrl: branding.logoUrl ?? null,
+      primaryColor: branding.primaryColor,
+      footerText: branding.footerText,
+    };
+    const [saved] = await this.db
+      .insert(emailBranding)
+      .values({ id: "default", ...values })
+      .onConflictDoUpdate({ target: emailBranding.id, set: { ...values, updatedAt: new Date() } })
+      .returning();
+    return saved;
+  }
+}
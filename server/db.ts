@@ -0,0 +1,24 @@
+import { drizzle, type NodePgDatabase } from "drizzle-orm/node-postgres";
+import { migrate } from "drizzle-orm/node-postgres/migrator";
+import pg from "pg";
+import path from "path";
+import * as schema from "@shared/schema";
+
+export type Database = NodePgDatabase<typeof schema>;
+
+export function createDb(connectionString: string): { db: Database; pool: pg.Pool } {
+  const pool = new pg.Pool({ connectionString });
+  const db = drizzle(pool, { schema });
+  return { db, pool };
+}
+
+export const database = process.env.DATABASE_URL
+  ? createDb(process.env.DATABASE_URL)
+  : undefined;
+
+// Applies the SQL files checked in under ./migrations (generated by `npm run db:generate`)
+export async function runMigrations(db: Database): Promise<void> {
+  await migrate(db, {
+    migrationsFolder: path.resolve(import.meta.dirname, "..", "migrations"),
+  });
+}
@@ -0,0 +1,112 @@
+import { storage } from "./storage";
+import { emailService } from "./email-service";
+import { registerJob, triggerJob } from "./jobs";
+import { isClosedStatus } from "@shared/order-status";
+import { productionProgress } from "@shared/production";
+import { daysOverdue } from "@shared/tna";
+import { assessDeliveryRisk, isAtRisk, type DeliveryRiskAssessment, type DeliveryRiskLevel } from "@shared/delivery-risk";
+import type { DeliveryRisk, Order } from "@shared/schema";
+
+const RISK_JOB = "delivery-risk";
+
+// Stakeholder roles that receive the daily alert for their orders
+const ALERT_ROLES = ['factory_owner', 'admin'];
+
+export function queueDeliveryRiskAssessment(): void {
+  triggerJob(RISK_JOB);
+}
+
+// Shipped orders have left the factory, so only orders still being made are assessed
+function isOpen(order: Order): boolean {
+  return !isClosedStatus(order.status) && order.status !== 'shipped';
+}
+
+async function assessOrder(order: Order, now: Date): Promise<DeliveryRiskAssessment> {
+  const [stages, milestones, updates, outputs] = await Promise.all([
+    storage.getProductionStages(order.id),
+    storage.getOrderMilestones(order.id),
+    storage.getUpdatesByOrder(order.id),
+    storage.getStageOutputsByOrder(order.id),
+  ]);
+
+  const activity = [order.createdAt, ...updates.map(update => update.createdAt), ...outputs.map(output => output.createdAt)]
+    .filter((date): date is Date => !!date)
+    .map(date => date.getTime());
+
+  return assessDeliveryRisk({
+    estimatedDelivery: order.estimatedDelivery,
+    status: order.status,
+    production: productionProgress(stages),
+    overdueMilestones: milestones
+      .map(milestone => ({ name: milestone.name, daysOverdue: daysOverdue(milestone, now) }))
+      .filter(milestone => milestone.daysOverdue > 0),
+    lastActivityAt: new Date(activity.length > 0 ? Math.max(...activity) : now.getTime()),
+  }, now);
+}
+
+function sameUtcDay(a: Date, b: Date): boolean {
+  return a.toISOString().slice(0, 10) === b.toISOString().slice(0, 10);
+}
+
+/**
+ * Emails each factory owner and admin stakeholder one list of their orders at risk, at most once
+ * a day. Orders that become at risk after today's alert went out are in tomorrow's.
+ */
+async function sendDailyAlert(risks: DeliveryRisk[], now: Date): Promise<void> {
+  if (risks.some(risk => risk.alertedAt && sameUtcDay(risk.alertedAt, now))) return;
+
+  const atRisk = risks.filter(risk => isAtRisk(risk.level as DeliveryRiskLevel));
+  if (atRisk.length === 0) return;
+
+  const recipients = new Map<string, { name: string; orders: { order: Order; risk: DeliveryRisk }[] }>();
+  for (const risk of atRisk) {
+    const order = await storage.getOrder(risk.orderId);
+    if (!order) continue;
+    const stakeholders = await storage.getStakeholdersByOrder(order.id);
+    for (const stakeholder of stakeholders) {
+      if (stakeholder.invitationStatus === 'revoked' || !ALERT_ROLES.includes(stakeholder.role)) continue;
+      const email = stakeholder.email.toLowerCase();
+      const recipient = recipients.get(email) ?? { name: stakeholder.name, orders: [] };
+      recipient.orders.push({ order, risk });
+      recipients.set(email, recipient);
+    }
+  }
+
+  const period = now.toLocaleDateString('en-US', { year: 'numeric', month: 'long', day: 'numeric', timeZone: 'UTC' });
+  for (const [email, recipient] of Array.from(recipients.entries())) {
+    await emailService.sendDeliveryRiskAlert(email, recipient.name, period, recipient.orders.map(({ order, risk }) => ({
+      id: order.id,
+      buyerName: order.buyerName,
+      styleNumber: order.styleNumber,
+      estimatedDelivery: order.estimatedDelivery,
+      level: risk.level,
+      reasons: risk.reasons,
+    })));
+  }
+  await storage.markDeliveryRisksAlerted(atRisk.map(risk => risk.orderId), now);
+}
+
+/**
+ * Re-scores every open order's delivery risk from its days remaining, status and production
+ * progress, overdue TNA milestones and how long it has gone without an update, then sends the
+ * daily alert if it hasn't gone out yet today.
+ */
+export async function assessDeliveryRisks(): Promise<void> {
+  const now = new Date();
+
+  for (const order of await storage.getAllOrders()) {
+    if (!isOpen(order)) {
+      await storage.deleteDeliveryRisk(order.id);
+      continue;
+    }
+    const assessment = await assessOrder(order, now);
+    await storage.saveDeliveryRisk({ orderId: order.id, ...assessment, assessedAt: now });
+  }
+
+  await sendDailyAlert(await storage.getDeliveryRisks(), now);
+}
+
+export function registerDeliveryRiskJob(): void {
+  const intervalMs = parseInt(process.env.DELIVERY_RISK_INTERVAL_MS || String(60 * 60 * 1000), 10);
+  registerJob(RISK_JOB, intervalMs, assessDeliveryRisks);
+}
@@ -0,0 +1,89 @@
+import { storage } from "./storage";
+import { createTransport, type EmailTransport } from "./email-transport";
+import { registerJob, triggerJob } from "./jobs";
+import type { InsertOutboxEmail, OutboxEmail } from "@shared/schema";
+
+const OUTBOX_JOB = "email-outbox";
+const BATCH_SIZE = 20;
+const BASE_RETRY_DELAY_MS = 30 * 1000;
+const MAX_RETRY_DELAY_MS = 60 * 60 * 1000;
+// A message stuck in 'sending' this long belongs to a process that died mid-send
+const STALE_LOCK_MS = 10 * 60 * 1000;
+
+let transport: EmailTransport | undefined;
+
+function getTransport(): EmailTransport {
+  transport ??= createTransport();
+  return transport;
+}
+
+// 30s, 1m, 2m, 4m ... capped at an hour
+export function retryDelayMs(attempt: number): number {
+  return Math.min(BASE_RETRY_DELAY_MS * 2 ** (attempt - 1), MAX_RETRY_DELAY_MS);
+}
+
+/**
+ * Queues messages for delivery and returns immediately; the outbox job sends them in the
+ * background so request handlers never wait on the mail server.
+ */
+export async function enqueueEmails(emails: InsertOutboxEmail[]): Promise<OutboxEmail[]> {
+  const queued = await storage.enqueueEmails(emails);
+  if (queued.length > 0) {
+    triggerJob(OUTBOX_JOB);
+  }
+  return queued;
+}
+
+// Puts a message (typically a dead one) back in the queue with a fresh set of attempts
+export async function retryEmail(id: string): Promise<OutboxEmail | undefined> {
+  const email = await storage.requeueEmail(id);
+  if (email) {
+    triggerJob(OUTBOX_JOB);
+  }
+  return email;
+}
+
+async function deliver(email: OutboxEmail): Promise<void> {
+  try {
+    await getTransport().send({
+      from: email.fromAddress,
+      to: email.toAddress,
+      subject: email.subject,
+      text: email.textBody,
+      html: email.htmlBody,
+      replyTo: email.replyTo ?? undefined,
+      messageId: email.messageId ?? undefined,
+    });
+    await storage.markEmailSent(email.id);
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    const retryAt = email.attempts < email.maxAttempts
+      ? new Date(Date.now() + retryDelayMs(email.attempts))
+      : null;
+
+    await storage.markEmailFailed(email.id, message, retryAt);
+    console.error(
+      retryAt
+        ? `Email ${email.id} to ${email.toAddress} failed (attempt ${email.attempts}), retrying at ${retryAt.toISOString()}:`
+        : `Email ${email.id} to ${email.toAddress} failed permanently after ${email.attempts} attempts:`,
+      message,
+    );
+  }
+}
+
+// Sends everything that is due, a batch at a time
+export async function processOutbox(): Promise<void> {
+  for (;;) {
+    const batch = await storage.claimDueEmails(BATCH_SIZE, new Date(Date.now() - STALE_LOCK_MS));
+    if (batch.length === 0) return;
+
+    for (const email of batch) {
+      await deliver(email);
+    }
+  }
+}
+
+export function registerOutboxJob(): void {
+  const intervalMs = parseInt(process.env.EMAIL_OUTBOX_INTERVAL_MS || "15000", 10);
+  registerJob(OUTBOX_JOB, intervalMs, processOutbox);
+}
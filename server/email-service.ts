@@ -1,89 +1,203 @@
 
-import nodemailer from 'nodemailer';
-
-interface EmailConfig {
-  host: string;
-  port: number;
-  secure: boolean;
-  auth: {
-    user: string;
-    pass: string;
+import { createHmac, randomUUID, timingSafeEqual } from 'crypto';
+import { enqueueEmails } from './email-outbox';
+import { appUrl, renderEmail } from './email-templates';
+import type { TemplateVars } from './template-renderer';
+import type { EmailTemplateName } from '@shared/schema';
+
+export const INBOUND_EMAIL_DOMAIN = process.env.INBOUND_EMAIL_DOMAIN || 'reply.garmentsync.local';
+
+function replySecret(): string {
+  return process.env.REPLY_ADDRESS_SECRET || process.env.SESSION_SECRET || 'garmentsync-dev-secret';
+}
+
+// Signs the order id for one recipient, so a reply is only accepted from the address the email
+// went to. Lowercase hex, because some mail servers lowercase the local part of the address.
+export function replyToken(orderId: string, recipient: string): string {
+  return createHmac('sha256', replySecret())
+    .update(`${orderId}\n${recipient.toLowerCase()}`)
+    .digest('hex')
+    .slice(0, 24);
+}
+
+export function isValidReplyToken(orderId: string, sender: string, token: string): boolean {
+  const expected = Buffer.from(replyToken(orderId, sender));
+  const actual = Buffer.from(token.toLowerCase());
+  return expected.length === actual.length && timingSafeEqual(expected, actual);
+}
+
+// Replies to order emails go to order+<id>+<token>@<inbound domain>, where server/inbound-email.ts
+// picks them up
+export function orderReplyAddress(orderId: string, recipient: string): string {
+  return `order+${encodeURIComponent(orderId)}+${replyToken(orderId, recipient)}@${INBOUND_EMAIL_DOMAIN}`;
+}
+
+// Message-IDs of order emails carry the order id and reply token so replies can be matched from
+// their In-Reply-To/References headers even when the mail client drops our Reply-To address.
+export function orderMessageId(orderId: string, recipient: string): string {
+  return `<${randomUUID()}.order-${encodeURIComponent(orderId)}+${replyToken(orderId, recipient)}@${INBOUND_EMAIL_DOMAIN}>`;
+}
+
+function orderVars(order: { id: string; buyerName: string; styleNumber: string }): TemplateVars {
+  return {
+    orderId: order.id,
+    buyerName: order.buyerName,
+    styleNumber: order.styleNumber,
+    orderUrl: appUrl(`/order/${encodeURIComponent(order.id)}`),
   };
 }
 
+interface ActivityNotification {
+  type: 'comment' | 'update';
+  message: string;
+  authorName: string;
+  authorRole: string;
+  attachments?: { id: string; name: string; hasThumbnail: boolean }[];
+}
+
+function activityVars(order: { id: string; buyerName: string; styleNumber: string }, notification: ActivityNotification): TemplateVars {
+  return {
+    ...orderVars(order),
+    authorName: notification.authorName,
+    authorRole: notification.authorRole,
+    message: notification.message,
+    // Photos link to their large thumbnail; anything without one links to the file itself
+    attachments: (notification.attachments ?? []).map(attachment => ({
+      name: attachment.name,
+      url: appUrl(attachment.hasThumbnail
+        ? `/api/media/${encodeURIComponent(attachment.id)}/thumbnails/large`
+        : `/api/media/${encodeURIComponent(attachment.id)}/content`),
+    })),
+  };
+}
+
+// Renders the platform's emails from their templates and hands them to the outbox;
+// delivery happens in the background
 class EmailService {
-  private transporter: nodemailer.Transporter;
-
-  constructor() {
-    // Configure with your email service (Gmail, SendGrid, etc.)
-    // For development, you can use ethereal.email for testing
-    this.transporter = nodemailer.createTransport({
-      host: process.env.EMAIL_HOST || 'smtp.ethereal.email',
-      port: parseInt(process.env.EMAIL_PORT || '587'),
-      secure: false,
-      auth: {
-        user: process.env.EMAIL_USER || 'ethereal.user@ethereal.email',
-        pass: process.env.EMAIL_PASS || 'ethereal.pass'
-      }
-    });
+  private get fromAddress(): string {
+    return process.env.FROM_EMAIL || 'notifications@garmentfactory.com';
   }
 
-  async sendNotification(
+  // One outbox row per recipient, so a bad address only holds up its own message. Emails about an
+  // order are threaded so replies reach it.
+  private async queue(
     recipients: string[],
     subject: string,
     htmlContent: string,
-    textContent: string
+    textContent: string,
+    orderId?: string
   ): Promise<void> {
-    try {
-      await Promise.all(
-        recipients.map(email =>
-          this.transporter.sendMail({
-            from: process.env.FROM_EMAIL || 'noreply@ordertracker.com',
-            to: email,
-            subject,
-            text: textContent,
-            html: htmlContent,
-          })
-        )
-      );
-      console.log(`Email notifications sent to ${recipients.length} recipients`);
-    } catch (error) {
-      console.error('Failed to send email notifications:', error);
-    }
+    await enqueueEmails(recipients.map(toAddress => ({
+      toAddress,
+      fromAddress: this.fromAddress,
+      subject,
+      htmlBody: htmlContent,
+      textBody: textContent,
+      replyTo: orderId ? orderReplyAddress(orderId, toAddress) : undefined,
+      messageId: orderId ? orderMessageId(orderId, toAddress) : undefined,
+    })));
+  }
+
+  private async send(
+    recipients: string[],
+    template: EmailTemplateName,
+    vars: TemplateVars,
+    orderId?: string
+  ): Promise<void> {
+    const email = await renderEmail(template, vars);
+    await this.queue(recipients, email.subject, email.html, email.text, orderId);
   }
 
   async notifyStakeholders(
     stakeholderEmails: string[],
     orderInfo: { id: string; buyerName: string; styleNumber: string },
-    notification: { type: 'comment' | 'update'; message: string; authorName: string; authorRole: string }
+    notification: ActivityNotification
+  ): Promise<void> {
+    await this.send(stakeholderEmails, notification.type, activityVars(orderInfo, notification), orderInfo.id);
+  }
+
+  async sendMentionNotification(
+    stakeholderEmails: string[],
+    orderInfo: { id: string; buyerName: string; styleNumber: string },
+    notification: ActivityNotification
+  ): Promise<void> {
+    await this.send(stakeholderEmails, 'mention', {
+      ...activityVars(orderInfo, notification),
+      entryType: notification.type === 'update' ? 'an update' : 'a comment',
+    }, orderInfo.id);
+  }
+
+  async sendStatusChangeNotification(
+    stakeholderEmails: string[],
+    orderInfo: { id: string; buyerName: string; styleNumber: string; estimatedDelivery: Date },
+    change: { fromStatus: string; toStatus: string; changedByName: string; reason?: string }
+  ): Promise<void> {
+    await this.send(stakeholderEmails, 'status_change', {
+      ...orderVars(orderInfo),
+      fromStatus: change.fromStatus,
+      toStatus: change.toStatus,
+      estimatedDelivery: orderInfo.estimatedDelivery.toLocaleDateString('en-US', {
+        year: 'numeric',
+        month: 'long',
+        day: 'numeric',
+      }),
+      changedByName: change.changedByName,
+      reason: change.reason,
+    }, orderInfo.id);
+  }
+
+  async sendAmendmentNotification(
+    stakeholderEmails: string[],
+    orderInfo: { id: string; buyerName: string; styleNumber: string },
+    amendment: {
+      revision: number;
+      changes: { label: string; from: string; to: string }[];
+      proposedByName: string;
+      approvedByName?: string;
+      reason?: string;
+    }
+  ): Promise<void> {
+    await this.send(stakeholderEmails, 'amendment', {
+      ...orderVars(orderInfo),
+      revision: amendment.revision,
+      changes: amendment.changes,
+      proposedByName: amendment.proposedByName,
+      approvedByName: amendment.approvedByName,
+      reason: amendment.reason,
+    }, orderInfo.id);
+  }
+
+  async sendDocumentRevisionNotification(
+    stakeholderEmails: string[],
+    orderInfo: { id: string; buyerName: string; styleNumber: string },
+    document: { id: string; name: string; version: number; changeNote?: string; uploadedByName: string }
   ): Promise<void> {
-    const subject = `Order ${orderInfo.id} - New ${notification.type}`;
-    
-    const htmlContent = `
-      <h2>Order Update Notification</h2>
-      <p><strong>Order ID:</strong> ${orderInfo.id}</p>
-      <p><strong>Buyer:</strong> ${orderInfo.buyerName}</p>
-      <p><strong>Style Number:</strong> ${orderInfo.styleNumber}</p>
-      <hr>
-      <p><strong>New ${notification.type} from ${notification.authorName} (${notification.authorRole}):</strong></p>
-      <blockquote style="margin: 10px 0; padding: 10px; background-color: #f5f5f5; border-left: 4px solid #007bff;">
-        ${notification.message}
-      </blockquote>
-      <p><a href="${process.env.APP_URL || 'http://localhost:5000'}/order/${orderInfo.id}">View Order Details</a></p>
-    `;
-
-    const textContent = `Order Update Notification
-Order ID: ${orderInfo.id}
-Buyer: ${orderInfo.buyerName}
-Style Number: ${orderInfo.styleNumber}
-
-New ${notification.type} from ${notification.authorName} (${notification.authorRole}):
-${notification.message}
-
-View Order Details: ${process.env.APP_URL || 'http://localhost:5000'}/order/${orderInfo.id}
-    `;
-
-    await this.sendNotification(stakeholderEmails, subject, htmlContent, textContent);
+    await this.send(stakeholderEmails, 'document_revision', {
+      ...orderVars(orderInfo),
+      documentName: document.name,
+      version: document.version,
+      previousVersion: document.version - 1,
+      changeNote: document.changeNote,
+      uploadedByName: document.uploadedByName,
+      documentUrl: appUrl(`/api/media/${encodeURIComponent(document.id)}/content`),
+    }, orderInfo.id);
+  }
+
+  async sendFileRejectedNotification(
+    recipientEmail: string,
+    orderInfo: { id: string; buyerName: string; styleNumber: string },
+    file: { name: string; signature: string; uploadedAt: Date }
+  ): Promise<void> {
+    await this.send([recipientEmail], 'file_rejected', {
+      ...orderVars(orderInfo),
+      fileName: file.name,
+      signature: file.signature,
+      uploadedAt: file.uploadedAt.toLocaleDateString('en-US', {
+        year: 'numeric',
+        month: 'long',
+        day: 'numeric',
+      }),
+    });
   }
 
   async sendStakeholderInvitation(
@@ -93,113 +207,45 @@ View Order Details: ${process.env.APP_URL || 'http://localhost:5000'}/order/${or
     inviterName: string,
     role: string,
     permissions: string,
+    inviteUrl: string,
     customMessage?: string
   ): Promise<void> {
-    const subject = `Invitation to collaborate on Order ${orderInfo.id}`;
-    
-    const htmlContent = `
-      <h2>You've been invited to collaborate on an order</h2>
-      <p>Hello ${recipientName},</p>
-      <p><strong>${inviterName}</strong> has invited you to collaborate on the following order:</p>
-      
-      <div style="background-color: #f8f9fa; padding: 20px; border-radius: 8px; margin: 20px 0;">
-        <p><strong>Order ID:</strong> ${orderInfo.id}</p>
-        <p><strong>Buyer:</strong> ${orderInfo.buyerName}</p>
-        <p><strong>Style Number:</strong> ${orderInfo.styleNumber}</p>
-        <p><strong>Your Role:</strong> ${role}</p>
-        <p><strong>Permissions:</strong> ${permissions}</p>
-      </div>
-
-      ${customMessage ? `<div style="background-color: #fff3cd; padding: 15px; border-radius: 4px; margin: 15px 0; border-left: 4px solid #ffc107;">
-        <h4 style="margin: 0 0 10px 0; color: #856404;">Personal Message:</h4>
-        <p style="margin: 0; color: #856404;">${customMessage}</p>
-      </div>` : ''}
-
-      <p>You can now track progress, add comments, and collaborate on this order.</p>
-      <p><a href="${process.env.APP_URL || 'http://localhost:5000'}/order/${orderInfo.id}" 
-         style="background-color: #007bff; color: white; padding: 12px 24px; text-decoration: none; border-radius: 4px; display: inline-block;">
-         View Order Details
-      </a></p>
-      
-      <p>If you have any questions, please contact ${inviterName}.</p>
-    `;
-
-    const textContent = `You've been invited to collaborate on an order
-
-Hello ${recipientName},
-
-${inviterName} has invited you to collaborate on the following order:
-
-Order ID: ${orderInfo.id}
-Buyer: ${orderInfo.buyerName}
-Style Number: ${orderInfo.styleNumber}
-Your Role: ${role}
-Permissions: ${permissions}
-
-${customMessage ? `Personal Message: ${customMessage}
-
-` : ''}You can now track progress, add comments, and collaborate on this order.
-
-View Order Details: ${process.env.APP_URL || 'http://localhost:5000'}/order/${orderInfo.id}
-
-If you have any questions, please contact ${inviterName}.
-    `;
-
-    await this.sendNotification([recipientEmail], subject, htmlContent, textContent);
+    await this.send([recipientEmail], 'invitation', {
+      ...orderVars(orderInfo),
+      recipientName,
+      inviterName,
+      role,
+      permissions,
+      inviteUrl,
+      customMessage,
+    });
   }
 
-  async sendNotificationReply(to: string, subject: string, message: string): Promise<void> {
-    if (!this.client) {
-      console.log("Email service not initialized - would send reply:", { to, subject, message });
-      return;
-    }
-
-    try {
-      const msg = {
-        to,
-        from: "admin@garmentfactory.com",
-        subject,
-        text: message,
-        html: `<div style="font-family: Arial, sans-serif; max-width: 600px; margin: 0 auto;">
-          <h2 style="color: #2563eb;">GarmentSync Reply</h2>
-          <div style="background-color: #f8fafc; padding: 20px; border-radius: 8px; margin: 20px 0;">
-            <p style="margin: 0; line-height: 1.6; color: #374151;">${message.replace(/\n/g, '<br>')}</p>
-          </div>
-          <div style="margin-top: 30px; padding-top: 20px; border-top: 1px solid #e5e7eb; text-align: center; color: #6b7280; font-size: 14px;">
-            <p>This message was sent via GarmentSync Manufacturing Platform</p>
-          </div>
-        </div>`,
-      };
-
-      await this.client.send(msg);
-      console.log("Reply sent successfully to:", to);
-    } catch (error) {
-      console.error("Failed to send reply:", error);
-      throw error;
-    }
+  async sendDeliveryRiskAlert(
+    recipientEmail: string,
+    recipientName: string,
+    period: string,
+    orders: { id: string; buyerName: string; styleNumber: string; estimatedDelivery: Date; level: string; reasons: string[] }[]
+  ): Promise<void> {
+    await this.send([recipientEmail], 'delivery_risk', {
+      recipientName,
+      period,
+      orders: orders.map(order => ({
+        ...orderVars(order),
+        level: order.level.charAt(0).toUpperCase() + order.level.slice(1),
+        estimatedDelivery: order.estimatedDelivery.toLocaleDateString('en-US', {
+          year: 'numeric',
+          month: 'long',
+          day: 'numeric',
+        }),
+        reasons: order.reasons.map(reason => `${reason}.`).join(' '),
+      })),
+      dashboardUrl: appUrl('/'),
+    });
   }
 
-  private async sendNotification(emails: string[], subject: string, htmlContent: string, textContent: string): Promise<void> {
-    if (!this.client) {
-      console.log("Email service not initialized - would send notification:", { emails, subject, textContent });
-      return;
-    }
-
-    try {
-      const msg = {
-        to: emails,
-        from: "notifications@garmentfactory.com",
-        subject,
-        text: textContent,
-        html: htmlContent,
-      };
-
-      await this.client.sendMultiple(msg);
-      console.log("Notification sent successfully to:", emails);
-    } catch (error) {
-      console.error("Failed to send notification:", error);
-      throw error;
-    }
+  async sendNotificationReply(to: string, subject: string, message: string): Promise<void> {
+    await this.send([to], 'reply', { subject, message });
   }
 }
 
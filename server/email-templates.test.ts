@@ -0,0 +1,45 @@
+import { afterEach, describe, expect, it } from "vitest";
+import type { EmailTemplateName } from "@shared/schema";
+import { storage } from "./storage";
+import { DEFAULT_BRANDING, DEFAULT_TEMPLATES, renderEmail } from "./email-templates";
+
+// The templates most mail goes out with; a change to any of them should be a deliberate one
+const SNAPSHOTTED: EmailTemplateName[] = ["update", "comment", "invitation", "status_change", "digest"];
+
+describe("default email templates", () => {
+  afterEach(async () => {
+    await storage.deleteEmailTemplate("comment");
+    await storage.saveEmailBranding(DEFAULT_BRANDING);
+  });
+
+  it.each(SNAPSHOTTED)("renders %s with its sample data", async (name) => {
+    const rendered = await renderEmail(name, DEFAULT_TEMPLATES[name].sampleData);
+
+    expect(rendered.subject).toMatchSnapshot("subject");
+    expect(rendered.text).toMatchSnapshot("text");
+    expect(rendered.html).toMatchSnapshot("html");
+  });
+
+  it("escapes what stakeholders wrote in the HTML body", async () => {
+    const rendered = await renderEmail("comment", {
+      ...DEFAULT_TEMPLATES.comment.sampleData,
+      authorName: "<b>Mallory</b>",
+      message: `<img src=x onerror="alert(1)"> see [here](javascript:alert(1))`,
+    });
+
+    expect(rendered.html).not.toContain("<img src=x");
+    expect(rendered.html).not.toContain("<b>Mallory</b>");
+    expect(rendered.html).not.toContain('href="javascript:');
+  });
+
+  it("uses an admin's edited template and the saved branding", async () => {
+    await storage.saveEmailTemplate("comment", "{{authorName}} on {{orderId}}", "{{message}}", "admin@example.test");
+    await storage.saveEmailBranding({ productName: "Acme Sourcing", logoUrl: null, primaryColor: "#111111", footerText: "Sent by Acme" });
+
+    const rendered = await renderEmail("comment", DEFAULT_TEMPLATES.comment.sampleData);
+
+    expect(rendered.subject).toBe("Mike Johnson on ORD-2024-001");
+    expect(rendered.text).toBe("Can we confirm the button color before sewing starts?\n\n--\nSent by Acme\n");
+    expect(rendered.html).toContain("Acme Sourcing");
+  });
+});
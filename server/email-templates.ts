@@ -0,0 +1,560 @@
+import { storage } from "./storage";
+import { escapeHtml, renderHtml, renderSubject, renderText, type TemplateVars } from "./template-renderer";
+import { EMAIL_TEMPLATE_NAMES, type EmailBranding, type EmailTemplateName } from "@shared/schema";
+
+export interface EmailTemplateDefinition {
+  subject: string;
+  body: string;
+  description: string;
+  // Variables the template is rendered with, shown to admins editing it
+  variables: Record<string, string>;
+  sampleData: TemplateVars;
+}
+
+export interface RenderedEmail {
+  subject: string;
+  html: string;
+  text: string;
+}
+
+const ORDER_VARIABLES = {
+  orderId: "Order ID",
+  buyerName: "Buyer name",
+  styleNumber: "Style number",
+  orderUrl: "Link to the order page",
+};
+
+const SAMPLE_ORDER = {
+  orderId: "ORD-2024-001",
+  buyerName: "Fashion Forward Inc.",
+  styleNumber: "FF-SS24-001",
+  orderUrl: "http://localhost:5000/order/ORD-2024-001",
+};
+
+export const DEFAULT_TEMPLATES: Record<EmailTemplateName, EmailTemplateDefinition> = {
+  update: {
+    description: "Sent to stakeholders when someone posts an update on an order",
+    subject: "Order {{orderId}} - New update",
+    body: `# Order Update Notification
+
+**Order ID:** {{orderId}}
+**Buyer:** {{buyerName}}
+**Style Number:** {{styleNumber}}
+
+---
+
+**New update from {{authorName}} ({{authorRole}}):**
+
+> {{message}}
+
+{{#if attachments}}
+**Attachments:**
+
+{{#each attachments}}
+[{{name}}]({{url}})
+
+{{/each}}
+{{/if}}
+
+[View Order Details]({{orderUrl}})`,
+    variables: {
+      ...ORDER_VARIABLES,
+      authorName: "Who posted the update",
+      authorRole: "Their role on the order",
+      message: "The update text",
+      attachments: "Attached files, each with name and url (photos link to a thumbnail)",
+    },
+    sampleData: {
+      ...SAMPLE_ORDER,
+      authorName: "Sarah Chen",
+      authorRole: "manufacturer",
+      message: "Cutting is complete and sewing starts Monday.",
+      attachments: [
+        { name: "cutting-table.jpg", url: "http://localhost:5000/api/media/sample/thumbnails/large" },
+      ],
+    },
+  },
+  comment: {
+    description: "Sent to stakeholders when someone comments on an order",
+    subject: "Order {{orderId}} - New comment",
+    body: `# Order Update Notification
+
+**Order ID:** {{orderId}}
+**Buyer:** {{buyerName}}
+**Style Number:** {{styleNumber}}
+
+---
+
+**New comment from {{authorName}} ({{authorRole}}):**
+
+> {{message}}
+
+{{#if attachments}}
+**Attachments:**
+
+{{#each attachments}}
+[{{name}}]({{url}})
+
+{{/each}}
+{{/if}}
+
+[View Order Details]({{orderUrl}})
+
+You can reply to this email to add a comment to the order.`,
+    variables: {
+      ...ORDER_VARIABLES,
+      authorName: "Who posted the comment",
+      authorRole: "Their role on the order",
+      message: "The comment text",
+      attachments: "Attached files, each with name and url (photos link to a thumbnail)",
+    },
+    sampleData: {
+      ...SAMPLE_ORDER,
+      authorName: "Mike Johnson",
+      authorRole: "buyer",
+      message: "Can we confirm the button color before sewing starts?",
+    },
+  },
+  mention: {
+    description: "Sent to stakeholders mentioned by name in an update or comment",
+    subject: "Order {{orderId}} - {{authorName}} mentioned you",
+    body: `# {{authorName}} mentioned you
+
+**Order ID:** {{orderId}}
+**Buyer:** {{buyerName}}
+**Style Number:** {{styleNumber}}
+
+---
+
+**{{authorName}} ({{authorRole}}) mentioned you in {{entryType}}:**
+
+> {{message}}
+
+{{#if attachments}}
+**Attachments:**
+
+{{#each attachments}}
+[{{name}}]({{url}})
+
+{{/each}}
+{{/if}}
+
+[View Order Details]({{orderUrl}})
+
+You can reply to this email to add a comment to the order.`,
+    variables: {
+      ...ORDER_VARIABLES,
+      authorName: "Who wrote the update or comment",
+      authorRole: "Their role on the order",
+      entryType: "\"an update\" or \"a comment\"",
+      message: "The update or comment text",
+      attachments: "Attached files, each with name and url (photos link to a thumbnail)",
+    },
+    sampleData: {
+      ...SAMPLE_ORDER,
+      authorName: "Mike Johnson",
+      authorRole: "buyer",
+      entryType: "a comment",
+      message: "@Sarah Chen can we confirm the button color before sewing starts?",
+    },
+  },
+  status_change: {
+    description: "Sent to stakeholders following status changes when an order moves to a new status",
+    subject: "Order {{orderId}} - Status changed to {{toStatus}}",
+    body: `# Order Status Changed
+
+**Order ID:** {{orderId}}
+**Buyer:** {{buyerName}}
+**Style Number:** {{styleNumber}}
+
+---
+
+**Previous Status:** {{fromStatus}}
+**New Status:** {{toStatus}}
+**Estimated Delivery:** {{estimatedDelivery}}
+**Changed By:** {{changedByName}}
+
+{{#if reason}}
+> {{reason}}
+{{/if}}
+
+[View Order Details]({{orderUrl}})`,
+    variables: {
+      ...ORDER_VARIABLES,
+      fromStatus: "Previous status",
+      toStatus: "New status",
+      estimatedDelivery: "Estimated delivery date",
+      changedByName: "Who changed the status",
+      reason: "Reason given for the change (optional)",
+    },
+    sampleData: {
+      ...SAMPLE_ORDER,
+      fromStatus: "In Production",
+      toStatus: "Quality Check",
+      estimatedDelivery: "March 15, 2024",
+      changedByName: "Sarah Chen",
+      reason: "All pieces sewn, inspection scheduled for Thursday.",
+    },
+  },
+  amendment: {
+    description: "Sent to stakeholders when changes to an order's details are applied",
+    subject: "Order {{orderId}} - Amended to revision {{revision}}",
+    body: `# Order {{orderId}} amended to revision {{revision}}
+
+**Order ID:** {{orderId}}
+**Buyer:** {{buyerName}}
+**Style Number:** {{styleNumber}}
+
+---
+
+{{#each changes}}
+**{{label}}:** {{from}} → {{to}}
+
+{{/each}}
+**Proposed By:** {{proposedByName}}
+{{#if approvedByName}}
+**Approved By:** {{approvedByName}}
+{{/if}}
+
+{{#if reason}}
+> {{reason}}
+{{/if}}
+
+Please work from the amended order from now on.
+
+[View Order Details]({{orderUrl}})`,
+    variables: {
+      ...ORDER_VARIABLES,
+      revision: "The order's new revision number",
+      changes: "Changed fields, each with label, from and to",
+      proposedByName: "Who proposed the changes",
+      approvedByName: "Buyer-side stakeholder who approved them (when approval was needed)",
+      reason: "Reason given for the changes (optional)",
+    },
+    sampleData: {
+      ...SAMPLE_ORDER,
+      revision: 2,
+      changes: [
+        { label: "Quantity", from: "1,000", to: "1,200" },
+        { label: "Estimated delivery", from: "March 15, 2024", to: "March 29, 2024" },
+      ],
+      proposedByName: "Sarah Chen",
+      approvedByName: "Mike Johnson",
+      reason: "Buyer added 200 pieces for the spring promotion.",
+    },
+  },
+  document_revision: {
+    description: "Sent to stakeholders when a new version of an order document is uploaded",
+    subject: "Order {{orderId}} - {{documentName}} v{{version}} supersedes v{{previousVersion}}",
+    body: `# {{documentName}} v{{version}} supersedes v{{previousVersion}}
+
+**Order ID:** {{orderId}}
+**Buyer:** {{buyerName}}
+**Style Number:** {{styleNumber}}
+
+---
+
+**{{uploadedByName}}** uploaded version {{version}} of {{documentName}}. Version {{previousVersion}} is out of date; please work from the new version only.
+
+{{#if changeNote}}
+**What changed:**
+
+> {{changeNote}}
+{{/if}}
+
+[Open Version {{version}}]({{documentUrl}})
+
+[View Order Details]({{orderUrl}})`,
+    variables: {
+      ...ORDER_VARIABLES,
+      documentName: "File name of the document",
+      version: "New version number",
+      previousVersion: "Version it replaces",
+      uploadedByName: "Who uploaded the new version",
+      changeNote: "Uploader's note on what changed (optional)",
+      documentUrl: "Link to the new version",
+    },
+    sampleData: {
+      ...SAMPLE_ORDER,
+      documentName: "FF-SS24-001 tech pack.pdf",
+      version: 3,
+      previousVersion: 2,
+      uploadedByName: "Sarah Chen",
+      changeNote: "Sleeve length reduced by 1.5 cm; new care label placement.",
+      documentUrl: "http://localhost:5000/api/media/sample/content",
+    },
+  },
+  file_rejected: {
+    description: "Sent to the uploader when the malware scanner rejects a file",
+    subject: "Order {{orderId}} - {{fileName}} was rejected by the malware scan",
+    body: `# {{fileName}} was rejected
+
+**Order ID:** {{orderId}}
+**Buyer:** {{buyerName}}
+**Style Number:** {{styleNumber}}
+
+---
+
+The file you uploaded on {{uploadedAt}} was flagged as **{{signature}}** and has been quarantined. Nobody on the order can open or download it.
+
+Please check the file on your computer with your antivirus software, then upload a clean copy.
+
+[View Order Details]({{orderUrl}})`,
+    variables: {
+      ...ORDER_VARIABLES,
+      fileName: "File name of the rejected upload",
+      signature: "Malware signature the scanner reported",
+      uploadedAt: "When the file was uploaded",
+    },
+    sampleData: {
+      ...SAMPLE_ORDER,
+      fileName: "FF-SS24-001 invoice.pdf",
+      signature: "Eicar-Signature",
+      uploadedAt: "March 4, 2024",
+    },
+  },
+  invitation: {
+    description: "Sent to a stakeholder invited to collaborate on an order",
+    subject: "Invitation to collaborate on Order {{orderId}}",
+    body: `# You've been invited to collaborate on an order
+
+Hello {{recipientName}},
+
+**{{inviterName}}** has invited you to collaborate on the following order:
+
+**Order ID:** {{orderId}}
+**Buyer:** {{buyerName}}
+**Style Number:** {{styleNumber}}
+**Your Role:** {{role}}
+**Permissions:** {{permissions}}
+
+{{#if customMessage}}
+**Personal Message:**
+
+> {{customMessage}}
+{{/if}}
+
+Accept the invitation to track progress, add comments, and collaborate on this order.
+
+[Accept Invitation]({{inviteUrl}})
+
+This link can be used once and expires in 7 days.
+
+If you have any questions, please contact {{inviterName}}.`,
+    variables: {
+      ...ORDER_VARIABLES,
+      recipientName: "Name of the invited stakeholder",
+      inviterName: "Who sent the invitation",
+      role: "Role on the order",
+      permissions: "Access level (read, comment or update)",
+      inviteUrl: "Single-use link to accept the invitation",
+      customMessage: "Personal message from the inviter (optional)",
+    },
+    sampleData: {
+      ...SAMPLE_ORDER,
+      recipientName: "Mike Johnson",
+      inviterName: "Sarah Chen",
+      role: "buyer",
+      permissions: "comment",
+      inviteUrl: "http://localhost:5000/invite/sample-token",
+      customMessage: "Looking forward to working together on this one.",
+    },
+  },
+  digest: {
+    description: "A summary of recent activity across a stakeholder's orders",
+    subject: "Your {{productName}} summary for {{period}}",
+    body: `# Activity summary for {{period}}
+
+Hello {{recipientName}},
+
+{{#if orders}}
+Here is what changed on your orders:
+
+{{#each orders}}
+**{{orderId}}** · {{buyerName}} · {{styleNumber}}
+{{summary}}
+
+{{/each}}
+{{else}}
+There was no activity on your orders.
+{{/if}}
+
+[Open Dashboard]({{dashboardUrl}})`,
+    variables: {
+      recipientName: "Name of the recipient",
+      period: "The period the summary covers",
+      orders: "List of orders, each with orderId, buyerName, styleNumber and summary",
+      dashboardUrl: "Link to the dashboard",
+      productName: "Product name from the branding settings",
+    },
+    sampleData: {
+      recipientName: "Mike Johnson",
+      period: "March 4, 2024",
+      orders: [
+        { ...SAMPLE_ORDER, summary: "2 updates, 1 comment. Status changed to Quality Check." },
+        {
+          orderId: "ORD-2024-002",
+          buyerName: "Urban Threads",
+          styleNumber: "UT-AW24-014",
+          orderUrl: "http://localhost:5000/order/ORD-2024-002",
+          summary: "1 new comment.",
+        },
+      ],
+      dashboardUrl: "http://localhost:5000/",
+    },
+  },
+  delivery_risk: {
+    description: "A daily alert to factory owners and admins listing their orders at risk of missing delivery",
+    subject: "Orders at risk of missing delivery on {{period}}",
+    body: `# Delivery risk alert for {{period}}
+
+Hello {{recipientName}},
+
+These orders may miss their delivery date:
+
+{{#each orders}}
+**{{orderId}}** · {{buyerName}} · {{styleNumber}} · {{level}} risk, due {{estimatedDelivery}}
+{{reasons}}
+
+[View Order]({{orderUrl}})
+
+{{/each}}
+
+[Open Dashboard]({{dashboardUrl}})`,
+    variables: {
+      recipientName: "Name of the recipient",
+      period: "The day the alert is for",
+      orders: "Orders at risk, highest risk first, each with orderId, buyerName, styleNumber, orderUrl, level, estimatedDelivery and reasons",
+      dashboardUrl: "Link to the dashboard",
+    },
+    sampleData: {
+      recipientName: "Sarah Chen",
+      period: "March 4, 2024",
+      orders: [
+        {
+          ...SAMPLE_ORDER,
+          level: "High",
+          estimatedDelivery: "March 9, 2024",
+          reasons: "Delivery is due in 5 days. Production is only 40% done, still in Sewing. Final inspection is 2 days overdue.",
+        },
+        {
+          orderId: "ORD-2024-002",
+          buyerName: "Urban Threads",
+          styleNumber: "UT-AW24-014",
+          orderUrl: "http://localhost:5000/order/ORD-2024-002",
+          level: "Medium",
+          estimatedDelivery: "April 12, 2024",
+          reasons: "The order is on hold.",
+        },
+      ],
+      dashboardUrl: "http://localhost:5000/",
+    },
+  },
+  reply: {
+    description: "A reply sent from the notifications page",
+    subject: "{{subject}}",
+    body: `# {{productName}} Reply
+
+> {{message}}`,
+    variables: {
+      subject: "Subject entered by the sender",
+      message: "The reply text",
+      productName: "Product name from the branding settings",
+    },
+    sampleData: {
+      subject: "Re: Order ORD-2024-001",
+      message: "Thanks, the revised trims look good.",
+    },
+  },
+};
+
+export const DEFAULT_BRANDING: Omit<EmailBranding, "updatedAt"> = {
+  id: "default",
+  productName: "GarmentSync",
+  logoUrl: null,
+  primaryColor: "#2563eb",
+  footerText: "This message was sent via GarmentSync Manufacturing Platform",
+};
+
+export function isEmailTemplateName(name: string): name is EmailTemplateName {
+  return (EMAIL_TEMPLATE_NAMES as readonly string[]).includes(name);
+}
+
+export function appUrl(path: string): string {
+  return `${process.env.APP_URL || 'http://localhost:5000'}${path}`;
+}
+
+export async function getBranding(): Promise<Omit<EmailBranding, "updatedAt">> {
+  return (await storage.getEmailBranding()) ?? DEFAULT_BRANDING;
+}
+
+// The stored override if an admin has edited the template, otherwise the built-in default
+export async function getTemplateSource(name: EmailTemplateName): Promise<{ subject: string; body: string }> {
+  const override = await storage.getEmailTemplate(name);
+  return override ?? DEFAULT_TEMPLATES[name];
+}
+
+function wrapHtml(content: string, branding: Omit<EmailBranding, "updatedAt">): string {
+  const header = branding.logoUrl
+    ? `<img src="${escapeHtml(branding.logoUrl)}" alt="${escapeHtml(branding.productName)}" style="max-height: 40px;">`
+    : `<span style="font-size: 20px; font-weight: bold; color: ${branding.primaryColor};">${escapeHtml(branding.productName)}</span>`;
+
+  return `<div style="font-family: Arial, sans-serif; max-width: 600px; margin: 0 auto; color: #374151;">
+  <div style="padding: 16px 0; border-bottom: 3px solid ${branding.primaryColor}; margin-bottom: 20px;">${header}</div>
+${content}
+  <div style="margin-top: 30px; padding-top: 20px; border-top: 1px solid #e5e7eb; text-align: center; color: #6b7280; font-size: 14px;">
+    <p>${escapeHtml(branding.footerText)}</p>
+  </div>
+</div>`;
+}
+
+/**
+ * Renders a subject and body against the given variables and the current branding. Throws
+ * TemplateError when the template itself is malformed.
+ */
+export async function renderTemplateSource(
+  source: { subject: string; body: string },
+  vars: TemplateVars
+): Promise<RenderedEmail> {
+  const branding = await getBranding();
+  const context: TemplateVars = { productName: branding.productName, ...vars };
+  const text = renderText(source.body, context);
+
+  return {
+    subject: renderSubject(source.subject, context),
+    html: wrapHtml(renderHtml(source.body, context, { primaryColor: branding.primaryColor }), branding),
+    text: branding.footerText ? `${text}\n\n--\n${branding.footerText}\n` : `${text}\n`,
+  };
+}
+
+export async function renderEmail(name: EmailTemplateName, vars: TemplateVars): Promise<RenderedEmail> {
+  return renderTemplateSource(await getTemplateSource(name), vars);
+}
+
+export interface EmailTemplateSummary extends EmailTemplateDefinition {
+  name: EmailTemplateName;
+  isCustomized: boolean;
+  updatedAt: Date | null;
+  defaultSubject: string;
+  defaultBody: string;
+}
+
+// Every template with its current source, for the admin editor
+export async function listTemplates(): Promise<EmailTemplateSummary[]> {
+  const overrides = await storage.listEmailTemplates();
+
+  return EMAIL_TEMPLATE_NAMES.map(name => {
+    const template = DEFAULT_TEMPLATES[name];
+    const override = overrides.find(o => o.name === name);
+    return {
+      ...template,
+      name,
+      subject: override?.subject ?? template.subject,
+      body: override?.body ?? template.body,
+      isCustomized: !!override,
+      updatedAt: override?.updatedAt ?? null,
+      defaultSubject: template.subject,
+      defaultBody: template.body,
+    };
+  });
+}
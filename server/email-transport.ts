@@ -0,0 +1,117 @@
+import fs from "fs/promises";
+import path from "path";
+import nodemailer from "nodemailer";
+import sgMail from "@sendgrid/mail";
+import { log } from "./vite";
+
+export interface OutgoingEmail {
+  from: string;
+  to: string;
+  subject: string;
+  text: string;
+  html: string;
+  replyTo?: string;
+  messageId?: string;
+}
+
+// Delivers one message or throws; retries are the outbox's job, not the transport's
+export interface EmailTransport {
+  readonly name: string;
+  send(email: OutgoingEmail): Promise<void>;
+}
+
+export class SmtpTransport implements EmailTransport {
+  readonly name = "smtp";
+  private transporter: nodemailer.Transporter;
+
+  constructor() {
+    this.transporter = nodemailer.createTransport({
+      host: process.env.EMAIL_HOST,
+      port: parseInt(process.env.EMAIL_PORT || '587', 10),
+      secure: process.env.EMAIL_SECURE === 'true',
+      auth: process.env.EMAIL_USER
+        ? { user: process.env.EMAIL_USER, pass: process.env.EMAIL_PASS }
+        : undefined,
+    });
+  }
+
+  async send(email: OutgoingEmail): Promise<void> {
+    await this.transporter.sendMail(email);
+  }
+}
+
+export class SendGridTransport implements EmailTransport {
+  readonly name = "sendgrid";
+
+  constructor(apiKey: string) {
+    sgMail.setApiKey(apiKey);
+  }
+
+  async send(email: OutgoingEmail): Promise<void> {
+    await sgMail.send({
+      from: email.from,
+      to: email.to,
+      subject: email.subject,
+      text: email.text,
+      html: email.html,
+      replyTo: email.replyTo,
+      headers: email.messageId ? { "Message-ID": email.messageId } : undefined,
+    });
+  }
+}
+
+// Development default: nothing leaves the machine, the message is summarised in the server log
+export class ConsoleTransport implements EmailTransport {
+  readonly name = "console";
+
+  async send(email: OutgoingEmail): Promise<void> {
+    log(`to ${email.to}: ${email.subject}`, "email");
+  }
+}
+
+/**
+ * Writes each message as an .eml file into a mailbox directory, so tests and local
+ * development can inspect exactly what would have been sent.
+ */
+export class FileTransport implements EmailTransport {
+  readonly name = "file";
+  private builder = nodemailer.createTransport({ streamTransport: true, buffer: true, newline: "unix" });
+
+  constructor(private directory: string) {}
+
+  async send(email: OutgoingEmail): Promise<void> {
+    const info = await this.builder.sendMail(email);
+    const safeRecipient = email.to.replace(/[^a-zA-Z0-9@._-]/g, "_");
+
+    await fs.mkdir(this.directory, { recursive: true });
+    await fs.writeFile(
+      path.join(this.directory, `${Date.now()}-${safeRecipient}.eml`),
+      info.message as Buffer,
+    );
+  }
+}
+
+/**
+ * Picks the transport from EMAIL_TRANSPORT ('smtp' | 'sendgrid' | 'console' | 'file'). When it
+ * is not set, SendGrid or SMTP are used if configured and the console transport otherwise.
+ */
+export function createTransport(): EmailTransport {
+  const configured = process.env.EMAIL_TRANSPORT
+    || (process.env.SENDGRID_API_KEY ? "sendgrid" : process.env.EMAIL_HOST ? "smtp" : "console");
+
+  switch (configured) {
+    case "smtp":
+      return new SmtpTransport();
+    case "sendgrid":
+      if (!process.env.SENDGRID_API_KEY) {
+        throw new Error("SENDGRID_API_KEY must be set to use the SendGrid email transport");
+      }
+      return new SendGridTransport(process.env.SENDGRID_API_KEY);
+    case "file":
+      return new FileTransport(path.resolve(process.env.EMAIL_MAILBOX_DIR || ".mailbox"));
+    case "console":
+      return new ConsoleTransport();
+    default:
+      throw new Error(`Unknown EMAIL_TRANSPORT "${configured}"`);
+  }
+}
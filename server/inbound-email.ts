@@ -0,0 +1,250 @@
+import { timingSafeEqual } from "crypto";
+import { simpleParser, type AddressObject, type ParsedMail } from "mailparser";
+import { SMTPServer } from "smtp-server";
+import { storage } from "./storage";
+import { isAllowedMimeType, MAX_UPLOAD_BYTES, saveMediaFile } from "./uploads";
+import { queueMediaScans } from "./media-scans";
+import { can } from "./permissions";
+import { notifyNewActivity } from "./notify";
+import { INBOUND_EMAIL_DOMAIN, isValidReplyToken } from "./email-service";
+import { insertCommentSchema, MAX_ATTACHMENTS, type Order, type Stakeholder } from "@shared/schema";
+import { log } from "./vite";
+
+const MAX_MESSAGE_BYTES = 25 * 1024 * 1024;
+
+const REPLY_ADDRESS_PATTERN = /^order\+([^@+]+)\+([0-9a-f]+)@/i;
+const MESSAGE_ID_PATTERN = /\.order-([^@>\s+]+)\+([0-9a-f]+)@/i;
+
+// An order id from a reply address or Message-ID, with the token signed for the original recipient
+interface ReplyTarget {
+  orderId: string;
+  token: string;
+}
+
+function addressesOf(field: AddressObject | AddressObject[] | undefined): string[] {
+  const objects = Array.isArray(field) ? field : field ? [field] : [];
+  return objects.flatMap(obj => obj.value.map(a => a.address ?? "")).filter(Boolean);
+}
+
+function replyTargets(parsed: ParsedMail, envelopeRecipients: string[]): ReplyTarget[] {
+  const recipients = [
+    ...envelopeRecipients,
+    ...addressesOf(parsed.to),
+    ...addressesOf(parsed.cc),
+    ...[parsed.headers.get("delivered-to"), parsed.headers.get("x-original-to")]
+      .filter((value): value is string => typeof value === "string"),
+  ];
+  const threadIds = [
+    parsed.inReplyTo ?? "",
+    ...(Array.isArray(parsed.references) ? parsed.references : parsed.references ? [parsed.references] : []),
+  ];
+
+  const fromRecipients = recipients.map(address => address.match(REPLY_ADDRESS_PATTERN));
+  const fromThread = threadIds.map(id => id.match(MESSAGE_ID_PATTERN));
+
+  return [...fromRecipients, ...fromThread]
+    .filter((match): match is RegExpMatchArray => !!match)
+    .map(match => ({ orderId: decodeURIComponent(match[1]), token: match[2] }));
+}
+
+/**
+ * The From header is easy to forge and order ids are easy to guess, so a reply only counts for
+ * an order when it carries the token signed for the sender's address, which only the mailbox the
+ * notification went to has seen.
+ */
+async function findOrder(targets: ReplyTarget[], sender: string): Promise<Order | undefined> {
+  for (const target of targets) {
+    // Some mail servers lowercase the local part of the address
+    const order = await storage.getOrder(target.orderId) ?? await storage.getOrder(target.orderId.toUpperCase());
+    if (order && isValidReplyToken(order.id, sender, target.token)) return order;
+  }
+  return undefined;
+}
+
+const QUOTE_HEADER_PATTERNS = [
+  /^On .+wrote:\s*$/,
+  /^-{2,}\s*Original Message\s*-{2,}/i,
+  /^_{10,}\s*$/,
+  /^From:\s.+/,
+  /^Sent from my /,
+];
+
+/**
+ * Returns only the new text of a reply: everything from the first quoted line, quote header
+ * ("On Mon, ... wrote:", Outlook's "From:" block) or signature separator onwards is dropped.
+ */
+export function stripQuotedText(text: string): string {
+  const lines = text.replace(/\r\n/g, "\n").split("\n");
+  const kept: string[] = [];
+
+  for (let i = 0; i < lines.length; i++) {
+    const line = lines[i];
+    // Gmail wraps long "On ... wrote:" headers over two lines
+    const joined = i + 1 < lines.length ? `${line} ${lines[i + 1]}` : line;
+
+    if (line.startsWith(">") || line === "-- " || QUOTE_HEADER_PATTERNS.some(pattern => pattern.test(line))) break;
+    if (/^On .+/.test(line) && /wrote:\s*$/.test(joined)) break;
+    kept.push(line);
+  }
+
+  return kept.join("\n").trim();
+}
+
+function activeStakeholderFor(stakeholders: Stakeholder[], email: string): Stakeholder | undefined {
+  const normalized = email.toLowerCase();
+  return stakeholders.find(s => s.invitationStatus !== "revoked" && s.email.toLowerCase() === normalized);
+}
+
+// The webhook is only open when a shared secret is configured for the mail provider to send
+export function isAuthorizedWebhook(provided: string | undefined): boolean {
+  const secret = process.env.INBOUND_EMAIL_SECRET;
+  if (!secret || !provided) return false;
+
+  const expected = Buffer.from(secret);
+  const actual = Buffer.from(provided);
+  return expected.length === actual.length && timingSafeEqual(expected, actual);
+}
+
+export type InboundResult =
+  | { status: "accepted"; orderId: string; commentId: string; attachments: number }
+  | { status: "duplicate" }
+  | { status: "rejected"; reason: string };
+
+/**
+ * Turns a raw RFC 822 reply into a comment on the order it answers. The reply must go to the
+ * address signed for the sender, who must be a stakeholder on that order allowed to comment.
+ * Attachments that would be accepted as uploads are saved to the order's media. Every message
+ * is recorded, so redelivered messages are ignored.
+ */
+export async function ingestEmail(raw: Buffer | string, envelopeRecipients: string[] = []): Promise<InboundResult> {
+  const parsed = await simpleParser(raw);
+  const messageId = parsed.messageId;
+  const sender = parsed.from?.value[0]?.address?.toLowerCase() ?? "";
+  const subject = parsed.subject;
+
+  if (messageId && await storage.getInboundEmailByMessageId(messageId)) {
+    return { status: "duplicate" };
+  }
+
+  const reject = async (reason: string, orderId?: string): Promise<InboundResult> => {
+    await storage.createInboundEmail({ messageId, fromAddress: sender, subject, orderId, status: "rejected", reason });
+    log(`rejected inbound email from ${sender || "unknown sender"}: ${reason}`, "inbound-email");
+    return { status: "rejected", reason };
+  };
+
+  const order = await findOrder(replyTargets(parsed, envelopeRecipients), sender);
+  if (!order) {
+    return reject(`No order reply address issued to ${sender || "the sender"} matches the recipient address or thread`);
+  }
+
+  const stakeholder = activeStakeholderFor(await storage.getStakeholdersByOrder(order.id), sender);
+  if (!stakeholder) {
+    return reject(`${sender || "The sender"} is not a stakeholder on order ${order.id}`, order.id);
+  }
+  if (!can(stakeholder, "comment")) {
+    return reject(`${stakeholder.email} does not have comment access on order ${order.id}`, order.id);
+  }
+
+  const message = stripQuotedText(parsed.text ?? "");
+  // Attachments get the same type and size checks as web uploads; ones that fail are dropped
+  const attachments = parsed.attachments
+    .filter(attachment => attachment.contentDisposition !== "inline" || attachment.filename)
+    .filter(attachment => {
+      const reason = !isAllowedMimeType(attachment.contentType)
+        ? `${attachment.contentType} files are not accepted`
+        : attachment.content.length > MAX_UPLOAD_BYTES
+          ? `it is over ${MAX_UPLOAD_BYTES / 1024 / 1024} MB`
+          : undefined;
+      if (reason) {
+        log(`dropped attachment ${attachment.filename || "(unnamed)"} from ${sender} on order ${order.id}: ${reason}`, "inbound-email");
+      }
+      return !reason;
+    });
+  if (!message && attachments.length === 0) {
+    return reject("The reply has no new text or attachments", order.id);
+  }
+
+  const user = stakeholder.userId ? await storage.getUser(stakeholder.userId) : undefined;
+  const authorName = user?.name ?? stakeholder.name;
+
+  const attachmentIds: string[] = [];
+  for (const attachment of attachments) {
+    const originalName = attachment.filename || "attachment";
+    const file = await saveMediaFile(attachment.content, originalName, attachment.contentType, (stored) => storage.createMediaFile({
+      orderId: order.id,
+      filename: stored.filename,
+      contentHash: stored.contentHash,
+      originalName,
+      size: stored.size,
+      mimeType: attachment.contentType,
+      category: attachment.contentType.startsWith("image/") ? "product_photos" : "other",
+      description: `Attached to an email reply from ${authorName}`,
+      uploadedBy: stakeholder.email,
+    }));
+    attachmentIds.push(file.id);
+  }
+  if (attachments.length > 0) {
+    queueMediaScans();
+  }
+
+  const comment = await storage.createComment(insertCommentSchema.parse({
+    orderId: order.id,
+    message: message || `Sent ${attachments.length} attachment${attachments.length === 1 ? "" : "s"} by email`,
+    authorId: user?.id,
+    authorName,
+    authorRole: user?.role ?? (["buyer", "buyer_employee"].includes(stakeholder.role) ? "buyer" : "manufacturer"),
+    // Every attachment lands in the order's media; the comment links as many as it can hold
+    attachmentIds: attachmentIds.slice(0, MAX_ATTACHMENTS),
+  }));
+
+  await storage.createInboundEmail({
+    messageId,
+    fromAddress: sender,
+    subject,
+    orderId: order.id,
+    commentId: comment.id,
+    status: "accepted",
+  });
+  await notifyNewActivity(order, "comment", comment, stakeholder.email);
+
+  return { status: "accepted", orderId: order.id, commentId: comment.id, attachments: attachments.length };
+}
+
+/**
+ * Accepts mail for the inbound domain over SMTP and feeds each message to `ingestEmail`.
+ * Intended to sit behind the organisation's MX or a relay, not to be exposed directly.
+ */
+export function startInboundSmtpServer(port: number): SMTPServer {
+  const server = new SMTPServer({
+    authOptional: true,
+    disabledCommands: ["AUTH", "STARTTLS"],
+    size: MAX_MESSAGE_BYTES,
+    onRcptTo(address, _session, callback) {
+      if (!address.address.toLowerCase().endsWith(`@${INBOUND_EMAIL_DOMAIN}`)) {
+        return callback(new Error(`Mailbox ${address.address} is not handled here`));
+      }
+      callback();
+    },
+    onData(stream, session, callback) {
+      const chunks: Buffer[] = [];
+      stream.on("data", (chunk: Buffer) => chunks.push(chunk));
+      stream.on("error", callback);
+      stream.on("end", () => {
+        if ((stream as { sizeExceeded?: boolean }).sizeExceeded) {
+          return callback(new Error("Message exceeds the maximum allowed size"));
+        }
+        const recipients = session.envelope.rcptTo.map(rcpt => rcpt.address);
+        ingestEmail(Buffer.concat(chunks), recipients)
+          .then(() => callback())
+          .catch(error => {
+            console.error("Failed to ingest inbound email:", error);
+            callback(new Error("Failed to process message"));
+          });
+      });
+    },
+  });
+
+  server.on("error", error => console.error("Inbound SMTP server error:", error));
+  server.listen(port, () => log(`inbound SMTP listening on port ${port}`, "inbound-email"));
+  return server;
+}
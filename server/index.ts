@@ -1,6 +1,16 @@
 import express, { type Request, Response, NextFunction } from "express";
 import { registerRoutes } from "./routes";
 import { setupVite, serveStatic, log } from "./vite";
+import { storage } from "./storage";
+import { database, runMigrations } from "./db";
+import { seed } from "./seed";
+import { startInboundSmtpServer } from "./inbound-email";
+import { registerOutboxJob } from "./email-outbox";
+import { registerMediaPreviewJob } from "./media-previews";
+import { registerMediaScanJob } from "./media-scans";
+import { registerMediaIntegrityJob } from "./media-integrity";
+import { registerDeliveryRiskJob, queueDeliveryRiskAssessment } from "./delivery-risk";
+import { startJobs } from "./jobs";
 
 const app = express();
 app.use(express.json());
@@ -37,6 +47,12 @@ app.use((req, res, next) => {
 });
 
 (async () => {
+  if (database) {
+    await runMigrations(database.db);
+  } else {
+    await seed(storage);
+  }
+
   const server = await registerRoutes(app);
 
   app.use((err: any, _req: Request, res: Response, _next: NextFunction) => {
@@ -68,4 +84,18 @@ app.use((req, res, next) => {
   }, () => {
     log(`serving on port ${port}`);
   });
+
+  registerOutboxJob();
+  registerMediaScanJob();
+  registerMediaPreviewJob();
+  registerMediaIntegrityJob();
+  registerDeliveryRiskJob();
+  startJobs();
+  // Score orders straight away so the dashboard doesn't wait an hour for the first run
+  queueDeliveryRiskAssessment();
+
+  // Optional SMTP listener for stakeholder replies, for setups that relay mail instead of posting it
+  if (process.env.INBOUND_SMTP_PORT) {
+    startInboundSmtpServer(parseInt(process.env.INBOUND_SMTP_PORT, 10));
+  }
 })();
@@ -0,0 +1,97 @@
+import { randomBytes, createHash } from "crypto";
+import { storage } from "./storage";
+import { emailService } from "./email-service";
+import { notifyInvitation } from "./notify";
+import type { Order, Stakeholder, InvitationToken } from "@shared/schema";
+
+const INVITATION_TTL_MS = 7 * 24 * 60 * 60 * 1000;
+
+export function hashInvitationToken(token: string): string {
+  return createHash("sha256").update(token).digest("hex");
+}
+
+export function invitationUrl(token: string): string {
+  return `${process.env.APP_URL || 'http://localhost:5000'}/invite/${token}`;
+}
+
+// Pending invitations whose link has lapsed are reported as expired without needing a sweep
+export function withInvitationState(stakeholder: Stakeholder): Stakeholder {
+  if (
+    stakeholder.invitationStatus === "pending" &&
+    stakeholder.invitationExpiresAt &&
+    stakeholder.invitationExpiresAt.getTime() < Date.now()
+  ) {
+    return { ...stakeholder, invitationStatus: "expired" };
+  }
+  return stakeholder;
+}
+
+/**
+ * Issues a fresh single-use invitation link for a stakeholder, invalidating any earlier
+ * links, and emails it to them. Used for first invitations and for resends.
+ */
+export async function issueInvitation(
+  stakeholder: Stakeholder,
+  order: Order,
+  inviterName: string,
+  customMessage?: string,
+): Promise<Stakeholder> {
+  const token = randomBytes(32).toString("base64url");
+  const expiresAt = new Date(Date.now() + INVITATION_TTL_MS);
+
+  await storage.invalidateInvitationTokens(stakeholder.id);
+  await storage.createInvitationToken({
+    stakeholderId: stakeholder.id,
+    tokenHash: hashInvitationToken(token),
+    expiresAt,
+  });
+
+  const updated = await storage.updateStakeholder(stakeholder.id, {
+    invitationStatus: "pending",
+    invitedAt: new Date(),
+    invitationExpiresAt: expiresAt,
+  });
+
+  await emailService.sendStakeholderInvitation(
+    stakeholder.email,
+    stakeholder.name,
+    { id: order.id, buyerName: order.buyerName, styleNumber: order.styleNumber },
+    inviterName,
+    stakeholder.role,
+    stakeholder.permissions,
+    invitationUrl(token),
+    customMessage
+  );
+  await notifyInvitation(stakeholder, order, inviterName);
+
+  return updated ?? stakeholder;
+}
+
+export async function revokeInvitation(stakeholder: Stakeholder): Promise<Stakeholder | undefined> {
+  await storage.invalidateInvitationTokens(stakeholder.id);
+  return storage.updateStakeholder(stakeholder.id, { invitationStatus: "revoked" });
+}
+
+export type InvitationLookup =
+  | { status: "valid"; token: InvitationToken; stakeholder: Stakeholder; order: Order }
+  | { status: "invalid" | "used" | "expired" | "revoked" };
+
+export async function lookupInvitation(rawToken: string): Promise<InvitationLookup> {
+  const token = await storage.getInvitationTokenByHash(hashInvitationToken(rawToken));
+  if (!token) return { status: "invalid" };
+
+  const stakeholder = await storage.getStakeholder(token.stakeholderId);
+  const order = stakeholder && await storage.getOrder(stakeholder.orderId);
+  if (!stakeholder || !order) return { status: "invalid" };
+
+  if (stakeholder.invitationStatus === "revoked") return { status: "revoked" };
+  if (token.usedAt) return { status: "used" };
+  if (token.expiresAt.getTime() < Date.now()) {
+    if (stakeholder.invitationStatus === "pending") {
+      await storage.updateStakeholder(stakeholder.id, { invitationStatus: "expired" });
+    }
+    return { status: "expired" };
+  }
+
+  return { status: "valid", token, stakeholder, order };
+}
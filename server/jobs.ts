@@ -0,0 +1,67 @@
+import { log } from "./vite";
+
+interface Job {
+  name: string;
+  intervalMs: number;
+  run: () => Promise<void>;
+  timer?: NodeJS.Timeout;
+  running: boolean;
+  rerun: boolean;
+}
+
+const jobs = new Map<string, Job>();
+
+// Runs a job unless it is already running; a request made mid-run triggers one more run after it
+async function execute(job: Job): Promise<void> {
+  if (job.running) {
+    job.rerun = true;
+    return;
+  }
+
+  job.running = true;
+  try {
+    do {
+      job.rerun = false;
+      await job.run();
+    } while (job.rerun);
+  } catch (error) {
+    console.error(`Job ${job.name} failed:`, error);
+  } finally {
+    job.running = false;
+  }
+}
+
+/**
+ * Registers a recurring background job. Runs never overlap, so a slow run simply delays the
+ * next one. Jobs start ticking once `startJobs` is called.
+ */
+export function registerJob(name: string, intervalMs: number, run: () => Promise<void>): void {
+  if (jobs.has(name)) {
+    throw new Error(`Job ${name} is already registered`);
+  }
+  jobs.set(name, { name, intervalMs, run, running: false, rerun: false });
+}
+
+// Asks a job to run as soon as possible instead of waiting for its next tick
+export function triggerJob(name: string): void {
+  const job = jobs.get(name);
+  if (job?.timer) {
+    void execute(job);
+  }
+}
+
+export function startJobs(): void {
+  jobs.forEach(job => {
+    if (job.timer) return;
+    job.timer = setInterval(() => void execute(job), job.intervalMs);
+    job.timer.unref();
+    log(`job ${job.name} every ${Math.round(job.intervalMs / 1000)}s`, "jobs");
+  });
+}
+
+export function stopJobs(): void {
+  jobs.forEach(job => {
+    clearInterval(job.timer);
+    job.timer = undefined;
+  });
+}
@@ -0,0 +1,119 @@
+import { once } from "events";
+import type { Response } from "express";
+import { ZipArchive } from "archiver";
+import { getMediaStorage, isServable, quarantineMessage } from "./uploads";
+import { MediaObjectNotFoundError } from "./media-storage";
+import type { MediaFile, Order } from "@shared/schema";
+
+// Folder each category's files are placed in inside the archive
+const CATEGORY_FOLDERS: Record<string, string> = {
+  product_photos: "Product Photos",
+  technical_drawings: "Technical Drawings",
+  specifications: "Specifications",
+  samples: "Samples",
+  other: "Other",
+};
+
+const MANIFEST_COLUMNS = ["Path", "File Name", "Category", "Version", "Size (bytes)", "Uploaded By", "Uploaded At", "Description", "Status"];
+
+// Spreadsheet apps run text starting with = + - @ as a formula, so such text gets a leading quote
+function csvField(value: string | number | null | undefined): string {
+  const raw = value == null ? "" : String(value);
+  const text = typeof value === "string" && /^[=+\-@\t\r]/.test(raw) ? `'${raw}` : raw;
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+// Uploaded names may contain path separators or control characters; neither belongs in a ZIP entry
+function safeEntryName(name: string): string {
+  const cleaned = name.replace(/[\x00-\x1f\x7f/\\]/g, "_").replace(/^\.+/, "_").trim();
+  return cleaned || "file";
+}
+
+// Two files with the same name in one folder become "name.pdf" and "name (2).pdf"
+function uniquePath(folder: string, name: string, taken: Set<string>): string {
+  const dot = name.lastIndexOf(".");
+  const [stem, extension] = dot > 0 ? [name.slice(0, dot), name.slice(dot)] : [name, ""];
+
+  let candidate = `${folder}/${name}`;
+  for (let n = 2; taken.has(candidate.toLowerCase()); n++) {
+    candidate = `${folder}/${stem} (${n})${extension}`;
+  }
+  taken.add(candidate.toLowerCase());
+  return candidate;
+}
+
+function manifestRow(path: string, file: MediaFile, folder: string, status: string): string {
+  return [
+    path,
+    file.originalName,
+    folder,
+    file.version,
+    file.size,
+    file.uploadedBy,
+    file.uploadedAt ? new Date(file.uploadedAt).toISOString() : "",
+    file.description,
+    status,
+  ].map(csvField).join(",");
+}
+
+export function archiveFilename(order: Order, category?: string): string {
+  return `${order.id}-${category ?? "media"}.zip`.replace(/[^A-Za-z0-9._-]/g, "_");
+}
+
+/**
+ * Streams a ZIP of the given files to the response, one folder per category, with a
+ * manifest.csv listing who uploaded each file, when, and its description. Files are read from
+ * storage one at a time so a large order never holds more than one object open.
+ */
+export async function streamMediaArchive(res: Response, files: MediaFile[], filename: string): Promise<void> {
+  const archive = new ZipArchive({ zlib: { level: 6 } });
+  const manifest = [MANIFEST_COLUMNS.join(",")];
+  const taken = new Set<string>();
+  // Stops reading files once the client goes away instead of waiting on a stalled stream
+  const disconnected = new AbortController();
+
+  res.setHeader("Content-Type", "application/zip");
+  res.setHeader("Content-Disposition", `attachment; filename="${filename}"`);
+  archive.on("warning", (error) => console.warn(`ZIP warning for ${filename}:`, error.message));
+  archive.on("error", (error) => {
+    console.error(`Failed to build ${filename}:`, error);
+    res.destroy(error);
+  });
+  res.on("close", () => {
+    if (!res.writableFinished) {
+      disconnected.abort();
+      archive.abort();
+    }
+  });
+  archive.pipe(res);
+
+  for (const file of files) {
+    const folder = CATEGORY_FOLDERS[file.category] ?? CATEGORY_FOLDERS.other;
+    // Files that haven't passed the malware scan, and photos not yet stripped of their EXIF data, are
+    // listed in the manifest but left out of the ZIP
+    if (!isServable(file)) {
+      manifest.push(manifestRow("", file, folder, quarantineMessage(file)));
+      continue;
+    }
+
+    const entryPath = uniquePath(folder, safeEntryName(file.originalName), taken);
+    let status = "included";
+
+    try {
+      const content = await getMediaStorage().get(file.filename);
+      const added = once(archive, "entry", { signal: disconnected.signal });
+      archive.append(content, { name: entryPath, date: file.uploadedAt ?? undefined });
+      await added;
+    } catch (error) {
+      // A missing object shouldn't cost the recipient every other file; the manifest says what's absent
+      if (!(error instanceof MediaObjectNotFoundError)) throw error;
+      console.error(`Media ${file.id} is missing from storage; left out of ${filename}`);
+      status = "missing from storage";
+    }
+
+    manifest.push(manifestRow(status === "included" ? entryPath : "", file, folder, status));
+  }
+
+  archive.append(`${manifest.join("\r\n")}\r\n`, { name: "manifest.csv" });
+  await archive.finalize();
+}
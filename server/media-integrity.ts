@@ -0,0 +1,90 @@
+import { createHash } from "crypto";
+import { storage } from "./storage";
+import { getMediaStorage } from "./uploads";
+import { MediaObjectNotFoundError } from "./media-storage";
+import { registerJob, triggerJob } from "./jobs";
+import type { MediaBlob, MediaIntegrityStatus } from "@shared/schema";
+
+const INTEGRITY_JOB = "media-integrity";
+const BATCH_SIZE = 20;
+
+export interface MediaIntegrityReport {
+  startedAt: Date;
+  finishedAt: Date;
+  checked: number;
+  missing: number;
+  corrupt: number;
+}
+
+let lastReport: MediaIntegrityReport | undefined;
+
+export function getLastIntegrityReport(): MediaIntegrityReport | undefined {
+  return lastReport;
+}
+
+export function queueMediaIntegrityCheck(): void {
+  triggerJob(INTEGRITY_JOB);
+}
+
+async function checksumOf(key: string): Promise<string> {
+  const hash = createHash("sha256");
+  for await (const chunk of await getMediaStorage().get(key)) {
+    hash.update(chunk);
+  }
+  return hash.digest("hex");
+}
+
+async function verifyBlob(blob: MediaBlob): Promise<MediaIntegrityStatus> {
+  let status: MediaIntegrityStatus;
+  try {
+    status = (await checksumOf(blob.storageKey)) === blob.checksum ? "ok" : "corrupt";
+  } catch (error) {
+    // Anything other than a missing object means storage itself is unreachable; stop the sweep
+    if (!(error instanceof MediaObjectNotFoundError)) throw error;
+    status = "missing";
+  }
+
+  await storage.updateMediaBlob(blob.hash, { integrityStatus: status, lastVerifiedAt: new Date() });
+
+  if (status !== "ok" && blob.integrityStatus === "ok") {
+    const files = await storage.getMediaFilesByHash(blob.hash);
+    console.error(
+      `Media object ${blob.storageKey} is ${status}; affected files:`,
+      files.map(file => `${file.originalName} (${file.id}) on ${file.orderId}`).join(", ") || "none"
+    );
+  }
+  return status;
+}
+
+/**
+ * Re-reads every stored object and compares it with the checksum recorded when it was written,
+ * marking blobs whose object is missing or whose bytes no longer match. Re-uploading the same
+ * file repairs a damaged blob.
+ */
+export async function verifyMediaIntegrity(): Promise<void> {
+  const report: MediaIntegrityReport = { startedAt: new Date(), finishedAt: new Date(), checked: 0, missing: 0, corrupt: 0 };
+
+  for (;;) {
+    // Each blob is verified once per run: anything checked since the run started is skipped
+    const batch = await storage.getBlobsDueForVerification(report.startedAt, BATCH_SIZE);
+    if (batch.length === 0) break;
+
+    for (const blob of batch) {
+      const status = await verifyBlob(blob);
+      report.checked++;
+      if (status === "missing") report.missing++;
+      if (status === "corrupt") report.corrupt++;
+    }
+  }
+
+  report.finishedAt = new Date();
+  lastReport = report;
+  if (report.missing > 0 || report.corrupt > 0) {
+    console.error(`Media integrity sweep: ${report.checked} checked, ${report.missing} missing, ${report.corrupt} corrupt`);
+  }
+}
+
+export function registerMediaIntegrityJob(): void {
+  const intervalMs = parseInt(process.env.MEDIA_INTEGRITY_INTERVAL_MS || String(24 * 60 * 60 * 1000), 10);
+  registerJob(INTEGRITY_JOB, intervalMs, verifyMediaIntegrity);
+}
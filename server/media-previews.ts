@@ -0,0 +1,173 @@
+import path from "path";
+import { randomUUID } from "crypto";
+import sharp from "sharp";
+import type { Readable } from "stream";
+import { storage } from "./storage";
+import { getMediaStorage, IMAGE_MIME_TYPES, sha256, thumbnailKey } from "./uploads";
+import { registerJob, triggerJob } from "./jobs";
+import { THUMBNAIL_SIZES, type MediaFile, type MediaThumbnails, type ThumbnailSize } from "@shared/schema";
+
+const PREVIEW_JOB = "media-previews";
+const BATCH_SIZE = 5;
+// A file stuck in 'processing' this long belongs to a worker that died mid-render
+const STALE_LOCK_MS = 10 * 60 * 1000;
+
+// Longest edge of each thumbnail, in pixels
+const THUMBNAIL_EDGES: Record<ThumbnailSize, number> = {
+  small: 160,
+  medium: 480,
+  large: 1200,
+};
+
+// Formats we re-encode to apply orientation and drop EXIF; animated GIFs are left alone
+const REWRITABLE_FORMATS = ["jpeg", "png", "webp", "tiff", "avif"];
+
+// First PDF page is rendered at twice 72 dpi, enough for the large thumbnail of an A4 page
+const PDF_RENDER_SCALE = 2;
+
+export function queueMediaPreviews(): void {
+  triggerJob(PREVIEW_JOB);
+}
+
+async function readObject(key: string): Promise<Buffer> {
+  const stream: Readable = await getMediaStorage().get(key);
+  const chunks: Buffer[] = [];
+  for await (const chunk of stream) {
+    chunks.push(Buffer.from(chunk));
+  }
+  return Buffer.concat(chunks);
+}
+
+/**
+ * Rotates a photo upright and drops its EXIF block, which is where phones record GPS
+ * coordinates. Returns undefined when the image has nothing to fix, so it isn't re-encoded.
+ */
+async function sanitizeImage(content: Buffer): Promise<Buffer | undefined> {
+  const metadata = await sharp(content).metadata();
+  if (!metadata.format || !REWRITABLE_FORMATS.includes(metadata.format)) return undefined;
+  if (!metadata.exif && (metadata.orientation ?? 1) === 1) return undefined;
+
+  return sharp(content)
+    .rotate()
+    .keepIccProfile()
+    .toFormat(metadata.format as keyof sharp.FormatEnum, { quality: 90 })
+    .toBuffer();
+}
+
+/**
+ * Stores a sanitized image under a new key and points the blob and every file sharing it there, so
+ * none of them keeps the original's size. The original, EXIF and all, is then deleted.
+ */
+async function storeSanitized(file: MediaFile, originalKey: string, sanitized: Buffer): Promise<string> {
+  const key = `${randomUUID()}${path.extname(originalKey)}`;
+  await getMediaStorage().put(key, sanitized, file.mimeType);
+
+  if (file.contentHash) {
+    await storage.relocateMediaBlob(file.contentHash, { storageKey: key, size: sanitized.length, checksum: sha256(sanitized) });
+  } else {
+    await storage.updateMediaFile(file.id, { filename: key, size: sanitized.length });
+  }
+  await getMediaStorage().delete(originalKey);
+  return key;
+}
+
+async function renderPdfFirstPage(content: Buffer): Promise<Buffer> {
+  // Loaded on first use so the WebAssembly module only costs memory once a PDF arrives
+  const mupdf = await import("mupdf");
+  const document = mupdf.Document.openDocument(content, "application/pdf");
+  try {
+    const page = document.loadPage(0);
+    const pixmap = page.toPixmap(
+      mupdf.Matrix.scale(PDF_RENDER_SCALE, PDF_RENDER_SCALE),
+      mupdf.ColorSpace.DeviceRGB,
+      false,
+      true
+    );
+    return Buffer.from(pixmap.asPNG());
+  } finally {
+    document.destroy();
+  }
+}
+
+async function writeThumbnails(filename: string, source: Buffer): Promise<MediaThumbnails> {
+  const thumbnails: MediaThumbnails = {};
+
+  for (const size of THUMBNAIL_SIZES) {
+    const edge = THUMBNAIL_EDGES[size];
+    const thumbnail = await sharp(source)
+      .rotate()
+      .resize({ width: edge, height: edge, fit: "inside", withoutEnlargement: true })
+      .webp({ quality: 80 })
+      .toBuffer();
+
+    const key = thumbnailKey(filename, size);
+    await getMediaStorage().put(key, thumbnail, "image/webp");
+    thumbnails[size] = key;
+  }
+  return thumbnails;
+}
+
+async function processFile(file: MediaFile): Promise<void> {
+  const isPdf = file.mimeType === "application/pdf";
+  if (!isPdf && !IMAGE_MIME_TYPES.includes(file.mimeType)) {
+    await storage.updateMediaFile(file.id, { previewStatus: "unsupported", previewLockedAt: null });
+    return;
+  }
+
+  try {
+    // Another file sharing these bytes may have sanitized and moved them since this one was claimed
+    const blob = file.contentHash ? await storage.getMediaBlob(file.contentHash) : undefined;
+    let filename = blob?.storageKey ?? file.filename;
+    const content = await readObject(filename);
+    let size = content.length;
+    let source = content;
+
+    if (isPdf) {
+      source = await renderPdfFirstPage(content);
+    } else {
+      const sanitized = await sanitizeImage(content);
+      if (sanitized) {
+        filename = await storeSanitized(file, filename, sanitized);
+        size = sanitized.length;
+        source = sanitized;
+      }
+    }
+
+    const thumbnails = await writeThumbnails(filename, source);
+    // Photos are served once this is ready, which is why it is only set after sanitizing
+    const updated = await storage.updateMediaFile(file.id, {
+      filename,
+      size,
+      thumbnails,
+      previewStatus: "ready",
+      previewLockedAt: null,
+      previewError: null,
+    });
+
+    // The file was deleted while we were rendering it, and no other file shares its bytes
+    if (!updated && (!file.contentHash || !(await storage.getMediaBlob(file.contentHash)))) {
+      await Promise.all([filename, ...Object.values(thumbnails)].map(key => getMediaStorage().delete(key)));
+    }
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    console.error(`Preview for media ${file.id} (${file.mimeType}) failed:`, message);
+    await storage.updateMediaFile(file.id, { previewStatus: "failed", previewError: message, previewLockedAt: null });
+  }
+}
+
+// Renders previews for everything uploaded since the last run, a batch at a time
+export async function processMediaPreviews(): Promise<void> {
+  for (;;) {
+    const batch = await storage.claimPendingPreviews(BATCH_SIZE, new Date(Date.now() - STALE_LOCK_MS));
+    if (batch.length === 0) return;
+
+    for (const file of batch) {
+      await processFile(file);
+    }
+  }
+}
+
+export function registerMediaPreviewJob(): void {
+  const intervalMs = parseInt(process.env.MEDIA_PREVIEW_INTERVAL_MS || "30000", 10);
+  registerJob(PREVIEW_JOB, intervalMs, processMediaPreviews);
+}
@@ -0,0 +1,205 @@
+import { afterAll, beforeAll, beforeEach, describe, expect, it } from "vitest";
+import net from "net";
+import os from "os";
+import path from "path";
+import type { AddressInfo } from "net";
+import { Readable } from "stream";
+import { ClamdScanner, ScanRejectedError } from "./media-scanner";
+
+const EICAR = "X5O!P%@AP[4\\PZX54(P^)7CC)7}$EICAR-STANDARD-ANTIVIRUS-TEST-FILE!$H+H*";
+
+// How the fake daemon answers the next scan
+type Behaviour = "verdict" | "size-limit-early" | "silent" | "hang-up" | "garbage";
+
+interface ReceivedScan {
+  command: string;
+  chunkSizes: number[];
+  content: Buffer;
+}
+
+/**
+ * A clamd stand-in speaking INSTREAM: reads "zINSTREAM\0", then length-prefixed chunks up to a
+ * zero-length one, and answers "stream: OK" or, for content containing the EICAR test string,
+ * "stream: Eicar-Signature FOUND".
+ */
+function createFakeClamd() {
+  const received: ReceivedScan[] = [];
+  const sockets = new Set<net.Socket>();
+  let behaviour: Behaviour = "verdict";
+
+  // Like clamd, keeps the connection open for its answer after the client finishes sending
+  const server = net.createServer({ allowHalfOpen: true }, socket => {
+    let buffer = Buffer.alloc(0);
+    let command: string | undefined;
+    const chunks: Buffer[] = [];
+    sockets.add(socket);
+    socket.on("close", () => sockets.delete(socket));
+
+    if (behaviour === "hang-up") {
+      socket.destroy();
+      return;
+    }
+
+    socket.on("data", data => {
+      buffer = Buffer.concat([buffer, data]);
+      if (command === undefined) {
+        const end = buffer.indexOf(0);
+        if (end === -1) return;
+        command = buffer.subarray(0, end).toString();
+        buffer = buffer.subarray(end + 1);
+      }
+
+      if (behaviour === "size-limit-early" && chunks.length === 0 && buffer.length >= 4) {
+        socket.end("INSTREAM size limit exceeded. ERROR\0");
+        return;
+      }
+
+      while (buffer.length >= 4) {
+        const length = buffer.readUInt32BE(0);
+        if (length === 0) {
+          const content = Buffer.concat(chunks);
+          received.push({ command, chunkSizes: chunks.map(chunk => chunk.length), content });
+          if (behaviour === "silent") return;
+          if (behaviour === "garbage") {
+            socket.end("PONG\0");
+            return;
+          }
+          socket.end(content.includes(EICAR) ? "stream: Eicar-Signature FOUND\0" : "stream: OK\0");
+          return;
+        }
+        if (buffer.length < 4 + length) return;
+        chunks.push(buffer.subarray(4, 4 + length));
+        buffer = buffer.subarray(4 + length);
+      }
+    });
+    socket.on("error", () => {});
+  });
+
+  return {
+    server,
+    received,
+    answerWith(next: Behaviour) {
+      behaviour = next;
+    },
+    // A silent connection stays half-open after the client gives up, so close() alone would wait on it
+    stop() {
+      sockets.forEach(socket => socket.destroy());
+      return new Promise<void>(resolve => server.close(() => resolve()));
+    },
+  };
+}
+
+const listen = (server: net.Server, ...args: unknown[]) =>
+  new Promise<void>(resolve => (server.listen as (...a: unknown[]) => void)(...args, () => resolve()));
+
+const close = (server: net.Server) => new Promise<void>(resolve => server.close(() => resolve()));
+
+describe("ClamdScanner", () => {
+  const fake = createFakeClamd();
+  let scanner: ClamdScanner;
+
+  beforeAll(async () => {
+    await listen(fake.server, 0, "127.0.0.1");
+    const { port } = fake.server.address() as AddressInfo;
+    scanner = new ClamdScanner({ host: "127.0.0.1", port, timeoutMs: 500 });
+  });
+
+  afterAll(() => fake.stop());
+
+  beforeEach(() => {
+    fake.received.length = 0;
+    fake.answerWith("verdict");
+  });
+
+  it("passes a clean file", async () => {
+    await expect(scanner.scan(Readable.from([Buffer.from("just a tech pack")]))).resolves.toEqual({ clean: true });
+
+    expect(fake.received[0].command).toBe("zINSTREAM");
+    expect(fake.received[0].content.toString()).toBe("just a tech pack");
+  });
+
+  it("reports the signature of an infected file", async () => {
+    await expect(scanner.scan(Readable.from([Buffer.from(EICAR)]))).resolves.toEqual({
+      clean: false,
+      signature: "Eicar-Signature",
+    });
+  });
+
+  it("sends large files in chunks clamd accepts and reassembles them byte for byte", async () => {
+    const content = Buffer.alloc(150 * 1024, "a");
+
+    await expect(scanner.scan(Readable.from([content]))).resolves.toEqual({ clean: true });
+
+    expect(fake.received[0].chunkSizes.every(size => size <= 64 * 1024)).toBe(true);
+    expect(fake.received[0].content.equals(content)).toBe(true);
+  });
+
+  it("treats clamd refusing the file as ScanRejectedError, even when it answers before the upload ends", async () => {
+    fake.answerWith("size-limit-early");
+
+    const result = scanner.scan(Readable.from([Buffer.alloc(200 * 1024, "b")]));
+
+    await expect(result).rejects.toBeInstanceOf(ScanRejectedError);
+    await expect(result).rejects.toThrow("INSTREAM size limit exceeded.");
+  });
+
+  it("times out when clamd never answers", async () => {
+    fake.answerWith("silent");
+
+    const result = scanner.scan(Readable.from([Buffer.from("waiting")]));
+
+    await expect(result).rejects.toThrow("clamd did not answer within 500 ms");
+    await expect(result).rejects.not.toBeInstanceOf(ScanRejectedError);
+  });
+
+  it("fails when clamd hangs up without an answer", async () => {
+    fake.answerWith("hang-up");
+
+    const result = scanner.scan(Readable.from([Buffer.from("anyone there?")]));
+
+    await expect(result).rejects.toThrow();
+    await expect(result).rejects.not.toBeInstanceOf(ScanRejectedError);
+  });
+
+  it("fails on an answer it doesn't understand", async () => {
+    fake.answerWith("garbage");
+
+    await expect(scanner.scan(Readable.from([Buffer.from("hello")]))).rejects.toThrow("Unexpected clamd response: PONG");
+  });
+
+  it("fails when the upload stream errors", async () => {
+    const broken = new Readable({
+      read() {
+        this.destroy(new Error("disk read failed"));
+      },
+    });
+
+    await expect(scanner.scan(broken)).rejects.toThrow("disk read failed");
+  });
+
+  it("fails when clamd is not running", async () => {
+    const unused = net.createServer();
+    await listen(unused, 0, "127.0.0.1");
+    const { port } = unused.address() as AddressInfo;
+    await close(unused);
+
+    const offline = new ClamdScanner({ host: "127.0.0.1", port, timeoutMs: 500 });
+
+    await expect(offline.scan(Readable.from([Buffer.from("hello")]))).rejects.toThrow(/ECONNREFUSED/);
+  });
+});
+
+describe("ClamdScanner over a Unix socket", () => {
+  const fake = createFakeClamd();
+  const socketPath = path.join(os.tmpdir(), `garmentsync-clamd-${process.pid}.sock`);
+
+  beforeAll(() => listen(fake.server, socketPath));
+  afterAll(() => fake.stop());
+
+  it("connects to the socket path instead of host and port", async () => {
+    const scanner = new ClamdScanner({ socketPath, host: "192.0.2.1", port: 1, timeoutMs: 500 });
+
+    await expect(scanner.scan(Readable.from([Buffer.from(EICAR)]))).resolves.toMatchObject({ clean: false });
+    expect(fake.received).toHaveLength(1);
+  });
+});
@@ -0,0 +1,124 @@
+import { storage } from "./storage";
+import { getMediaStorage } from "./uploads";
+import { registerJob, triggerJob } from "./jobs";
+import { queueMediaPreviews } from "./media-previews";
+import { createMediaScanner, ScanRejectedError, type MediaScanner, type ScanResult } from "./media-scanner";
+import { notifyDocumentRevision, notifyFileRejected } from "./notify";
+import type { MediaFile } from "@shared/schema";
+
+const SCAN_JOB = "media-scans";
+const BATCH_SIZE = 5;
+// A file stuck in 'scanning' this long belongs to a worker that died mid-scan
+const STALE_LOCK_MS = 10 * 60 * 1000;
+
+let scanner: MediaScanner | undefined;
+
+function getScanner(): MediaScanner {
+  if (!scanner) {
+    scanner = createMediaScanner();
+  }
+  return scanner;
+}
+
+export function queueMediaScans(): void {
+  triggerJob(SCAN_JOB);
+}
+
+// Identical bytes get the same verdict, so a file already scanned by this scanner isn't sent again
+async function earlierVerdict(file: MediaFile, scannerName: string): Promise<ScanResult | undefined> {
+  if (!file.contentHash) return undefined;
+
+  const scanned = (await storage.getMediaFilesByHash(file.contentHash)).find(other =>
+    other.id !== file.id &&
+    other.scannedBy === scannerName &&
+    (other.scanStatus === "clean" || other.scanStatus === "infected")
+  );
+  if (!scanned) return undefined;
+  return scanned.scanStatus === "clean"
+    ? { clean: true }
+    : { clean: false, signature: scanned.scanVerdict ?? undefined };
+}
+
+// A new version of a document only replaces the current one, and is announced, once it scans clean
+async function announceRevision(file: MediaFile): Promise<void> {
+  if (!await storage.promoteMediaFileVersion(file.id)) return;
+
+  const [order, uploader] = await Promise.all([
+    storage.getOrder(file.orderId),
+    storage.getUserByEmail(file.uploadedBy),
+  ]);
+  if (order && uploader) {
+    await notifyDocumentRevision(order, file, uploader);
+  }
+}
+
+async function scanFile(file: MediaFile): Promise<void> {
+  const active = getScanner();
+
+  try {
+    const result = (await earlierVerdict(file, active.name))
+      ?? (await active.scan(await getMediaStorage().get(file.filename)));
+    const scanned = { scanLockedAt: null, scannedBy: active.name, scannedAt: new Date() };
+
+    if (result.clean) {
+      const passed = await storage.updateMediaFile(file.id, { ...scanned, scanStatus: "clean", scanVerdict: null });
+      queueMediaPreviews();
+      if (passed?.documentId) {
+        await announceRevision(passed);
+      }
+      return;
+    }
+
+    // The bytes stay in storage, unreachable, until someone deletes the file
+    const rejected = await storage.updateMediaFile(file.id, {
+      ...scanned,
+      scanStatus: "infected",
+      scanVerdict: result.signature ?? "unknown malware",
+    });
+    const order = await storage.getOrder(file.orderId);
+    if (rejected && order) {
+      await notifyFileRejected(order, rejected);
+    }
+  } catch (error) {
+    if (error instanceof ScanRejectedError) {
+      console.error(`Scanner refused media ${file.id}:`, error.message);
+      await storage.updateMediaFile(file.id, {
+        scanStatus: "failed",
+        scanVerdict: error.message,
+        scanLockedAt: null,
+        scannedBy: active.name,
+        scannedAt: new Date(),
+      });
+      return;
+    }
+    throw error;
+  }
+}
+
+/**
+ * Scans everything uploaded since the last run, a batch at a time. Uploads stay quarantined
+ * until the scanner passes them; only then are they served or previewed.
+ */
+export async function processMediaScans(): Promise<void> {
+  for (;;) {
+    const batch = await storage.claimPendingScans(BATCH_SIZE, new Date(Date.now() - STALE_LOCK_MS));
+    if (batch.length === 0) return;
+
+    for (let index = 0; index < batch.length; index++) {
+      try {
+        await scanFile(batch[index]);
+      } catch (error) {
+        // The scanner or storage is unavailable: the rest of the batch waits, quarantined, for the next run
+        await Promise.all(batch.slice(index).map(pending =>
+          storage.updateMediaFile(pending.id, { scanStatus: "pending", scanLockedAt: null })
+        ));
+        throw error;
+      }
+    }
+  }
+}
+
+export function registerMediaScanJob(): void {
+  const intervalMs = parseInt(process.env.MEDIA_SCAN_INTERVAL_MS || "30000", 10);
+  registerJob(SCAN_JOB, intervalMs, processMediaScans);
+}
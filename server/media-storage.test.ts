@@ -0,0 +1,165 @@
+import { afterAll, afterEach, beforeAll, beforeEach, describe, expect, it } from "vitest";
+import http from "http";
+import type { AddressInfo } from "net";
+import type { Readable } from "stream";
+import { createMediaStorage, LocalDiskDriver, MediaObjectNotFoundError, S3Driver } from "./media-storage";
+
+interface RecordedRequest {
+  method: string;
+  path: string;
+  headers: http.IncomingHttpHeaders;
+}
+
+/**
+ * Just enough of the S3 REST API for the driver, with path-style addressing: PUT, GET (with
+ * Range) and DELETE of /<bucket>/<key>. Keys under "forbidden/" answer AccessDenied.
+ */
+function startFakeS3(): Promise<{ server: http.Server; endpoint: string; objects: Map<string, { body: Buffer; contentType?: string }>; requests: RecordedRequest[] }> {
+  const objects = new Map<string, { body: Buffer; contentType?: string }>();
+  const requests: RecordedRequest[] = [];
+
+  const xmlError = (res: http.ServerResponse, status: number, code: string) => {
+    res.writeHead(status, { "Content-Type": "application/xml" });
+    res.end(`<?xml version="1.0" encoding="UTF-8"?><Error><Code>${code}</Code><Message>${code}</Message></Error>`);
+  };
+
+  const server = http.createServer((req, res) => {
+    const chunks: Buffer[] = [];
+    req.on("data", chunk => chunks.push(chunk));
+    req.on("end", () => {
+      const path = decodeURIComponent(new URL(req.url!, "http://s3.test").pathname);
+      requests.push({ method: req.method!, path, headers: req.headers });
+
+      if (path.includes("/forbidden/")) return xmlError(res, 403, "AccessDenied");
+
+      switch (req.method) {
+        case "PUT":
+          objects.set(path, { body: Buffer.concat(chunks), contentType: req.headers["content-type"] });
+          res.writeHead(200, { ETag: '"etag"' });
+          return res.end();
+        case "DELETE":
+          objects.delete(path);
+          res.writeHead(204);
+          return res.end();
+        case "GET": {
+          const object = objects.get(path);
+          if (!object) return xmlError(res, 404, "NoSuchKey");
+
+          const range = /^bytes=(\d+)-(\d+)$/.exec(String(req.headers.range ?? ""));
+          if (range) {
+            const [start, end] = [Number(range[1]), Number(range[2])];
+            res.writeHead(206, {
+              "Content-Range": `bytes ${start}-${end}/${object.body.length}`,
+              "Content-Type": object.contentType ?? "application/octet-stream",
+            });
+            return res.end(object.body.subarray(start, end + 1));
+          }
+          res.writeHead(200, { "Content-Type": object.contentType ?? "application/octet-stream" });
+          return res.end(object.body);
+        }
+        default:
+          return xmlError(res, 405, "MethodNotAllowed");
+      }
+    });
+  });
+
+  return new Promise(resolve => {
+    server.listen(0, "127.0.0.1", () => {
+      const { port } = server.address() as AddressInfo;
+      resolve({ server, endpoint: `http://127.0.0.1:${port}`, objects, requests });
+    });
+  });
+}
+
+async function readAll(stream: Readable): Promise<string> {
+  const chunks: Buffer[] = [];
+  for await (const chunk of stream) {
+    chunks.push(Buffer.from(chunk));
+  }
+  return Buffer.concat(chunks).toString();
+}
+
+describe("S3Driver", () => {
+  let fake: Awaited<ReturnType<typeof startFakeS3>>;
+  let driver: S3Driver;
+
+  beforeAll(async () => {
+    fake = await startFakeS3();
+    driver = new S3Driver({
+      bucket: "garments",
+      region: "us-east-1",
+      endpoint: fake.endpoint,
+      forcePathStyle: true,
+      accessKeyId: "test-key",
+      secretAccessKey: "test-secret",
+    });
+  });
+
+  afterAll(() => new Promise<void>(resolve => fake.server.close(() => resolve())));
+
+  beforeEach(() => {
+    fake.objects.clear();
+    fake.requests.length = 0;
+  });
+
+  it("stores an object under the bucket with its content type, signing the request", async () => {
+    await driver.put("abc.jpg", Buffer.from("jpeg bytes"), "image/jpeg");
+
+    expect(fake.objects.get("/garments/abc.jpg")).toEqual({ body: Buffer.from("jpeg bytes"), contentType: "image/jpeg" });
+    expect(fake.requests[0].headers.authorization).toMatch(/^AWS4-HMAC-SHA256 Credential=test-key\//);
+  });
+
+  it("reads an object back whole or by byte range", async () => {
+    await driver.put("spec.pdf", Buffer.from("hello world"), "application/pdf");
+
+    expect(await readAll(await driver.get("spec.pdf"))).toBe("hello world");
+    expect(await readAll(await driver.get("spec.pdf", { start: 6, end: 10 }))).toBe("world");
+    expect(fake.requests.at(-1)?.headers.range).toBe("bytes=6-10");
+  });
+
+  it("reports a missing object as MediaObjectNotFoundError", async () => {
+    await expect(driver.get("missing.pdf")).rejects.toBeInstanceOf(MediaObjectNotFoundError);
+  });
+
+  it("passes other S3 errors through unchanged", async () => {
+    const error = await driver.get("forbidden/secret.pdf").catch(caught => caught);
+
+    expect(error).not.toBeInstanceOf(MediaObjectNotFoundError);
+    expect(error.name).toBe("AccessDenied");
+  });
+
+  it("deletes an object", async () => {
+    await driver.put("old.png", Buffer.from("png"), "image/png");
+    await driver.delete("old.png");
+
+    expect(fake.objects.has("/garments/old.png")).toBe(false);
+    await expect(driver.get("old.png")).rejects.toBeInstanceOf(MediaObjectNotFoundError);
+  });
+});
+
+describe("createMediaStorage", () => {
+  const saved = { ...process.env };
+
+  afterEach(() => {
+    process.env = { ...saved };
+  });
+
+  it("uses the local disk unless told otherwise", () => {
+    delete process.env.MEDIA_STORAGE_DRIVER;
+    expect(createMediaStorage("/tmp/uploads")).toBeInstanceOf(LocalDiskDriver);
+  });
+
+  it("needs a bucket for the S3 driver", () => {
+    process.env.MEDIA_STORAGE_DRIVER = "s3";
+    delete process.env.S3_BUCKET;
+    expect(() => createMediaStorage("/tmp/uploads")).toThrow("S3_BUCKET must be set");
+
+    process.env.S3_BUCKET = "garments";
+    expect(createMediaStorage("/tmp/uploads").name).toBe("s3");
+  });
+
+  it("rejects an unknown driver", () => {
+    process.env.MEDIA_STORAGE_DRIVER = "ftp";
+    expect(() => createMediaStorage("/tmp/uploads")).toThrow('Unknown MEDIA_STORAGE_DRIVER "ftp"');
+  });
+});
@@ -0,0 +1,151 @@
+import fs from "fs/promises";
+import { createReadStream } from "fs";
+import path from "path";
+import type { Readable } from "stream";
+import {
+  S3Client,
+  PutObjectCommand,
+  GetObjectCommand,
+  DeleteObjectCommand,
+  NoSuchKey,
+} from "@aws-sdk/client-s3";
+
+// Inclusive byte offsets, as in an HTTP Range header
+export interface ByteRange {
+  start: number;
+  end: number;
+}
+
+export class MediaObjectNotFoundError extends Error {
+  constructor(key: string) {
+    super(`Media object ${key} not found`);
+  }
+}
+
+// A media file was created for a blob that has since been released along with its stored object
+export class MediaBlobReleasedError extends Error {
+  constructor(hash: string) {
+    super(`Media blob ${hash} has been released`);
+  }
+}
+
+// Where uploaded files live. Keys are generated by the server, never taken from user input.
+export interface MediaStorageDriver {
+  readonly name: string;
+  put(key: string, content: Buffer, mimeType: string): Promise<void>;
+  // Throws MediaObjectNotFoundError when the object is missing
+  get(key: string, range?: ByteRange): Promise<Readable>;
+  delete(key: string): Promise<void>;
+}
+
+export class LocalDiskDriver implements MediaStorageDriver {
+  readonly name = "local";
+
+  constructor(private directory: string) {}
+
+  // basename() keeps a key from ever resolving outside the upload directory
+  private pathFor(key: string): string {
+    return path.join(this.directory, path.basename(key));
+  }
+
+  async put(key: string, content: Buffer): Promise<void> {
+    await fs.mkdir(this.directory, { recursive: true });
+    await fs.writeFile(this.pathFor(key), content);
+  }
+
+  async get(key: string, range?: ByteRange): Promise<Readable> {
+    const file = this.pathFor(key);
+    try {
+      await fs.access(file);
+    } catch {
+      throw new MediaObjectNotFoundError(key);
+    }
+    return createReadStream(file, range);
+  }
+
+  async delete(key: string): Promise<void> {
+    await fs.rm(this.pathFor(key), { force: true });
+  }
+}
+
+export interface S3DriverConfig {
+  bucket: string;
+  region: string;
+  // Set for S3-compatible services such as MinIO; leave unset for AWS
+  endpoint?: string;
+  forcePathStyle: boolean;
+  accessKeyId?: string;
+  secretAccessKey?: string;
+}
+
+export class S3Driver implements MediaStorageDriver {
+  readonly name = "s3";
+  private client: S3Client;
+
+  constructor(private config: S3DriverConfig) {
+    this.client = new S3Client({
+      region: config.region,
+      endpoint: config.endpoint,
+      forcePathStyle: config.forcePathStyle,
+      credentials: config.accessKeyId && config.secretAccessKey
+        ? { accessKeyId: config.accessKeyId, secretAccessKey: config.secretAccessKey }
+        : undefined,
+    });
+  }
+
+  async put(key: string, content: Buffer, mimeType: string): Promise<void> {
+    await this.client.send(new PutObjectCommand({
+      Bucket: this.config.bucket,
+      Key: key,
+      Body: content,
+      ContentType: mimeType,
+    }));
+  }
+
+  async get(key: string, range?: ByteRange): Promise<Readable> {
+    try {
+      const object = await this.client.send(new GetObjectCommand({
+        Bucket: this.config.bucket,
+        Key: key,
+        Range: range ? `bytes=${range.start}-${range.end}` : undefined,
+      }));
+      return object.Body as Readable;
+    } catch (error) {
+      if (error instanceof NoSuchKey) {
+        throw new MediaObjectNotFoundError(key);
+      }
+      throw error;
+    }
+  }
+
+  async delete(key: string): Promise<void> {
+    await this.client.send(new DeleteObjectCommand({ Bucket: this.config.bucket, Key: key }));
+  }
+}
+
+/**
+ * Picks the driver from MEDIA_STORAGE_DRIVER ('local' | 's3'). The local driver writes to
+ * `uploadDir`; the S3 driver needs S3_BUCKET and can point at any S3-compatible endpoint.
+ */
+export function createMediaStorage(uploadDir: string): MediaStorageDriver {
+  const configured = process.env.MEDIA_STORAGE_DRIVER || "local";
+
+  switch (configured) {
+    case "local":
+      return new LocalDiskDriver(uploadDir);
+    case "s3":
+      if (!process.env.S3_BUCKET) {
+        throw new Error("S3_BUCKET must be set to use the S3 media storage driver");
+      }
+      return new S3Driver({
+        bucket: process.env.S3_BUCKET,
+        region: process.env.S3_REGION || "us-east-1",
+        endpoint: process.env.S3_ENDPOINT || undefined,
+        forcePathStyle: process.env.S3_FORCE_PATH_STYLE === "true",
+        accessKeyId: process.env.S3_ACCESS_KEY_ID,
+        secretAccessKey: process.env.S3_SECRET_ACCESS_KEY,
+      });
+    default:
+      throw new Error(`Unknown MEDIA_STORAGE_DRIVER "${configured}"`);
+  }
+}
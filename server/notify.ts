@@ -0,0 +1,328 @@
+import { storage } from "./storage";
+import { emailService } from "./email-service";
+import { ORDER_STATUS_LABELS, isOrderStatus } from "@shared/order-status";
+import { findMentions } from "@shared/mentions";
+import { isBuyerSide } from "./permissions";
+import { describeChanges, summarizeChanges } from "./amendments";
+import type { Order, Stakeholder, Update, Comment, User, MediaFile, NotificationEvent, InsertNotification, OrderAmendment } from "@shared/schema";
+
+function statusLabel(status: string): string {
+  return isOrderStatus(status) ? ORDER_STATUS_LABELS[status] : status;
+}
+
+// Revoked stakeholders and anyone who opted out of this event are left off the mailing, as are
+// those who only want comment emails that mention them (mentions are sent separately)
+export function wantsNotification(stakeholder: Stakeholder, event: NotificationEvent): boolean {
+  if (stakeholder.invitationStatus === 'revoked' || stakeholder.notificationPreferences[event] === false) {
+    return false;
+  }
+  return event !== 'comment' || stakeholder.notificationPreferences.mentions_only !== true;
+}
+
+// Inbox entries are read by whoever signs up with the address, which only accepting the invitation
+// proves, so order activity reaches the inbox of accepted stakeholders only
+function hasInbox(stakeholder: Stakeholder): boolean {
+  return stakeholder.invitationStatus === 'accepted';
+}
+
+// Whoever acted already knows what they did, so they are never emailed about it
+async function recipientsFor(orderId: string, event: NotificationEvent, actorEmail: string): Promise<string[]> {
+  const stakeholders = await storage.getStakeholdersByOrder(orderId);
+  const actor = actorEmail.toLowerCase();
+  return stakeholders.filter(s => wantsNotification(s, event) && s.email.toLowerCase() !== actor).map(s => s.email);
+}
+
+// Writes an inbox entry for every active stakeholder on the order other than the person who acted
+// and anyone already told about the same thing another way
+async function recordForStakeholders(
+  order: Order,
+  actorEmail: string | undefined,
+  notification: Omit<InsertNotification, "recipientEmail" | "orderId">,
+  alreadyNotified: string[] = []
+): Promise<void> {
+  const stakeholders = await storage.getStakeholdersByOrder(order.id);
+  const skipped = new Set([actorEmail, ...alreadyNotified].filter(Boolean).map(email => email!.toLowerCase()));
+  const recipients = Array.from(new Set(
+    stakeholders
+      .filter(s => hasInbox(s) && !skipped.has(s.email.toLowerCase()))
+      .map(s => s.email.toLowerCase())
+  ));
+
+  await storage.createNotifications(recipients.map(recipientEmail => ({
+    ...notification,
+    recipientEmail,
+    orderId: order.id,
+  })));
+}
+
+/**
+ * Tells the order's stakeholders about a new update or comment. Anyone @mentioned in it gets a
+ * high-priority inbox entry and a mention email instead of the general ones; a mention reaches
+ * them even if they have switched off emails for that kind of activity.
+ */
+export async function notifyNewActivity(order: Order, type: 'update' | 'comment', entry: Update | Comment, actorEmail: string): Promise<void> {
+  const stakeholders = await storage.getStakeholdersByOrder(order.id);
+  const actor = actorEmail.toLowerCase();
+  const mentioned = findMentions(entry.message, stakeholders.filter(s => s.invitationStatus !== 'revoked'))
+    .filter(s => s.email.toLowerCase() !== actor);
+  const mentionedEmails = mentioned.map(s => s.email.toLowerCase());
+
+  if (mentioned.length > 0) {
+    await storage.createNotifications(mentioned.filter(hasInbox).map(s => s.email.toLowerCase()).map(recipientEmail => ({
+      recipientEmail,
+      type: 'mention',
+      priority: 'high',
+      title: `${entry.authorName} mentioned you on order ${order.id}`,
+      message: entry.message,
+      orderId: order.id,
+      entityId: entry.id,
+      actorName: entry.authorName,
+    })));
+  }
+  await recordForStakeholders(order, actorEmail, {
+    type,
+    title: `New ${type} on order ${order.id} from ${entry.authorName}`,
+    message: entry.message,
+    entityId: entry.id,
+    actorName: entry.authorName,
+  }, mentionedEmails);
+
+  const recipients = stakeholders
+    .filter(s => wantsNotification(s, type) && s.email.toLowerCase() !== actor && !mentionedEmails.includes(s.email.toLowerCase()))
+    .map(s => s.email);
+  if (recipients.length === 0 && mentioned.length === 0) return;
+
+  const attachments = await Promise.all(entry.attachmentIds.map(id => storage.getMediaFile(id)));
+  const orderInfo = { id: order.id, buyerName: order.buyerName, styleNumber: order.styleNumber };
+  const notification = {
+    type,
+    message: entry.message,
+    authorName: entry.authorName,
+    authorRole: entry.authorRole,
+    attachments: attachments
+      .filter((file): file is MediaFile => !!file)
+      .map(file => ({ id: file.id, name: file.originalName, hasThumbnail: !!file.thumbnails?.large })),
+  };
+
+  if (mentioned.length > 0) {
+    await emailService.sendMentionNotification(mentioned.map(s => s.email), orderInfo, notification);
+  }
+  if (recipients.length > 0) {
+    await emailService.notifyStakeholders(recipients, orderInfo, notification);
+  }
+}
+
+// Comments in a photo annotation's thread go out like any other comment, naming the photo
+export async function notifyAnnotationComment(order: Order, file: MediaFile, comment: Comment, actorEmail: string): Promise<void> {
+  await notifyNewActivity(order, 'comment', { ...comment, message: `On ${file.originalName}: ${comment.message}` }, actorEmail);
+}
+
+/**
+ * Brings stakeholders' inbox entries about a comment in line with an edit or deletion. Emails
+ * already went out with the original text and are not sent again.
+ */
+export async function refreshCommentNotifications(comment: Comment): Promise<void> {
+  let message = comment.deletedAt ? 'This comment was deleted' : comment.message;
+  if (!comment.deletedAt && comment.annotationId) {
+    const annotation = await storage.getAnnotation(comment.annotationId);
+    const file = annotation && await storage.getMediaFile(annotation.mediaFileId);
+    if (file) message = `On ${file.originalName}: ${comment.message}`;
+  }
+  await storage.updateNotificationMessages(comment.id, message);
+}
+
+/**
+ * Records a status change on the order timeline as a system update and emails the
+ * stakeholders who follow status changes.
+ */
+export async function notifyStatusChange(
+  order: Order,
+  fromStatus: string,
+  changedBy: User,
+  reason?: string
+): Promise<Update> {
+  const from = statusLabel(fromStatus);
+  const to = statusLabel(order.status);
+
+  const update = await storage.createUpdate({
+    orderId: order.id,
+    message: `Status changed from ${from} to ${to}${reason ? `: ${reason}` : ''}`,
+    authorId: changedBy.id,
+    authorName: changedBy.name,
+    authorRole: 'system',
+  });
+
+  await recordForStakeholders(order, changedBy.email, {
+    type: 'status_change',
+    title: `Order ${order.id} is now ${to}`,
+    message: update.message,
+    entityId: update.id,
+    actorName: changedBy.name,
+  });
+
+  const recipients = await recipientsFor(order.id, 'status_change', changedBy.email);
+  if (recipients.length > 0) {
+    await emailService.sendStatusChangeNotification(
+      recipients,
+      {
+        id: order.id,
+        buyerName: order.buyerName,
+        styleNumber: order.styleNumber,
+        estimatedDelivery: order.estimatedDelivery,
+      },
+      { fromStatus: from, toStatus: to, changedByName: changedBy.name, reason }
+    );
+  }
+
+  return update;
+}
+
+// The buyer side is asked to approve new commercial terms in their inbox
+export async function notifyAmendmentProposed(order: Order, amendment: OrderAmendment, proposerEmail: string): Promise<void> {
+  const stakeholders = await storage.getStakeholdersByOrder(order.id);
+  const proposer = proposerEmail.toLowerCase();
+  const approvers = Array.from(new Set(
+    stakeholders
+      .filter(s => hasInbox(s) && isBuyerSide(s) && s.email.toLowerCase() !== proposer)
+      .map(s => s.email.toLowerCase())
+  ));
+
+  await storage.createNotifications(approvers.map(recipientEmail => ({
+    recipientEmail,
+    type: 'amendment',
+    priority: 'high',
+    title: `${amendment.proposedByName} proposed changes to order ${order.id}`,
+    message: `Waiting for your approval: ${summarizeChanges(amendment.changes)}`,
+    orderId: order.id,
+    entityId: amendment.id,
+    actorName: amendment.proposedByName,
+  })));
+}
+
+/**
+ * Posts an applied amendment to the order timeline as a system update and tells the
+ * stakeholders, by email for those who follow amendments.
+ */
+export async function notifyAmendmentApplied(order: Order, amendment: OrderAmendment, appliedBy: User): Promise<Update> {
+  const update = await storage.createUpdate({
+    orderId: order.id,
+    message: `Order amended to revision ${amendment.revision}: ${summarizeChanges(amendment.changes)}${amendment.reason ? ` (${amendment.reason})` : ''}`,
+    authorId: appliedBy.id,
+    authorName: appliedBy.name,
+    authorRole: 'system',
+  });
+
+  await recordForStakeholders(order, appliedBy.email, {
+    type: 'amendment',
+    title: `Order ${order.id} amended to revision ${amendment.revision}`,
+    message: update.message,
+    entityId: amendment.id,
+    actorName: appliedBy.name,
+  });
+
+  const recipients = await recipientsFor(order.id, 'amendment', appliedBy.email);
+  if (recipients.length > 0) {
+    await emailService.sendAmendmentNotification(
+      recipients,
+      { id: order.id, buyerName: order.buyerName, styleNumber: order.styleNumber },
+      {
+        revision: amendment.revision ?? order.revision,
+        changes: describeChanges(amendment.changes),
+        proposedByName: amendment.proposedByName,
+        approvedByName: amendment.requiresApproval ? amendment.decidedByName ?? undefined : undefined,
+        reason: amendment.reason ?? undefined,
+      }
+    );
+  }
+
+  return update;
+}
+
+// Only the proposer hears that their amendment was turned down
+export async function notifyAmendmentRejected(order: Order, amendment: OrderAmendment): Promise<void> {
+  const proposer = amendment.proposedById ? await storage.getUser(amendment.proposedById) : undefined;
+  if (!proposer) return;
+
+  await storage.createNotifications([{
+    recipientEmail: proposer.email,
+    type: 'amendment',
+    title: `${amendment.decidedByName} rejected your changes to order ${order.id}`,
+    message: `${summarizeChanges(amendment.changes)}${amendment.decisionNote ? `\n\n${amendment.decisionNote}` : ''}`,
+    orderId: order.id,
+    entityId: amendment.id,
+    actorName: amendment.decidedByName ?? undefined,
+  }]);
+}
+
+export async function notifyInvitation(stakeholder: Stakeholder, order: Order, inviterName: string): Promise<void> {
+  await storage.createNotifications([{
+    recipientEmail: stakeholder.email,
+    type: 'invitation',
+    title: `${inviterName} invited you to order ${order.id}`,
+    message: `You have been added to order ${order.id} (${order.buyerName}, style ${order.styleNumber}) as ${stakeholder.role.replace('_', ' ')} with ${stakeholder.permissions} access.`,
+    orderId: order.id,
+    entityId: stakeholder.id,
+    actorName: inviterName,
+  }]);
+}
+
+/**
+ * Announces a new version of an order document on the timeline, in stakeholders' inboxes and by
+ * email, so nobody keeps working from the version it replaces.
+ */
+export async function notifyDocumentRevision(order: Order, file: MediaFile, uploadedBy: User): Promise<Update> {
+  const headline = `${file.originalName} v${file.version} supersedes v${file.version - 1}`;
+
+  const update = await storage.createUpdate({
+    orderId: order.id,
+    message: `${headline}${file.changeNote ? `: ${file.changeNote}` : ''}`,
+    authorId: uploadedBy.id,
+    authorName: uploadedBy.name,
+    authorRole: 'system',
+  });
+
+  await recordForStakeholders(order, uploadedBy.email, {
+    type: 'document_revision',
+    title: `${headline} on order ${order.id}`,
+    message: update.message,
+    entityId: file.id,
+    actorName: uploadedBy.name,
+  });
+
+  const recipients = await recipientsFor(order.id, 'document_revision', uploadedBy.email);
+  if (recipients.length > 0) {
+    await emailService.sendDocumentRevisionNotification(
+      recipients,
+      { id: order.id, buyerName: order.buyerName, styleNumber: order.styleNumber },
+      {
+        id: file.id,
+        name: file.originalName,
+        version: file.version,
+        changeNote: file.changeNote ?? undefined,
+        uploadedByName: uploadedBy.name,
+      }
+    );
+  }
+
+  return update;
+}
+
+// Only the uploader hears about a rejected file; nobody else could open it anyway
+export async function notifyFileRejected(order: Order, file: MediaFile): Promise<void> {
+  const signature = file.scanVerdict ?? 'malware';
+
+  await storage.createNotifications([{
+    recipientEmail: file.uploadedBy.toLowerCase(),
+    type: 'file_rejected',
+    title: `${file.originalName} was rejected on order ${order.id}`,
+    message: `The malware scan flagged ${file.originalName} as ${signature}. The file is quarantined; please upload a clean copy.`,
+    orderId: order.id,
+    entityId: file.id,
+  }]);
+
+  await emailService.sendFileRejectedNotification(
+    file.uploadedBy,
+    { id: order.id, buyerName: order.buyerName, styleNumber: order.styleNumber },
+    { name: file.originalName, signature, uploadedAt: file.uploadedAt ?? new Date() }
+  );
+}
@@ -0,0 +1,217 @@
+import { beforeAll, beforeEach, describe, expect, it } from "vitest";
+import express from "express";
+import request from "supertest";
+import type { InsertStakeholder, Stakeholder, User } from "@shared/schema";
+import { storage } from "./storage";
+import { hashPassword } from "./auth";
+import { hashInvitationToken } from "./invitations";
+import { registerRoutes } from "./routes";
+import { allowedActions } from "./permissions";
+
+const ORDER_ID = "PO-AUTH";
+const PASSWORD = "correct horse battery";
+
+const stakeholder = (role: string, permissions: string) => ({ role, permissions } as Stakeholder);
+
+describe("allowedActions", () => {
+  it.each([
+    ["read", "factory_manager", ["view"]],
+    ["comment", "buyer_employee", ["view", "comment"]],
+    ["update", "factory_manager", ["view", "comment", "update", "change_status"]],
+  ])("grants %s access its level and nothing more", (permissions, role, actions) => {
+    expect(allowedActions(stakeholder(role, permissions))).toEqual(actions);
+  });
+
+  it.each(["factory_owner", "admin"])("lets the %s role do everything whatever its permission level", (role) => {
+    expect(allowedActions(stakeholder(role, "read"))).toContain("manage_stakeholders");
+  });
+
+  it("lets a platform admin do everything without a stakeholder record", () => {
+    expect(allowedActions(undefined, { isAdmin: true } as User)).toContain("manage_stakeholders");
+  });
+
+  it("grants nothing without a stakeholder record", () => {
+    expect(allowedActions(undefined, { isAdmin: false } as User)).toEqual([]);
+  });
+});
+
+describe("order routes", () => {
+  const app = express();
+  app.use(express.json());
+
+  type Agent = ReturnType<typeof request.agent>;
+  const agents: Record<string, Agent> = {};
+
+  async function createUser(key: string, isAdmin = false): Promise<User> {
+    return storage.createUser({
+      email: `${key}@example.test`,
+      name: key,
+      passwordHash: await hashPassword(PASSWORD),
+      role: "manufacturer",
+      isAdmin,
+    });
+  }
+
+  // A stakeholder linked to its own account by an accepted invitation
+  async function member(key: string, role: InsertStakeholder["role"], permissions: InsertStakeholder["permissions"]) {
+    const user = await createUser(key);
+    const created = await storage.createStakeholder({ orderId: ORDER_ID, name: key, email: user.email, role, permissions });
+    await storage.updateStakeholder(created.id, { userId: user.id, invitationStatus: "accepted" });
+  }
+
+  async function signIn(key: string): Promise<Agent> {
+    const agent = request.agent(app);
+    await agent.post("/api/auth/login").send({ email: `${key}@example.test`, password: PASSWORD }).expect(200);
+    return agent;
+  }
+
+  beforeAll(async () => {
+    await registerRoutes(app);
+    await storage.createOrder({
+      id: ORDER_ID,
+      buyerName: "Northwind Apparel",
+      buyerEmail: "buyer@northwind.test",
+      styleNumber: "NW-100",
+      quantity: 1000,
+      estimatedDelivery: new Date("2027-03-01T00:00:00Z"),
+    });
+
+    await member("reader", "factory_manager", "read");
+    await member("commenter", "buyer_employee", "comment");
+    await member("updater", "factory_manager", "update");
+    await member("owner", "factory_owner", "read");
+    await createUser("admin", true);
+    await createUser("outsider");
+
+    // Invited under the outsider's address but never accepted, so it grants nothing
+    await storage.createStakeholder({ orderId: ORDER_ID, name: "Pending", email: "outsider@example.test", role: "buyer", permissions: "update" });
+
+    for (const key of ["reader", "commenter", "updater", "owner", "admin", "outsider"]) {
+      agents[key] = await signIn(key);
+    }
+  });
+
+  beforeEach(async () => {
+    await storage.updateOrderStatus(ORDER_ID, "received");
+  });
+
+  it("requires a signed-in user", async () => {
+    await request(app).get(`/api/orders/${ORDER_ID}`).expect(401);
+  });
+
+  it.each(["reader", "commenter", "updater", "owner", "admin"])("lets %s view the order", async (key) => {
+    const response = await agents[key].get(`/api/orders/${ORDER_ID}`).expect(200);
+    expect(response.body.id).toBe(ORDER_ID);
+  });
+
+  it("keeps the order from a user who is not an accepted stakeholder, even one invited under their address", async () => {
+    const response = await agents.outsider.get(`/api/orders/${ORDER_ID}`).expect(403);
+    expect(response.body.message).toBe("You are not a stakeholder on this order");
+
+    const list = await agents.outsider.get("/api/orders").expect(200);
+    expect(list.body).toEqual([]);
+  });
+
+  describe("commenting", () => {
+    it("is refused for read access", async () => {
+      const response = await agents.reader.post(`/api/orders/${ORDER_ID}/comments`).send({ message: "Hello" }).expect(403);
+      expect(response.body.message).toMatch(/does not allow this action \(comment\)/);
+    });
+
+    it.each(["commenter", "updater", "owner", "admin"])("is allowed for %s", async (key) => {
+      const response = await agents[key].post(`/api/orders/${ORDER_ID}/comments`).send({ message: `From ${key}` }).expect(201);
+      expect(response.body).toMatchObject({ message: `From ${key}`, authorName: key });
+    });
+  });
+
+  describe("posting updates", () => {
+    it.each(["reader", "commenter"])("is refused for %s", async (key) => {
+      await agents[key].post(`/api/orders/${ORDER_ID}/updates`).send({ message: "Cutting started" }).expect(403);
+    });
+
+    it.each(["updater", "owner", "admin"])("is allowed for %s", async (key) => {
+      await agents[key].post(`/api/orders/${ORDER_ID}/updates`).send({ message: "Cutting started" }).expect(201);
+    });
+  });
+
+  describe("changing status", () => {
+    it.each(["reader", "commenter", "outsider"])("is refused for %s", async (key) => {
+      await agents[key].patch(`/api/orders/${ORDER_ID}/status`).send({ status: "in_production" }).expect(403);
+      expect((await storage.getOrder(ORDER_ID))?.status).toBe("received");
+    });
+
+    it.each(["updater", "owner", "admin"])("is allowed for %s", async (key) => {
+      const response = await agents[key].patch(`/api/orders/${ORDER_ID}/status`).send({ status: "in_production" }).expect(200);
+      expect(response.body.status).toBe("in_production");
+    });
+  });
+
+  describe("managing stakeholders", () => {
+    const invite = (key: string) => ({ name: `Invited by ${key}`, email: `invited-${key}@example.test`, role: "buyer_employee", permissions: "read" });
+
+    it.each(["reader", "commenter", "updater"])("is refused for %s", async (key) => {
+      await agents[key].post(`/api/orders/${ORDER_ID}/stakeholders`).send(invite(key)).expect(403);
+      await agents[key].patch(`/api/stakeholders/${await stakeholderId("reader")}/permissions`).send({ permissions: "update" }).expect(403);
+    });
+
+    it.each(["owner", "admin"])("is allowed for %s", async (key) => {
+      const response = await agents[key].post(`/api/orders/${ORDER_ID}/stakeholders`).send(invite(key)).expect(201);
+      expect(response.body).toMatchObject({ email: `invited-${key}@example.test`, permissions: "read" });
+    });
+
+    async function stakeholderId(key: string): Promise<string> {
+      const stakeholders = await storage.getStakeholdersByOrder(ORDER_ID);
+      return stakeholders.find(s => s.email === `${key}@example.test` && s.userId)!.id;
+    }
+  });
+
+  describe("accepting an invitation", () => {
+    // An invitation to the order under the address of an account that already exists
+    async function inviteExisting(key: string): Promise<{ token: string; stakeholderId: string }> {
+      await createUser(key);
+      const invited = await storage.createStakeholder({ orderId: ORDER_ID, name: key, email: `${key}@example.test`, role: "buyer", permissions: "update" });
+      const token = `token-for-${key}`;
+      await storage.createInvitationToken({ stakeholderId: invited.id, tokenHash: hashInvitationToken(token), expiresAt: new Date(Date.now() + 60_000) });
+      return { token, stakeholderId: invited.id };
+    }
+
+    it("does not bind an existing account for a caller who is neither signed in as it nor knows its password", async () => {
+      const { token, stakeholderId } = await inviteExisting("squatted");
+
+      await request(app).post(`/api/invitations/${token}/accept`).send({}).expect(401);
+      await request(app).post(`/api/invitations/${token}/accept`).send({ password: "not the password" }).expect(401);
+      await agents.outsider.post(`/api/invitations/${token}/accept`).send({}).expect(401);
+
+      expect((await storage.getStakeholder(stakeholderId))?.userId).toBeNull();
+      const invitation = await request(app).get(`/api/invitations/${token}`).expect(200);
+      expect(invitation.body).toMatchObject({ hasAccount: true, signedIn: false });
+    });
+
+    it("binds an existing account given its password, and signs the caller in", async () => {
+      const { token, stakeholderId } = await inviteExisting("returning");
+      const agent = request.agent(app);
+
+      await agent.post(`/api/invitations/${token}/accept`).send({ password: PASSWORD }).expect(200);
+
+      expect((await storage.getStakeholder(stakeholderId))?.invitationStatus).toBe("accepted");
+      await agent.get(`/api/orders/${ORDER_ID}`).expect(200);
+    });
+
+    it("binds an existing account for a caller signed in as it", async () => {
+      const { token, stakeholderId } = await inviteExisting("signed-in");
+      const agent = await signIn("signed-in");
+
+      await agent.post(`/api/invitations/${token}/accept`).send({}).expect(200);
+
+      expect((await storage.getStakeholder(stakeholderId))?.userId).toBeTruthy();
+    });
+  });
+
+  it("reports each caller's allowed actions with the order", async () => {
+    const reader = await agents.reader.get(`/api/orders/${ORDER_ID}`).expect(200);
+    const owner = await agents.owner.get(`/api/orders/${ORDER_ID}`).expect(200);
+
+    expect(reader.body.access).toMatchObject({ role: "factory_manager", permissions: "read", actions: ["view"] });
+    expect(owner.body.access.actions).toContain("manage_stakeholders");
+  });
+});
@@ -0,0 +1,155 @@
+import type { Request, Response, NextFunction } from "express";
+import { storage } from "./storage";
+import type { Stakeholder, User } from "@shared/schema";
+
+export type OrderAction = 'view' | 'comment' | 'update' | 'change_status' | 'manage_stakeholders';
+
+// What each stakeholder permission level grants; levels are cumulative
+const PERMISSION_MATRIX: Record<string, OrderAction[]> = {
+  read: ['view'],
+  comment: ['view', 'comment'],
+  update: ['view', 'comment', 'update', 'change_status'],
+};
+
+// These roles run the order and may do everything regardless of their permission level
+const MANAGER_ROLES = ['admin', 'factory_owner'];
+
+// These roles speak for the buyer, e.g. when approving changes to an order's commercial terms
+const BUYER_ROLES = ['buyer', 'buyer_employee'];
+
+const ALL_ACTIONS: OrderAction[] = ['view', 'comment', 'update', 'change_status', 'manage_stakeholders'];
+
+declare global {
+  namespace Express {
+    interface Request {
+      stakeholder?: Stakeholder;
+    }
+  }
+}
+
+export function allowedActions(stakeholder: Stakeholder | undefined, user?: User): OrderAction[] {
+  if (user?.isAdmin) return ALL_ACTIONS;
+  if (!stakeholder) return [];
+  if (MANAGER_ROLES.includes(stakeholder.role)) return ALL_ACTIONS;
+  return PERMISSION_MATRIX[stakeholder.permissions] ?? [];
+}
+
+export function can(stakeholder: Stakeholder | undefined, action: OrderAction, user?: User): boolean {
+  return allowedActions(stakeholder, user).includes(action);
+}
+
+export function isBuyerSide(stakeholder: Stakeholder | undefined): boolean {
+  return !!stakeholder && BUYER_ROLES.includes(stakeholder.role);
+}
+
+// Email addresses are never verified at sign-up, so access comes only from a stakeholder record
+// linked to the account when its invitation was accepted, never from a matching address
+function grantsAccess(stakeholder: Stakeholder, user: User): boolean {
+  return stakeholder.userId === user.id && stakeholder.invitationStatus === 'accepted';
+}
+
+export async function resolveStakeholder(user: User, orderId: string): Promise<Stakeholder | undefined> {
+  const stakeholders = await storage.getStakeholdersByOrder(orderId);
+  return stakeholders.find(s => grantsAccess(s, user));
+}
+
+// The caller's active stakeholder records across all orders
+export async function userMemberships(user: User): Promise<Stakeholder[]> {
+  return (await storage.getStakeholdersByUser(user.id)).filter(s => grantsAccess(s, user));
+}
+
+// Orders a user can see: every order for admins, otherwise those they are an active stakeholder on
+export async function visibleOrderIds(user: User): Promise<string[]> {
+  if (user.isAdmin) {
+    return (await storage.getAllOrders()).map(order => order.id);
+  }
+  return (await userMemberships(user)).map(s => s.orderId);
+}
+
+// Summary of the caller's access to an order, returned alongside order data for the client
+export function describeAccess(stakeholder: Stakeholder | undefined, user: User) {
+  return {
+    stakeholderId: stakeholder?.id ?? null,
+    role: user.isAdmin ? 'admin' : stakeholder?.role ?? null,
+    permissions: stakeholder?.permissions ?? null,
+    actions: allowedActions(stakeholder, user),
+  };
+}
+
+type OrderIdResolver = (req: Request) => Promise<string | undefined> | string | undefined;
+
+const fromOrderParam: OrderIdResolver = (req) => req.params.id;
+
+/**
+ * Resolves the caller's stakeholder record for the order a route acts on and rejects the
+ * request with 403 unless the permission matrix grants `action`. The resolved stakeholder
+ * is available to the handler as `req.stakeholder`.
+ */
+export function requireOrderPermission(action: OrderAction, resolveOrderId: OrderIdResolver = fromOrderParam) {
+  return async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      if (!req.user) {
+        return res.status(401).json({ message: "Authentication required" });
+      }
+
+      const orderId = await resolveOrderId(req);
+      if (!orderId) {
+        return res.status(404).json({ message: "Not found" });
+      }
+
+      const stakeholder = await resolveStakeholder(req.user, orderId);
+      if (!stakeholder && !req.user.isAdmin) {
+        return res.status(403).json({ message: "You are not a stakeholder on this order" });
+      }
+
+      if (!can(stakeholder, action, req.user)) {
+        return res.status(403).json({
+          message: `Your access to this order does not allow this action (${action.replace('_', ' ')})`,
+        });
+      }
+
+      req.stakeholder = stakeholder;
+      next();
+    } catch (error) {
+      next(error);
+    }
+  };
+}
+
+// For routes addressed by stakeholder id, e.g. /api/stakeholders/:id
+export const orderOfStakeholderParam: OrderIdResolver = async (req) => {
+  const stakeholder = await storage.getStakeholder(req.params.id);
+  return stakeholder?.orderId;
+};
+
+// For routes addressed by media file id, e.g. /api/media/:id
+export const orderOfMediaParam: OrderIdResolver = async (req) => {
+  const file = await storage.getMediaFile(req.params.id);
+  return file?.orderId;
+};
+
+// For routes addressed by annotation id, e.g. /api/annotations/:id
+export const orderOfAnnotationParam: OrderIdResolver = async (req) => {
+  const annotation = await storage.getAnnotation(req.params.id);
+  return annotation?.orderId;
+};
+
+export const orderOfCommentParam: OrderIdResolver = async (req) => {
+  const comment = await storage.getComment(req.params.id);
+  return comment?.orderId;
+};
+
+export const orderOfAmendmentParam: OrderIdResolver = async (req) => {
+  const amendment = await storage.getOrderAmendment(req.params.id);
+  return amendment?.orderId;
+};
+
+export const orderOfStageParam: OrderIdResolver = async (req) => {
+  const stage = await storage.getProductionStage(req.params.id);
+  return stage?.orderId;
+};
+
+export const orderOfMilestoneParam: OrderIdResolver = async (req) => {
+  const milestone = await storage.getOrderMilestone(req.params.id);
+  return milestone?.orderId;
+};
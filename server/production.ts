@@ -0,0 +1,138 @@
+import { storage } from "./storage";
+import { DEFAULT_PRODUCTION_STAGES } from "@shared/production";
+import type { Order, ProductionStage, ProductionStageInput, Shipment, StageOutput, User } from "@shared/schema";
+
+// A stage plan or output entry that doesn't fit the order
+export class ProductionError extends Error {}
+
+// Days arrive as midnight UTC of the factory's local date, which can be ahead of the server's clock
+const LOCAL_DAY_ALLOWANCE_MS = 24 * 60 * 60 * 1000;
+
+// New orders start with the default stages, each planned for the full order quantity
+export async function setUpProductionStages(order: Order): Promise<ProductionStage[]> {
+  return storage.replaceProductionStages(
+    order.id,
+    DEFAULT_PRODUCTION_STAGES.map(name => ({ name, plannedQuantity: order.quantity }))
+  );
+}
+
+interface StagePlan {
+  id?: string;
+  name: string;
+  plannedQuantity: number;
+  plannedStart?: string | null;
+  plannedEnd?: string | null;
+}
+
+/**
+ * Replaces the order's stage plan. Stages are matched by id; a stage can't be dropped once
+ * output has been recorded against it, so the output log always has a stage to belong to.
+ */
+export async function planProductionStages(order: Order, plan: StagePlan[]): Promise<ProductionStage[]> {
+  const current = await storage.getProductionStages(order.id);
+  const unknown = plan.find(stage => stage.id && !current.some(existing => existing.id === stage.id));
+  if (unknown) {
+    throw new ProductionError(`Stage ${unknown.name} does not belong to this order`);
+  }
+  const dropped = current.find(existing => existing.completedQuantity > 0 && !plan.some(stage => stage.id === existing.id));
+  if (dropped) {
+    throw new ProductionError(`${dropped.name} already has output recorded and can't be removed`);
+  }
+
+  const inputs: ProductionStageInput[] = plan.map(stage => ({
+    id: stage.id,
+    name: stage.name,
+    plannedQuantity: stage.plannedQuantity,
+    plannedStart: stage.plannedStart ? new Date(stage.plannedStart) : null,
+    plannedEnd: stage.plannedEnd ? new Date(stage.plannedEnd) : null,
+  }));
+  return storage.replaceProductionStages(order.id, inputs);
+}
+
+// Stages still planned for the whole order follow a change to the order quantity; undefined when
+// no stage is
+export async function stagesFollowingQuantity(orderId: string, from: number, to: number): Promise<ProductionStageInput[] | undefined> {
+  const stages = await storage.getProductionStages(orderId);
+  if (!stages.some(stage => stage.plannedQuantity === from)) return undefined;
+
+  return stages.map(stage => ({
+    id: stage.id,
+    name: stage.name,
+    plannedQuantity: stage.plannedQuantity === from ? to : stage.plannedQuantity,
+    plannedStart: stage.plannedStart,
+    plannedEnd: stage.plannedEnd,
+  }));
+}
+
+async function checkOrderCell(orderId: string, lineItemId: string | undefined): Promise<void> {
+  if (!lineItemId) return;
+  const lineItems = await storage.getOrderLineItems(orderId);
+  if (!lineItems.some(item => item.id === lineItemId)) {
+    throw new ProductionError("The size/color cell does not belong to this order");
+  }
+}
+
+interface OutputEntry {
+  quantity: number;
+  producedOn?: string;
+  lineItemId?: string;
+  note?: string;
+}
+
+export async function recordOutput(
+  stage: ProductionStage,
+  entry: OutputEntry,
+  recordedBy: Pick<User, "id" | "name">
+): Promise<{ stage: ProductionStage; output: StageOutput }> {
+  const producedOn = entry.producedOn ? new Date(entry.producedOn) : new Date();
+  if (producedOn.getTime() > Date.now() + LOCAL_DAY_ALLOWANCE_MS) {
+    throw new ProductionError("Output can't be recorded for a future day");
+  }
+  await checkOrderCell(stage.orderId, entry.lineItemId);
+
+  const recorded = await storage.recordStageOutput({
+    stageId: stage.id,
+    orderId: stage.orderId,
+    lineItemId: entry.lineItemId,
+    quantity: entry.quantity,
+    producedOn,
+    note: entry.note || undefined,
+    recordedById: recordedBy.id,
+    recordedByName: recordedBy.name,
+  });
+  if (!recorded) {
+    throw new ProductionError("The stage was removed while the output was being recorded");
+  }
+  return recorded;
+}
+
+interface ShipmentEntry {
+  quantity: number;
+  shippedOn?: string;
+  lineItemId?: string;
+  reference?: string;
+  note?: string;
+}
+
+export async function recordShipment(
+  order: Order,
+  entry: ShipmentEntry,
+  recordedBy: Pick<User, "id" | "name">
+): Promise<Shipment> {
+  const shippedOn = entry.shippedOn ? new Date(entry.shippedOn) : new Date();
+  if (shippedOn.getTime() > Date.now() + LOCAL_DAY_ALLOWANCE_MS) {
+    throw new ProductionError("A shipment can't be recorded for a future day");
+  }
+  await checkOrderCell(order.id, entry.lineItemId);
+
+  return storage.recordShipment({
+    orderId: order.id,
+    lineItemId: entry.lineItemId,
+    quantity: entry.quantity,
+    shippedOn,
+    reference: entry.reference || undefined,
+    note: entry.note || undefined,
+    recordedById: recordedBy.id,
+    recordedByName: recordedBy.name,
+  });
+}
@@ -1,15 +1,59 @@
-import type { Express } from "express";
+import express, { type Express } from "express";
 import { createServer, type Server } from "http";
 import { storage } from "./storage";
-import { insertOrderSchema, insertUpdateSchema, insertCommentSchema, insertStakeholderSchema } from "@shared/schema";
+import { createOrderSchema, insertUpdateSchema, insertCommentSchema, insertStakeholderSchema, bulkInviteSchema, acceptInvitationSchema, orderStatusChangeSchema, notificationPreferencesSchema, notificationQuerySchema, notificationReplySchema, outboxQuerySchema, emailTemplateSchema, emailTemplatePreviewSchema, emailBrandingSchema, mediaUploadSchema, mediaArchiveQuerySchema, createAnnotationSchema, editCommentSchema, orderAmendmentSchema, amendmentDecisionSchema, productionStagesSchema, stageOutputSchema, shipmentSchema, tnaTemplateSchema, milestoneUpdateSchema, generateMilestonesSchema } from "@shared/schema";
+import { canTransition, ORDER_STATUS_TRANSITIONS, type OrderStatus } from "@shared/order-status";
+import { productionProgress } from "@shared/production";
+import { milestoneState } from "@shared/tna";
+import type { ThumbnailSize } from "@shared/schema";
 import { emailService } from "./email-service";
+import { setupAuth, requireAuth, requireAdmin, hashPassword, verifyPassword, startSession, toPublicUser } from "./auth";
+import { withCommentState, threadParentFor, CommentThreadError } from "./comments";
+import { diffOrder, needsApproval, applyAmendment, AmendmentError } from "./amendments";
+import { setUpProductionStages, planProductionStages, recordOutput, recordShipment, ProductionError } from "./production";
+import { listTnaTemplates, resolveTnaTemplate, generateMilestones, updateMilestone, TnaError } from "./tna";
+import { issueInvitation, revokeInvitation, lookupInvitation, withInvitationState } from "./invitations";
+import { requireOrderPermission, orderOfStakeholderParam, orderOfMediaParam, orderOfAnnotationParam, orderOfCommentParam, orderOfAmendmentParam, orderOfStageParam, orderOfMilestoneParam, describeAccess, can, isBuyerSide, visibleOrderIds, userMemberships, resolveStakeholder } from "./permissions";
+import { notifyNewActivity, notifyStatusChange, notifyAnnotationComment, refreshCommentNotifications, notifyAmendmentProposed, notifyAmendmentApplied, notifyAmendmentRejected } from "./notify";
+import { ingestEmail, isAuthorizedWebhook } from "./inbound-email";
+import { retryEmail } from "./email-outbox";
+import { DEFAULT_TEMPLATES, getBranding, getTemplateSource, isEmailTemplateName, listTemplates, renderTemplateSource } from "./email-templates";
+import { TemplateError } from "./template-renderer";
+import { receiveUploads, saveMediaFile, getMediaStorage, withMediaUrl, contentDisposition, releaseStoredMedia, isServable, quarantineMessage, validateAttachments, withAttachments, AttachmentError } from "./uploads";
+import { queueMediaScans } from "./media-scans";
+import { MediaObjectNotFoundError } from "./media-storage";
+import { archiveFilename, streamMediaArchive } from "./media-archive";
+import { getLastIntegrityReport, queueMediaIntegrityCheck } from "./media-integrity";
+import { queueDeliveryRiskAssessment } from "./delivery-risk";
 import { z } from "zod";
 
 export async function registerRoutes(app: Express): Promise<Server> {
+  setupAuth(app);
+
   // Get all orders
-  app.get("/api/orders", async (req, res) => {
+  app.get("/api/orders", requireAuth, async (req, res) => {
     try {
-      const orders = await storage.getAllOrders();
+      const user = req.user!;
+      // Platform admins see every order; everyone else only the orders they are a stakeholder on
+      const memberships = user.isAdmin
+        ? []
+        : await userMemberships(user);
+      const allOrders = await storage.getAllOrders();
+      const visibleOrders = user.isAdmin
+        ? allOrders
+        : allOrders.filter(order => memberships.some(m => m.orderId === order.id));
+
+      const risks = await storage.getDeliveryRisks();
+
+      const orders = await Promise.all(visibleOrders.map(async (order) => ({
+        ...order,
+        stakeholders: (await storage.getStakeholdersByOrder(order.id)).map(withInvitationState),
+        production: productionProgress(await storage.getProductionStages(order.id)),
+        overdueMilestones: (await storage.getOrderMilestones(order.id))
+          .filter(milestone => milestoneState(milestone) === 'overdue').length,
+        deliveryRisk: risks.find(risk => risk.orderId === order.id) ?? null,
+        access: describeAccess(memberships.find(m => m.orderId === order.id), user),
+      })));
       res.json(orders);
     } catch (error) {
       res.status(500).json({ message: "Failed to fetch orders" });
@@ -17,7 +61,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Get order by ID
-  app.get("/api/orders/:id", async (req, res) => {
+  app.get("/api/orders/:id", requireOrderPermission('view'), async (req, res) => {
     try {
       const order = await storage.getOrder(req.params.id);
       if (!order) {
@@ -27,12 +71,22 @@ export async function registerRoutes(app: Express): Promise<Server> {
       const updates = await storage.getUpdatesByOrder(order.id);
       const comments = await storage.getCommentsByOrder(order.id);
       const stakeholders = await storage.getStakeholdersByOrder(order.id);
+      const statusHistory = await storage.getStatusHistoryByOrder(order.id);
+      const files = await storage.getMediaFilesByOrder(order.id);
+      const lineItems = await storage.getOrderLineItems(order.id);
+      const productionStages = await storage.getProductionStages(order.id);
+      const milestones = await storage.getOrderMilestones(order.id);
 
       res.json({
         ...order,
-        updates,
-        comments,
-        stakeholders,
+        lineItems,
+        productionStages,
+        milestones,
+        updates: updates.map(update => withAttachments(update, files)),
+        comments: comments.map(comment => withAttachments(withCommentState(comment), files)),
+        statusHistory,
+        stakeholders: stakeholders.map(withInvitationState),
+        access: describeAccess(req.stakeholder, req.user!),
       });
     } catch (error) {
       res.status(500).json({ message: "Failed to fetch order" });
@@ -40,132 +94,559 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Create new order
-  app.post("/api/orders", async (req, res) => {
+  app.post("/api/orders", requireAuth, async (req, res) => {
     try {
-      const validatedData = insertOrderSchema.parse(req.body);
+      const user = req.user!;
+      if (user.role !== 'manufacturer' && !user.isAdmin) {
+        return res.status(403).json({ message: "Only manufacturers can create orders" });
+      }
+
+      const { lineItems, tnaTemplateId, ...validatedData } = createOrderSchema.parse(req.body);
+      if (await storage.getOrder(validatedData.id)) {
+        return res.status(409).json({ message: `Order ${validatedData.id} already exists` });
+      }
+      const tnaTemplate = await resolveTnaTemplate(tnaTemplateId);
       const order = await storage.createOrder(validatedData);
+      if (lineItems?.length) {
+        await storage.replaceOrderLineItems(order.id, lineItems);
+      }
+      await setUpProductionStages(order);
+
+      // The creator runs the order they opened
+      const owner = await storage.createStakeholder({
+        orderId: order.id,
+        name: user.name,
+        email: user.email,
+        role: user.isAdmin ? 'admin' : 'factory_owner',
+        permissions: 'update',
+      });
+      await storage.updateStakeholder(owner.id, {
+        userId: user.id,
+        invitationStatus: 'accepted',
+        acceptedAt: new Date(),
+      });
+      await generateMilestones(order, tnaTemplate, owner.id);
+      queueDeliveryRiskAssessment();
+
+      await storage.createStatusHistory({
+        orderId: order.id,
+        fromStatus: null,
+        toStatus: order.status as OrderStatus,
+        changedById: user.id,
+        changedByName: user.name,
+      });
+
       res.status(201).json(order);
     } catch (error) {
       if (error instanceof z.ZodError) {
         return res.status(400).json({ message: "Invalid data", errors: error.errors });
       }
+      if (error instanceof TnaError) {
+        return res.status(400).json({ message: error.message });
+      }
       res.status(500).json({ message: "Failed to create order" });
     }
   });
 
   // Update order status
-  app.patch("/api/orders/:id/status", async (req, res) => {
+  app.patch("/api/orders/:id/status", requireOrderPermission('change_status'), async (req, res) => {
     try {
-      const { status } = req.body;
+      const { status, reason } = orderStatusChangeSchema.parse(req.body);
+      const current = await storage.getOrder(req.params.id);
+      if (!current) {
+        return res.status(404).json({ message: "Order not found" });
+      }
+
+      if (!canTransition(current.status, status)) {
+        return res.status(400).json({
+          message: `Cannot change status from ${current.status} to ${status}`,
+          allowed: ORDER_STATUS_TRANSITIONS[current.status as OrderStatus] ?? [],
+        });
+      }
+
       const order = await storage.updateOrderStatus(req.params.id, status);
-      
       if (!order) {
         return res.status(404).json({ message: "Order not found" });
       }
 
+      await storage.createStatusHistory({
+        orderId: order.id,
+        fromStatus: current.status,
+        toStatus: status,
+        changedById: req.user!.id,
+        changedByName: req.user!.name,
+        reason: reason || undefined,
+      });
+
+      await notifyStatusChange(order, current.status, req.user!, reason || undefined);
+      queueDeliveryRiskAssessment();
+
       res.json(order);
     } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid data", errors: error.errors });
+      }
       res.status(500).json({ message: "Failed to update order status" });
     }
   });
 
+  // Every proposed change to the order's details, newest first
+  app.get("/api/orders/:id/amendments", requireOrderPermission('view'), async (req, res) => {
+    try {
+      res.json(await storage.getOrderAmendmentsByOrder(req.params.id));
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch amendments" });
+    }
+  });
+
+  // Changes to commercial terms from the factory side wait for buyer approval; anything else applies at once
+  app.post("/api/orders/:id/amendments", requireOrderPermission('update'), async (req, res) => {
+    try {
+      const { reason, ...proposal } = orderAmendmentSchema.parse(req.body);
+      const order = await storage.getOrder(req.params.id);
+      if (!order) {
+        return res.status(404).json({ message: "Order not found" });
+      }
+
+      const amendments = await storage.getOrderAmendmentsByOrder(order.id);
+      if (amendments.some(amendment => amendment.status === 'pending')) {
+        return res.status(409).json({ message: "This order already has an amendment waiting for approval" });
+      }
+
+      const changes = await diffOrder(order, proposal);
+      if (Object.keys(changes).length === 0) {
+        return res.status(400).json({ message: "The proposal does not change anything" });
+      }
+
+      const amendment = await storage.createOrderAmendment({
+        orderId: order.id,
+        baseRevision: order.revision,
+        changes,
+        reason: reason || undefined,
+        requiresApproval: needsApproval(changes, req.stakeholder),
+        proposedById: req.user!.id,
+        proposedByName: req.user!.name,
+      });
+
+      if (amendment.requiresApproval) {
+        await notifyAmendmentProposed(order, amendment, req.user!.email);
+        return res.status(201).json(amendment);
+      }
+
+      const applied = await applyAmendment(order, amendment, req.user!);
+      if (!applied) {
+        return res.status(409).json({ message: "The amendment was already decided, or the order has changed since it was proposed" });
+      }
+      await notifyAmendmentApplied(applied.order, applied.amendment, req.user!);
+      queueDeliveryRiskAssessment();
+      res.status(201).json(applied.amendment);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid data", errors: error.errors });
+      }
+      if (error instanceof AmendmentError) {
+        return res.status(400).json({ message: error.message });
+      }
+      res.status(500).json({ message: "Failed to propose amendment" });
+    }
+  });
+
+  app.post("/api/amendments/:id/approve", requireOrderPermission('view', orderOfAmendmentParam), async (req, res) => {
+    try {
+      const { note } = amendmentDecisionSchema.parse(req.body ?? {});
+      const amendment = await storage.getOrderAmendment(req.params.id);
+      const order = amendment && await storage.getOrder(amendment.orderId);
+      if (!amendment || !order) {
+        return res.status(404).json({ message: "Amendment not found" });
+      }
+      if (!isBuyerSide(req.stakeholder)) {
+        return res.status(403).json({ message: "Only a buyer-side stakeholder can approve this amendment" });
+      }
+      if (amendment.status !== 'pending') {
+        return res.status(409).json({ message: `This amendment was already ${amendment.status}` });
+      }
+      if (order.revision !== amendment.baseRevision) {
+        return res.status(409).json({ message: "The order has changed since this amendment was proposed" });
+      }
+
+      const applied = await applyAmendment(order, amendment, req.user!, note || undefined);
+      if (!applied) {
+        return res.status(409).json({ message: "The amendment was already decided, or the order has changed since it was proposed" });
+      }
+      await notifyAmendmentApplied(applied.order, applied.amendment, req.user!);
+      queueDeliveryRiskAssessment();
+      res.json(applied.amendment);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid data", errors: error.errors });
+      }
+      res.status(500).json({ message: "Failed to approve amendment" });
+    }
+  });
+
+  app.post("/api/amendments/:id/reject", requireOrderPermission('view', orderOfAmendmentParam), async (req, res) => {
+    try {
+      const { note } = amendmentDecisionSchema.parse(req.body ?? {});
+      const amendment = await storage.getOrderAmendment(req.params.id);
+      const order = amendment && await storage.getOrder(amendment.orderId);
+      if (!amendment || !order) {
+        return res.status(404).json({ message: "Amendment not found" });
+      }
+      if (!isBuyerSide(req.stakeholder)) {
+        return res.status(403).json({ message: "Only a buyer-side stakeholder can reject this amendment" });
+      }
+
+      const rejected = await storage.decideOrderAmendment(amendment.id, {
+        status: 'rejected',
+        decidedById: req.user!.id,
+        decidedByName: req.user!.name,
+        decisionNote: note || undefined,
+      });
+      if (!rejected) {
+        return res.status(409).json({ message: `This amendment was already ${amendment.status}` });
+      }
+      await notifyAmendmentRejected(order, rejected);
+      res.json(rejected);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid data", errors: error.errors });
+      }
+      res.status(500).json({ message: "Failed to reject amendment" });
+    }
+  });
+
+  app.post("/api/amendments/:id/withdraw", requireOrderPermission('view', orderOfAmendmentParam), async (req, res) => {
+    try {
+      const amendment = await storage.getOrderAmendment(req.params.id);
+      if (!amendment) {
+        return res.status(404).json({ message: "Amendment not found" });
+      }
+      if (amendment.proposedById !== req.user!.id && !can(req.stakeholder, 'manage_stakeholders', req.user!)) {
+        return res.status(403).json({ message: "Only the proposer or an order admin can withdraw this amendment" });
+      }
+
+      const withdrawn = await storage.decideOrderAmendment(amendment.id, {
+        status: 'withdrawn',
+        decidedById: req.user!.id,
+        decidedByName: req.user!.name,
+      });
+      if (!withdrawn) {
+        return res.status(409).json({ message: `This amendment was already ${amendment.status}` });
+      }
+      res.json(withdrawn);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to withdraw amendment" });
+    }
+  });
+
+  app.get("/api/orders/:id/stage-outputs", requireOrderPermission('view'), async (req, res) => {
+    try {
+      res.json(await storage.getStageOutputsByOrder(req.params.id));
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch production output" });
+    }
+  });
+
+  // Replace the order's production stage plan
+  app.put("/api/orders/:id/stages", requireOrderPermission('update'), async (req, res) => {
+    try {
+      if (isBuyerSide(req.stakeholder)) {
+        return res.status(403).json({ message: "Only the factory can plan production stages" });
+      }
+      const order = await storage.getOrder(req.params.id);
+      if (!order) {
+        return res.status(404).json({ message: "Order not found" });
+      }
+
+      const stages = await planProductionStages(order, productionStagesSchema.parse(req.body.stages));
+      queueDeliveryRiskAssessment();
+      res.json(stages);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid data", errors: error.errors });
+      }
+      if (error instanceof ProductionError) {
+        return res.status(400).json({ message: error.message });
+      }
+      res.status(500).json({ message: "Failed to save production stages" });
+    }
+  });
+
+  // Record a day's output for a stage
+  app.post("/api/stages/:id/output", requireOrderPermission('update', orderOfStageParam), async (req, res) => {
+    try {
+      if (isBuyerSide(req.stakeholder)) {
+        return res.status(403).json({ message: "Only the factory can record production output" });
+      }
+      const stage = await storage.getProductionStage(req.params.id);
+      if (!stage) {
+        return res.status(404).json({ message: "Stage not found" });
+      }
+
+      const recorded = await recordOutput(stage, stageOutputSchema.parse(req.body), req.user!);
+      queueDeliveryRiskAssessment();
+      res.status(201).json(recorded);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid data", errors: error.errors });
+      }
+      if (error instanceof ProductionError) {
+        return res.status(400).json({ message: error.message });
+      }
+      res.status(500).json({ message: "Failed to record output" });
+    }
+  });
+
+  app.get("/api/orders/:id/shipments", requireOrderPermission('view'), async (req, res) => {
+    try {
+      res.json(await storage.getShipmentsByOrder(req.params.id));
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch shipments" });
+    }
+  });
+
+  // Record pieces leaving the factory, for the whole order or a single size/colour cell
+  app.post("/api/orders/:id/shipments", requireOrderPermission('update'), async (req, res) => {
+    try {
+      if (isBuyerSide(req.stakeholder)) {
+        return res.status(403).json({ message: "Only the factory can record shipments" });
+      }
+      const order = await storage.getOrder(req.params.id);
+      if (!order) {
+        return res.status(404).json({ message: "Order not found" });
+      }
+
+      res.status(201).json(await recordShipment(order, shipmentSchema.parse(req.body), req.user!));
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid data", errors: error.errors });
+      }
+      if (error instanceof ProductionError) {
+        return res.status(400).json({ message: error.message });
+      }
+      res.status(500).json({ message: "Failed to record shipment" });
+    }
+  });
+
+  // Generate milestones for an order that has none yet, e.g. one created before TNA plans existed
+  app.post("/api/orders/:id/milestones", requireOrderPermission('update'), async (req, res) => {
+    try {
+      const { templateId } = generateMilestonesSchema.parse(req.body ?? {});
+      const order = await storage.getOrder(req.params.id);
+      if (!order) {
+        return res.status(404).json({ message: "Order not found" });
+      }
+      if ((await storage.getOrderMilestones(order.id)).length > 0) {
+        return res.status(409).json({ message: "This order already has a TNA plan" });
+      }
+
+      const template = await resolveTnaTemplate(templateId);
+      const milestones = await generateMilestones(order, template, req.stakeholder?.id);
+      queueDeliveryRiskAssessment();
+      res.status(201).json(milestones);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid data", errors: error.errors });
+      }
+      if (error instanceof TnaError) {
+        return res.status(400).json({ message: error.message });
+      }
+      res.status(500).json({ message: "Failed to generate milestones" });
+    }
+  });
+
+  // Reschedule, reassign or complete a milestone. A milestone's owner may mark it complete
+  // even without update access to the order.
+  app.patch("/api/milestones/:id", requireOrderPermission('view', orderOfMilestoneParam), async (req, res) => {
+    try {
+      const update = milestoneUpdateSchema.parse(req.body);
+      const milestone = await storage.getOrderMilestone(req.params.id);
+      if (!milestone) {
+        return res.status(404).json({ message: "Milestone not found" });
+      }
+
+      const isOwner = !!req.stakeholder && milestone.ownerStakeholderId === req.stakeholder.id;
+      const onlyCompletion = update.plannedDate === undefined && update.ownerStakeholderId === undefined;
+      if (!can(req.stakeholder, 'update', req.user!) && !(isOwner && onlyCompletion)) {
+        return res.status(403).json({ message: "Your access to this order does not allow this action (update)" });
+      }
+
+      const updated = await updateMilestone(milestone, update, req.user!);
+      queueDeliveryRiskAssessment();
+      res.json(updated);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid data", errors: error.errors });
+      }
+      if (error instanceof TnaError) {
+        return res.status(400).json({ message: error.message });
+      }
+      res.status(500).json({ message: "Failed to update milestone" });
+    }
+  });
+
   // Add update to order
-  app.post("/api/orders/:id/updates", async (req, res) => {
+  app.post("/api/orders/:id/updates", requireOrderPermission('update'), async (req, res) => {
     try {
+      // Author identity comes from the session, never from the request body
       const validatedData = insertUpdateSchema.parse({
-        ...req.body,
+        message: req.body.message,
         orderId: req.params.id,
+        authorId: req.user!.id,
+        authorName: req.user!.name,
+        authorRole: req.user!.role,
+        attachmentIds: req.body.attachmentIds,
       });
+      validatedData.attachmentIds = await validateAttachments(req.params.id, validatedData.attachmentIds ?? []);
       
       const update = await storage.createUpdate(validatedData);
       
-      // Send email notifications to stakeholders
+      // Send email notifications to stakeholders who follow updates
       const order = await storage.getOrder(req.params.id);
-      const stakeholders = await storage.getStakeholdersByOrder(req.params.id);
-      
-      if (order && stakeholders.length > 0) {
-        const stakeholderEmails = stakeholders.map(s => s.email);
-        await emailService.notifyStakeholders(
-          stakeholderEmails,
-          { id: order.id, buyerName: order.buyerName, styleNumber: order.styleNumber },
-          { type: 'update', message: update.message, authorName: update.authorName, authorRole: update.authorRole }
-        );
+      if (order) {
+        await notifyNewActivity(order, 'update', update, req.user!.email);
       }
+      queueDeliveryRiskAssessment();
       
-      res.status(201).json(update);
+      res.status(201).json(withAttachments(update, await storage.getMediaFilesByOrder(req.params.id)));
     } catch (error) {
       if (error instanceof z.ZodError) {
         return res.status(400).json({ message: "Invalid data", errors: error.errors });
       }
+      if (error instanceof AttachmentError) {
+        return res.status(400).json({ message: error.message });
+      }
       res.status(500).json({ message: "Failed to add update" });
     }
   });
 
   // Add comment to order
-  app.post("/api/orders/:id/comments", async (req, res) => {
+  app.post("/api/orders/:id/comments", requireOrderPermission('comment'), async (req, res) => {
     try {
+      // Author identity comes from the session, never from the request body
       const validatedData = insertCommentSchema.parse({
-        ...req.body,
+        message: req.body.message,
         orderId: req.params.id,
+        authorId: req.user!.id,
+        authorName: req.user!.name,
+        authorRole: req.user!.role,
+        parentId: req.body.parentId,
+        attachmentIds: req.body.attachmentIds,
       });
+      validatedData.attachmentIds = await validateAttachments(req.params.id, validatedData.attachmentIds ?? []);
+      if (validatedData.parentId) {
+        validatedData.parentId = await threadParentFor(req.params.id, validatedData.parentId);
+      }
       
       const comment = await storage.createComment(validatedData);
       
-      // Send email notifications to stakeholders
+      // Send email notifications to stakeholders who follow comments
       const order = await storage.getOrder(req.params.id);
-      const stakeholders = await storage.getStakeholdersByOrder(req.params.id);
-      
-      if (order && stakeholders.length > 0) {
-        const stakeholderEmails = stakeholders.map(s => s.email);
-        await emailService.notifyStakeholders(
-          stakeholderEmails,
-          { id: order.id, buyerName: order.buyerName, styleNumber: order.styleNumber },
-          { type: 'comment', message: comment.message, authorName: comment.authorName, authorRole: comment.authorRole }
-        );
+      if (order) {
+        await notifyNewActivity(order, 'comment', comment, req.user!.email);
       }
       
-      res.status(201).json(comment);
+      res.status(201).json(withAttachments(comment, await storage.getMediaFilesByOrder(req.params.id)));
     } catch (error) {
       if (error instanceof z.ZodError) {
         return res.status(400).json({ message: "Invalid data", errors: error.errors });
       }
+      if (error instanceof AttachmentError || error instanceof CommentThreadError) {
+        return res.status(400).json({ message: error.message });
+      }
       res.status(500).json({ message: "Failed to add comment" });
     }
   });
 
+  // Only the author may reword a comment; stakeholders' inboxes follow the edit, but no email is resent
+  app.patch("/api/comments/:id", requireOrderPermission('comment', orderOfCommentParam), async (req, res) => {
+    try {
+      const { message } = editCommentSchema.parse(req.body);
+      const comment = (await storage.getComment(req.params.id))!;
+
+      if (comment.deletedAt) {
+        return res.status(409).json({ message: "Deleted comments can't be edited" });
+      }
+      if (!comment.authorId || comment.authorId !== req.user!.id) {
+        return res.status(403).json({ message: "Only the author can edit this comment" });
+      }
+
+      const edited = message === comment.message
+        ? comment
+        : (await storage.editComment(comment.id, message, req.user!))!;
+      if (edited !== comment) {
+        await refreshCommentNotifications(edited);
+      }
+
+      res.json(withAttachments(edited, await storage.getMediaFilesByOrder(edited.orderId)));
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid data", errors: error.errors });
+      }
+      res.status(500).json({ message: "Failed to edit comment" });
+    }
+  });
+
+  // Earlier wordings of a comment, newest first
+  app.get("/api/comments/:id/revisions", requireOrderPermission('view', orderOfCommentParam), async (req, res) => {
+    try {
+      const comment = (await storage.getComment(req.params.id))!;
+      // What a deleted comment said stays visible to order admins only
+      if (comment.deletedAt && !can(req.stakeholder, 'manage_stakeholders', req.user)) {
+        return res.status(403).json({ message: "Only order admins can see deleted comments" });
+      }
+
+      res.json(await storage.getCommentRevisions(comment.id));
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch comment history" });
+    }
+  });
+
+  // Soft delete by the author or an order admin; replies stay in the thread
+  app.delete("/api/comments/:id", requireOrderPermission('comment', orderOfCommentParam), async (req, res) => {
+    try {
+      const comment = (await storage.getComment(req.params.id))!;
+
+      if (comment.authorId !== req.user!.id && !can(req.stakeholder, 'manage_stakeholders', req.user)) {
+        return res.status(403).json({ message: "Only the author or an order admin can delete this comment" });
+      }
+
+      const deleted = (await storage.deleteComment(comment.id, req.user!.name))!;
+      await refreshCommentNotifications(deleted);
+      res.json({ success: true });
+    } catch (error) {
+      res.status(500).json({ message: "Failed to delete comment" });
+    }
+  });
+
   // Stakeholder management routes
-  app.get("/api/orders/:id/stakeholders", async (req, res) => {
+  app.get("/api/orders/:id/stakeholders", requireOrderPermission('view'), async (req, res) => {
     try {
       const stakeholders = await storage.getStakeholdersByOrder(req.params.id);
-      res.json(stakeholders);
+      res.json(stakeholders.map(withInvitationState));
     } catch (error) {
       res.status(500).json({ message: "Failed to fetch stakeholders" });
     }
   });
 
-  app.post("/api/orders/:id/stakeholders", async (req, res) => {
+  app.post("/api/orders/:id/stakeholders", requireOrderPermission('manage_stakeholders'), async (req, res) => {
     try {
       const validatedData = insertStakeholderSchema.parse({
         ...req.body,
         orderId: req.params.id,
       });
       
-      const stakeholder = await storage.createStakeholder(validatedData);
-      
-      // Send invitation email
       const order = await storage.getOrder(req.params.id);
-      if (order) {
-        await emailService.sendStakeholderInvitation(
-          stakeholder.email,
-          stakeholder.name,
-          { id: order.id, buyerName: order.buyerName, styleNumber: order.styleNumber },
-          req.body.inviterName || "System Admin",
-          stakeholder.role,
-          stakeholder.permissions
-        );
+      if (!order) {
+        return res.status(404).json({ message: "Order not found" });
       }
+
+      const stakeholder = await storage.createStakeholder(validatedData);
+      
+      // Send invitation email with a single-use magic link
+      const invited = await issueInvitation(stakeholder, order, req.user!.name);
       
-      res.status(201).json(stakeholder);
+      res.status(201).json(withInvitationState(invited));
     } catch (error) {
       if (error instanceof z.ZodError) {
         return res.status(400).json({ message: "Invalid data", errors: error.errors });
@@ -175,15 +656,15 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Bulk invite stakeholders
-  app.post("/api/orders/:id/stakeholders/bulk-invite", async (req, res) => {
+  app.post("/api/orders/:id/stakeholders/bulk-invite", requireOrderPermission('manage_stakeholders'), async (req, res) => {
     try {
-      const { emailList, defaultRole, defaultPermissions, message, inviterName } = req.body;
+      const { emailList, defaultRole, defaultPermissions, message } = bulkInviteSchema.parse(req.body);
       
       // Parse email list (comma or newline separated)
       const emails = emailList
         .split(/[,\n]/)
-        .map((email: string) => email.trim())
-        .filter((email: string) => email.length > 0);
+        .map(email => email.trim())
+        .filter(email => email.length > 0);
       
       if (emails.length === 0) {
         return res.status(400).json({ message: "No valid emails provided" });
@@ -209,7 +690,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
 
           // Check if stakeholder already exists
           const existingStakeholders = await storage.getStakeholdersByOrder(req.params.id);
-          const exists = existingStakeholders.some(s => s.email === email);
+          const exists = existingStakeholders.some(s => s.email.toLowerCase() === email.toLowerCase());
           
           if (exists) {
             results.push({ email, status: 'exists', error: 'Already a stakeholder' });
@@ -233,18 +714,10 @@ export async function registerRoutes(app: Express): Promise<Server> {
           addedCount++;
 
           // Send invitation email with custom message
-          await emailService.sendStakeholderInvitation(
-            stakeholder.email,
-            stakeholder.name,
-            { id: order.id, buyerName: order.buyerName, styleNumber: order.styleNumber },
-            inviterName || "System Admin",
-            stakeholder.role,
-            stakeholder.permissions,
-            message
-          );
+          const invited = await issueInvitation(stakeholder, order, req.user!.name, message);
           successCount++;
 
-          results.push({ email, status: 'success', stakeholder });
+          results.push({ email, status: 'success', stakeholder: withInvitationState(invited) });
         } catch (error) {
           results.push({ email, status: 'error', error: error instanceof Error ? error.message : 'Unknown error' });
         }
@@ -257,11 +730,14 @@ export async function registerRoutes(app: Express): Promise<Server> {
         results
       });
     } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid data", errors: error.errors });
+      }
       res.status(500).json({ message: "Failed to process bulk invitations" });
     }
   });
 
-  app.delete("/api/stakeholders/:id", async (req, res) => {
+  app.delete("/api/stakeholders/:id", requireOrderPermission('manage_stakeholders', orderOfStakeholderParam), async (req, res) => {
     try {
       const deleted = await storage.deleteStakeholder(req.params.id);
       if (!deleted) {
@@ -273,9 +749,9 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.patch("/api/stakeholders/:id/permissions", async (req, res) => {
+  app.patch("/api/stakeholders/:id/permissions", requireOrderPermission('manage_stakeholders', orderOfStakeholderParam), async (req, res) => {
     try {
-      const { permissions } = req.body;
+      const permissions = insertStakeholderSchema.shape.permissions.parse(req.body.permissions);
       const stakeholder = await storage.updateStakeholderPermissions(req.params.id, permissions);
       
       if (!stakeholder) {
@@ -284,130 +760,802 @@ export async function registerRoutes(app: Express): Promise<Server> {
 
       res.json(stakeholder);
     } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid data", errors: error.errors });
+      }
       res.status(500).json({ message: "Failed to update stakeholder permissions" });
     }
   });
 
-  // Notifications routes
-  app.get("/api/notifications", async (req, res) => {
+  // Stakeholders choose which order events they are emailed about; managers can change it for them
+  app.patch("/api/stakeholders/:id/notifications", requireOrderPermission('view', orderOfStakeholderParam), async (req, res) => {
     try {
-      // For demo purposes, return mock notifications
-      // In production, this would fetch from database
-      const notifications = [
-        {
-          id: "notif-1",
-          type: "email",
-          title: "New order inquiry from Fashion Forward Inc.",
-          message: "Hello, we're interested in placing a new order for our Spring collection. Could we schedule a call to discuss details?",
-          from: "orders@fashionforward.com",
-          to: "admin@garmentfactory.com", 
-          orderId: "ORD-001",
-          isRead: false,
-          createdAt: new Date().toISOString(),
-          emailId: "email-1"
-        },
-        {
-          id: "notif-2",
-          type: "order_update",
-          title: "Order ORD-001 status updated",
-          message: "Order status has been updated to 'In Production'. Estimated completion date: March 15, 2024.",
-          from: "system@garmentfactory.com",
-          to: "orders@fashionforward.com",
-          orderId: "ORD-001", 
-          isRead: true,
-          createdAt: new Date(Date.now() - 86400000).toISOString()
-        }
-      ];
-      res.json(notifications);
+      if (req.stakeholder?.id !== req.params.id && !can(req.stakeholder, 'manage_stakeholders', req.user!)) {
+        return res.status(403).json({ message: "You can only change your own notification preferences" });
+      }
+
+      const changes = notificationPreferencesSchema.parse(req.body);
+      const existing = await storage.getStakeholder(req.params.id);
+      if (!existing) {
+        return res.status(404).json({ message: "Stakeholder not found" });
+      }
+
+      const stakeholder = await storage.updateStakeholder(req.params.id, {
+        notificationPreferences: { ...existing.notificationPreferences, ...changes },
+      });
+      res.json(stakeholder);
     } catch (error) {
-      res.status(500).json({ message: "Failed to fetch notifications" });
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid data", errors: error.errors });
+      }
+      res.status(500).json({ message: "Failed to update notification preferences" });
     }
   });
 
-  app.patch("/api/notifications/:id/read", async (req, res) => {
+  app.post("/api/stakeholders/:id/invitation/resend", requireOrderPermission('manage_stakeholders', orderOfStakeholderParam), async (req, res) => {
     try {
-      // In production, update the notification read status in database
-      res.json({ success: true });
+      const stakeholder = await storage.getStakeholder(req.params.id);
+      const order = stakeholder && await storage.getOrder(stakeholder.orderId);
+      if (!stakeholder || !order) {
+        return res.status(404).json({ message: "Stakeholder not found" });
+      }
+      if (stakeholder.invitationStatus === 'accepted') {
+        return res.status(409).json({ message: "Invitation has already been accepted" });
+      }
+
+      const invited = await issueInvitation(stakeholder, order, req.user!.name);
+      res.json(withInvitationState(invited));
     } catch (error) {
-      res.status(500).json({ message: "Failed to mark notification as read" });
+      res.status(500).json({ message: "Failed to resend invitation" });
     }
   });
 
-  app.post("/api/notifications/:id/reply", async (req, res) => {
+  app.post("/api/stakeholders/:id/invitation/revoke", requireOrderPermission('manage_stakeholders', orderOfStakeholderParam), async (req, res) => {
     try {
-      const { subject, message, to } = req.body;
-      
-      // Send reply email using email service
-      await emailService.sendNotificationReply(to, subject, message);
-      
-      res.json({ success: true });
-    } catch (error) {
-      res.status(500).json({ message: "Failed to send reply" });
-    }
+      const stakeholder = await storage.getStakeholder(req.params.id);
+      if (!stakeholder) {
+        return res.status(404).json({ message: "Stakeholder not found" });
+      }
+
+      const revoked = await revokeInvitation(stakeholder);
+      res.json(revoked);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to revoke invitation" });
+    }
   });
 
-  // Media routes
-  app.get("/api/media", async (req, res) => {
+  // Invitation acceptance (public: the token itself is the credential)
+  app.get("/api/invitations/:token", async (req, res) => {
     try {
-      // For demo purposes, return mock media files
-      // In production, this would fetch from database
-      const mediaFiles = [
-        {
-          id: "media-1",
-          orderId: "ORD-001",
-          filename: "product_photo_1.jpg",
-          originalName: "fashion_forward_sample_1.jpg",
-          size: 2457600,
-          mimeType: "image/jpeg",
-          url: "/uploads/product_photo_1.jpg",
-          uploadedBy: "admin@garmentfactory.com",
-          uploadedAt: new Date().toISOString(),
-          category: "product_photos",
-          description: "Sample product photos for Spring collection"
-        },
-        {
-          id: "media-2", 
-          orderId: "ORD-001",
-          filename: "tech_spec.pdf",
-          originalName: "technical_specifications.pdf",
-          size: 1024000,
-          mimeType: "application/pdf",
-          url: "/uploads/tech_spec.pdf",
-          uploadedBy: "designer@garmentfactory.com",
-          uploadedAt: new Date(Date.now() - 3600000).toISOString(),
-          category: "specifications",
-          description: "Technical specifications and measurements"
+      const invitation = await lookupInvitation(req.params.token);
+      if (invitation.status !== "valid") {
+        return res.status(invitation.status === "invalid" ? 404 : 410).json({
+          status: invitation.status,
+          message: `Invitation is ${invitation.status}`,
+        });
+      }
+
+      const { stakeholder, order } = invitation;
+      const existingUser = await storage.getUserByEmail(stakeholder.email);
+      res.json({
+        status: invitation.status,
+        order: { id: order.id, buyerName: order.buyerName, styleNumber: order.styleNumber },
+        name: stakeholder.name,
+        email: stakeholder.email,
+        role: stakeholder.role,
+        permissions: stakeholder.permissions,
+        hasAccount: !!existingUser,
+        signedIn: !!existingUser && req.user?.id === existingUser.id,
+      });
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch invitation" });
+    }
+  });
+
+  app.post("/api/invitations/:token/accept", async (req, res) => {
+    try {
+      const data = acceptInvitationSchema.parse(req.body);
+      const invitation = await lookupInvitation(req.params.token);
+      if (invitation.status !== "valid") {
+        return res.status(invitation.status === "invalid" ? 404 : 410).json({
+          status: invitation.status,
+          message: `Invitation is ${invitation.status}`,
+        });
+      }
+
+      const { token, stakeholder, order } = invitation;
+      let user = await storage.getUserByEmail(stakeholder.email);
+      if (!user && !data.password) {
+        return res.status(400).json({ message: "Choose a password to create your account" });
+      }
+      // Anyone can register an address, so an existing account is only linked for its owner
+      if (user && req.user?.id !== user.id && !(data.password && await verifyPassword(data.password, user.passwordHash))) {
+        return res.status(401).json({ message: `Sign in as ${stakeholder.email} or enter its password to accept` });
+      }
+      // Only one accept can claim the token; a concurrent one finds it used
+      if (!await storage.markInvitationTokenUsed(token.id)) {
+        return res.status(410).json({ status: "used", message: "Invitation is used" });
+      }
+      if (!user) {
+        user = await storage.createUser({
+          email: stakeholder.email,
+          name: data.name || stakeholder.name,
+          passwordHash: await hashPassword(data.password!),
+          role: ['buyer', 'buyer_employee'].includes(stakeholder.role) ? 'buyer' : 'manufacturer',
+        });
+      }
+
+      await storage.updateStakeholder(stakeholder.id, {
+        userId: user.id,
+        invitationStatus: "accepted",
+        acceptedAt: new Date(),
+      });
+
+      await startSession(req, user);
+      res.json({ user: toPublicUser(user), orderId: order.id });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid data", errors: error.errors });
+      }
+      res.status(500).json({ message: "Failed to accept invitation" });
+    }
+  });
+
+  // Notifications routes
+  app.get("/api/notifications", requireAuth, async (req, res) => {
+    try {
+      const { type, orderId, unread, limit, offset } = notificationQuerySchema.parse(req.query);
+      const filter = { type, orderId, unreadOnly: unread };
+
+      const [items, total] = await Promise.all([
+        storage.getNotifications(req.user!.email, filter, limit, offset),
+        storage.countNotifications(req.user!.email, filter),
+      ]);
+      res.json({ items, total, limit, offset });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid data", errors: error.errors });
+      }
+      res.status(500).json({ message: "Failed to fetch notifications" });
+    }
+  });
+
+  app.get("/api/notifications/unread-count", requireAuth, async (req, res) => {
+    try {
+      const count = await storage.countNotifications(req.user!.email, { unreadOnly: true });
+      res.json({ count });
+    } catch (error) {
+      res.status(500).json({ message: "Failed to count notifications" });
+    }
+  });
+
+  app.post("/api/notifications/read-all", requireAuth, async (req, res) => {
+    try {
+      const { type, orderId } = notificationQuerySchema.pick({ type: true, orderId: true }).parse(req.body ?? {});
+      const updated = await storage.markAllNotificationsRead(req.user!.email, { type, orderId });
+      res.json({ updated });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid data", errors: error.errors });
+      }
+      res.status(500).json({ message: "Failed to mark notifications as read" });
+    }
+  });
+
+  app.patch("/api/notifications/:id/read", requireAuth, async (req, res) => {
+    try {
+      // Someone else's notification is reported as missing rather than forbidden
+      const notification = await storage.getNotification(req.params.id);
+      if (!notification || notification.recipientEmail !== req.user!.email) {
+        return res.status(404).json({ message: "Notification not found" });
+      }
+
+      res.json(await storage.markNotificationRead(notification.id));
+    } catch (error) {
+      res.status(500).json({ message: "Failed to mark notification as read" });
+    }
+  });
+
+  app.post("/api/notifications/:id/reply", requireAuth, async (req, res) => {
+    try {
+      const { subject, message, to } = notificationReplySchema.parse(req.body);
+
+      const notification = await storage.getNotification(req.params.id);
+      if (!notification || notification.recipientEmail !== req.user!.email) {
+        return res.status(404).json({ message: "Notification not found" });
+      }
+      if (!notification.orderId) {
+        return res.status(400).json({ message: "Only notifications about an order can be replied to" });
+      }
+      const stakeholder = await resolveStakeholder(req.user!, notification.orderId);
+      if (!can(stakeholder, "comment", req.user!)) {
+        return res.status(403).json({ message: "You don't have permission to comment on this order" });
+      }
+      // Replies only go to the order's stakeholders, so the route can't be used to mail anyone else
+      const recipients = await storage.getStakeholdersByOrder(notification.orderId);
+      const recipient = recipients.find(s => s.invitationStatus !== "revoked" && s.email.toLowerCase() === to.toLowerCase());
+      if (!recipient) {
+        return res.status(400).json({ message: `${to} is not a stakeholder on order ${notification.orderId}` });
+      }
+
+      await emailService.sendNotificationReply(recipient.email, subject, message);
+
+      res.json({ success: true });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid data", errors: error.errors });
+      }
+      res.status(500).json({ message: "Failed to send reply" });
+    }
+  });
+
+  // Inbound email: the mail provider posts each raw RFC 822 reply here
+  app.post(
+    "/api/inbound-email",
+    express.raw({ type: ["message/rfc822", "text/plain", "application/octet-stream"], limit: "25mb" }),
+    async (req, res) => {
+      try {
+        if (!isAuthorizedWebhook(req.get("x-inbound-secret"))) {
+          return res.status(401).json({ message: "Invalid inbound email secret" });
+        }
+        if (!Buffer.isBuffer(req.body) || req.body.length === 0) {
+          return res.status(400).json({ message: "Expected a raw MIME message body" });
         }
-      ];
-      res.json(mediaFiles);
+
+        const result = await ingestEmail(req.body);
+        const statusCode = result.status === "accepted" ? 201 : result.status === "duplicate" ? 200 : 422;
+        res.status(statusCode).json(result);
+      } catch (error) {
+        res.status(500).json({ message: "Failed to process inbound email" });
+      }
+    }
+  );
+
+  // Email delivery status for platform admins
+  app.get("/api/admin/email-outbox", requireAdmin, async (req, res) => {
+    try {
+      const { status, limit, offset } = outboxQuerySchema.parse(req.query);
+      const [items, counts] = await Promise.all([
+        storage.getOutboxEmails(status, limit, offset),
+        storage.countOutboxEmails(),
+      ]);
+      res.json({ items, counts, limit, offset });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid data", errors: error.errors });
+      }
+      res.status(500).json({ message: "Failed to fetch email outbox" });
+    }
+  });
+
+  app.post("/api/admin/email-outbox/:id/retry", requireAdmin, async (req, res) => {
+    try {
+      const email = await retryEmail(req.params.id);
+      if (!email) {
+        return res.status(404).json({ message: "Email not found" });
+      }
+
+      res.json(email);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to retry email" });
+    }
+  });
+
+  // TNA templates, for picking one when creating an order
+  app.get("/api/tna-templates", requireAuth, async (req, res) => {
+    try {
+      res.json(await listTnaTemplates());
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch TNA templates" });
+    }
+  });
+
+  // Custom TNA templates are managed by admins; the built-in standard template can't be changed
+  app.post("/api/admin/tna-templates", requireAdmin, async (req, res) => {
+    try {
+      const template = tnaTemplateSchema.parse(req.body);
+      res.status(201).json(await storage.createTnaTemplate(template, req.user!.id));
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid data", errors: error.errors });
+      }
+      res.status(500).json({ message: "Failed to save TNA template" });
+    }
+  });
+
+  app.put("/api/admin/tna-templates/:id", requireAdmin, async (req, res) => {
+    try {
+      const template = await storage.updateTnaTemplate(req.params.id, tnaTemplateSchema.parse(req.body), req.user!.id);
+      if (!template) {
+        return res.status(404).json({ message: "TNA template not found" });
+      }
+
+      res.json(template);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid data", errors: error.errors });
+      }
+      res.status(500).json({ message: "Failed to save TNA template" });
+    }
+  });
+
+  // Orders keep the milestones a deleted template generated
+  app.delete("/api/admin/tna-templates/:id", requireAdmin, async (req, res) => {
+    try {
+      if (!await storage.deleteTnaTemplate(req.params.id)) {
+        return res.status(404).json({ message: "TNA template not found" });
+      }
+
+      res.status(204).send();
+    } catch (error) {
+      res.status(500).json({ message: "Failed to delete TNA template" });
+    }
+  });
+
+  // Email templates: admins can reword any template and preview it with sample data
+  app.get("/api/admin/email-templates", requireAdmin, async (req, res) => {
+    try {
+      res.json(await listTemplates());
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch email templates" });
+    }
+  });
+
+  app.get("/api/admin/email-templates/:name", requireAdmin, async (req, res) => {
+    try {
+      const template = (await listTemplates()).find(t => t.name === req.params.name);
+      if (!template) {
+        return res.status(404).json({ message: "Email template not found" });
+      }
+
+      res.json(template);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch email template" });
+    }
+  });
+
+  app.put("/api/admin/email-templates/:name", requireAdmin, async (req, res) => {
+    try {
+      const { name } = req.params;
+      if (!isEmailTemplateName(name)) {
+        return res.status(404).json({ message: "Email template not found" });
+      }
+
+      const { subject, body } = emailTemplateSchema.parse(req.body);
+      // Rendering the sample catches malformed templates before they reach real emails
+      await renderTemplateSource({ subject, body }, DEFAULT_TEMPLATES[name].sampleData);
+
+      res.json(await storage.saveEmailTemplate(name, subject, body, req.user!.id));
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid data", errors: error.errors });
+      }
+      if (error instanceof TemplateError) {
+        return res.status(400).json({ message: error.message });
+      }
+      res.status(500).json({ message: "Failed to save email template" });
+    }
+  });
+
+  // Resets a template to its built-in default
+  app.delete("/api/admin/email-templates/:name", requireAdmin, async (req, res) => {
+    try {
+      if (!isEmailTemplateName(req.params.name)) {
+        return res.status(404).json({ message: "Email template not found" });
+      }
+
+      await storage.deleteEmailTemplate(req.params.name);
+      res.status(204).send();
+    } catch (error) {
+      res.status(500).json({ message: "Failed to reset email template" });
+    }
+  });
+
+  // Renders unsaved edits (or the current template) with the template's sample data
+  app.post("/api/admin/email-templates/:name/preview", requireAdmin, async (req, res) => {
+    try {
+      const { name } = req.params;
+      if (!isEmailTemplateName(name)) {
+        return res.status(404).json({ message: "Email template not found" });
+      }
+
+      const edits = emailTemplatePreviewSchema.parse(req.body ?? {});
+      const source = { ...(await getTemplateSource(name)), ...edits };
+
+      res.json(await renderTemplateSource(source, DEFAULT_TEMPLATES[name].sampleData));
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid data", errors: error.errors });
+      }
+      if (error instanceof TemplateError) {
+        return res.status(400).json({ message: error.message });
+      }
+      res.status(500).json({ message: "Failed to preview email template" });
+    }
+  });
+
+  app.get("/api/admin/email-branding", requireAdmin, async (req, res) => {
+    try {
+      res.json(await getBranding());
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch email branding" });
+    }
+  });
+
+  app.put("/api/admin/email-branding", requireAdmin, async (req, res) => {
+    try {
+      const branding = emailBrandingSchema.parse(req.body);
+      res.json(await storage.saveEmailBranding(branding));
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid data", errors: error.errors });
+      }
+      res.status(500).json({ message: "Failed to save email branding" });
+    }
+  });
+
+  // Stored media that the integrity sweep found missing or corrupt, with the files affected
+  app.get("/api/admin/media-integrity", requireAdmin, async (req, res) => {
+    try {
+      const damaged = await storage.getDamagedMediaBlobs();
+      const blobs = await Promise.all(damaged.map(async (blob) => ({
+        ...blob,
+        files: (await storage.getMediaFilesByHash(blob.hash)).map(file => ({
+          id: file.id,
+          orderId: file.orderId,
+          originalName: file.originalName,
+          uploadedBy: file.uploadedBy,
+          uploadedAt: file.uploadedAt,
+        })),
+      })));
+      res.json({ lastRun: getLastIntegrityReport() ?? null, damaged: blobs });
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch media integrity report" });
+    }
+  });
+
+  app.post("/api/admin/media-integrity/run", requireAdmin, async (req, res) => {
+    queueMediaIntegrityCheck();
+    res.status(202).json({ success: true });
+  });
+
+  // Re-scores delivery risk now instead of at the next hourly run
+  app.post("/api/admin/delivery-risk/run", requireAdmin, async (req, res) => {
+    queueDeliveryRiskAssessment();
+    res.status(202).json({ success: true });
+  });
+
+  // Media: files attached to orders, listed across every order the caller can see
+  app.get("/api/media", requireAuth, async (req, res) => {
+    try {
+      const orderIds = await visibleOrderIds(req.user!);
+      const requestedOrderId = typeof req.query.orderId === "string" ? req.query.orderId : undefined;
+      // Superseded versions of documents are only listed on request
+      const allVersions = req.query.allVersions === "true";
+
+      const files = (await Promise.all(
+        orderIds
+          .filter(orderId => !requestedOrderId || orderId === requestedOrderId)
+          .map(orderId => storage.getMediaFilesByOrder(orderId))
+      ))
+        .flat()
+        .filter(file => allVersions || file.isLatest)
+        .sort((a, b) => new Date(b.uploadedAt!).getTime() - new Date(a.uploadedAt!).getTime());
+
+      res.json(files.map(withMediaUrl));
     } catch (error) {
       res.status(500).json({ message: "Failed to fetch media files" });
     }
   });
 
-  app.post("/api/media/upload", async (req, res) => {
+  // Every current file on an order as one ZIP, optionally limited to a category
+  app.get("/api/orders/:id/media/archive", requireOrderPermission('view'), async (req, res) => {
     try {
-      // In production, handle file upload using multer or similar
-      // For demo, return success response
-      res.json({ 
-        success: true,
-        message: "Files uploaded successfully",
-        files: []
+      const { category } = mediaArchiveQuerySchema.parse(req.query);
+      const order = await storage.getOrder(req.params.id);
+      if (!order) {
+        return res.status(404).json({ message: "Order not found" });
+      }
+
+      const files = (await storage.getMediaFilesByOrder(order.id))
+        .filter(file => file.isLatest && (!category || file.category === category))
+        .sort((a, b) => a.category.localeCompare(b.category) || a.originalName.localeCompare(b.originalName));
+      if (files.length === 0) {
+        return res.status(404).json({ message: "There are no files to download" });
+      }
+
+      await streamMediaArchive(res, files, archiveFilename(order, category));
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid data", errors: error.errors });
+      }
+      // Once the ZIP has started streaming the only way to signal failure is to cut it short
+      if (res.headersSent) {
+        return res.destroy();
+      }
+      res.status(500).json({ message: "Failed to build media archive" });
+    }
+  });
+
+  app.post(
+    "/api/media/upload",
+    requireAuth,
+    receiveUploads,
+    requireOrderPermission('comment', (req) => req.body?.orderId),
+    async (req, res) => {
+      try {
+        const { orderId, category, description, revisionOf, changeNote } = mediaUploadSchema.parse(req.body);
+        const uploads = (req.files as Express.Multer.File[] | undefined) ?? [];
+        if (uploads.length === 0) {
+          return res.status(400).json({ message: "No files were uploaded" });
+        }
+
+        const order = await storage.getOrder(orderId);
+        if (!order) {
+          return res.status(404).json({ message: "Order not found" });
+        }
+
+        // A revision continues an existing document's version chain and keeps its category
+        const revised = revisionOf ? await storage.getMediaFile(revisionOf) : undefined;
+        if (revisionOf) {
+          if (!revised || revised.orderId !== orderId) {
+            return res.status(404).json({ message: "The document being revised was not found on this order" });
+          }
+          if (uploads.length !== 1) {
+            return res.status(400).json({ message: "Upload exactly one file as a new version" });
+          }
+        }
+
+        const files = [];
+        for (const upload of uploads) {
+          files.push(await saveMediaFile(upload.buffer, upload.originalname, upload.mimetype, (stored) => {
+            const file = {
+              orderId,
+              filename: stored.filename,
+              contentHash: stored.contentHash,
+              originalName: upload.originalname,
+              size: stored.size,
+              mimeType: upload.mimetype,
+              category: revised ? revised.category as typeof category : category,
+              description: description ?? revised?.description ?? undefined,
+              changeNote,
+              uploadedBy: req.user!.email,
+            };
+            return revised
+              ? storage.createMediaFileVersion(revised.documentId ?? revised.id, file)
+              : storage.createMediaFile(file);
+          }));
+        }
+
+        // A new version takes over and is announced once it passes the malware scan
+        queueMediaScans();
+
+        // Earlier uploads of the same bytes, limited to orders the uploader can see, so the client
+        // can point out that the file already exists
+        const orderIds = await visibleOrderIds(req.user!);
+        const withDuplicates = await Promise.all(files.map(async (file) => ({
+          ...withMediaUrl(file),
+          duplicates: (await storage.getMediaFilesByHash(file.contentHash!))
+            .filter(other => other.id !== file.id && orderIds.includes(other.orderId))
+            .map(other => ({ id: other.id, orderId: other.orderId, originalName: other.originalName })),
+        })));
+
+        res.status(201).json({
+          success: true,
+          message: `${files.length} file${files.length === 1 ? "" : "s"} uploaded`,
+          files: withDuplicates,
+        });
+      } catch (error) {
+        if (error instanceof z.ZodError) {
+          return res.status(400).json({ message: "Invalid data", errors: error.errors });
+        }
+        res.status(500).json({ message: "Failed to upload files" });
+      }
+    }
+  );
+
+  // The full version chain of the document a file belongs to, newest first
+  app.get("/api/media/:id/versions", requireOrderPermission('view', orderOfMediaParam), async (req, res) => {
+    try {
+      const file = (await storage.getMediaFile(req.params.id))!;
+      const versions = await storage.getMediaFileVersions(file.documentId ?? file.id);
+      res.json(versions.map(withMediaUrl));
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch file versions" });
+    }
+  });
+
+  // Streams the file itself, honouring single byte-range requests so large files can be resumed
+  app.get("/api/media/:id/content", requireOrderPermission('view', orderOfMediaParam), async (req, res) => {
+    try {
+      const file = (await storage.getMediaFile(req.params.id))!;
+      // Quarantined files are never served, whatever the verdict, nor photos still carrying their EXIF data
+      if (!isServable(file)) {
+        return res.status(409).json({ message: quarantineMessage(file), scanStatus: file.scanStatus, previewStatus: file.previewStatus });
+      }
+
+      res.setHeader("Accept-Ranges", "bytes");
+      const ranges = req.range(file.size);
+      if (ranges === -1) {
+        res.setHeader("Content-Range", `bytes */${file.size}`);
+        return res.status(416).json({ message: "Requested range not satisfiable" });
+      }
+
+      // Malformed or multi-part range requests get the whole file
+      const range = Array.isArray(ranges) && ranges.type === "bytes" && ranges.length === 1 ? ranges[0] : undefined;
+      const stream = await getMediaStorage().get(file.filename, range);
+
+      res.setHeader("Content-Type", file.mimeType);
+      res.setHeader("Content-Disposition", contentDisposition(file, req.query.download !== undefined));
+      res.setHeader("X-Content-Type-Options", "nosniff");
+      if (range) {
+        res.status(206);
+        res.setHeader("Content-Range", `bytes ${range.start}-${range.end}/${file.size}`);
+        res.setHeader("Content-Length", range.end - range.start + 1);
+      } else {
+        res.setHeader("Content-Length", file.size);
+      }
+
+      stream.on("error", (error) => {
+        console.error(`Failed to stream media ${file.id}:`, error);
+        res.destroy(error);
+      });
+      stream.pipe(res);
+    } catch (error) {
+      if (error instanceof MediaObjectNotFoundError) {
+        return res.status(404).json({ message: "File content not found" });
+      }
+      res.status(500).json({ message: "Failed to fetch file" });
+    }
+  });
+
+  // Thumbnails are immutable once generated, so browsers may cache them
+  app.get("/api/media/:id/thumbnails/:size", requireOrderPermission('view', orderOfMediaParam), async (req, res) => {
+    try {
+      const file = (await storage.getMediaFile(req.params.id))!;
+      const key = file.thumbnails?.[req.params.size as ThumbnailSize];
+      if (!key) {
+        return res.status(404).json({ message: "Thumbnail not found" });
+      }
+
+      const stream = await getMediaStorage().get(key);
+      res.setHeader("Content-Type", "image/webp");
+      res.setHeader("Cache-Control", "private, max-age=86400");
+      stream.on("error", (error) => {
+        console.error(`Failed to stream thumbnail for media ${file.id}:`, error);
+        res.destroy(error);
       });
+      stream.pipe(res);
     } catch (error) {
-      res.status(500).json({ message: "Failed to upload files" });
+      if (error instanceof MediaObjectNotFoundError) {
+        return res.status(404).json({ message: "Thumbnail not found" });
+      }
+      res.status(500).json({ message: "Failed to fetch thumbnail" });
     }
   });
 
-  app.delete("/api/media/:id", async (req, res) => {
+  app.delete("/api/media/:id", requireOrderPermission('comment', orderOfMediaParam), async (req, res) => {
     try {
-      // In production, delete file from storage and database
+      const file = (await storage.getMediaFile(req.params.id))!;
+
+      // Anyone who can comment may remove their own uploads; other people's files need update access
+      if (file.uploadedBy !== req.user!.email && !can(req.stakeholder, 'update', req.user)) {
+        return res.status(403).json({ message: "Only the uploader or an order manager can delete this file" });
+      }
+
+      await storage.deleteMediaFile(file.id);
+      try {
+        await releaseStoredMedia(file);
+      } catch (error) {
+        // The record is gone, so the file is unreachable; an orphaned object only costs space
+        console.error(`Failed to delete stored object for media ${file.id}:`, error);
+      }
+
       res.json({ success: true });
     } catch (error) {
       res.status(500).json({ message: "Failed to delete file" });
     }
   });
 
+  // Markup on a photo: pins, boxes and arrows, each with its own comment thread
+  app.get("/api/media/:id/annotations", requireOrderPermission('view', orderOfMediaParam), async (req, res) => {
+    try {
+      const annotations = await storage.getAnnotationsByMediaFile(req.params.id);
+      res.json(annotations.map(annotation => ({ ...annotation, comments: annotation.comments.map(withCommentState) })));
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch annotations" });
+    }
+  });
+
+  app.post("/api/media/:id/annotations", requireOrderPermission('comment', orderOfMediaParam), async (req, res) => {
+    try {
+      const { shape, message } = createAnnotationSchema.parse(req.body);
+      const file = (await storage.getMediaFile(req.params.id))!;
+      if (!file.mimeType.startsWith("image/")) {
+        return res.status(400).json({ message: "Only images can be annotated" });
+      }
+
+      // Author identity comes from the session, never from the request body
+      const annotation = await storage.createAnnotation(
+        {
+          mediaFileId: file.id,
+          orderId: file.orderId,
+          version: file.version,
+          shape,
+          authorId: req.user!.id,
+          authorName: req.user!.name,
+        },
+        insertCommentSchema.parse({
+          message,
+          orderId: file.orderId,
+          authorId: req.user!.id,
+          authorName: req.user!.name,
+          authorRole: req.user!.role,
+        })
+      );
+
+      const order = await storage.getOrder(file.orderId);
+      if (order) {
+        await notifyAnnotationComment(order, file, annotation.comments[0], req.user!.email);
+      }
+
+      res.status(201).json(annotation);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid data", errors: error.errors });
+      }
+      res.status(500).json({ message: "Failed to add annotation" });
+    }
+  });
+
+  // Reply in an annotation's thread
+  app.post("/api/annotations/:id/comments", requireOrderPermission('comment', orderOfAnnotationParam), async (req, res) => {
+    try {
+      const annotation = (await storage.getAnnotation(req.params.id))!;
+      const validatedData = insertCommentSchema.parse({
+        message: req.body.message,
+        orderId: annotation.orderId,
+        authorId: req.user!.id,
+        authorName: req.user!.name,
+        authorRole: req.user!.role,
+        annotationId: annotation.id,
+      });
+
+      const comment = await storage.createComment(validatedData);
+
+      const [order, file] = await Promise.all([
+        storage.getOrder(annotation.orderId),
+        storage.getMediaFile(annotation.mediaFileId),
+      ]);
+      if (order && file) {
+        await notifyAnnotationComment(order, file, comment, req.user!.email);
+      }
+
+      res.status(201).json(comment);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid data", errors: error.errors });
+      }
+      res.status(500).json({ message: "Failed to add comment" });
+    }
+  });
+
+  app.delete("/api/annotations/:id", requireOrderPermission('comment', orderOfAnnotationParam), async (req, res) => {
+    try {
+      const annotation = (await storage.getAnnotation(req.params.id))!;
+
+      // Same rule as files: authors remove their own markup, order managers anyone's
+      if (annotation.authorId !== req.user!.id && !can(req.stakeholder, 'update', req.user)) {
+        return res.status(403).json({ message: "Only the author or an order manager can delete this annotation" });
+      }
+
+      await storage.deleteAnnotation(annotation.id);
+      res.json({ success: true });
+    } catch (error) {
+      res.status(500).json({ message: "Failed to delete annotation" });
+    }
+  });
+
   const httpServer = createServer(app);
   return httpServer;
 }
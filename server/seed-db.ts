@@ -0,0 +1,17 @@
+import { storage } from "./storage";
+import { database, runMigrations } from "./db";
+import { seed } from "./seed";
+
+// `npm run db:seed` — migrates and seeds the database named by DATABASE_URL
+(async () => {
+  if (!database) {
+    throw new Error("DATABASE_URL, ensure the database is provisioned");
+  }
+  await runMigrations(database.db);
+  await seed(storage);
+  await database.pool.end();
+  console.log("Seeded demo data");
+})().catch((error) => {
+  console.error("Failed to seed database:", error);
+  process.exit(1);
+});
@@ -0,0 +1,163 @@
+import type { IStorage } from "./storage";
+import { hashPassword } from "./auth";
+import { DEFAULT_PRODUCTION_STAGES } from "@shared/production";
+import { STANDARD_TNA_MILESTONES, plannedDateFor } from "@shared/tna";
+
+// Every demo account shares this password
+export const DEMO_PASSWORD = "garmentsync";
+
+// Demo data for local development. Safe to run repeatedly: skips if the demo orders already exist.
+export async function seed(target: IStorage): Promise<void> {
+  if (await target.getOrder("ORD-001")) return;
+
+  const passwordHash = await hashPassword(DEMO_PASSWORD);
+  await target.createUser({
+    email: "admin@garmentfactory.com",
+    name: "Factory Admin",
+    passwordHash,
+    role: "manufacturer",
+    isAdmin: true,
+  });
+  const sarah = await target.createUser({
+    email: "sarah.chen@garmentfactory.com",
+    name: "Sarah Chen",
+    passwordHash,
+    role: "manufacturer",
+  });
+  const mike = await target.createUser({
+    email: "mike.johnson@fashionforward.com",
+    name: "Mike Johnson",
+    passwordHash,
+    role: "buyer",
+  });
+
+  await target.createOrder({
+    id: "ORD-001",
+    buyerName: "Fashion Forward Inc.",
+    styleNumber: "FF-2024-001",
+    quantity: 1000,
+    estimatedDelivery: new Date("2024-03-15"),
+    buyerEmail: "orders@fashionforward.com",
+    status: "in_production",
+  });
+  await target.replaceOrderLineItems("ORD-001", [
+    { color: "Navy", size: "S", quantity: 150 },
+    { color: "Navy", size: "M", quantity: 200 },
+    { color: "Navy", size: "L", quantity: 100 },
+    { color: "Navy", size: "XL", quantity: 50 },
+    { color: "Black", size: "S", quantity: 150 },
+    { color: "Black", size: "M", quantity: 200 },
+    { color: "Black", size: "L", quantity: 100 },
+    { color: "Black", size: "XL", quantity: 50 },
+  ]);
+
+  await target.createOrder({
+    id: "ORD-002",
+    buyerName: "Retail Chain Co.",
+    styleNumber: "RC-SS24-015",
+    quantity: 2500,
+    estimatedDelivery: new Date("2024-02-28"),
+    buyerEmail: "purchasing@retailchain.com",
+    status: "quality_check",
+  });
+
+  // ORD-001 is part way through sewing; ORD-002 is being packed
+  const stagePlan = (quantity: number) => DEFAULT_PRODUCTION_STAGES.map(name => ({ name, plannedQuantity: quantity }));
+  const [fabric, cutting, sewing] = await target.replaceProductionStages("ORD-001", stagePlan(1000));
+  const ord2Stages = await target.replaceProductionStages("ORD-002", stagePlan(2500));
+  const outputs: Array<[string, string, number, string]> = [
+    ["ORD-001", fabric.id, 1000, "2024-01-08"],
+    ["ORD-001", cutting.id, 600, "2024-01-10"],
+    ["ORD-001", cutting.id, 400, "2024-01-11"],
+    ["ORD-001", sewing.id, 320, "2024-01-15"],
+    ["ORD-001", sewing.id, 300, "2024-01-16"],
+    ...ord2Stages.slice(0, 5).map((stage, index): [string, string, number, string] =>
+      ["ORD-002", stage.id, 2500, `2024-01-${String(10 + index * 3).padStart(2, "0")}`]),
+    ["ORD-002", ord2Stages[5].id, 1200, "2024-01-26"],
+  ];
+  for (const [orderId, stageId, quantity, day] of outputs) {
+    await target.recordStageOutput({
+      orderId,
+      stageId,
+      quantity,
+      producedOn: new Date(day),
+      recordedById: sarah.id,
+      recordedByName: "Sarah Chen",
+    });
+  }
+
+  await target.createUpdate({
+    orderId: "ORD-001",
+    message: "Production has started. Fabric cutting is complete.",
+    authorId: sarah.id,
+    authorName: "Sarah Chen",
+    authorRole: "manufacturer",
+  });
+
+  await target.createComment({
+    orderId: "ORD-001",
+    message: "Looking great! Can we get photos of the fabric quality?",
+    authorId: mike.id,
+    authorName: "Mike Johnson",
+    authorRole: "buyer",
+  });
+
+  const sarahOnOrder1 = await target.createStakeholder({
+    orderId: "ORD-001",
+    name: "Sarah Chen",
+    email: "sarah.chen@garmentfactory.com",
+    role: "factory_manager",
+    permissions: "update",
+  });
+
+  const mikeOnOrder1 = await target.createStakeholder({
+    orderId: "ORD-001",
+    name: "Mike Johnson",
+    email: "mike.johnson@fashionforward.com",
+    role: "buyer",
+    permissions: "comment",
+  });
+
+  const sarahOnOrder2 = await target.createStakeholder({
+    orderId: "ORD-002",
+    name: "Sarah Chen",
+    email: "sarah.chen@garmentfactory.com",
+    role: "factory_owner",
+    permissions: "update",
+  });
+
+  // TNA plans from the standard template; the milestones already reached are marked complete
+  const tnaPlans: Array<[string, Date, string, number]> = [
+    ["ORD-001", new Date("2024-03-15"), sarahOnOrder1.id, 7],
+    ["ORD-002", new Date("2024-02-28"), sarahOnOrder2.id, 8],
+  ];
+  for (const [orderId, delivery, ownerStakeholderId, reached] of tnaPlans) {
+    const milestones = await target.createOrderMilestones(STANDARD_TNA_MILESTONES.map((milestone, position) => ({
+      orderId,
+      name: milestone.name,
+      position,
+      plannedDate: plannedDateFor(delivery, milestone.daysBeforeDelivery),
+      ownerStakeholderId,
+    })));
+    for (const milestone of milestones.slice(0, reached)) {
+      await target.updateOrderMilestone(milestone.id, {
+        actualDate: milestone.plannedDate,
+        completedById: sarah.id,
+        completedByName: "Sarah Chen",
+      });
+    }
+  }
+
+  // Demo stakeholders have already accepted their invitations
+  for (const [stakeholder, user] of [
+    [sarahOnOrder1, sarah],
+    [mikeOnOrder1, mike],
+    [sarahOnOrder2, sarah],
+  ] as const) {
+    await target.updateStakeholder(stakeholder.id, {
+      userId: user.id,
+      invitationStatus: "accepted",
+      acceptedAt: new Date(),
+    });
+  }
+}
@@ -0,0 +1,397 @@
+import { afterAll, beforeAll, beforeEach, describe, expect, it } from "vitest";
+import path from "path";
+import { sql } from "drizzle-orm";
+import { PGlite } from "@electric-sql/pglite";
+import { drizzle } from "drizzle-orm/pglite";
+import { migrate } from "drizzle-orm/pglite/migrator";
+import * as schema from "@shared/schema";
+import type { InsertOrder } from "@shared/schema";
+import { MemStorage, type IStorage } from "./storage";
+import { DrizzleStorage } from "./db-storage";
+import { createDb, runMigrations, type Database } from "./db";
+import { MediaBlobReleasedError } from "./media-storage";
+
+interface StorageHarness {
+  open(): Promise<void>;
+  // A storage with nothing in it
+  reset(): Promise<IStorage>;
+  close(): Promise<void>;
+}
+
+function memoryHarness(): StorageHarness {
+  return {
+    async open() {},
+    async reset() {
+      return new MemStorage();
+    },
+    async close() {},
+  };
+}
+
+/**
+ * Runs against TEST_DATABASE_URL when it is set, otherwise against PGlite, an in-process build of
+ * Postgres. Either way the checked-in migrations create the schema.
+ */
+function postgresHarness(): StorageHarness {
+  let db: Database;
+  let close = async () => {};
+
+  return {
+    async open() {
+      if (process.env.TEST_DATABASE_URL) {
+        const created = createDb(process.env.TEST_DATABASE_URL);
+        db = created.db;
+        close = () => created.pool.end();
+        await runMigrations(db);
+        return;
+      }
+      const client = new PGlite();
+      const pglite = drizzle(client, { schema });
+      await migrate(pglite, { migrationsFolder: path.resolve(import.meta.dirname, "..", "migrations") });
+      db = pglite as unknown as Database;
+      close = () => client.close();
+    },
+    async reset() {
+      const { rows } = await db.execute<{ tablename: string }>(
+        sql`select tablename from pg_tables where schemaname = 'public'`
+      );
+      const tables = rows.map(row => `"${row.tablename}"`).join(", ");
+      await db.execute(sql.raw(`truncate ${tables}`));
+      return new DrizzleStorage(db);
+    },
+    close: () => close(),
+  };
+}
+
+const order = (id: string, changes: Partial<InsertOrder> = {}): InsertOrder => ({
+  id,
+  buyerName: "Northwind Apparel",
+  buyerEmail: "buyer@northwind.test",
+  styleNumber: "NW-100",
+  quantity: 1000,
+  estimatedDelivery: new Date("2027-03-01T00:00:00Z"),
+  ...changes,
+});
+
+const hash = (char: string) => char.repeat(64);
+
+describe.each([
+  ["MemStorage", memoryHarness()],
+  ["DrizzleStorage", postgresHarness()],
+])("%s", (_name, harness) => {
+  let storage: IStorage;
+
+  beforeAll(() => harness.open());
+  afterAll(() => harness.close());
+  beforeEach(async () => {
+    storage = await harness.reset();
+  });
+
+  describe("users", () => {
+    it("stores emails lowercased and finds them case-insensitively", async () => {
+      const user = await storage.createUser({ email: "Ada@Example.test", name: "Ada", passwordHash: "x", role: "buyer" });
+
+      expect(user.email).toBe("ada@example.test");
+      expect(user.isAdmin).toBe(false);
+      expect((await storage.getUserByEmail("ADA@example.test"))?.id).toBe(user.id);
+      expect(await storage.getUser("missing")).toBeUndefined();
+    });
+  });
+
+  describe("orders", () => {
+    it("starts a new order as received at revision 1", async () => {
+      const created = await storage.createOrder(order("PO-1"));
+
+      expect(created).toMatchObject({ id: "PO-1", status: "received", revision: 1, quantity: 1000 });
+      expect(await storage.getOrder("PO-1")).toMatchObject({ id: "PO-1", buyerName: "Northwind Apparel" });
+      expect((await storage.getAllOrders()).map(o => o.id)).toEqual(["PO-1"]);
+    });
+
+    it("rejects an order id that is already taken and keeps the original", async () => {
+      await storage.createOrder(order("PO-1"));
+
+      await expect(storage.createOrder(order("PO-1", { buyerName: "Someone Else" }))).rejects.toThrow();
+      expect((await storage.getOrder("PO-1"))?.buyerName).toBe("Northwind Apparel");
+    });
+
+    it("updates status and fields, and returns undefined for an unknown order", async () => {
+      await storage.createOrder(order("PO-1"));
+
+      expect((await storage.updateOrderStatus("PO-1", "in_production"))?.status).toBe("in_production");
+      expect(await storage.updateOrder("PO-1", { quantity: 1200, revision: 2 })).toMatchObject({ quantity: 1200, revision: 2 });
+      expect(await storage.updateOrderStatus("missing", "shipped")).toBeUndefined();
+      expect(await storage.updateOrder("missing", { quantity: 1 })).toBeUndefined();
+    });
+  });
+
+  describe("updates and comments", () => {
+    it("lists an order's updates and comments", async () => {
+      await storage.createOrder(order("PO-1"));
+      await storage.createUpdate({ orderId: "PO-1", message: "Cutting started", authorName: "Factory", authorRole: "manufacturer" });
+      await storage.createComment({ orderId: "PO-1", message: "Fabric is late", authorName: "Ada", authorRole: "buyer" });
+
+      expect((await storage.getUpdatesByOrder("PO-1")).map(update => update.message)).toEqual(["Cutting started"]);
+      expect((await storage.getCommentsByOrder("PO-1")).map(comment => comment.message)).toEqual(["Fabric is late"]);
+      expect(await storage.getCommentsByOrder("PO-2")).toEqual([]);
+    });
+  });
+
+  describe("order line items", () => {
+    it("keeps the id of every cell that is still present, matching colour and size case-insensitively", async () => {
+      await storage.createOrder(order("PO-1"));
+      const [navy, black] = await storage.replaceOrderLineItems("PO-1", [
+        { color: "Navy", size: "M", quantity: 600 },
+        { color: "Black", size: "L", quantity: 400 },
+      ]);
+
+      const replaced = await storage.replaceOrderLineItems("PO-1", [
+        { color: "White", size: "S", quantity: 300 },
+        { color: "navy", size: "m", quantity: 700 },
+      ]);
+
+      expect(replaced[1].id).toBe(navy.id);
+      expect(replaced[0].id).not.toBe(black.id);
+      expect((await storage.getOrderLineItems("PO-1")).map(item => `${item.color}/${item.size}:${item.quantity}`))
+        .toEqual(["White/S:300", "navy/m:700"]);
+    });
+  });
+
+  describe("order amendments", () => {
+    const approval = (revision: number) => ({
+      decision: { status: "approved", decidedByName: "Buyer", revision },
+      orderChanges: { quantity: 1200, revision },
+      lineItems: [{ color: "Navy", size: "M", quantity: 1200 }],
+    });
+
+    it("applies an approved amendment once, and only against the revision it was proposed on", async () => {
+      await storage.createOrder(order("PO-1"));
+      const first = await storage.createOrderAmendment({ orderId: "PO-1", baseRevision: 1, changes: {}, requiresApproval: true, proposedByName: "Factory" });
+      const second = await storage.createOrderAmendment({ orderId: "PO-1", baseRevision: 1, changes: {}, requiresApproval: true, proposedByName: "Factory" });
+
+      const applied = await storage.applyOrderAmendment(first.id, approval(2));
+      expect(applied?.order).toMatchObject({ quantity: 1200, revision: 2 });
+      expect(applied?.amendment).toMatchObject({ status: "approved", revision: 2, decidedByName: "Buyer" });
+      expect((await storage.getOrderLineItems("PO-1")).map(item => item.quantity)).toEqual([1200]);
+
+      expect(await storage.applyOrderAmendment(first.id, approval(3))).toBeUndefined();
+      expect(await storage.applyOrderAmendment(second.id, approval(2))).toBeUndefined();
+      expect((await storage.getOrderAmendment(second.id))?.status).toBe("pending");
+    });
+
+    it("decides a pending amendment only once", async () => {
+      await storage.createOrder(order("PO-1"));
+      const amendment = await storage.createOrderAmendment({ orderId: "PO-1", baseRevision: 1, changes: {}, requiresApproval: true, proposedByName: "Factory" });
+
+      expect((await storage.decideOrderAmendment(amendment.id, { status: "rejected", decidedByName: "Buyer" }))?.status).toBe("rejected");
+      expect(await storage.decideOrderAmendment(amendment.id, { status: "withdrawn", decidedByName: "Factory" })).toBeUndefined();
+    });
+  });
+
+  describe("production", () => {
+    it("adds recorded output to the stage and dates it", async () => {
+      await storage.createOrder(order("PO-1"));
+      const [cutting] = await storage.replaceProductionStages("PO-1", [
+        { name: "Cutting", plannedQuantity: 100 },
+        { name: "Sewing", plannedQuantity: 100 },
+      ]);
+
+      await storage.recordStageOutput({ stageId: cutting.id, orderId: "PO-1", quantity: 60, producedOn: new Date("2026-10-02T00:00:00Z"), recordedByName: "Factory" });
+      const recorded = await storage.recordStageOutput({ stageId: cutting.id, orderId: "PO-1", quantity: 40, producedOn: new Date("2026-10-03T00:00:00Z"), recordedByName: "Factory" });
+
+      expect(recorded?.stage).toMatchObject({ completedQuantity: 100 });
+      expect(recorded?.stage.actualStart?.toISOString()).toBe("2026-10-02T00:00:00.000Z");
+      expect(recorded?.stage.actualEnd?.toISOString()).toBe("2026-10-03T00:00:00.000Z");
+      expect((await storage.getStageOutputsByOrder("PO-1")).map(output => output.quantity)).toEqual([40, 60]);
+      expect(await storage.recordStageOutput({ stageId: "missing", orderId: "PO-1", quantity: 1, producedOn: new Date(), recordedByName: "Factory" })).toBeUndefined();
+    });
+
+    it("keeps the output of stages passed back with their id", async () => {
+      await storage.createOrder(order("PO-1"));
+      const [cutting] = await storage.replaceProductionStages("PO-1", [{ name: "Cutting", plannedQuantity: 100 }]);
+      await storage.recordStageOutput({ stageId: cutting.id, orderId: "PO-1", quantity: 30, producedOn: new Date("2026-10-02T00:00:00Z"), recordedByName: "Factory" });
+
+      const replanned = await storage.replaceProductionStages("PO-1", [
+        { name: "Fabric", plannedQuantity: 100 },
+        { id: cutting.id, name: "Cutting", plannedQuantity: 80 },
+      ]);
+
+      expect(replanned.map(stage => `${stage.name}:${stage.completedQuantity}`)).toEqual(["Fabric:0", "Cutting:30"]);
+      expect(replanned[1].id).toBe(cutting.id);
+    });
+
+    it("lists shipments latest day first", async () => {
+      await storage.createOrder(order("PO-1"));
+      const [cell] = await storage.replaceOrderLineItems("PO-1", [{ color: "Navy", size: "M", quantity: 1000 }]);
+
+      await storage.recordShipment({ orderId: "PO-1", quantity: 400, shippedOn: new Date("2026-10-01T00:00:00Z"), recordedByName: "Factory" });
+      const shipment = await storage.recordShipment({ orderId: "PO-1", lineItemId: cell.id, quantity: 600, shippedOn: new Date("2026-10-05T00:00:00Z"), reference: "BL-7", recordedByName: "Factory" });
+
+      expect(shipment).toMatchObject({ lineItemId: cell.id, reference: "BL-7", note: null });
+      expect((await storage.getShipmentsByOrder("PO-1")).map(s => s.quantity)).toEqual([600, 400]);
+    });
+  });
+
+  describe("comments", () => {
+    it("keeps the previous wording as a revision and soft-deletes", async () => {
+      await storage.createOrder(order("PO-1"));
+      const comment = await storage.createComment({ orderId: "PO-1", message: "Fabric is late", authorName: "Ada", authorRole: "buyer" });
+
+      const edited = await storage.editComment(comment.id, "Fabric arrives Friday", { id: "u1", name: "Ada" });
+      expect(edited?.message).toBe("Fabric arrives Friday");
+      expect((await storage.getCommentRevisions(comment.id)).map(revision => revision.message)).toEqual(["Fabric is late"]);
+
+      const deleted = await storage.deleteComment(comment.id, "Ada");
+      expect(deleted?.message).toBe("Fabric arrives Friday");
+      expect(deleted?.deletedAt).toBeInstanceOf(Date);
+      expect(await storage.getCommentsByOrder("PO-1")).toHaveLength(1);
+    });
+  });
+
+  describe("stakeholders and invitations", () => {
+    it("claims an invitation token only once", async () => {
+      await storage.createOrder(order("PO-1"));
+      const stakeholder = await storage.createStakeholder({ orderId: "PO-1", name: "Ada", email: "ada@example.test", role: "buyer", permissions: "comment" });
+      const token = await storage.createInvitationToken({ stakeholderId: stakeholder.id, tokenHash: hash("a"), expiresAt: new Date(Date.now() + 60_000) });
+
+      expect((await storage.getInvitationTokenByHash(hash("a")))?.id).toBe(token.id);
+      expect(await storage.markInvitationTokenUsed(token.id)).toBe(true);
+      expect(await storage.markInvitationTokenUsed(token.id)).toBe(false);
+      expect(await storage.markInvitationTokenUsed("missing")).toBe(false);
+    });
+
+    it("finds stakeholders linked to a user and changes their permissions", async () => {
+      await storage.createOrder(order("PO-1"));
+      const stakeholder = await storage.createStakeholder({ orderId: "PO-1", name: "Ada", email: "ada@example.test", role: "buyer", permissions: "read" });
+
+      await storage.updateStakeholder(stakeholder.id, { userId: "user-1" });
+      expect((await storage.getStakeholdersByUser("user-1")).map(s => s.id)).toEqual([stakeholder.id]);
+      expect((await storage.updateStakeholderPermissions(stakeholder.id, "update"))?.permissions).toBe("update");
+
+      expect(await storage.deleteStakeholder(stakeholder.id)).toBe(true);
+      expect(await storage.deleteStakeholder(stakeholder.id)).toBe(false);
+      expect(await storage.getStakeholdersByOrder("PO-1")).toEqual([]);
+    });
+  });
+
+  describe("notifications", () => {
+    it("filters, counts and marks a recipient's notifications read", async () => {
+      await storage.createNotifications([
+        { recipientEmail: "Ada@Example.test", type: "comment", title: "New comment", message: "a", orderId: "PO-1" },
+        { recipientEmail: "ada@example.test", type: "update", title: "New update", message: "b", orderId: "PO-2" },
+        { recipientEmail: "bob@example.test", type: "comment", title: "New comment", message: "c", orderId: "PO-1" },
+      ]);
+
+      expect(await storage.countNotifications("ada@example.test", {})).toBe(2);
+      expect((await storage.getNotifications("ada@example.test", { type: "comment" }, 10, 0)).map(n => n.message)).toEqual(["a"]);
+      expect(await storage.markAllNotificationsRead("ada@example.test", { orderId: "PO-1" })).toBe(1);
+      expect(await storage.countNotifications("ada@example.test", { unreadOnly: true })).toBe(1);
+    });
+  });
+
+  describe("media", () => {
+    const upload = (name: string, contentHash?: string) => ({
+      orderId: "PO-1",
+      filename: `${name}.key`,
+      originalName: name,
+      size: 10,
+      mimeType: "application/pdf",
+      uploadedBy: "ada@example.test",
+      contentHash,
+    });
+
+    it("keeps a new version behind the current one until it is promoted", async () => {
+      const original = await storage.createMediaFile(upload("spec-v1.pdf"));
+      const second = await storage.createMediaFileVersion(original.id, upload("spec-v2.pdf"));
+      const third = await storage.createMediaFileVersion(original.id, upload("spec-v3.pdf"));
+
+      expect(second).toMatchObject({ documentId: original.id, version: 2, isLatest: false });
+      expect(await storage.promoteMediaFileVersion(third.id)).toBe(true);
+      // A slower scan of an older version must not take the document back
+      expect(await storage.promoteMediaFileVersion(second.id)).toBe(false);
+      expect((await storage.getMediaFileVersions(original.id)).map(v => `${v.version}:${v.isLatest}`))
+        .toEqual(["3:true", "2:false", "1:false"]);
+    });
+
+    it("makes the newest clean version current again when the current one is deleted", async () => {
+      const original = await storage.createMediaFile(upload("spec-v1.pdf"));
+      const second = await storage.createMediaFileVersion(original.id, upload("spec-v2.pdf"));
+      const third = await storage.createMediaFileVersion(original.id, upload("spec-v3.pdf"));
+      await storage.updateMediaFile(second.id, { scanStatus: "clean" });
+      await storage.promoteMediaFileVersion(third.id);
+
+      expect(await storage.deleteMediaFile(third.id)).toBe(true);
+      expect((await storage.getMediaFile(second.id))?.isLatest).toBe(true);
+      expect(await storage.deleteMediaFile(third.id)).toBe(false);
+    });
+
+    it("claims only clean files for previews, and each file once", async () => {
+      const pending = await storage.createMediaFile(upload("a.pdf"));
+      const clean = await storage.createMediaFile(upload("b.pdf"));
+      await storage.updateMediaFile(clean.id, { scanStatus: "clean" });
+
+      expect((await storage.claimPendingPreviews(10, new Date(0))).map(file => file.id)).toEqual([clean.id]);
+      expect(await storage.claimPendingPreviews(10, new Date(0))).toEqual([]);
+      expect((await storage.claimPendingScans(10, new Date(0))).map(file => file.id)).toEqual([pending.id]);
+    });
+
+    it("shares a blob between files with the same bytes and releases it with the last of them", async () => {
+      const blob = await storage.createMediaBlob({ hash: hash("b"), storageKey: "b.key", size: 10, checksum: hash("c") });
+      expect((await storage.createMediaBlob({ hash: hash("b"), storageKey: "other.key", size: 10, checksum: hash("c") })).storageKey).toBe("b.key");
+      const first = await storage.createMediaFile(upload("a.pdf", blob.hash));
+      const second = await storage.createMediaFile(upload("b.pdf", blob.hash));
+
+      await storage.relocateMediaBlob(blob.hash, { storageKey: "sanitized.key", size: 7, checksum: hash("d") });
+      expect((await storage.getMediaFilesByHash(blob.hash)).map(file => `${file.filename}:${file.size}`))
+        .toEqual(["sanitized.key:7", "sanitized.key:7"]);
+      expect((await storage.getMediaBlob(blob.hash))?.storageKey).toBe("sanitized.key");
+
+      await storage.deleteMediaFile(first.id);
+      expect(await storage.releaseMediaBlob(blob.hash)).toBeUndefined();
+      await storage.deleteMediaFile(second.id);
+      expect((await storage.releaseMediaBlob(blob.hash))?.storageKey).toBe("sanitized.key");
+      expect(await storage.getMediaBlob(blob.hash)).toBeUndefined();
+    });
+
+    it("refuses a new file or version referencing a blob that has been released", async () => {
+      const blob = await storage.createMediaBlob({ hash: hash("b"), storageKey: "b.key", size: 10, checksum: hash("c") });
+      const original = await storage.createMediaFile(upload("a.pdf"));
+      await storage.releaseMediaBlob(blob.hash);
+
+      await expect(storage.createMediaFile(upload("b.pdf", blob.hash))).rejects.toBeInstanceOf(MediaBlobReleasedError);
+      await expect(storage.createMediaFileVersion(original.id, upload("a-v2.pdf", blob.hash))).rejects.toBeInstanceOf(MediaBlobReleasedError);
+      expect(await storage.getMediaFilesByHash(blob.hash)).toEqual([]);
+      expect(await storage.getMediaFileVersions(original.id)).toHaveLength(1);
+    });
+  });
+
+  describe("email outbox", () => {
+    const email = (to: string) => ({ toAddress: to, fromAddress: "noreply@example.test", subject: "Hi", textBody: "Hi", htmlBody: "<p>Hi</p>" });
+
+    it("hands each due email to one sender and records the outcome", async () => {
+      const [first, second] = await storage.enqueueEmails([email("a@example.test"), email("b@example.test")]);
+
+      const claimed = await storage.claimDueEmails(10, new Date(0));
+      expect(claimed.map(e => e.id).sort()).toEqual([first.id, second.id].sort());
+      expect(claimed.every(e => e.status === "sending" && e.attempts === 1)).toBe(true);
+      expect(await storage.claimDueEmails(10, new Date(0))).toEqual([]);
+
+      await storage.markEmailSent(first.id);
+      await storage.markEmailFailed(second.id, "mailbox full", null);
+      expect(await storage.countOutboxEmails()).toEqual({ pending: 0, sending: 0, sent: 1, dead: 1 });
+
+      expect((await storage.requeueEmail(second.id))).toMatchObject({ status: "pending", attempts: 0 });
+    });
+  });
+
+  describe("email templates", () => {
+    it("saves, replaces and deletes a template override", async () => {
+      await storage.saveEmailTemplate("update", "Subject", "Body", "admin@example.test");
+      await storage.saveEmailTemplate("update", "New subject", "New body", "admin@example.test");
+
+      expect(await storage.getEmailTemplate("update")).toMatchObject({ subject: "New subject", body: "New body" });
+      expect(await storage.listEmailTemplates()).toHaveLength(1);
+      expect(await storage.deleteEmailTemplate("update")).toBe(true);
+      expect(await storage.deleteEmailTemplate("update")).toBe(false);
+    });
+  });
+});
@@ -1,116 +1,246 @@
-import { type Order, type Update, type Comment, type Stakeholder, type InsertOrder, type InsertUpdate, type InsertComment, type InsertStakeholder } from "@shared/schema";
+import { type User, type InsertUser, type Order, type OrderChanges, type OrderLineItem, type OrderLineItemInput, type OrderAmendment, type InsertOrderAmendment, type AmendmentDecision, type AmendmentApplication, type ProductionStage, type ProductionStageInput, type StageOutput, type InsertStageOutput, type Shipment, type InsertShipment, type TnaTemplate, type TnaTemplateInput, type OrderMilestone, type InsertOrderMilestone, type OrderMilestoneChanges, type DeliveryRisk, type InsertDeliveryRisk, type Update, type Comment, type CommentRevision, type Stakeholder, type InsertOrder, type InsertUpdate, type InsertComment, type InsertStakeholder, type StatusHistory, type InsertStatusHistory, type StakeholderChanges, type InvitationToken, type InsertInvitationToken, type Notification, type InsertNotification, type NotificationFilter, type MediaFile, type InsertMediaFile, type MediaFileChanges, type InboundEmail, type InsertInboundEmail, type OutboxEmail, type InsertOutboxEmail, type OutboxStatus, type EmailTemplateOverride, type EmailBranding, type InsertEmailBranding, type MediaAnnotation, type InsertMediaAnnotation, type AnnotationThread, type MediaBlob, type InsertMediaBlob, type MediaBlobChanges, DEFAULT_NOTIFICATION_PREFERENCES, lineItemKey } from "@shared/schema";
+import { isStageComplete } from "@shared/production";
 import { randomUUID } from "crypto";
+import { database } from "./db";
+import { DrizzleStorage } from "./db-storage";
+import { MediaBlobReleasedError } from "./media-storage";
 
 export interface IStorage {
+  // Users
+  getUser(id: string): Promise<User | undefined>;
+  getUserByEmail(email: string): Promise<User | undefined>;
+  createUser(user: InsertUser): Promise<User>;
+
   // Orders
   getOrder(id: string): Promise<Order | undefined>;
   getAllOrders(): Promise<Order[]>;
   createOrder(order: InsertOrder): Promise<Order>;
   updateOrderStatus(id: string, status: string): Promise<Order | undefined>;
+  updateOrder(id: string, changes: OrderChanges): Promise<Order | undefined>;
+
+  // Order line items, in the order they were entered
+  getOrderLineItems(orderId: string): Promise<OrderLineItem[]>;
+  // Replaces the order's size/colour breakdown; cells that are still present keep their id
+  replaceOrderLineItems(orderId: string, items: OrderLineItemInput[]): Promise<OrderLineItem[]>;
+
+  // Order amendments, newest first
+  getOrderAmendment(id: string): Promise<OrderAmendment | undefined>;
+  getOrderAmendmentsByOrder(orderId: string): Promise<OrderAmendment[]>;
+  createOrderAmendment(amendment: InsertOrderAmendment): Promise<OrderAmendment>;
+  // Records the outcome of a pending amendment; undefined if it was already decided
+  decideOrderAmendment(id: string, decision: AmendmentDecision): Promise<OrderAmendment | undefined>;
+  // Approves a pending amendment and makes all of its writes at once; undefined if it was already
+  // decided or the order has moved on from the revision it was proposed against
+  applyOrderAmendment(id: string, application: AmendmentApplication): Promise<{ order: Order; amendment: OrderAmendment } | undefined>;
+
+  // Production stages, in order
+  getProductionStage(id: string): Promise<ProductionStage | undefined>;
+  getProductionStages(orderId: string): Promise<ProductionStage[]>;
+  // Replaces the order's stage plan; stages passed with their id keep it and the output recorded against them
+  replaceProductionStages(orderId: string, stages: ProductionStageInput[]): Promise<ProductionStage[]>;
+  // Stage output, latest production day first
+  getStageOutputsByOrder(orderId: string): Promise<StageOutput[]>;
+  // Records output and adds it to the stage's totals; undefined if the stage doesn't exist
+  recordStageOutput(output: InsertStageOutput): Promise<{ stage: ProductionStage; output: StageOutput } | undefined>;
+
+  // Shipments, latest shipping day first
+  getShipmentsByOrder(orderId: string): Promise<Shipment[]>;
+  recordShipment(shipment: InsertShipment): Promise<Shipment>;
+
+  // TNA templates, by name. Saving a template as the default clears the flag on all the others.
+  getTnaTemplates(): Promise<TnaTemplate[]>;
+  getTnaTemplate(id: string): Promise<TnaTemplate | undefined>;
+  createTnaTemplate(template: TnaTemplateInput, updatedBy: string): Promise<TnaTemplate>;
+  updateTnaTemplate(id: string, template: TnaTemplateInput, updatedBy: string): Promise<TnaTemplate | undefined>;
+  deleteTnaTemplate(id: string): Promise<boolean>;
+
+  // Order milestones, by planned date
+  getOrderMilestone(id: string): Promise<OrderMilestone | undefined>;
+  getOrderMilestones(orderId: string): Promise<OrderMilestone[]>;
+  createOrderMilestones(milestones: InsertOrderMilestone[]): Promise<OrderMilestone[]>;
+  updateOrderMilestone(id: string, changes: OrderMilestoneChanges): Promise<OrderMilestone | undefined>;
+
+  // Delivery risk assessments, one per open order, highest score first. Saving an assessment keeps
+  // the time the order was last alerted on.
+  getDeliveryRisks(): Promise<DeliveryRisk[]>;
+  saveDeliveryRisk(risk: InsertDeliveryRisk): Promise<DeliveryRisk>;
+  deleteDeliveryRisk(orderId: string): Promise<void>;
+  markDeliveryRisksAlerted(orderIds: string[], alertedAt: Date): Promise<void>;
+
+  // Status history
+  getStatusHistoryByOrder(orderId: string): Promise<StatusHistory[]>;
+  createStatusHistory(entry: InsertStatusHistory): Promise<StatusHistory>;
 
   // Updates
   getUpdatesByOrder(orderId: string): Promise<Update[]>;
   createUpdate(update: InsertUpdate): Promise<Update>;
 
   // Comments
+  getComment(id: string): Promise<Comment | undefined>;
   getCommentsByOrder(orderId: string): Promise<Comment[]>;
   createComment(comment: InsertComment): Promise<Comment>;
+  // Replaces the text, keeping the previous wording as a revision
+  editComment(id: string, message: string, editor: Pick<User, "id" | "name">): Promise<Comment | undefined>;
+  getCommentRevisions(commentId: string): Promise<CommentRevision[]>;
+  // Soft delete: the comment keeps its row and text, marked deleted
+  deleteComment(id: string, deletedByName: string): Promise<Comment | undefined>;
 
   // Stakeholders
+  getStakeholder(id: string): Promise<Stakeholder | undefined>;
   getStakeholdersByOrder(orderId: string): Promise<Stakeholder[]>;
+  // Stakeholder records linked to a user account by accepting an invitation
+  getStakeholdersByUser(userId: string): Promise<Stakeholder[]>;
   createStakeholder(stakeholder: InsertStakeholder): Promise<Stakeholder>;
   deleteStakeholder(id: string): Promise<boolean>;
   updateStakeholderPermissions(id: string, permissions: string): Promise<Stakeholder | undefined>;
+  updateStakeholder(id: string, changes: StakeholderChanges): Promise<Stakeholder | undefined>;
+
+  // Invitation tokens
+  createInvitationToken(token: InsertInvitationToken): Promise<InvitationToken>;
+  getInvitationTokenByHash(tokenHash: string): Promise<InvitationToken | undefined>;
+  // Claims an unused token; false if it was already used, e.g. by a concurrent accept
+  markInvitationTokenUsed(id: string): Promise<boolean>;
+  invalidateInvitationTokens(stakeholderId: string): Promise<void>;
+
+  // Notifications
+  getNotification(id: string): Promise<Notification | undefined>;
+  getNotifications(recipientEmail: string, filter: NotificationFilter, limit: number, offset: number): Promise<Notification[]>;
+  countNotifications(recipientEmail: string, filter: NotificationFilter): Promise<number>;
+  createNotifications(notifications: InsertNotification[]): Promise<Notification[]>;
+  markNotificationRead(id: string): Promise<Notification | undefined>;
+  markAllNotificationsRead(recipientEmail: string, filter: NotificationFilter): Promise<number>;
+  // Rewrites the message of every inbox entry about one update or comment
+  updateNotificationMessages(entityId: string, message: string): Promise<void>;
+
+  // Media
+  getMediaFile(id: string): Promise<MediaFile | undefined>;
+  getMediaFilesByOrder(orderId: string): Promise<MediaFile[]>;
+  // A file with a contentHash holds a reference to that blob; throws MediaBlobReleasedError if it is gone
+  createMediaFile(file: InsertMediaFile): Promise<MediaFile>;
+  getMediaFileVersions(documentId: string): Promise<MediaFile[]>;
+  createMediaFileVersion(documentId: string, file: InsertMediaFile): Promise<MediaFile>;
+  // Makes a version the document's current one unless a newer version already is; true if it did
+  promoteMediaFileVersion(id: string): Promise<boolean>;
+  updateMediaFile(id: string, changes: MediaFileChanges): Promise<MediaFile | undefined>;
+  deleteMediaFile(id: string): Promise<boolean>;
+  claimPendingScans(limit: number, staleBefore: Date): Promise<MediaFile[]>;
+  // Only files the malware scanner has passed are claimed for previews
+  claimPendingPreviews(limit: number, staleBefore: Date): Promise<MediaFile[]>;
+
+  // Media blobs: stored bytes shared by media files with the same content hash
+  getMediaBlob(hash: string): Promise<MediaBlob | undefined>;
+  // Returns the existing blob when the hash is already stored
+  createMediaBlob(blob: InsertMediaBlob): Promise<MediaBlob>;
+  updateMediaBlob(hash: string, changes: MediaBlobChanges): Promise<MediaBlob | undefined>;
+  // Points a blob and every media file sharing it at a newly stored object, e.g. a sanitized image
+  relocateMediaBlob(hash: string, object: Pick<MediaBlob, "storageKey" | "size" | "checksum">): Promise<void>;
+  // Deletes and returns the blob once no media file references it
+  releaseMediaBlob(hash: string): Promise<MediaBlob | undefined>;
+  getMediaFilesByHash(hash: string): Promise<MediaFile[]>;
+  getBlobsDueForVerification(verifiedBefore: Date, limit: number): Promise<MediaBlob[]>;
+  getDamagedMediaBlobs(): Promise<MediaBlob[]>;
+
+  // Media annotations
+  getAnnotation(id: string): Promise<MediaAnnotation | undefined>;
+  getAnnotationsByMediaFile(mediaFileId: string): Promise<AnnotationThread[]>;
+  createAnnotation(annotation: InsertMediaAnnotation, comment: InsertComment): Promise<AnnotationThread>;
+  deleteAnnotation(id: string): Promise<boolean>;
+
+  // Inbound email
+  getInboundEmailByMessageId(messageId: string): Promise<InboundEmail | undefined>;
+  createInboundEmail(email: InsertInboundEmail): Promise<InboundEmail>;
+
+  // Email outbox
+  enqueueEmails(emails: InsertOutboxEmail[]): Promise<OutboxEmail[]>;
+  claimDueEmails(limit: number, staleBefore: Date): Promise<OutboxEmail[]>;
+  markEmailSent(id: string): Promise<void>;
+  markEmailFailed(id: string, error: string, retryAt: Date | null): Promise<void>;
+  requeueEmail(id: string): Promise<OutboxEmail | undefined>;
+  getOutboxEmails(status: OutboxStatus | undefined, limit: number, offset: number): Promise<OutboxEmail[]>;
+  countOutboxEmails(): Promise<Record<OutboxStatus, number>>;
+
+  // Email templates and branding
+  getEmailTemplate(name: string): Promise<EmailTemplateOverride | undefined>;
+  listEmailTemplates(): Promise<EmailTemplateOverride[]>;
+  saveEmailTemplate(name: string, subject: string, body: string, updatedBy: string): Promise<EmailTemplateOverride>;
+  deleteEmailTemplate(name: string): Promise<boolean>;
+  getEmailBranding(): Promise<EmailBranding | undefined>;
+  saveEmailBranding(branding: InsertEmailBranding): Promise<EmailBranding>;
 }
 
 export class MemStorage implements IStorage {
+  private users: Map<string, User>;
   private orders: Map<string, Order>;
   private updates: Map<string, Update>;
   private comments: Map<string, Comment>;
+  private commentRevisions: Map<string, CommentRevision>;
+  private orderLineItems: Map<string, OrderLineItem>;
+  private orderAmendments: Map<string, OrderAmendment>;
+  private productionStages: Map<string, ProductionStage>;
+  private stageOutputs: Map<string, StageOutput>;
+  private shipments: Map<string, Shipment>;
+  private tnaTemplates: Map<string, TnaTemplate>;
+  private orderMilestones: Map<string, OrderMilestone>;
+  private deliveryRisks: Map<string, DeliveryRisk>;
+  private statusHistory: Map<string, StatusHistory>;
   private stakeholders: Map<string, Stakeholder>;
+  private invitationTokens: Map<string, InvitationToken>;
+  private notifications: Map<string, Notification>;
+  private mediaFiles: Map<string, MediaFile>;
+  private mediaAnnotations: Map<string, MediaAnnotation>;
+  private mediaBlobs: Map<string, MediaBlob>;
+  private inboundEmails: Map<string, InboundEmail>;
+  private emailOutbox: Map<string, OutboxEmail>;
+  private emailTemplates: Map<string, EmailTemplateOverride>;
+  private emailBranding: EmailBranding | undefined;
 
   constructor() {
+    this.users = new Map();
     this.orders = new Map();
     this.updates = new Map();
     this.comments = new Map();
+    this.commentRevisions = new Map();
+    this.orderLineItems = new Map();
+    this.orderAmendments = new Map();
+    this.productionStages = new Map();
+    this.stageOutputs = new Map();
+    this.shipments = new Map();
+    this.tnaTemplates = new Map();
+    this.orderMilestones = new Map();
+    this.deliveryRisks = new Map();
+    this.statusHistory = new Map();
     this.stakeholders = new Map();
-
-    // Seed with demo data
-    this.seedData();
+    this.invitationTokens = new Map();
+    this.notifications = new Map();
+    this.mediaFiles = new Map();
+    this.mediaAnnotations = new Map();
+    this.mediaBlobs = new Map();
+    this.inboundEmails = new Map();
+    this.emailOutbox = new Map();
+    this.emailTemplates = new Map();
   }
 
-  private seedData() {
-    // Create demo orders
-    const order1: Order = {
-      id: "ORD-001",
-      buyerName: "Fashion Forward Inc.",
-      styleNumber: "FF-2024-001",
-      quantity: 1000,
-      estimatedDelivery: new Date("2024-03-15"),
-      buyerEmail: "orders@fashionforward.com",
-      status: "in_production",
-      createdAt: new Date("2024-01-10"),
-    };
-
-    const order2: Order = {
-      id: "ORD-002",
-      buyerName: "Retail Chain Co.",
-      styleNumber: "RC-SS24-015",
-      quantity: 2500,
-      estimatedDelivery: new Date("2024-02-28"),
-      buyerEmail: "purchasing@retailchain.com",
-      status: "quality_check",
-      createdAt: new Date("2024-01-05"),
-    };
-
-    this.orders.set(order1.id, order1);
-    this.orders.set(order2.id, order2);
-
-    // Seed some demo updates and comments
-    const update1: Update = {
-      id: "update-1",
-      orderId: "ORD-001",
-      message: "Production has started. Fabric cutting is complete.",
-      authorName: "Sarah Chen",
-      authorRole: "manufacturer",
-      createdAt: new Date("2024-01-12"),
-    };
-
-    const comment1: Comment = {
-      id: "comment-1",
-      orderId: "ORD-001", 
-      message: "Looking great! Can we get photos of the fabric quality?",
-      authorName: "Mike Johnson",
-      authorRole: "buyer",
-      createdAt: new Date("2024-01-13"),
-    };
-
-    this.updates.set(update1.id, update1);
-    this.comments.set(comment1.id, comment1);
+  // Users
+  async getUser(id: string): Promise<User | undefined> {
+    return this.users.get(id);
+  }
 
-    // Seed some demo stakeholders
-    const stakeholder1: Stakeholder = {
-      id: "stakeholder-1",
-      orderId: "ORD-001",
-      name: "Sarah Chen",
-      email: "sarah.chen@garmentfactory.com",
-      role: "factory_manager",
-      permissions: "update",
-      createdAt: new Date("2024-01-10"),
-    };
+  async getUserByEmail(email: string): Promise<User | undefined> {
+    const normalized = email.toLowerCase();
+    return Array.from(this.users.values()).find(user => user.email === normalized);
+  }
 
-    const stakeholder2: Stakeholder = {
-      id: "stakeholder-2",
-      orderId: "ORD-001",
-      name: "Mike Johnson",
-      email: "mike.johnson@fashionforward.com",
-      role: "buyer",
-      permissions: "comment",
-      createdAt: new Date("2024-01-10"),
+  async createUser(insertUser: InsertUser): Promise<User> {
+    const id = randomUUID();
+    const user: User = {
+      ...insertUser,
+      id,
+      email: insertUser.email.toLowerCase(),
+      isAdmin: insertUser.isAdmin ?? false,
+      createdAt: new Date(),
     };
-
-    this.stakeholders.set(stakeholder1.id, stakeholder1);
-    this.stakeholders.set(stakeholder2.id, stakeholder2);
+    this.users.set(id, user);
+    return user;
   }
 
   // Orders
@@ -125,9 +255,14 @@ export class MemStorage implements IStorage {
   }
 
   async createOrder(insertOrder: InsertOrder): Promise<Order> {
+    // Order ids are chosen by the creator, so an existing order must never be replaced
+    if (this.orders.has(insertOrder.id)) {
+      throw new Error(`Order ${insertOrder.id} already exists`);
+    }
     const order: Order = {
       ...insertOrder,
       status: insertOrder.status || "received",
+      revision: 1,
       createdAt: new Date(),
     };
     this.orders.set(order.id, order);
@@ -145,6 +280,350 @@ export class MemStorage implements IStorage {
     this.orders.set(id, updatedOrder);
     return updatedOrder;
   }
+  async updateOrder(id: string, changes: OrderChanges): Promise<Order | undefined> {
+    const order = this.orders.get(id);
+    if (!order) return undefined;
+
+    const updated = { ...order, ...changes };
+    this.orders.set(id, updated);
+    return updated;
+  }
+
+  // Order line items
+  async getOrderLineItems(orderId: string): Promise<OrderLineItem[]> {
+    return Array.from(this.orderLineItems.values())
+      .filter(item => item.orderId === orderId)
+      .sort((a, b) => a.position - b.position);
+  }
+
+  async replaceOrderLineItems(orderId: string, items: OrderLineItemInput[]): Promise<OrderLineItem[]> {
+    const existing = new Map((await this.getOrderLineItems(orderId)).map(item => [lineItemKey(item), item]));
+    const kept = new Set<string>();
+
+    const replaced = items.map((input, position) => {
+      const previous = existing.get(lineItemKey(input));
+      const item: OrderLineItem = {
+        id: previous?.id ?? randomUUID(),
+        orderId,
+        color: input.color,
+        size: input.size,
+        quantity: input.quantity,
+        position,
+        createdAt: previous?.createdAt ?? new Date(),
+      };
+      kept.add(item.id);
+      this.orderLineItems.set(item.id, item);
+      return item;
+    });
+
+    existing.forEach(item => {
+      if (!kept.has(item.id)) this.orderLineItems.delete(item.id);
+    });
+    return replaced;
+  }
+
+  // Order amendments
+  async getOrderAmendment(id: string): Promise<OrderAmendment | undefined> {
+    return this.orderAmendments.get(id);
+  }
+
+  async getOrderAmendmentsByOrder(orderId: string): Promise<OrderAmendment[]> {
+    return Array.from(this.orderAmendments.values())
+      .filter(amendment => amendment.orderId === orderId)
+      .sort((a, b) => b.createdAt!.getTime() - a.createdAt!.getTime());
+  }
+
+  async createOrderAmendment(insertAmendment: InsertOrderAmendment): Promise<OrderAmendment> {
+    const id = randomUUID();
+    const amendment: OrderAmendment = {
+      ...insertAmendment,
+      id,
+      revision: null,
+      reason: insertAmendment.reason ?? null,
+      status: 'pending',
+      proposedById: insertAmendment.proposedById ?? null,
+      decidedById: null,
+      decidedByName: null,
+      decisionNote: null,
+      decidedAt: null,
+      createdAt: new Date(),
+    };
+    this.orderAmendments.set(id, amendment);
+    return amendment;
+  }
+
+  async decideOrderAmendment(id: string, decision: AmendmentDecision): Promise<OrderAmendment | undefined> {
+    const amendment = this.orderAmendments.get(id);
+    if (!amendment || amendment.status !== 'pending') return undefined;
+
+    const decided: OrderAmendment = {
+      ...amendment,
+      ...decision,
+      decidedById: decision.decidedById ?? null,
+      decisionNote: decision.decisionNote ?? null,
+      revision: decision.revision ?? null,
+      decidedAt: new Date(),
+    };
+    this.orderAmendments.set(id, decided);
+    return decided;
+  }
+
+  async applyOrderAmendment(id: string, application: AmendmentApplication): Promise<{ order: Order; amendment: OrderAmendment } | undefined> {
+    const amendment = this.orderAmendments.get(id);
+    const order = amendment && this.orders.get(amendment.orderId);
+    if (!amendment || !order || amendment.status !== 'pending' || order.revision !== amendment.baseRevision) {
+      return undefined;
+    }
+
+    const decided = (await this.decideOrderAmendment(id, application.decision))!;
+    const updated = (await this.updateOrder(order.id, application.orderChanges))!;
+    if (application.lineItems) {
+      await this.replaceOrderLineItems(order.id, application.lineItems);
+    }
+    if (application.productionStages) {
+      await this.replaceProductionStages(order.id, application.productionStages);
+    }
+    for (const { id: milestoneId, plannedDate } of application.milestoneDates ?? []) {
+      await this.updateOrderMilestone(milestoneId, { plannedDate });
+    }
+    return { order: updated, amendment: decided };
+  }
+
+  // Production stages
+  async getProductionStage(id: string): Promise<ProductionStage | undefined> {
+    return this.productionStages.get(id);
+  }
+
+  async getProductionStages(orderId: string): Promise<ProductionStage[]> {
+    return Array.from(this.productionStages.values())
+      .filter(stage => stage.orderId === orderId)
+      .sort((a, b) => a.position - b.position);
+  }
+
+  async replaceProductionStages(orderId: string, inputs: ProductionStageInput[]): Promise<ProductionStage[]> {
+    const existing = new Map((await this.getProductionStages(orderId)).map(stage => [stage.id, stage]));
+    const kept = new Set<string>();
+
+    const replaced = inputs.map((input, position) => {
+      const previous = input.id ? existing.get(input.id) : undefined;
+      const completedQuantity = previous?.completedQuantity ?? 0;
+      const stage: ProductionStage = {
+        id: previous?.id ?? randomUUID(),
+        orderId,
+        name: input.name,
+        position,
+        plannedQuantity: input.plannedQuantity,
+        plannedStart: input.plannedStart ?? null,
+        plannedEnd: input.plannedEnd ?? null,
+        completedQuantity,
+        actualStart: previous?.actualStart ?? null,
+        actualEnd: isStageComplete({ ...input, completedQuantity }) ? this.lastProductionDay(previous?.id) : null,
+        createdAt: previous?.createdAt ?? new Date(),
+      };
+      kept.add(stage.id);
+      this.productionStages.set(stage.id, stage);
+      return stage;
+    });
+
+    existing.forEach(stage => {
+      if (!kept.has(stage.id)) this.productionStages.delete(stage.id);
+    });
+    return replaced;
+  }
+
+  async getStageOutputsByOrder(orderId: string): Promise<StageOutput[]> {
+    return Array.from(this.stageOutputs.values())
+      .filter(output => output.orderId === orderId)
+      .sort((a, b) => b.producedOn.getTime() - a.producedOn.getTime() || b.createdAt!.getTime() - a.createdAt!.getTime());
+  }
+
+  async recordStageOutput(insertOutput: InsertStageOutput): Promise<{ stage: ProductionStage; output: StageOutput } | undefined> {
+    const current = this.productionStages.get(insertOutput.stageId);
+    if (!current) return undefined;
+
+    const id = randomUUID();
+    const output: StageOutput = {
+      ...insertOutput,
+      id,
+      lineItemId: insertOutput.lineItemId ?? null,
+      note: insertOutput.note ?? null,
+      recordedById: insertOutput.recordedById ?? null,
+      createdAt: new Date(),
+    };
+    this.stageOutputs.set(id, output);
+
+    const completedQuantity = current.completedQuantity + output.quantity;
+    const stage: ProductionStage = {
+      ...current,
+      completedQuantity,
+      actualStart: !current.actualStart || output.producedOn < current.actualStart ? output.producedOn : current.actualStart,
+      actualEnd: isStageComplete({ ...current, completedQuantity }) ? this.lastProductionDay(current.id) : null,
+    };
+    this.productionStages.set(stage.id, stage);
+    return { stage, output };
+  }
+
+  async getShipmentsByOrder(orderId: string): Promise<Shipment[]> {
+    return Array.from(this.shipments.values())
+      .filter(shipment => shipment.orderId === orderId)
+      .sort((a, b) => b.shippedOn.getTime() - a.shippedOn.getTime() || b.createdAt!.getTime() - a.createdAt!.getTime());
+  }
+
+  async recordShipment(insertShipment: InsertShipment): Promise<Shipment> {
+    const id = randomUUID();
+    const shipment: Shipment = {
+      ...insertShipment,
+      id,
+      lineItemId: insertShipment.lineItemId ?? null,
+      reference: insertShipment.reference ?? null,
+      note: insertShipment.note ?? null,
+      recordedById: insertShipment.recordedById ?? null,
+      createdAt: new Date(),
+    };
+    this.shipments.set(id, shipment);
+    return shipment;
+  }
+
+  // TNA templates
+  async getTnaTemplates(): Promise<TnaTemplate[]> {
+    return Array.from(this.tnaTemplates.values()).sort((a, b) => a.name.localeCompare(b.name));
+  }
+
+  async getTnaTemplate(id: string): Promise<TnaTemplate | undefined> {
+    return this.tnaTemplates.get(id);
+  }
+
+  async createTnaTemplate(input: TnaTemplateInput, updatedBy: string): Promise<TnaTemplate> {
+    if (input.isDefault) this.clearDefaultTnaTemplate();
+    const id = randomUUID();
+    const template: TnaTemplate = {
+      id,
+      name: input.name,
+      milestones: input.milestones,
+      isDefault: input.isDefault ?? false,
+      updatedBy,
+      createdAt: new Date(),
+      updatedAt: new Date(),
+    };
+    this.tnaTemplates.set(id, template);
+    return template;
+  }
+
+  async updateTnaTemplate(id: string, input: TnaTemplateInput, updatedBy: string): Promise<TnaTemplate | undefined> {
+    const current = this.tnaTemplates.get(id);
+    if (!current) return undefined;
+
+    if (input.isDefault) this.clearDefaultTnaTemplate();
+    const template: TnaTemplate = {
+      ...current,
+      name: input.name,
+      milestones: input.milestones,
+      isDefault: input.isDefault ?? false,
+      updatedBy,
+      updatedAt: new Date(),
+    };
+    this.tnaTemplates.set(id, template);
+    return template;
+  }
+
+  async deleteTnaTemplate(id: string): Promise<boolean> {
+    return this.tnaTemplates.delete(id);
+  }
+
+  // Order milestones
+  async getOrderMilestone(id: string): Promise<OrderMilestone | undefined> {
+    return this.orderMilestones.get(id);
+  }
+
+  async getOrderMilestones(orderId: string): Promise<OrderMilestone[]> {
+    return Array.from(this.orderMilestones.values())
+      .filter(milestone => milestone.orderId === orderId)
+      .sort((a, b) => a.plannedDate.getTime() - b.plannedDate.getTime() || a.position - b.position);
+  }
+
+  async createOrderMilestones(inputs: InsertOrderMilestone[]): Promise<OrderMilestone[]> {
+    return inputs.map(input => {
+      const milestone: OrderMilestone = {
+        ...input,
+        id: randomUUID(),
+        actualDate: null,
+        ownerStakeholderId: input.ownerStakeholderId ?? null,
+        completedById: null,
+        completedByName: null,
+        createdAt: new Date(),
+      };
+      this.orderMilestones.set(milestone.id, milestone);
+      return milestone;
+    });
+  }
+
+  async updateOrderMilestone(id: string, changes: OrderMilestoneChanges): Promise<OrderMilestone | undefined> {
+    const milestone = this.orderMilestones.get(id);
+    if (!milestone) return undefined;
+
+    const updated = { ...milestone, ...changes };
+    this.orderMilestones.set(id, updated);
+    return updated;
+  }
+
+  // Delivery risks
+  async getDeliveryRisks(): Promise<DeliveryRisk[]> {
+    return Array.from(this.deliveryRisks.values()).sort((a, b) => b.score - a.score);
+  }
+
+  async saveDeliveryRisk(input: InsertDeliveryRisk): Promise<DeliveryRisk> {
+    const risk: DeliveryRisk = {
+      ...input,
+      alertedAt: this.deliveryRisks.get(input.orderId)?.alertedAt ?? null,
+    };
+    this.deliveryRisks.set(risk.orderId, risk);
+    return risk;
+  }
+
+  async deleteDeliveryRisk(orderId: string): Promise<void> {
+    this.deliveryRisks.delete(orderId);
+  }
+
+  async markDeliveryRisksAlerted(orderIds: string[], alertedAt: Date): Promise<void> {
+    orderIds.forEach(orderId => {
+      const risk = this.deliveryRisks.get(orderId);
+      if (risk) this.deliveryRisks.set(orderId, { ...risk, alertedAt });
+    });
+  }
+
+  private clearDefaultTnaTemplate(): void {
+    this.tnaTemplates.forEach(template => {
+      if (template.isDefault) this.tnaTemplates.set(template.id, { ...template, isDefault: false });
+    });
+  }
+
+  // The latest day a stage produced anything
+  private lastProductionDay(stageId: string | undefined): Date | null {
+    const days = Array.from(this.stageOutputs.values())
+      .filter(output => output.stageId === stageId)
+      .map(output => output.producedOn.getTime());
+    return days.length > 0 ? new Date(Math.max(...days)) : null;
+  }
+
+  // Status history
+  async getStatusHistoryByOrder(orderId: string): Promise<StatusHistory[]> {
+    return Array.from(this.statusHistory.values())
+      .filter(entry => entry.orderId === orderId)
+      .sort((a, b) => a.createdAt!.getTime() - b.createdAt!.getTime());
+  }
+
+  async createStatusHistory(insertEntry: InsertStatusHistory): Promise<StatusHistory> {
+    const id = randomUUID();
+    const entry: StatusHistory = {
+      ...insertEntry,
+      id,
+      changedById: insertEntry.changedById ?? null,
+      reason: insertEntry.reason ?? null,
+      createdAt: new Date(),
+    };
+    this.statusHistory.set(id, entry);
+    return entry;
+  }
 
   // Updates
   async getUpdatesByOrder(orderId: string): Promise<Update[]> {
@@ -158,6 +637,8 @@ export class MemStorage implements IStorage {
     const update: Update = {
       ...insertUpdate,
       id,
+      authorId: insertUpdate.authorId ?? null,
+      attachmentIds: insertUpdate.attachmentIds ?? [],
       createdAt: new Date(),
     };
     this.updates.set(id, update);
@@ -165,6 +646,10 @@ export class MemStorage implements IStorage {
   }
 
   // Comments
+  async getComment(id: string): Promise<Comment | undefined> {
+    return this.comments.get(id);
+  }
+
   async getCommentsByOrder(orderId: string): Promise<Comment[]> {
     return Array.from(this.comments.values())
       .filter(comment => comment.orderId === orderId)
@@ -176,24 +661,81 @@ export class MemStorage implements IStorage {
     const comment: Comment = {
       ...insertComment,
       id,
+      authorId: insertComment.authorId ?? null,
+      annotationId: insertComment.annotationId ?? null,
+      parentId: insertComment.parentId ?? null,
+      attachmentIds: insertComment.attachmentIds ?? [],
+      editedAt: null,
+      deletedAt: null,
+      deletedByName: null,
       createdAt: new Date(),
     };
     this.comments.set(id, comment);
     return comment;
   }
 
+  async editComment(id: string, message: string, editor: Pick<User, "id" | "name">): Promise<Comment | undefined> {
+    const comment = this.comments.get(id);
+    if (!comment) return undefined;
+
+    const revisionId = randomUUID();
+    this.commentRevisions.set(revisionId, {
+      id: revisionId,
+      commentId: id,
+      message: comment.message,
+      editedById: editor.id,
+      editedByName: editor.name,
+      createdAt: new Date(),
+    });
+    const edited = { ...comment, message, editedAt: new Date() };
+    this.comments.set(id, edited);
+    return edited;
+  }
+
+  // Newest first
+  async getCommentRevisions(commentId: string): Promise<CommentRevision[]> {
+    return Array.from(this.commentRevisions.values())
+      .filter(revision => revision.commentId === commentId)
+      .sort((a, b) => b.createdAt!.getTime() - a.createdAt!.getTime());
+  }
+
+  async deleteComment(id: string, deletedByName: string): Promise<Comment | undefined> {
+    const comment = this.comments.get(id);
+    if (!comment) return undefined;
+    if (comment.deletedAt) return comment;
+
+    const deleted = { ...comment, deletedAt: new Date(), deletedByName };
+    this.comments.set(id, deleted);
+    return deleted;
+  }
+
   // Stakeholders
+  async getStakeholder(id: string): Promise<Stakeholder | undefined> {
+    return this.stakeholders.get(id);
+  }
+
   async getStakeholdersByOrder(orderId: string): Promise<Stakeholder[]> {
     return Array.from(this.stakeholders.values())
       .filter(stakeholder => stakeholder.orderId === orderId)
       .sort((a, b) => a.createdAt!.getTime() - b.createdAt!.getTime());
   }
 
+  async getStakeholdersByUser(userId: string): Promise<Stakeholder[]> {
+    return Array.from(this.stakeholders.values())
+      .filter(stakeholder => stakeholder.userId === userId);
+  }
+
   async createStakeholder(insertStakeholder: InsertStakeholder): Promise<Stakeholder> {
     const id = randomUUID();
     const stakeholder: Stakeholder = {
       ...insertStakeholder,
       id,
+      userId: null,
+      invitationStatus: "pending",
+      invitedAt: null,
+      invitationExpiresAt: null,
+      acceptedAt: null,
+      notificationPreferences: { ...DEFAULT_NOTIFICATION_PREFERENCES },
       createdAt: new Date(),
     };
     this.stakeholders.set(id, stakeholder);
@@ -213,6 +755,506 @@ export class MemStorage implements IStorage {
     }
     return undefined;
   }
+
+  async updateStakeholder(id: string, changes: StakeholderChanges): Promise<Stakeholder | undefined> {
+    const stakeholder = this.stakeholders.get(id);
+    if (!stakeholder) return undefined;
+
+    const updatedStakeholder = { ...stakeholder, ...changes };
+    this.stakeholders.set(id, updatedStakeholder);
+    return updatedStakeholder;
+  }
+
+  // Invitation tokens
+  async createInvitationToken(insertToken: InsertInvitationToken): Promise<InvitationToken> {
+    const id = randomUUID();
+    const token: InvitationToken = {
+      ...insertToken,
+      id,
+      usedAt: null,
+      createdAt: new Date(),
+    };
+    this.invitationTokens.set(id, token);
+    return token;
+  }
+
+  async getInvitationTokenByHash(tokenHash: string): Promise<InvitationToken | undefined> {
+    return Array.from(this.invitationTokens.values()).find(token => token.tokenHash === tokenHash);
+  }
+
+  async markInvitationTokenUsed(id: string): Promise<boolean> {
+    const token = this.invitationTokens.get(id);
+    if (!token || token.usedAt) return false;
+
+    this.invitationTokens.set(id, { ...token, usedAt: new Date() });
+    return true;
+  }
+
+  async invalidateInvitationTokens(stakeholderId: string): Promise<void> {
+    Array.from(this.invitationTokens.values())
+      .filter(token => token.stakeholderId === stakeholderId && !token.usedAt)
+      .forEach(token => this.invitationTokens.set(token.id, { ...token, usedAt: new Date() }));
+  }
+
+  // Notifications
+  private matchingNotifications(recipientEmail: string, filter: NotificationFilter): Notification[] {
+    const normalized = recipientEmail.toLowerCase();
+    return Array.from(this.notifications.values()).filter(notification =>
+      notification.recipientEmail === normalized &&
+      (!filter.type || notification.type === filter.type) &&
+      (!filter.orderId || notification.orderId === filter.orderId) &&
+      (!filter.unreadOnly || !notification.isRead)
+    );
+  }
+
+  async getNotification(id: string): Promise<Notification | undefined> {
+    return this.notifications.get(id);
+  }
+
+  async getNotifications(recipientEmail: string, filter: NotificationFilter, limit: number, offset: number): Promise<Notification[]> {
+    return this.matchingNotifications(recipientEmail, filter)
+      .sort((a, b) => new Date(b.createdAt!).getTime() - new Date(a.createdAt!).getTime())
+      .slice(offset, offset + limit);
+  }
+
+  async countNotifications(recipientEmail: string, filter: NotificationFilter): Promise<number> {
+    return this.matchingNotifications(recipientEmail, filter).length;
+  }
+
+  async createNotifications(insertNotifications: InsertNotification[]): Promise<Notification[]> {
+    return insertNotifications.map(insertNotification => {
+      const id = randomUUID();
+      const notification: Notification = {
+        ...insertNotification,
+        id,
+        recipientEmail: insertNotification.recipientEmail.toLowerCase(),
+        orderId: insertNotification.orderId ?? null,
+        entityId: insertNotification.entityId ?? null,
+        actorName: insertNotification.actorName ?? null,
+        priority: insertNotification.priority ?? 'normal',
+        isRead: false,
+        readAt: null,
+        createdAt: new Date(),
+      };
+      this.notifications.set(id, notification);
+      return notification;
+    });
+  }
+
+  async markNotificationRead(id: string): Promise<Notification | undefined> {
+    const notification = this.notifications.get(id);
+    if (!notification) return undefined;
+    if (notification.isRead) return notification;
+
+    const updatedNotification = { ...notification, isRead: true, readAt: new Date() };
+    this.notifications.set(id, updatedNotification);
+    return updatedNotification;
+  }
+
+  async markAllNotificationsRead(recipientEmail: string, filter: NotificationFilter): Promise<number> {
+    const unread = this.matchingNotifications(recipientEmail, { ...filter, unreadOnly: true });
+    const readAt = new Date();
+    unread.forEach(notification => this.notifications.set(notification.id, { ...notification, isRead: true, readAt }));
+    return unread.length;
+  }
+
+  async updateNotificationMessages(entityId: string, message: string): Promise<void> {
+    Array.from(this.notifications.values())
+      .filter(notification => notification.entityId === entityId)
+      .forEach(notification => this.notifications.set(notification.id, { ...notification, message }));
+  }
+
+  // Media
+  async getMediaFile(id: string): Promise<MediaFile | undefined> {
+    return this.mediaFiles.get(id);
+  }
+
+  async getMediaFilesByOrder(orderId: string): Promise<MediaFile[]> {
+    return Array.from(this.mediaFiles.values())
+      .filter(file => file.orderId === orderId)
+      .sort((a, b) => new Date(b.uploadedAt!).getTime() - new Date(a.uploadedAt!).getTime());
+  }
+
+  async createMediaFile(insertFile: InsertMediaFile): Promise<MediaFile> {
+    if (insertFile.contentHash && !this.mediaBlobs.has(insertFile.contentHash)) {
+      throw new MediaBlobReleasedError(insertFile.contentHash);
+    }
+    const id = randomUUID();
+    const file: MediaFile = {
+      ...insertFile,
+      id,
+      category: insertFile.category ?? "other",
+      description: insertFile.description ?? null,
+      uploadedAt: new Date(),
+      documentId: null,
+      version: 1,
+      changeNote: insertFile.changeNote ?? null,
+      contentHash: insertFile.contentHash ?? null,
+      isLatest: true,
+      scanStatus: "pending",
+      scanLockedAt: null,
+      scanVerdict: null,
+      scannedBy: null,
+      scannedAt: null,
+      previewStatus: "pending",
+      previewLockedAt: null,
+      previewError: null,
+      thumbnails: null,
+    };
+    this.mediaFiles.set(id, file);
+    return file;
+  }
+
+  // Every version of a document, newest first
+  async getMediaFileVersions(documentId: string): Promise<MediaFile[]> {
+    return Array.from(this.mediaFiles.values())
+      .filter(file => file.id === documentId || file.documentId === documentId)
+      .sort((a, b) => b.version - a.version);
+  }
+
+  // The new version stays behind the current one until it is promoted
+  async createMediaFileVersion(documentId: string, insertFile: InsertMediaFile): Promise<MediaFile> {
+    const versions = await this.getMediaFileVersions(documentId);
+    const created = await this.createMediaFile(insertFile);
+    const file = { ...created, documentId, version: (versions[0]?.version ?? 0) + 1, isLatest: false };
+    this.mediaFiles.set(file.id, file);
+    return file;
+  }
+
+  async promoteMediaFileVersion(id: string): Promise<boolean> {
+    const file = this.mediaFiles.get(id);
+    if (!file) return false;
+
+    const versions = await this.getMediaFileVersions(file.documentId ?? file.id);
+    const latest = versions.find(version => version.isLatest);
+    if (latest && latest.version >= file.version) return false;
+
+    if (latest) {
+      this.mediaFiles.set(latest.id, { ...latest, isLatest: false });
+    }
+    this.mediaFiles.set(id, { ...file, isLatest: true });
+    return true;
+  }
+
+  async updateMediaFile(id: string, changes: MediaFileChanges): Promise<MediaFile | undefined> {
+    const file = this.mediaFiles.get(id);
+    if (!file) return undefined;
+
+    const updated = { ...file, ...changes };
+    this.mediaFiles.set(id, updated);
+    return updated;
+  }
+
+  // Deleting the newest version of a document makes the newest clean one before it (or the first
+  // version) current again. The file's annotations go with it; their comments stay on the order
+  // timeline.
+  async deleteMediaFile(id: string): Promise<boolean> {
+    const file = this.mediaFiles.get(id);
+    if (!file) return false;
+
+    this.mediaFiles.delete(id);
+    Array.from(this.mediaAnnotations.values())
+      .filter(annotation => annotation.mediaFileId === id)
+      .forEach(annotation => {
+        this.mediaAnnotations.delete(annotation.id);
+        this.detachAnnotationComments(annotation.id);
+      });
+    if (file.isLatest) {
+      const previous = (await this.getMediaFileVersions(file.documentId ?? file.id))
+        .find(version => version.scanStatus === "clean" || !version.documentId);
+      if (previous) {
+        this.mediaFiles.set(previous.id, { ...previous, isLatest: true });
+      }
+    }
+    return true;
+  }
+
+  async claimPendingScans(limit: number, staleBefore: Date): Promise<MediaFile[]> {
+    const due = Array.from(this.mediaFiles.values())
+      .filter(file =>
+        file.scanStatus === "pending" ||
+        (file.scanStatus === "scanning" && !!file.scanLockedAt && file.scanLockedAt < staleBefore)
+      )
+      .sort((a, b) => new Date(a.uploadedAt!).getTime() - new Date(b.uploadedAt!).getTime())
+      .slice(0, limit);
+
+    return due.map(file => {
+      const claimed = { ...file, scanStatus: "scanning", scanLockedAt: new Date() };
+      this.mediaFiles.set(file.id, claimed);
+      return claimed;
+    });
+  }
+
+  async claimPendingPreviews(limit: number, staleBefore: Date): Promise<MediaFile[]> {
+    const due = Array.from(this.mediaFiles.values())
+      .filter(file => file.scanStatus === "clean")
+      .filter(file =>
+        file.previewStatus === "pending" ||
+        (file.previewStatus === "processing" && !!file.previewLockedAt && file.previewLockedAt < staleBefore)
+      )
+      .sort((a, b) => new Date(a.uploadedAt!).getTime() - new Date(b.uploadedAt!).getTime())
+      .slice(0, limit);
+
+    return due.map(file => {
+      const claimed = { ...file, previewStatus: "processing", previewLockedAt: new Date() };
+      this.mediaFiles.set(file.id, claimed);
+      return claimed;
+    });
+  }
+
+  // Media blobs
+  async getMediaBlob(hash: string): Promise<MediaBlob | undefined> {
+    return this.mediaBlobs.get(hash);
+  }
+
+  async createMediaBlob(insertBlob: InsertMediaBlob): Promise<MediaBlob> {
+    const existing = this.mediaBlobs.get(insertBlob.hash);
+    if (existing) return existing;
+
+    const blob: MediaBlob = {
+      ...insertBlob,
+      integrityStatus: "ok",
+      lastVerifiedAt: null,
+      createdAt: new Date(),
+    };
+    this.mediaBlobs.set(blob.hash, blob);
+    return blob;
+  }
+
+  async updateMediaBlob(hash: string, changes: MediaBlobChanges): Promise<MediaBlob | undefined> {
+    const blob = this.mediaBlobs.get(hash);
+    if (!blob) return undefined;
+
+    const updated = { ...blob, ...changes };
+    this.mediaBlobs.set(hash, updated);
+    return updated;
+  }
+
+  async relocateMediaBlob(hash: string, object: Pick<MediaBlob, "storageKey" | "size" | "checksum">): Promise<void> {
+    const blob = this.mediaBlobs.get(hash);
+    if (blob) {
+      this.mediaBlobs.set(hash, { ...blob, ...object });
+    }
+    (await this.getMediaFilesByHash(hash)).forEach(file => {
+      this.mediaFiles.set(file.id, { ...file, filename: object.storageKey, size: object.size });
+    });
+  }
+
+  async releaseMediaBlob(hash: string): Promise<MediaBlob | undefined> {
+    const blob = this.mediaBlobs.get(hash);
+    // Checked without yielding, so no new file can take a reference in between
+    if (!blob || Array.from(this.mediaFiles.values()).some(file => file.contentHash === hash)) return undefined;
+
+    this.mediaBlobs.delete(hash);
+    return blob;
+  }
+
+  async getMediaFilesByHash(hash: string): Promise<MediaFile[]> {
+    return Array.from(this.mediaFiles.values())
+      .filter(file => file.contentHash === hash)
+      .sort((a, b) => new Date(a.uploadedAt!).getTime() - new Date(b.uploadedAt!).getTime());
+  }
+
+  // Never-verified blobs first, then those checked longest ago
+  async getBlobsDueForVerification(verifiedBefore: Date, limit: number): Promise<MediaBlob[]> {
+    return Array.from(this.mediaBlobs.values())
+      .filter(blob => !blob.lastVerifiedAt || blob.lastVerifiedAt < verifiedBefore)
+      .sort((a, b) => (a.lastVerifiedAt?.getTime() ?? 0) - (b.lastVerifiedAt?.getTime() ?? 0))
+      .slice(0, limit);
+  }
+
+  async getDamagedMediaBlobs(): Promise<MediaBlob[]> {
+    return Array.from(this.mediaBlobs.values()).filter(blob => blob.integrityStatus !== "ok");
+  }
+
+  // Media annotations
+  async getAnnotation(id: string): Promise<MediaAnnotation | undefined> {
+    return this.mediaAnnotations.get(id);
+  }
+
+  private annotationComments(annotationId: string): Comment[] {
+    return Array.from(this.comments.values())
+      .filter(comment => comment.annotationId === annotationId)
+      .sort((a, b) => a.createdAt!.getTime() - b.createdAt!.getTime());
+  }
+
+  private detachAnnotationComments(annotationId: string): void {
+    this.annotationComments(annotationId).forEach(comment => {
+      this.comments.set(comment.id, { ...comment, annotationId: null });
+    });
+  }
+
+  async getAnnotationsByMediaFile(mediaFileId: string): Promise<AnnotationThread[]> {
+    return Array.from(this.mediaAnnotations.values())
+      .filter(annotation => annotation.mediaFileId === mediaFileId)
+      .sort((a, b) => a.createdAt!.getTime() - b.createdAt!.getTime())
+      .map(annotation => ({ ...annotation, comments: this.annotationComments(annotation.id) }));
+  }
+
+  async createAnnotation(insertAnnotation: InsertMediaAnnotation, insertComment: InsertComment): Promise<AnnotationThread> {
+    const id = randomUUID();
+    const annotation: MediaAnnotation = {
+      ...insertAnnotation,
+      id,
+      authorId: insertAnnotation.authorId ?? null,
+      createdAt: new Date(),
+    };
+    this.mediaAnnotations.set(id, annotation);
+
+    const comment = await this.createComment({ ...insertComment, annotationId: id });
+    return { ...annotation, comments: [comment] };
+  }
+
+  // Removes the annotation together with its comment thread
+  async deleteAnnotation(id: string): Promise<boolean> {
+    if (!this.mediaAnnotations.delete(id)) return false;
+
+    this.annotationComments(id).forEach(comment => this.comments.delete(comment.id));
+    return true;
+  }
+
+  // Inbound email
+  async getInboundEmailByMessageId(messageId: string): Promise<InboundEmail | undefined> {
+    return Array.from(this.inboundEmails.values()).find(email => email.messageId === messageId);
+  }
+
+  async createInboundEmail(insertEmail: InsertInboundEmail): Promise<InboundEmail> {
+    const id = randomUUID();
+    const email: InboundEmail = {
+      ...insertEmail,
+      id,
+      messageId: insertEmail.messageId ?? null,
+      subject: insertEmail.subject ?? null,
+      orderId: insertEmail.orderId ?? null,
+      commentId: insertEmail.commentId ?? null,
+      reason: insertEmail.reason ?? null,
+      receivedAt: new Date(),
+    };
+    this.inboundEmails.set(id, email);
+    return email;
+  }
+
+  // Email outbox
+  async enqueueEmails(insertEmails: InsertOutboxEmail[]): Promise<OutboxEmail[]> {
+    return insertEmails.map(insertEmail => {
+      const id = randomUUID();
+      const email: OutboxEmail = {
+        ...insertEmail,
+        id,
+        replyTo: insertEmail.replyTo ?? null,
+        messageId: insertEmail.messageId ?? null,
+        status: "pending",
+        attempts: 0,
+        maxAttempts: insertEmail.maxAttempts ?? 6,
+        nextAttemptAt: new Date(),
+        lockedAt: null,
+        lastError: null,
+        sentAt: null,
+        createdAt: new Date(),
+      };
+      this.emailOutbox.set(id, email);
+      return email;
+    });
+  }
+
+  async claimDueEmails(limit: number, staleBefore: Date): Promise<OutboxEmail[]> {
+    const now = new Date();
+    const due = Array.from(this.emailOutbox.values())
+      .filter(email =>
+        (email.status === "pending" && email.nextAttemptAt <= now) ||
+        (email.status === "sending" && !!email.lockedAt && email.lockedAt < staleBefore)
+      )
+      .sort((a, b) => a.nextAttemptAt.getTime() - b.nextAttemptAt.getTime())
+      .slice(0, limit);
+
+    return due.map(email => {
+      const claimed = { ...email, status: "sending", lockedAt: now, attempts: email.attempts + 1 };
+      this.emailOutbox.set(email.id, claimed);
+      return claimed;
+    });
+  }
+
+  async markEmailSent(id: string): Promise<void> {
+    const email = this.emailOutbox.get(id);
+    if (email) {
+      this.emailOutbox.set(id, { ...email, status: "sent", sentAt: new Date(), lockedAt: null, lastError: null });
+    }
+  }
+
+  async markEmailFailed(id: string, error: string, retryAt: Date | null): Promise<void> {
+    const email = this.emailOutbox.get(id);
+    if (email) {
+      this.emailOutbox.set(id, {
+        ...email,
+        status: retryAt ? "pending" : "dead",
+        nextAttemptAt: retryAt ?? email.nextAttemptAt,
+        lockedAt: null,
+        lastError: error,
+      });
+    }
+  }
+
+  async requeueEmail(id: string): Promise<OutboxEmail | undefined> {
+    const email = this.emailOutbox.get(id);
+    if (!email) return undefined;
+
+    const requeued = { ...email, status: "pending", attempts: 0, nextAttemptAt: new Date(), lockedAt: null };
+    this.emailOutbox.set(id, requeued);
+    return requeued;
+  }
+
+  async getOutboxEmails(status: OutboxStatus | undefined, limit: number, offset: number): Promise<OutboxEmail[]> {
+    return Array.from(this.emailOutbox.values())
+      .filter(email => !status || email.status === status)
+      .sort((a, b) => new Date(b.createdAt!).getTime() - new Date(a.createdAt!).getTime())
+      .slice(offset, offset + limit);
+  }
+
+  async countOutboxEmails(): Promise<Record<OutboxStatus, number>> {
+    const counts: Record<OutboxStatus, number> = { pending: 0, sending: 0, sent: 0, dead: 0 };
+    Array.from(this.emailOutbox.values()).forEach(email => {
+      counts[email.status as OutboxStatus] += 1;
+    });
+    return counts;
+  }
+
+  // Email templates and branding
+  async getEmailTemplate(name: string): Promise<EmailTemplateOverride | undefined> {
+    return this.emailTemplates.get(name);
+  }
+
+  async listEmailTemplates(): Promise<EmailTemplateOverride[]> {
+    return Array.from(this.emailTemplates.values());
+  }
+
+  async saveEmailTemplate(name: string, subject: string, body: string, updatedBy: string): Promise<EmailTemplateOverride> {
+    const template: EmailTemplateOverride = { name, subject, body, updatedBy, updatedAt: new Date() };
+    this.emailTemplates.set(name, template);
+    return template;
+  }
+
+  async deleteEmailTemplate(name: string): Promise<boolean> {
+    return this.emailTemplates.delete(name);
+  }
+
+  async getEmailBranding(): Promise<EmailBranding | undefined> {
+    return this.emailBranding;
+  }
+
+  async saveEmailBranding(branding: InsertEmailBranding): Promise<EmailBranding> {
+    this.emailBranding = {
+      id: "default",
+      productName: branding.productName,
+      logoUrl: branding.logoUrl ?? null,
+      primaryColor: branding.primaryColor,
+      footerText: branding.footerText,
+      updatedAt: new Date(),
+    };
+    return this.emailBranding;
+  }
 }
 
-export const storage = new MemStorage();
\ No newline at end of file
+// Postgres when DATABASE_URL is configured, otherwise an in-memory store for local development
+export const storage: IStorage = database
+  ? new DrizzleStorage(database.db)
+  : new MemStorage();
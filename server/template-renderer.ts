@@ -0,0 +1,192 @@
+/**
+ * A small template language for emails. One source renders to both HTML and plain text:
+ *
+ *   # Heading                      a heading
+ *   **bold** text with {{name}}    a paragraph; lines within it are kept as line breaks
+ *   > {{message}}                  a quoted block
+ *   [Label]({{url}})               a button linking to an http(s) URL
+ *   ---                            a horizontal rule
+ *   {{#if name}} ... {{else}} ... {{/if}}
+ *   {{#each items}} {{field}} {{/each}}
+ *
+ * Variables are always escaped in HTML output. Values are substituted only after the markup
+ * has been parsed, so a value can never introduce headings, links or tags of its own.
+ */
+
+export type TemplateValue = string | number | boolean | null | undefined | TemplateVars[];
+export interface TemplateVars {
+  [name: string]: TemplateValue;
+}
+
+export class TemplateError extends Error {}
+
+export interface TemplateStyle {
+  primaryColor: string;
+}
+
+const VARIABLE = /\{\{\s*([a-zA-Z_][\w.]*)\s*\}\}/g;
+
+export function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&#39;");
+}
+
+function lookup(vars: TemplateVars, path: string): TemplateValue {
+  let current: TemplateValue | TemplateVars = vars;
+  for (const key of path.split(".")) {
+    if (current === null || current === undefined || typeof current !== "object") return undefined;
+    current = (current as Record<string, TemplateValue>)[key];
+  }
+  return current as TemplateValue;
+}
+
+function isTruthy(value: TemplateValue): boolean {
+  if (Array.isArray(value)) return value.length > 0;
+  return value !== undefined && value !== null && value !== false && value !== "";
+}
+
+function stringify(value: TemplateValue): string {
+  if (value === undefined || value === null || Array.isArray(value)) return "";
+  return String(value);
+}
+
+/**
+ * Expands {{#if}} and {{#each}} sections, innermost first. Inside an each section, item fields
+ * are rewritten to full paths (`{{title}}` becomes `{{items.0.title}}`) rather than inlined, so
+ * values still only enter the output through escaped substitution.
+ */
+function expandSections(source: string, vars: TemplateVars): string {
+  const innermost = /\{\{#(if|each)\s+([\w.]+)\s*\}\}((?:(?!\{\{#(?:if|each)\s)[\s\S])*?)\{\{\/\1\}\}/;
+  let output = source;
+
+  for (let match = output.match(innermost); match; match = output.match(innermost)) {
+    const [section, kind, path, body] = match;
+    const value = lookup(vars, path);
+    let replacement: string;
+
+    if (kind === "if") {
+      const [whenTrue, whenFalse = ""] = body.split(/\{\{else\}\}/);
+      replacement = isTruthy(value) ? whenTrue : whenFalse;
+    } else {
+      const items = Array.isArray(value) ? value : [];
+      replacement = items
+        .map((_item, index) => body.replace(VARIABLE, (ref, name: string) =>
+          lookup(items[index], name) !== undefined ? `{{${path}.${index}.${name}}}` : ref))
+        .join("");
+    }
+
+    output = output.slice(0, match.index) + replacement + output.slice(match.index! + section.length);
+  }
+
+  const stray = output.match(/\{\{[#/](if|each)\b[^}]*\}\}|\{\{else\}\}/);
+  if (stray) {
+    throw new TemplateError(`Unbalanced section tag ${stray[0]}`);
+  }
+  return output;
+}
+
+type Block =
+  | { kind: "heading"; text: string }
+  | { kind: "paragraph"; lines: string[] }
+  | { kind: "quote"; lines: string[] }
+  | { kind: "button"; label: string; url: string }
+  | { kind: "rule" };
+
+function parseBlocks(source: string): Block[] {
+  return source
+    .replace(/\r\n/g, "\n")
+    .split(/\n\s*\n/)
+    .map(chunk => chunk.split("\n").map(line => line.trimEnd()).filter(line => line.trim() !== ""))
+    .filter(lines => lines.length > 0)
+    .map((lines): Block => {
+      const first = lines[0].trim();
+      if (lines.length === 1 && /^-{3,}$/.test(first)) return { kind: "rule" };
+      if (lines.length === 1 && first.startsWith("# ")) return { kind: "heading", text: first.slice(2) };
+
+      const button = lines.length === 1 ? first.match(/^\[([^\]]+)\]\(([^)]+)\)$/) : null;
+      if (button) return { kind: "button", label: button[1], url: button[2] };
+
+      if (lines.every(line => line.trim().startsWith(">"))) {
+        return { kind: "quote", lines: lines.map(line => line.trim().replace(/^>\s?/, "")) };
+      }
+      return { kind: "paragraph", lines };
+    });
+}
+
+// Substitutes variables into one line of template text, escaping for HTML when asked
+function inline(text: string, vars: TemplateVars, html: boolean): string {
+  const parts = text.split(/(\*\*)/);
+  let bold = false;
+
+  return parts.map(part => {
+    if (part === "**") {
+      bold = !bold;
+      return html ? (bold ? "<strong>" : "</strong>") : "";
+    }
+
+    let result = "";
+    let last = 0;
+    for (const match of Array.from(part.matchAll(VARIABLE))) {
+      const literal = part.slice(last, match.index);
+      const value = stringify(lookup(vars, match[1]));
+      result += html ? escapeHtml(literal) + escapeHtml(value).replace(/\n/g, "<br>") : literal + value;
+      last = match.index! + match[0].length;
+    }
+    const rest = part.slice(last);
+    return result + (html ? escapeHtml(rest) : rest);
+  }).join("") + (html && bold ? "</strong>" : "");
+}
+
+function safeUrl(url: string): string {
+  return /^https?:\/\//i.test(url.trim()) ? url.trim() : "#";
+}
+
+export function renderText(source: string, vars: TemplateVars): string {
+  return parseBlocks(expandSections(source, vars))
+    .map(block => {
+      switch (block.kind) {
+        case "heading":
+          return inline(block.text, vars, false);
+        case "rule":
+          return "---";
+        case "button":
+          return `${inline(block.label, vars, false)}: ${safeUrl(inline(block.url, vars, false))}`;
+        case "quote":
+          return block.lines.map(line => inline(line, vars, false)).join("\n");
+        case "paragraph":
+          return block.lines.map(line => inline(line, vars, false)).join("\n");
+      }
+    })
+    .join("\n\n");
+}
+
+export function renderHtml(source: string, vars: TemplateVars, style: TemplateStyle): string {
+  return parseBlocks(expandSections(source, vars))
+    .map(block => {
+      switch (block.kind) {
+        case "heading":
+          return `<h2 style="margin: 0 0 16px 0; color: #111827;">${inline(block.text, vars, true)}</h2>`;
+        case "rule":
+          return `<hr style="border: none; border-top: 1px solid #e5e7eb; margin: 16px 0;">`;
+        case "button":
+          return `<p><a href="${escapeHtml(safeUrl(inline(block.url, vars, false)))}" style="background-color: ${style.primaryColor}; color: #ffffff; padding: 12px 24px; text-decoration: none; border-radius: 4px; display: inline-block;">${inline(block.label, vars, true)}</a></p>`;
+        case "quote":
+          return `<blockquote style="margin: 10px 0; padding: 10px; background-color: #f5f5f5; border-left: 4px solid ${style.primaryColor};">${block.lines.map(line => inline(line, vars, true)).join("<br>")}</blockquote>`;
+        case "paragraph":
+          return `<p style="margin: 0 0 12px 0; line-height: 1.5;">${block.lines.map(line => inline(line, vars, true)).join("<br>")}</p>`;
+      }
+    })
+    .join("\n");
+}
+
+// Single-line rendering for subjects: no markup, no line breaks
+export function renderSubject(source: string, vars: TemplateVars): string {
+  return expandSections(source, vars)
+    .replace(VARIABLE, (_ref, name: string) => stringify(lookup(vars, name)))
+    .replace(/\s*\n\s*/g, " ")
+    .trim();
+}
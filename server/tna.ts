@@ -0,0 +1,120 @@
+import { storage } from "./storage";
+import { STANDARD_TNA_MILESTONES, STANDARD_TNA_TEMPLATE_ID, DAY_MS, plannedDateFor, type TnaTemplateMilestone } from "@shared/tna";
+import type { Order, OrderMilestone, OrderMilestoneChanges, TnaTemplate, User } from "@shared/schema";
+
+// A TNA template or milestone change that can't be applied
+export class TnaError extends Error {}
+
+export interface TnaTemplateSummary {
+  id: string;
+  name: string;
+  milestones: TnaTemplateMilestone[];
+  isDefault: boolean;
+  builtIn: boolean;
+}
+
+function standardTemplate(isDefault: boolean): TnaTemplateSummary {
+  return {
+    id: STANDARD_TNA_TEMPLATE_ID,
+    name: "Standard",
+    milestones: [...STANDARD_TNA_MILESTONES],
+    isDefault,
+    builtIn: true,
+  };
+}
+
+function summarize(template: TnaTemplate): TnaTemplateSummary {
+  return { id: template.id, name: template.name, milestones: template.milestones, isDefault: template.isDefault, builtIn: false };
+}
+
+// The built-in standard template first, then the custom ones; the standard one is the default unless a custom one is
+export async function listTnaTemplates(): Promise<TnaTemplateSummary[]> {
+  const custom = await storage.getTnaTemplates();
+  return [standardTemplate(!custom.some(template => template.isDefault)), ...custom.map(summarize)];
+}
+
+// Throws TnaError for an unknown template id, so a typo doesn't silently fall back to the default
+export async function resolveTnaTemplate(templateId?: string): Promise<TnaTemplateSummary> {
+  const templates = await listTnaTemplates();
+  const template = templateId
+    ? templates.find(candidate => candidate.id === templateId)
+    : templates.find(candidate => candidate.isDefault);
+  if (!template) {
+    throw new TnaError(`TNA template ${templateId} does not exist`);
+  }
+  return template;
+}
+
+/**
+ * Creates the order's milestones from a template, earliest first, each counted back from the
+ * order's delivery date. The owner, usually the person who opened the order, can be
+ * reassigned per milestone later.
+ */
+export async function generateMilestones(
+  order: Order,
+  template: TnaTemplateSummary,
+  ownerStakeholderId?: string
+): Promise<OrderMilestone[]> {
+  const milestones = [...template.milestones].sort((a, b) => b.daysBeforeDelivery - a.daysBeforeDelivery);
+  return storage.createOrderMilestones(milestones.map((milestone, position) => ({
+    orderId: order.id,
+    name: milestone.name,
+    position,
+    plannedDate: plannedDateFor(order.estimatedDelivery, milestone.daysBeforeDelivery),
+    ownerStakeholderId,
+  })));
+}
+
+// Open milestones move with the delivery date; completed ones keep the date they were planned for
+export async function milestonesFollowingDelivery(orderId: string, from: Date, to: Date): Promise<{ id: string; plannedDate: Date }[]> {
+  const shiftDays = Math.round((plannedDateFor(to, 0).getTime() - plannedDateFor(from, 0).getTime()) / DAY_MS);
+  if (shiftDays === 0) return [];
+
+  return (await storage.getOrderMilestones(orderId))
+    .filter(milestone => !milestone.actualDate)
+    .map(milestone => ({ id: milestone.id, plannedDate: new Date(milestone.plannedDate.getTime() + shiftDays * DAY_MS) }));
+}
+
+interface MilestoneUpdate {
+  plannedDate?: string;
+  actualDate?: string | null;
+  ownerStakeholderId?: string | null;
+}
+
+export async function updateMilestone(
+  milestone: OrderMilestone,
+  update: MilestoneUpdate,
+  changedBy: Pick<User, "id" | "name">
+): Promise<OrderMilestone> {
+  const changes: OrderMilestoneChanges = {};
+
+  if (update.ownerStakeholderId !== undefined) {
+    if (update.ownerStakeholderId !== null) {
+      const stakeholders = await storage.getStakeholdersByOrder(milestone.orderId);
+      const owner = stakeholders.find(stakeholder => stakeholder.id === update.ownerStakeholderId);
+      if (!owner || owner.invitationStatus === 'revoked') {
+        throw new TnaError("The owner has to be an active stakeholder on this order");
+      }
+    }
+    changes.ownerStakeholderId = update.ownerStakeholderId;
+  }
+  if (update.plannedDate !== undefined) {
+    changes.plannedDate = plannedDateFor(new Date(update.plannedDate), 0);
+  }
+  if (update.actualDate !== undefined) {
+    const actualDate = update.actualDate === null ? null : plannedDateFor(new Date(update.actualDate), 0);
+    // Dates arrive as midnight UTC of the user's local date, which can be ahead of the server's clock
+    if (actualDate && actualDate.getTime() > Date.now() + DAY_MS) {
+      throw new TnaError("A milestone can't be completed on a future date");
+    }
+    changes.actualDate = actualDate;
+    changes.completedById = actualDate ? changedBy.id : null;
+    changes.completedByName = actualDate ? changedBy.name : null;
+  }
+
+  const updated = await storage.updateOrderMilestone(milestone.id, changes);
+  if (!updated) {
+    throw new TnaError("The milestone no longer exists");
+  }
+  return updated;
+}
@@ -0,0 +1,251 @@
+import path from "path";
+import { createHash, randomUUID } from "crypto";
+import multer from "multer";
+import type { Request, Response, NextFunction } from "express";
+import { createMediaStorage, MediaBlobReleasedError, type MediaStorageDriver } from "./media-storage";
+import { storage } from "./storage";
+import { THUMBNAIL_SIZES, type MediaFile, type ThumbnailSize } from "@shared/schema";
+
+export const UPLOAD_DIR = path.resolve(process.env.UPLOAD_DIR || "uploads");
+
+export const MAX_UPLOAD_BYTES = parseInt(process.env.MEDIA_MAX_FILE_SIZE_MB || "25", 10) * 1024 * 1024;
+const MAX_FILES_PER_UPLOAD = 10;
+
+// Photo formats the bundled libvips decodes, so their EXIF data can be stripped. Phone HEIC photos
+// are not among them and have to be converted before upload.
+export const IMAGE_MIME_TYPES = ["image/jpeg", "image/png", "image/webp", "image/gif", "image/tiff", "image/avif"];
+
+// Photos, tech packs and spreadsheets; anything else is refused at upload time
+const ALLOWED_MIME_TYPES = [
+  "application/pdf",
+  "application/msword",
+  "application/vnd.openxmlformats-officedocument.wordprocessingml.document",
+  "application/vnd.ms-excel",
+  "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet",
+  "text/plain",
+  "text/csv",
+];
+
+export function isAllowedMimeType(mimeType: string): boolean {
+  return IMAGE_MIME_TYPES.includes(mimeType) || ALLOWED_MIME_TYPES.includes(mimeType);
+}
+
+let mediaStorage: MediaStorageDriver | undefined;
+
+export function getMediaStorage(): MediaStorageDriver {
+  mediaStorage ??= createMediaStorage(UPLOAD_DIR);
+  return mediaStorage;
+}
+
+export function sha256(content: Buffer): string {
+  return createHash("sha256").update(content).digest("hex");
+}
+
+export function thumbnailKey(filename: string, size: ThumbnailSize): string {
+  return `${filename}.${size}.webp`;
+}
+
+export interface StoredUpload {
+  filename: string; // storage key of the shared blob
+  contentHash: string;
+  size: number;
+}
+
+/**
+ * Stores uploaded bytes once per SHA-256: an upload we already hold reuses the stored object, and
+ * one whose stored copy the integrity sweep found missing or corrupt repairs it. Stored names are
+ * random so user-supplied filenames never reach the storage backend; only the extension is kept
+ * to help anyone browsing the bucket or directory.
+ */
+async function saveUpload(content: Buffer, originalName: string, mimeType: string): Promise<StoredUpload> {
+  const contentHash = sha256(content);
+  const existing = await storage.getMediaBlob(contentHash);
+
+  if (existing?.integrityStatus === "ok") {
+    return { filename: existing.storageKey, contentHash, size: existing.size };
+  }
+  if (existing) {
+    await getMediaStorage().put(existing.storageKey, content, mimeType);
+    await storage.updateMediaBlob(contentHash, {
+      size: content.length,
+      checksum: contentHash,
+      integrityStatus: "ok",
+      lastVerifiedAt: new Date(),
+    });
+    // The lost copy was a sanitized photo; the original bytes are withheld until sanitized again
+    if (existing.checksum !== contentHash) {
+      for (const file of await storage.getMediaFilesByHash(contentHash)) {
+        await storage.updateMediaFile(file.id, { size: content.length, previewStatus: "pending", previewLockedAt: null });
+      }
+    }
+    return { filename: existing.storageKey, contentHash, size: content.length };
+  }
+
+  const extension = path.extname(originalName).replace(/[^a-zA-Z0-9.]/g, "").slice(0, 16);
+  const filename = `${randomUUID()}${extension}`;
+  await getMediaStorage().put(filename, content, mimeType);
+
+  const blob = await storage.createMediaBlob({ hash: contentHash, storageKey: filename, size: content.length, checksum: contentHash });
+  if (blob.storageKey !== filename) {
+    // A simultaneous upload of the same bytes was recorded first; keep its copy
+    await getMediaStorage().delete(filename);
+  }
+  return { filename: blob.storageKey, contentHash, size: blob.size };
+}
+
+/**
+ * Saves the bytes and records the media file that references them. Deleting the last file sharing
+ * a blob can release it between the two steps; the record then finds the blob gone and the bytes
+ * are stored again.
+ */
+export async function saveMediaFile(
+  content: Buffer,
+  originalName: string,
+  mimeType: string,
+  record: (stored: StoredUpload) => Promise<MediaFile>,
+): Promise<MediaFile> {
+  const stored = await saveUpload(content, originalName, mimeType);
+  try {
+    return await record(stored);
+  } catch (error) {
+    if (!(error instanceof MediaBlobReleasedError)) throw error;
+    return record(await saveUpload(content, originalName, mimeType));
+  }
+}
+
+/**
+ * Files are served once the malware scan passes them, and photos only once the preview job has
+ * re-saved them without their EXIF data, so the original with its GPS coordinates never leaves.
+ */
+export function isServable(file: MediaFile): boolean {
+  return file.scanStatus === "clean" && (!IMAGE_MIME_TYPES.includes(file.mimeType) || file.previewStatus === "ready");
+}
+
+// Why a file that isn't servable can't be opened yet
+export function quarantineMessage(file: MediaFile): string {
+  if (file.scanStatus === "clean") {
+    return file.previewStatus === "failed"
+      ? "Location data could not be removed from this photo, so it can't be opened"
+      : "Location data is still being removed from this photo";
+  }
+  switch (file.scanStatus) {
+    case "infected":
+      return `This file was rejected by the malware scan (${file.scanVerdict})`;
+    case "failed":
+      return "This file could not be scanned for malware";
+    default:
+      return "This file is still being scanned for malware";
+  }
+}
+
+// API shape of a media file: storage keys are replaced by the URLs that serve them
+export function withMediaUrl(file: MediaFile) {
+  const { thumbnails, previewLockedAt, scanLockedAt, ...rest } = file;
+  return {
+    ...rest,
+    url: `/api/media/${file.id}/content`,
+    thumbnailUrls: thumbnails
+      ? Object.fromEntries(Object.keys(thumbnails).map(size => [size, `/api/media/${file.id}/thumbnails/${size}`]))
+      : null,
+  };
+}
+
+// An update or comment referenced files it may not attach
+export class AttachmentError extends Error {}
+
+/**
+ * Checks the files an update or comment wants to attach: each must be on the same order and
+ * not rejected by the malware scan. Files still being scanned may be attached; they show up
+ * once they are clean.
+ */
+export async function validateAttachments(orderId: string, attachmentIds: string[]): Promise<string[]> {
+  const ids = Array.from(new Set(attachmentIds));
+  for (const id of ids) {
+    const file = await storage.getMediaFile(id);
+    if (!file || file.orderId !== orderId) {
+      throw new AttachmentError("Attachments must be files uploaded to this order");
+    }
+    if (file.scanStatus === "infected") {
+      throw new AttachmentError(`${file.originalName} was rejected by the malware scan and can't be attached`);
+    }
+  }
+  return ids;
+}
+
+// Resolves an entry's attachments from the order's files; files deleted since are left out
+export function withAttachments<T extends { attachmentIds: string[] }>(entry: T, orderFiles: MediaFile[]) {
+  const files = new Map(orderFiles.map(file => [file.id, file]));
+  return {
+    ...entry,
+    attachments: entry.attachmentIds
+      .map(id => files.get(id))
+      .filter((file): file is MediaFile => !!file)
+      .map(withMediaUrl),
+  };
+}
+
+// Removes a stored object and every thumbnail that may have been generated for it
+async function deleteStoredObjects(filename: string): Promise<void> {
+  const keys = [filename, ...THUMBNAIL_SIZES.map(size => thumbnailKey(filename, size))];
+  await Promise.all(keys.map(key => getMediaStorage().delete(key)));
+}
+
+// Called after a media record is deleted; the stored bytes stay while another file still shares them
+export async function releaseStoredMedia(file: MediaFile): Promise<void> {
+  if (file.contentHash && !(await storage.releaseMediaBlob(file.contentHash))) return;
+  await deleteStoredObjects(file.filename);
+}
+
+class UnsupportedMediaTypeError extends Error {
+  constructor(originalName: string, mimeType: string) {
+    super(`${originalName} has an unsupported file type (${mimeType || "unknown"})`);
+  }
+}
+
+const upload = multer({
+  storage: multer.memoryStorage(),
+  // Browsers send non-ASCII filenames as raw UTF-8 in the part headers
+  defParamCharset: "utf8",
+  limits: { fileSize: MAX_UPLOAD_BYTES, files: MAX_FILES_PER_UPLOAD },
+  fileFilter: (_req, file, cb) => {
+    if (!isAllowedMimeType(file.mimetype)) {
+      return cb(new UnsupportedMediaTypeError(file.originalname, file.mimetype));
+    }
+    cb(null, true);
+  },
+}).array("files", MAX_FILES_PER_UPLOAD);
+
+/**
+ * Parses a multipart upload into `req.files`, answering 413 for files over the size limit and
+ * 415 for file types we don't accept. Form fields land in `req.body` as usual.
+ */
+export function receiveUploads(req: Request, res: Response, next: NextFunction) {
+  upload(req, res, (error: unknown) => {
+    if (!error) return next();
+
+    if (error instanceof multer.MulterError) {
+      if (error.code === "LIMIT_FILE_SIZE") {
+        return res.status(413).json({ message: `Files may be at most ${MAX_UPLOAD_BYTES / 1024 / 1024} MB` });
+      }
+      return res.status(400).json({ message: error.message });
+    }
+    if (error instanceof UnsupportedMediaTypeError) {
+      return res.status(415).json({ message: error.message });
+    }
+    next(error);
+  });
+}
+
+// Types that are safe to display in the browser; everything else is always downloaded
+function isInlineType(mimeType: string): boolean {
+  return (mimeType.startsWith("image/") && mimeType !== "image/svg+xml")
+    || mimeType === "application/pdf"
+    || mimeType === "text/plain";
+}
+
+// RFC 6266 header with an ASCII fallback name for old clients and the exact name in filename*
+export function contentDisposition(file: MediaFile, download: boolean): string {
+  const type = download || !isInlineType(file.mimeType) ? "attachment" : "inline";
+  const fallback = file.originalName.replace(/[^\x20-\x7e]/g, "_").replace(/["\\]/g, "_");
+  return `${type}; filename="${fallback}"; filename*=UTF-8''${encodeURIComponent(file.originalName)}`;
+}
@@ -0,0 +1,93 @@
+// Delivery risk: how likely an open order is to miss its delivery date, with the reasons why
+import type { ProductionProgress } from './production';
+import { daysBetween } from './tna';
+
+export const DELIVERY_RISK_LEVELS = ['low', 'medium', 'high'] as const;
+export type DeliveryRiskLevel = typeof DELIVERY_RISK_LEVELS[number];
+
+// An order with no update or recorded output for this many days is flagged as stale
+export const STALE_UPDATE_DAYS = 5;
+
+// Scores at or above these thresholds put an order at medium or high risk
+const MEDIUM_RISK_SCORE = 25;
+const HIGH_RISK_SCORE = 50;
+
+export interface OverdueMilestone {
+  name: string;
+  daysOverdue: number;
+}
+
+export interface DeliveryRiskFactors {
+  estimatedDelivery: Date | string;
+  status: string;
+  production?: ProductionProgress;
+  overdueMilestones: OverdueMilestone[];
+  // The latest update or recorded output, or when the order was created if there is none
+  lastActivityAt: Date | string;
+}
+
+export interface DeliveryRiskAssessment {
+  score: number;
+  level: DeliveryRiskLevel;
+  reasons: string[];
+}
+
+const days = (count: number) => `${count} ${count === 1 ? 'day' : 'days'}`;
+
+export function isAtRisk(level: DeliveryRiskLevel): boolean {
+  return level !== 'low';
+}
+
+/**
+ * Scores an open order's risk of missing delivery. Every factor that adds to the score adds a
+ * reason, so the people alerted can see what to chase.
+ */
+export function assessDeliveryRisk(factors: DeliveryRiskFactors, now: Date = new Date()): DeliveryRiskAssessment {
+  let score = 0;
+  const reasons: string[] = [];
+  const daysLeft = daysBetween(now, new Date(factors.estimatedDelivery));
+
+  if (daysLeft < 0) {
+    score += 50;
+    reasons.push(`Delivery date passed ${days(-daysLeft)} ago`);
+  } else if (daysLeft <= 7) {
+    score += 20;
+    reasons.push(`Delivery is due in ${days(daysLeft)}`);
+  } else if (daysLeft <= 14) {
+    score += 10;
+    reasons.push(`Delivery is due in ${days(daysLeft)}`);
+  }
+
+  if (factors.status === 'on_hold') {
+    score += 25;
+    reasons.push('The order is on hold');
+  } else if (factors.status === 'received' && daysLeft <= 30) {
+    score += 25;
+    reasons.push(`Production hasn't started with ${days(Math.max(daysLeft, 0))} to go`);
+  }
+
+  // Late in the schedule, most of the planned pieces should be through their stages
+  const production = factors.production;
+  if (production && production.totalStages > 0 && factors.status !== 'quality_check' && daysLeft <= 14 && production.percent < 80) {
+    score += 20;
+    reasons.push(`Production is only ${production.percent}% done${production.currentStage ? `, still in ${production.currentStage}` : ''}`);
+  }
+
+  if (factors.overdueMilestones.length > 0) {
+    const oldest = factors.overdueMilestones.reduce((a, b) => (b.daysOverdue > a.daysOverdue ? b : a));
+    const count = factors.overdueMilestones.length;
+    score += Math.min(count * 10, 30);
+    reasons.push(count === 1
+      ? `${oldest.name} is ${days(oldest.daysOverdue)} overdue`
+      : `${count} milestones are overdue, the oldest ${oldest.name} by ${days(oldest.daysOverdue)}`);
+  }
+
+  const quietDays = daysBetween(new Date(factors.lastActivityAt), now);
+  if (quietDays >= STALE_UPDATE_DAYS) {
+    score += 15;
+    reasons.push(`No update or output recorded in ${days(quietDays)}`);
+  }
+
+  const level: DeliveryRiskLevel = score >= HIGH_RISK_SCORE ? 'high' : score >= MEDIUM_RISK_SCORE ? 'medium' : 'low';
+  return { score, level, reasons };
+}
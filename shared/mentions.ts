@@ -0,0 +1,62 @@
+// @mentions name someone on the order, e.g. "@Sarah Chen can you confirm the trims?"
+
+export interface Mentionable {
+  id: string;
+  name: string;
+}
+
+export type MentionSegment<T extends Mentionable> =
+  | { text: string; mention?: undefined }
+  | { text: string; mention: T };
+
+// Letters, digits and anything outside ASCII count as part of a word
+const WORD_CHAR = /[\w\u00C0-\uFFFF]/;
+
+function isNameBoundary(char: string | undefined): boolean {
+  return char === undefined || !WORD_CHAR.test(char);
+}
+
+// The person whose name starts at `start`, preferring the longest name so "@Sarah Chen" beats "@Sarah"
+function mentionAt<T extends Mentionable>(message: string, start: number, people: T[]): T | undefined {
+  const rest = message.slice(start).toLowerCase();
+  let match: T | undefined;
+  for (const person of people) {
+    const name = person.name.trim().toLowerCase();
+    if (!name || !rest.startsWith(name) || !isNameBoundary(rest[name.length])) continue;
+    if (!match || name.length > match.name.trim().length) match = person;
+  }
+  return match;
+}
+
+/**
+ * Splits a message into plain text and the mentions in it. An "@" only starts a mention at the
+ * beginning of the message or after a non-word character, so email addresses are left alone.
+ */
+export function splitMentions<T extends Mentionable>(message: string, people: T[]): MentionSegment<T>[] {
+  const segments: MentionSegment<T>[] = [];
+  let textStart = 0;
+  let index = message.indexOf('@');
+
+  while (index !== -1) {
+    const mention = isNameBoundary(message[index - 1]) ? mentionAt(message, index + 1, people) : undefined;
+    if (mention) {
+      const end = index + 1 + mention.name.trim().length;
+      if (index > textStart) segments.push({ text: message.slice(textStart, index) });
+      segments.push({ text: message.slice(index, end), mention });
+      textStart = end;
+    }
+    index = message.indexOf('@', mention ? textStart : index + 1);
+  }
+
+  if (textStart < message.length) segments.push({ text: message.slice(textStart) });
+  return segments;
+}
+
+// Everyone mentioned in the message, once each
+export function findMentions<T extends Mentionable>(message: string, people: T[]): T[] {
+  const mentioned = new Map<string, T>();
+  for (const segment of splitMentions(message, people)) {
+    if (segment.mention) mentioned.set(segment.mention.id, segment.mention);
+  }
+  return Array.from(mentioned.values());
+}
@@ -0,0 +1,46 @@
+export const ORDER_STATUSES = [
+  'received',
+  'in_production',
+  'quality_check',
+  'shipped',
+  'delivered',
+  'cancelled',
+  'on_hold',
+] as const;
+
+export type OrderStatus = typeof ORDER_STATUSES[number];
+
+export const ORDER_STATUS_LABELS: Record<OrderStatus, string> = {
+  received: 'Received',
+  in_production: 'In Production',
+  quality_check: 'Quality Check',
+  shipped: 'Shipped',
+  delivered: 'Delivered',
+  cancelled: 'Cancelled',
+  on_hold: 'On Hold',
+};
+
+// Allowed next statuses. Orders move forward through the lifecycle; quality check can send
+// work back to production, and an order on hold resumes at any pre-shipment stage.
+export const ORDER_STATUS_TRANSITIONS: Record<OrderStatus, readonly OrderStatus[]> = {
+  received: ['in_production', 'on_hold', 'cancelled'],
+  in_production: ['quality_check', 'on_hold', 'cancelled'],
+  quality_check: ['shipped', 'in_production', 'on_hold', 'cancelled'],
+  shipped: ['delivered'],
+  delivered: [],
+  cancelled: [],
+  on_hold: ['received', 'in_production', 'quality_check', 'cancelled'],
+};
+
+export function isOrderStatus(value: string): value is OrderStatus {
+  return (ORDER_STATUSES as readonly string[]).includes(value);
+}
+
+export function canTransition(from: string, to: string): boolean {
+  return isOrderStatus(from) && isOrderStatus(to) && ORDER_STATUS_TRANSITIONS[from].includes(to);
+}
+
+// Statuses after which an order needs no further production work
+export function isClosedStatus(status: string): boolean {
+  return status === 'delivered' || status === 'cancelled';
+}
@@ -0,0 +1,52 @@
+// The stages a new order is set up with. Each order's stages can be renamed, reordered, added
+// to or removed from the order page.
+export const DEFAULT_PRODUCTION_STAGES = [
+  'Fabric in-house',
+  'Cutting',
+  'Sewing',
+  'Washing',
+  'Finishing',
+  'Packing',
+] as const;
+
+export interface StageQuantities {
+  name: string;
+  plannedQuantity: number;
+  completedQuantity: number;
+}
+
+export interface ProductionProgress {
+  // Share of all planned pieces that have been through their stage, 0-100
+  percent: number;
+  // The first stage that still has pieces to go, or null once every stage is done
+  currentStage: string | null;
+  completedStages: number;
+  totalStages: number;
+}
+
+// A stage planned at zero pieces (e.g. no washing for this style) is skipped
+export function isStageComplete(stage: StageQuantities): boolean {
+  return stage.plannedQuantity > 0 && stage.completedQuantity >= stage.plannedQuantity;
+}
+
+export function stagePercent(stage: StageQuantities): number {
+  if (stage.plannedQuantity === 0) return 0;
+  return Math.min(100, Math.floor((stage.completedQuantity / stage.plannedQuantity) * 100));
+}
+
+/**
+ * Rolls an order's stages up into one progress figure. Output beyond a stage's plan (over-cutting
+ * is common) doesn't count towards the total, so one busy stage can't make up for another.
+ */
+export function productionProgress(stages: StageQuantities[]): ProductionProgress {
+  const planned = stages.filter(stage => stage.plannedQuantity > 0);
+  const plannedTotal = planned.reduce((total, stage) => total + stage.plannedQuantity, 0);
+  const doneTotal = planned.reduce((total, stage) => total + Math.min(stage.completedQuantity, stage.plannedQuantity), 0);
+
+  return {
+    percent: plannedTotal === 0 ? 0 : Math.floor((doneTotal / plannedTotal) * 100),
+    currentStage: planned.find(stage => !isStageComplete(stage))?.name ?? null,
+    completedStages: planned.filter(isStageComplete).length,
+    totalStages: planned.length,
+  };
+}
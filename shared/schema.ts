@@ -1,7 +1,36 @@
 import { sql } from "drizzle-orm";
-import { pgTable, text, varchar, timestamp, integer } from "drizzle-orm/pg-core";
+import { pgTable, text, varchar, timestamp, integer, boolean, jsonb, index } from "drizzle-orm/pg-core";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
+import { ORDER_STATUSES } from "./order-status";
+import type { TnaTemplateMilestone } from "./tna";
+
+// Order events a stakeholder can be emailed about
+export const NOTIFICATION_EVENTS = ['update', 'comment', 'status_change', 'document_revision', 'amendment'] as const;
+export type NotificationEvent = typeof NOTIFICATION_EVENTS[number];
+export type NotificationPreferences = Record<NotificationEvent, boolean> & {
+  // Only email comments that @mention the stakeholder; saved preferences from before it existed lack it
+  mentions_only?: boolean;
+};
+
+export const DEFAULT_NOTIFICATION_PREFERENCES: NotificationPreferences = {
+  update: true,
+  comment: true,
+  status_change: true,
+  document_revision: true,
+  amendment: true,
+  mentions_only: false,
+};
+
+export const users = pgTable("users", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  email: text("email").notNull().unique(),
+  name: text("name").notNull(),
+  passwordHash: text("password_hash").notNull(),
+  role: text("role").notNull(), // 'manufacturer' | 'buyer'
+  isAdmin: boolean("is_admin").notNull().default(false),
+  createdAt: timestamp("created_at").defaultNow(),
+});
 
 export const orders = pgTable("orders", {
   id: varchar("id").primaryKey(),
@@ -10,16 +39,142 @@ export const orders = pgTable("orders", {
   quantity: integer("quantity").notNull(),
   estimatedDelivery: timestamp("estimated_delivery").notNull(),
   buyerEmail: text("buyer_email").notNull(),
-  status: text("status").notNull().default("received"), // 'received' | 'in_production' | 'quality_check' | 'shipped' | 'delivered'
+  status: text("status").notNull().default("received"), // OrderStatus, see ./order-status
+  revision: integer("revision").notNull().default(1), // goes up by one with every applied amendment
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+// The size/colour breakdown of an order's quantity, one row per cell of the matrix. Rows keep their
+// id while the cell exists, so other records can point at a single cell.
+export const orderLineItems = pgTable("order_line_items", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  orderId: varchar("order_id").notNull(),
+  color: text("color").notNull(),
+  size: text("size").notNull(),
+  quantity: integer("quantity").notNull(),
+  position: integer("position").notNull(), // order in which the cells were entered, for laying out the matrix
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => [
+  index("order_line_items_order_idx").on(table.orderId, table.position),
+]);
+
+// Changes to an order's details after it was created, applied or pending approval, with a
+// from/to pair for every field the amendment touches
+export const orderAmendments = pgTable("order_amendments", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  orderId: varchar("order_id").notNull(),
+  baseRevision: integer("base_revision").notNull(), // the order revision the changes were proposed against
+  revision: integer("revision"), // the order revision the amendment produced, once applied
+  changes: jsonb("changes").$type<AmendmentChanges>().notNull(),
+  reason: text("reason"),
+  status: text("status").notNull().default("pending"), // one of AMENDMENT_STATUSES
+  requiresApproval: boolean("requires_approval").notNull(),
+  proposedById: varchar("proposed_by_id"),
+  proposedByName: text("proposed_by_name").notNull(),
+  decidedById: varchar("decided_by_id"),
+  decidedByName: text("decided_by_name"),
+  decisionNote: text("decision_note"),
+  decidedAt: timestamp("decided_at"),
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => [
+  index("order_amendments_order_idx").on(table.orderId, table.createdAt),
+]);
+
+// The steps an order goes through on the factory floor (cutting, sewing, ...), in order, with
+// the planned quantity and dates and what has actually been produced so far
+export const productionStages = pgTable("production_stages", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  orderId: varchar("order_id").notNull(),
+  name: text("name").notNull(),
+  position: integer("position").notNull(),
+  plannedQuantity: integer("planned_quantity").notNull(),
+  plannedStart: timestamp("planned_start"),
+  plannedEnd: timestamp("planned_end"),
+  completedQuantity: integer("completed_quantity").notNull().default(0), // sum of the stage's output
+  actualStart: timestamp("actual_start"), // day of the earliest output
+  actualEnd: timestamp("actual_end"), // latest day with output, once the stage has reached its planned quantity
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => [
+  index("production_stages_order_idx").on(table.orderId, table.position),
+]);
+
+// Pieces a stage produced on a given day, optionally for a single size/colour cell
+export const stageOutputs = pgTable("stage_outputs", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  stageId: varchar("stage_id").notNull(),
+  orderId: varchar("order_id").notNull(),
+  lineItemId: varchar("line_item_id"),
+  quantity: integer("quantity").notNull(),
+  producedOn: timestamp("produced_on").notNull(),
+  note: text("note"),
+  recordedById: varchar("recorded_by_id"),
+  recordedByName: text("recorded_by_name").notNull(),
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => [
+  index("stage_outputs_order_idx").on(table.orderId, table.producedOn),
+]);
+
+// Pieces that left the factory on a given day, optionally for a single size/colour cell
+export const shipments = pgTable("shipments", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  orderId: varchar("order_id").notNull(),
+  lineItemId: varchar("line_item_id"),
+  quantity: integer("quantity").notNull(),
+  shippedOn: timestamp("shipped_on").notNull(),
+  reference: text("reference"), // bill of lading, AWB or carton range
+  note: text("note"),
+  recordedById: varchar("recorded_by_id"),
+  recordedByName: text("recorded_by_name").notNull(),
   createdAt: timestamp("created_at").defaultNow(),
+}, (table) => [
+  index("shipments_order_idx").on(table.orderId, table.shippedOn),
+]);
+
+// Reusable TNA plans; milestones are counted back from the order's delivery date
+export const tnaTemplates = pgTable("tna_templates", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  name: text("name").notNull(),
+  milestones: jsonb("milestones").$type<TnaTemplateMilestone[]>().notNull(),
+  isDefault: boolean("is_default").notNull().default(false), // at most one template is the default for new orders
+  updatedBy: varchar("updated_by"),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+});
+
+// An order's TNA milestones, generated from a template when the order is created
+export const orderMilestones = pgTable("order_milestones", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  orderId: varchar("order_id").notNull(),
+  name: text("name").notNull(),
+  position: integer("position").notNull(),
+  plannedDate: timestamp("planned_date").notNull(),
+  actualDate: timestamp("actual_date"), // set when the milestone is marked complete
+  ownerStakeholderId: varchar("owner_stakeholder_id"),
+  completedById: varchar("completed_by_id"),
+  completedByName: text("completed_by_name"),
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => [
+  index("order_milestones_order_idx").on(table.orderId, table.position),
+]);
+
+// The latest delivery risk assessment of each open order, refreshed by a background job
+export const deliveryRisks = pgTable("delivery_risks", {
+  orderId: varchar("order_id").primaryKey(),
+  score: integer("score").notNull(),
+  level: text("level").notNull(), // one of DELIVERY_RISK_LEVELS, see ./delivery-risk
+  reasons: jsonb("reasons").$type<string[]>().notNull().default([]),
+  assessedAt: timestamp("assessed_at").notNull(),
+  alertedAt: timestamp("alerted_at"), // when the order last went out in the daily risk alert
 });
 
 export const updates = pgTable("updates", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
   orderId: varchar("order_id").notNull(),
   message: text("message").notNull(),
+  authorId: varchar("author_id"),
   authorName: text("author_name").notNull(),
-  authorRole: text("author_role").notNull(), // 'manufacturer' | 'buyer'
+  authorRole: text("author_role").notNull(), // 'manufacturer' | 'buyer' | 'system'
+  attachmentIds: jsonb("attachment_ids").$type<string[]>().notNull().default([]), // media files on the same order
   createdAt: timestamp("created_at").defaultNow(),
 });
 
@@ -27,10 +182,33 @@ export const comments = pgTable("comments", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
   orderId: varchar("order_id").notNull(),
   message: text("message").notNull(),
+  authorId: varchar("author_id"),
   authorName: text("author_name").notNull(),
   authorRole: text("author_role").notNull(), // 'manufacturer' | 'buyer'
+  annotationId: varchar("annotation_id"), // set when the comment belongs to a photo annotation's thread
+  parentId: varchar("parent_id"), // top-level comment this replies to; threads are one level deep
+  attachmentIds: jsonb("attachment_ids").$type<string[]>().notNull().default([]), // media files on the same order
+  editedAt: timestamp("edited_at"), // last edit; earlier wordings are kept in comment_revisions
+  // Deleted comments keep their row, and their text for audit, so replies stay in place
+  deletedAt: timestamp("deleted_at"),
+  deletedByName: text("deleted_by_name"),
   createdAt: timestamp("created_at").defaultNow(),
-});
+}, (table) => [
+  index("comments_annotation_idx").on(table.annotationId),
+  index("comments_parent_idx").on(table.parentId),
+]);
+
+// What a comment said before each edit
+export const commentRevisions = pgTable("comment_revisions", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  commentId: varchar("comment_id").notNull(),
+  message: text("message").notNull(), // the text as it read before the edit
+  editedById: varchar("edited_by_id"),
+  editedByName: text("edited_by_name").notNull(),
+  createdAt: timestamp("created_at").defaultNow(), // when this wording was replaced
+}, (table) => [
+  index("comment_revisions_comment_idx").on(table.commentId),
+]);
 
 export const stakeholders = pgTable("stakeholders", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
@@ -39,10 +217,204 @@ export const stakeholders = pgTable("stakeholders", {
   email: text("email").notNull(),
   role: text("role").notNull(), // 'admin' | 'factory_owner' | 'factory_manager' | 'buyer' | 'buyer_employee'
   permissions: text("permissions").notNull().default("read"), // 'read' | 'comment' | 'update'
+  userId: varchar("user_id"),
+  invitationStatus: text("invitation_status").notNull().default("pending"), // 'pending' | 'accepted' | 'expired' | 'revoked'
+  invitedAt: timestamp("invited_at"),
+  invitationExpiresAt: timestamp("invitation_expires_at"),
+  acceptedAt: timestamp("accepted_at"),
+  notificationPreferences: jsonb("notification_preferences").$type<NotificationPreferences>().notNull().default(DEFAULT_NOTIFICATION_PREFERENCES),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+// Every status change, including the initial status when an order is created
+export const statusHistory = pgTable("status_history", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  orderId: varchar("order_id").notNull(),
+  fromStatus: text("from_status"),
+  toStatus: text("to_status").notNull(),
+  changedById: varchar("changed_by_id"),
+  changedByName: text("changed_by_name").notNull(),
+  reason: text("reason"),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+// Single-use magic-link tokens; only a SHA-256 hash of the token is stored
+export const invitationTokens = pgTable("invitation_tokens", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  stakeholderId: varchar("stakeholder_id").notNull(),
+  tokenHash: text("token_hash").notNull().unique(),
+  expiresAt: timestamp("expires_at").notNull(),
+  usedAt: timestamp("used_at"),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+// In-app inbox entries, one row per recipient. Keyed by email so stakeholders who have not
+// accepted their invitation yet find their notifications waiting once they sign in.
+export const notifications = pgTable("notifications", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  recipientEmail: text("recipient_email").notNull(),
+  type: text("type").notNull(), // one of NOTIFICATION_TYPES
+  title: text("title").notNull(),
+  message: text("message").notNull(),
+  orderId: varchar("order_id"),
+  entityId: varchar("entity_id"), // the update, comment or stakeholder the notification is about
+  actorName: text("actor_name"),
+  priority: text("priority").notNull().default("normal"), // one of NOTIFICATION_PRIORITIES
+  isRead: boolean("is_read").notNull().default(false),
+  readAt: timestamp("read_at"),
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => [
+  index("notifications_recipient_created_idx").on(table.recipientEmail, table.createdAt),
+]);
+
+// Files stored against an order, e.g. product photos or attachments from emailed replies
+export const mediaFiles = pgTable("media_files", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  orderId: varchar("order_id").notNull(),
+  filename: text("filename").notNull(), // key of the stored object in the media storage driver
+  originalName: text("original_name").notNull(),
+  size: integer("size").notNull(),
+  mimeType: text("mime_type").notNull(),
+  category: text("category").notNull().default("other"), // 'product_photos' | 'technical_drawings' | 'specifications' | 'samples' | 'other'
+  description: text("description"),
+  uploadedBy: text("uploaded_by").notNull(),
+  uploadedAt: timestamp("uploaded_at").defaultNow(),
+  // SHA-256 of the uploaded bytes, naming the media_blobs row that holds them; files with the same
+  // hash share one stored object. Empty for files stored before deduplication.
+  contentHash: varchar("content_hash", { length: 64 }),
+  // Revisions of a document share the documentId of its first version, which has none itself.
+  // Only the newest version of a document is marked isLatest; a revision only takes over once the
+  // malware scan has passed it.
+  documentId: varchar("document_id"),
+  version: integer("version").notNull().default(1),
+  changeNote: text("change_note"),
+  isLatest: boolean("is_latest").notNull().default(true),
+  // Uploads are quarantined until the malware scanner passes them: pending -> scanning -> clean |
+  // infected | failed. Only clean files are served or previewed.
+  scanStatus: text("scan_status").notNull().default("pending"),
+  scanLockedAt: timestamp("scan_locked_at"),
+  scanVerdict: text("scan_verdict"), // signature name when infected, scanner error when failed
+  scannedBy: text("scanned_by"), // scanner that gave the verdict; 'none' when scanning is disabled
+  scannedAt: timestamp("scanned_at"),
+  // Filled in by the preview worker once the file is clean: pending -> processing -> ready | failed | unsupported
+  previewStatus: text("preview_status").notNull().default("pending"),
+  previewLockedAt: timestamp("preview_locked_at"),
+  previewError: text("preview_error"),
+  thumbnails: jsonb("thumbnails").$type<MediaThumbnails>(), // storage keys by size
+}, (table) => [
+  index("media_files_preview_status_idx").on(table.previewStatus),
+  index("media_files_scan_status_idx").on(table.scanStatus),
+  index("media_files_document_idx").on(table.documentId),
+  index("media_files_content_hash_idx").on(table.contentHash),
+]);
+
+// Stored bytes shared by every media file with the same content. The object is deleted with the
+// last file that references it. Photos are re-saved without EXIF after upload, so the checksum of
+// what is stored can differ from the hash of what was uploaded.
+export const mediaBlobs = pgTable("media_blobs", {
+  hash: varchar("hash", { length: 64 }).primaryKey(), // SHA-256 of the bytes as uploaded
+  storageKey: text("storage_key").notNull(),
+  size: integer("size").notNull(),
+  checksum: varchar("checksum", { length: 64 }).notNull(), // SHA-256 of the stored bytes
+  // Kept up to date by the integrity sweep: ok | missing | corrupt
+  integrityStatus: text("integrity_status").notNull().default("ok"),
+  lastVerifiedAt: timestamp("last_verified_at"),
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => [
+  index("media_blobs_last_verified_idx").on(table.lastVerifiedAt),
+]);
+
+// Pins, boxes and arrows drawn on an image, each opening a comment thread. Annotations belong
+// to one version of a file: a new version starts with a clean image.
+export const mediaAnnotations = pgTable("media_annotations", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  mediaFileId: varchar("media_file_id").notNull(),
+  orderId: varchar("order_id").notNull(),
+  version: integer("version").notNull(), // version of the file the markup was drawn on
+  shape: jsonb("shape").$type<AnnotationShape>().notNull(),
+  authorId: varchar("author_id"),
+  authorName: text("author_name").notNull(),
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => [
+  index("media_annotations_media_file_idx").on(table.mediaFileId),
+]);
+
+// Every inbound email we receive, kept for de-duplication and to explain rejected replies
+export const inboundEmails = pgTable("inbound_emails", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  messageId: text("message_id").unique(),
+  fromAddress: text("from_address").notNull(),
+  subject: text("subject"),
+  orderId: varchar("order_id"),
+  commentId: varchar("comment_id"),
+  status: text("status").notNull(), // 'accepted' | 'rejected'
+  reason: text("reason"),
+  receivedAt: timestamp("received_at").defaultNow(),
+});
+
+// Outgoing email queue. Rows move pending -> sending -> sent; failed sends go back to pending
+// with a later nextAttemptAt until maxAttempts is reached, then stay 'dead' for an admin to retry.
+export const emailOutbox = pgTable("email_outbox", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  toAddress: text("to_address").notNull(),
+  fromAddress: text("from_address").notNull(),
+  replyTo: text("reply_to"),
+  messageId: text("message_id"),
+  subject: text("subject").notNull(),
+  textBody: text("text_body").notNull(),
+  htmlBody: text("html_body").notNull(),
+  status: text("status").notNull().default("pending"), // 'pending' | 'sending' | 'sent' | 'dead'
+  attempts: integer("attempts").notNull().default(0),
+  maxAttempts: integer("max_attempts").notNull().default(6),
+  nextAttemptAt: timestamp("next_attempt_at").notNull().defaultNow(),
+  lockedAt: timestamp("locked_at"),
+  lastError: text("last_error"),
+  sentAt: timestamp("sent_at"),
   createdAt: timestamp("created_at").defaultNow(),
+}, (table) => [
+  index("email_outbox_status_next_attempt_idx").on(table.status, table.nextAttemptAt),
+]);
+
+// Admin edits to the built-in email templates; a template without a row uses its default
+export const emailTemplates = pgTable("email_templates", {
+  name: text("name").primaryKey(),
+  subject: text("subject").notNull(),
+  body: text("body").notNull(),
+  updatedBy: varchar("updated_by"),
+  updatedAt: timestamp("updated_at").defaultNow(),
+});
+
+// Branding applied to every email. There is a single organization for now, stored as the 'default' row.
+export const emailBranding = pgTable("email_branding", {
+  id: varchar("id").primaryKey().default("default"),
+  productName: text("product_name").notNull(),
+  logoUrl: text("logo_url"),
+  primaryColor: text("primary_color").notNull(),
+  footerText: text("footer_text").notNull(),
+  updatedAt: timestamp("updated_at").defaultNow(),
 });
 
 // Insert schemas
+export const insertUserSchema = z.object({
+  email: z.string().email(),
+  name: z.string().min(1),
+  passwordHash: z.string().min(1),
+  role: z.enum(['manufacturer', 'buyer']),
+  isAdmin: z.boolean().optional(),
+});
+
+export const registerUserSchema = z.object({
+  email: z.string().email(),
+  name: z.string().min(1),
+  password: z.string().min(8),
+  role: z.enum(['manufacturer', 'buyer']),
+});
+
+export const loginSchema = z.object({
+  email: z.string().email(),
+  password: z.string().min(1),
+});
+
 export const insertOrderSchema = z.object({
   id: z.string().min(1),
   buyerName: z.string().min(1),
@@ -52,21 +424,207 @@ export const insertOrderSchema = z.object({
     return typeof val === 'string' ? new Date(val) : val;
   }),
   buyerEmail: z.string().email(),
-  status: z.string().optional(),
+  status: z.enum(ORDER_STATUSES).optional(),
 });
 
+export const MAX_LINE_ITEMS = 500;
+
+export const orderLineItemSchema = z.object({
+  color: z.string().trim().min(1).max(60),
+  size: z.string().trim().min(1).max(20),
+  quantity: z.number().int().positive(),
+});
+
+// Colour and size are matched case-insensitively, so "Navy"/"M" and "navy"/"m" are the same cell
+export function lineItemKey(item: { color: string; size: string }): string {
+  return `${item.color.trim().toLowerCase()}\u0000${item.size.trim().toLowerCase()}`;
+}
+
+export function lineItemsTotal(items: { quantity: number }[]): number {
+  return items.reduce((total, item) => total + item.quantity, 0);
+}
+
+export const orderLineItemsSchema = z.array(orderLineItemSchema).max(MAX_LINE_ITEMS).superRefine((items, ctx) => {
+  const seen = new Set<string>();
+  items.forEach((item, index) => {
+    const key = lineItemKey(item);
+    if (seen.has(key)) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        message: `${item.color} / ${item.size} appears more than once`,
+        path: [index],
+      });
+    }
+    seen.add(key);
+  });
+});
+
+// An order with its optional breakdown, which has to account for exactly the order quantity
+export const createOrderSchema = insertOrderSchema.extend({
+  lineItems: orderLineItemsSchema.optional(),
+  tnaTemplateId: z.string().optional(), // the default template when left out
+}).superRefine((order, ctx) => {
+  if (!order.lineItems?.length) return;
+  const total = lineItemsTotal(order.lineItems);
+  if (total !== order.quantity) {
+    ctx.addIssue({
+      code: z.ZodIssueCode.custom,
+      message: `Line items add up to ${total} pieces but the order quantity is ${order.quantity}`,
+      path: ['lineItems'],
+    });
+  }
+});
+
+export const AMENDABLE_FIELDS = ['buyerName', 'buyerEmail', 'styleNumber', 'quantity', 'estimatedDelivery', 'lineItems'] as const;
+
+// The commercial terms of an order. Changing them needs a buyer-side stakeholder's approval
+// unless the buyer side proposed the change.
+export const COMMERCIAL_FIELDS: readonly AmendableField[] = ['styleNumber', 'quantity', 'estimatedDelivery', 'lineItems'];
+
+export const AMENDMENT_STATUSES = ['pending', 'approved', 'rejected', 'withdrawn'] as const;
+
+// A proposed change: only the fields being changed are sent
+export const orderAmendmentSchema = z.object({
+  buyerName: z.string().trim().min(1).optional(),
+  buyerEmail: z.string().email().optional(),
+  styleNumber: z.string().trim().min(1).optional(),
+  quantity: z.number().int().positive().optional(),
+  estimatedDelivery: z.string().datetime().optional(),
+  lineItems: orderLineItemsSchema.optional(),
+  reason: z.string().trim().max(1000).optional(),
+});
+
+export const MAX_PRODUCTION_STAGES = 20;
+
+// A stage as configured from the order page; `id` keeps an existing stage and its output
+export const productionStageSchema = z.object({
+  id: z.string().optional(),
+  name: z.string().trim().min(1).max(60),
+  plannedQuantity: z.number().int().nonnegative(),
+  plannedStart: z.string().datetime().nullable().optional(),
+  plannedEnd: z.string().datetime().nullable().optional(),
+}).refine(stage => !stage.plannedStart || !stage.plannedEnd || stage.plannedStart <= stage.plannedEnd, {
+  message: "The planned end can't be before the planned start",
+  path: ['plannedEnd'],
+});
+
+export const productionStagesSchema = z.array(productionStageSchema).min(1).max(MAX_PRODUCTION_STAGES).superRefine((stages, ctx) => {
+  const seen = new Set<string>();
+  stages.forEach((stage, index) => {
+    const key = stage.name.toLowerCase();
+    if (seen.has(key)) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        message: `${stage.name} appears more than once`,
+        path: [index, 'name'],
+      });
+    }
+    seen.add(key);
+  });
+});
+
+export const stageOutputSchema = z.object({
+  quantity: z.number().int().positive(),
+  producedOn: z.string().datetime().optional(), // defaults to now
+  lineItemId: z.string().optional(),
+  note: z.string().trim().max(500).optional(),
+});
+
+export const shipmentSchema = z.object({
+  quantity: z.number().int().positive(),
+  shippedOn: z.string().datetime().optional(), // defaults to now
+  lineItemId: z.string().optional(),
+  reference: z.string().trim().max(100).optional(),
+  note: z.string().trim().max(500).optional(),
+});
+
+export const MAX_TNA_MILESTONES = 40;
+
+export const tnaTemplateMilestoneSchema = z.object({
+  name: z.string().trim().min(1).max(80),
+  daysBeforeDelivery: z.number().int().min(0).max(365),
+});
+
+export const tnaTemplateSchema = z.object({
+  name: z.string().trim().min(1).max(80),
+  milestones: z.array(tnaTemplateMilestoneSchema).min(1).max(MAX_TNA_MILESTONES).superRefine((milestones, ctx) => {
+    const seen = new Set<string>();
+    milestones.forEach((milestone, index) => {
+      const key = milestone.name.toLowerCase();
+      if (seen.has(key)) {
+        ctx.addIssue({
+          code: z.ZodIssueCode.custom,
+          message: `${milestone.name} appears more than once`,
+          path: [index, 'name'],
+        });
+      }
+      seen.add(key);
+    });
+  }),
+  isDefault: z.boolean().optional(),
+});
+
+// `actualDate: null` reopens a completed milestone
+export const milestoneUpdateSchema = z.object({
+  plannedDate: z.string().datetime().optional(),
+  actualDate: z.string().datetime().nullable().optional(),
+  ownerStakeholderId: z.string().nullable().optional(),
+});
+
+export const generateMilestonesSchema = z.object({
+  templateId: z.string().optional(),
+});
+
+export const amendmentDecisionSchema = z.object({
+  note: z.string().trim().max(1000).optional(),
+});
+
+export const orderStatusChangeSchema = z.object({
+  status: z.enum(ORDER_STATUSES),
+  reason: z.string().trim().max(1000).optional(),
+});
+
+export const insertStatusHistorySchema = z.object({
+  orderId: z.string().min(1),
+  fromStatus: z.string().nullable(),
+  toStatus: z.enum(ORDER_STATUSES),
+  changedById: z.string().optional(),
+  changedByName: z.string().min(1),
+  reason: z.string().optional(),
+});
+
+export const MAX_ATTACHMENTS = 10;
+
+const attachmentIdsSchema = z.array(z.string().min(1)).max(MAX_ATTACHMENTS);
+
 export const insertUpdateSchema = z.object({
   orderId: z.string().min(1),
   message: z.string().min(1),
+  authorId: z.string().optional(),
   authorName: z.string().min(1),
-  authorRole: z.enum(['manufacturer', 'buyer']),
+  // 'system' marks entries the platform posts itself, such as status changes
+  authorRole: z.enum(['manufacturer', 'buyer', 'system']),
+  attachmentIds: attachmentIdsSchema.optional(),
 });
 
 export const insertCommentSchema = z.object({
   orderId: z.string().min(1),
   message: z.string().min(1),
+  authorId: z.string().optional(),
   authorName: z.string().min(1),
   authorRole: z.enum(['manufacturer', 'buyer']),
+  annotationId: z.string().optional(),
+  parentId: z.string().min(1).optional(),
+  attachmentIds: attachmentIdsSchema.optional(),
+});
+
+export const editCommentSchema = z.object({
+  message: z.string().trim().min(1),
+});
+
+export const acceptInvitationSchema = z.object({
+  name: z.string().min(1).optional(),
+  password: z.string().min(8).optional(),
 });
 
 export const insertStakeholderSchema = z.object({
@@ -77,12 +635,238 @@ export const insertStakeholderSchema = z.object({
   permissions: z.enum(['read', 'comment', 'update']).default('read'),
 });
 
+// Invites a comma- or newline-separated list of addresses with the same role and permissions
+export const bulkInviteSchema = z.object({
+  emailList: z.string().min(1),
+  defaultRole: insertStakeholderSchema.shape.role,
+  defaultPermissions: insertStakeholderSchema.shape.permissions,
+  message: z.string().max(2000).optional(),
+});
+
+export const notificationPreferencesSchema = z.object({
+  update: z.boolean(),
+  comment: z.boolean(),
+  status_change: z.boolean(),
+  document_revision: z.boolean(),
+  amendment: z.boolean(),
+  mentions_only: z.boolean(),
+}).partial();
+
+export const NOTIFICATION_TYPES = ['update', 'comment', 'mention', 'status_change', 'amendment', 'invitation', 'document_revision', 'file_rejected'] as const;
+
+export const NOTIFICATION_PRIORITIES = ['normal', 'high'] as const;
+
+export const insertNotificationSchema = z.object({
+  recipientEmail: z.string().email(),
+  type: z.enum(NOTIFICATION_TYPES),
+  title: z.string().min(1),
+  message: z.string(),
+  orderId: z.string().optional(),
+  entityId: z.string().optional(),
+  actorName: z.string().optional(),
+  priority: z.enum(NOTIFICATION_PRIORITIES).optional(),
+});
+
+export const notificationQuerySchema = z.object({
+  type: z.enum(NOTIFICATION_TYPES).optional(),
+  orderId: z.string().min(1).optional(),
+  unread: z.enum(['true', 'false']).transform((val) => val === 'true').optional(),
+  limit: z.coerce.number().int().min(1).max(100).default(20),
+  offset: z.coerce.number().int().min(0).default(0),
+});
+
+// An email reply to a notification, sent to another stakeholder on the notification's order
+export const notificationReplySchema = z.object({
+  to: z.string().email(),
+  subject: z.string().min(1).max(200),
+  message: z.string().min(1).max(5000),
+});
+
+export const THUMBNAIL_SIZES = ['small', 'medium', 'large'] as const;
+
+export const MEDIA_INTEGRITY_STATUSES = ['ok', 'missing', 'corrupt'] as const;
+
+export const MEDIA_SCAN_STATUSES = ['pending', 'scanning', 'clean', 'infected', 'failed'] as const;
+
+export const MEDIA_CATEGORIES = ['product_photos', 'technical_drawings', 'specifications', 'samples', 'other'] as const;
+
+export const insertMediaFileSchema = z.object({
+  orderId: z.string().min(1),
+  filename: z.string().min(1),
+  originalName: z.string().min(1),
+  size: z.number().int().nonnegative(),
+  mimeType: z.string().min(1),
+  category: z.enum(MEDIA_CATEGORIES).default('other'),
+  description: z.string().optional(),
+  uploadedBy: z.string().min(1),
+  changeNote: z.string().optional(),
+  contentHash: z.string().length(64).optional(),
+});
+
+// Form fields sent alongside the files of a multipart upload
+export const mediaUploadSchema = z.object({
+  orderId: z.string().min(1),
+  category: z.enum(MEDIA_CATEGORIES).default('other'),
+  description: z.string().trim().max(1000).optional(),
+  // Id of any version of an existing document this upload revises
+  revisionOf: z.string().min(1).optional(),
+  changeNote: z.string().trim().max(1000).optional(),
+});
+
+// Annotation coordinates are fractions of the image's width and height, so markup lines up with
+// the photo at any display size
+const imageFraction = z.number().min(0).max(1);
+
+export const annotationShapeSchema = z.discriminatedUnion('type', [
+  z.object({ type: z.literal('pin'), x: imageFraction, y: imageFraction }),
+  z.object({ type: z.literal('rect'), x: imageFraction, y: imageFraction, width: imageFraction, height: imageFraction }),
+  // Points from the tail (x1, y1) to the head (x2, y2)
+  z.object({ type: z.literal('arrow'), x1: imageFraction, y1: imageFraction, x2: imageFraction, y2: imageFraction }),
+]);
+
+export const insertMediaAnnotationSchema = z.object({
+  mediaFileId: z.string().min(1),
+  orderId: z.string().min(1),
+  version: z.number().int().positive(),
+  shape: annotationShapeSchema,
+  authorId: z.string().optional(),
+  authorName: z.string().min(1),
+});
+
+// A new annotation arrives with the comment that opens its thread
+export const createAnnotationSchema = z.object({
+  shape: annotationShapeSchema,
+  message: z.string().trim().min(1),
+});
+
+// Query string of a ZIP download; 'all' matches the media page's category filter default
+export const mediaArchiveQuerySchema = z.object({
+  category: z.enum([...MEDIA_CATEGORIES, 'all']).optional()
+    .transform((val) => val === 'all' ? undefined : val),
+});
+
+export const insertInboundEmailSchema = z.object({
+  messageId: z.string().optional(),
+  fromAddress: z.string(),
+  subject: z.string().optional(),
+  orderId: z.string().optional(),
+  commentId: z.string().optional(),
+  status: z.enum(['accepted', 'rejected']),
+  reason: z.string().optional(),
+});
+
+export const EMAIL_OUTBOX_STATUSES = ['pending', 'sending', 'sent', 'dead'] as const;
+
+export const outboxQuerySchema = z.object({
+  status: z.enum(EMAIL_OUTBOX_STATUSES).optional(),
+  limit: z.coerce.number().int().min(1).max(100).default(50),
+  offset: z.coerce.number().int().min(0).default(0),
+});
+
+export const EMAIL_TEMPLATE_NAMES = ['update', 'comment', 'mention', 'status_change', 'amendment', 'document_revision', 'file_rejected', 'invitation', 'digest', 'delivery_risk', 'reply'] as const;
+
+export const emailTemplateSchema = z.object({
+  subject: z.string().trim().min(1).max(300),
+  body: z.string().min(1).max(20000),
+});
+
+export const emailTemplatePreviewSchema = emailTemplateSchema.partial();
+
+export const emailBrandingSchema = z.object({
+  productName: z.string().trim().min(1).max(100),
+  logoUrl: z.string().url().regex(/^https?:\/\//, "Logo URL must be http(s)").nullable().optional(),
+  primaryColor: z.string().regex(/^#[0-9a-fA-F]{6}$/, "Primary color must be a hex color like #2563eb"),
+  footerText: z.string().trim().max(500),
+});
+
 // Types
+export type User = typeof users.$inferSelect;
+export type InsertUser = z.infer<typeof insertUserSchema>;
+export type PublicUser = Omit<User, "passwordHash">;
 export type Order = typeof orders.$inferSelect;
 export type InsertOrder = z.infer<typeof insertOrderSchema>;
+export type OrderLineItem = typeof orderLineItems.$inferSelect;
+export type OrderLineItemInput = z.infer<typeof orderLineItemSchema>;
+export type ProductionStage = typeof productionStages.$inferSelect;
+export type ProductionStageInput = Pick<ProductionStage, "name" | "plannedQuantity">
+  & Partial<Pick<ProductionStage, "id" | "plannedStart" | "plannedEnd">>;
+export type StageOutput = typeof stageOutputs.$inferSelect;
+export type InsertStageOutput = Pick<StageOutput, "stageId" | "orderId" | "quantity" | "producedOn" | "recordedByName">
+  & Partial<Pick<StageOutput, "lineItemId" | "note" | "recordedById">>;
+export type Shipment = typeof shipments.$inferSelect;
+export type InsertShipment = Pick<Shipment, "orderId" | "quantity" | "shippedOn" | "recordedByName">
+  & Partial<Pick<Shipment, "lineItemId" | "reference" | "note" | "recordedById">>;
+export type TnaTemplate = typeof tnaTemplates.$inferSelect;
+export type TnaTemplateInput = z.infer<typeof tnaTemplateSchema>;
+export type OrderMilestone = typeof orderMilestones.$inferSelect;
+export type InsertOrderMilestone = Pick<OrderMilestone, "orderId" | "name" | "position" | "plannedDate">
+  & Partial<Pick<OrderMilestone, "ownerStakeholderId">>;
+export type DeliveryRisk = typeof deliveryRisks.$inferSelect;
+export type InsertDeliveryRisk = Omit<DeliveryRisk, "alertedAt">;
+export type OrderMilestoneChanges = Partial<Pick<OrderMilestone, "plannedDate" | "actualDate" | "ownerStakeholderId" | "completedById" | "completedByName">>;
+export type OrderChanges = Partial<Pick<Order, "buyerName" | "buyerEmail" | "styleNumber" | "quantity" | "estimatedDelivery" | "revision">>;
+export type AmendableField = typeof AMENDABLE_FIELDS[number];
+export type OrderAmendmentProposal = z.infer<typeof orderAmendmentSchema>;
+// Field values as an amendment records them: dates as ISO strings
+export interface AmendmentValues {
+  buyerName: string;
+  buyerEmail: string;
+  styleNumber: string;
+  quantity: number;
+  estimatedDelivery: string;
+  lineItems: OrderLineItemInput[];
+}
+export type AmendmentChanges = { [F in AmendableField]?: { from: AmendmentValues[F]; to: AmendmentValues[F] } };
+export type AmendmentStatus = typeof AMENDMENT_STATUSES[number];
+export type OrderAmendment = typeof orderAmendments.$inferSelect;
+export type InsertOrderAmendment = Pick<OrderAmendment, "orderId" | "baseRevision" | "changes" | "requiresApproval" | "proposedByName">
+  & Partial<Pick<OrderAmendment, "reason" | "proposedById">>;
+export type AmendmentDecision = Pick<OrderAmendment, "status" | "decidedByName">
+  & Partial<Pick<OrderAmendment, "decidedById" | "decisionNote" | "revision">>;
+// Everything approving an amendment writes, applied together or not at all
+export interface AmendmentApplication {
+  decision: AmendmentDecision;
+  orderChanges: OrderChanges;
+  lineItems?: OrderLineItemInput[];
+  productionStages?: ProductionStageInput[];
+  milestoneDates?: { id: string; plannedDate: Date }[];
+}
+export type StatusHistory = typeof statusHistory.$inferSelect;
+export type InsertStatusHistory = z.infer<typeof insertStatusHistorySchema>;
 export type Update = typeof updates.$inferSelect;
 export type InsertUpdate = z.infer<typeof insertUpdateSchema>;
 export type Comment = typeof comments.$inferSelect;
 export type InsertComment = z.infer<typeof insertCommentSchema>;
+export type CommentRevision = typeof commentRevisions.$inferSelect;
 export type Stakeholder = typeof stakeholders.$inferSelect;
 export type InsertStakeholder = z.infer<typeof insertStakeholderSchema>;
+export type StakeholderChanges = Partial<Omit<Stakeholder, "id" | "orderId" | "createdAt">>;
+export type InvitationToken = typeof invitationTokens.$inferSelect;
+export type InsertInvitationToken = Pick<InvitationToken, "stakeholderId" | "tokenHash" | "expiresAt">;
+export type Notification = typeof notifications.$inferSelect;
+export type InsertNotification = z.infer<typeof insertNotificationSchema>;
+export type NotificationFilter = { type?: Notification["type"]; orderId?: string; unreadOnly?: boolean };
+export type MediaFile = typeof mediaFiles.$inferSelect;
+export type InsertMediaFile = z.input<typeof insertMediaFileSchema>;
+export type MediaFileChanges = Partial<Omit<MediaFile, "id" | "orderId" | "uploadedAt" | "documentId" | "version">>;
+export type MediaBlob = typeof mediaBlobs.$inferSelect;
+export type InsertMediaBlob = Pick<MediaBlob, "hash" | "storageKey" | "size" | "checksum">;
+export type MediaBlobChanges = Partial<Omit<MediaBlob, "hash" | "storageKey" | "createdAt">>;
+export type MediaScanStatus = typeof MEDIA_SCAN_STATUSES[number];
+export type MediaIntegrityStatus = typeof MEDIA_INTEGRITY_STATUSES[number];
+export type ThumbnailSize = typeof THUMBNAIL_SIZES[number];
+export type MediaThumbnails = Partial<Record<ThumbnailSize, string>>;
+export type AnnotationShape = z.infer<typeof annotationShapeSchema>;
+export type MediaAnnotation = typeof mediaAnnotations.$inferSelect;
+export type InsertMediaAnnotation = z.infer<typeof insertMediaAnnotationSchema>;
+export type AnnotationThread = MediaAnnotation & { comments: Comment[] };
+export type InboundEmail = typeof inboundEmails.$inferSelect;
+export type InsertInboundEmail = z.infer<typeof insertInboundEmailSchema>;
+export type OutboxEmail = typeof emailOutbox.$inferSelect;
+export type InsertOutboxEmail = Pick<OutboxEmail, "toAddress" | "fromAddress" | "subject" | "textBody" | "htmlBody">
+  & Partial<Pick<OutboxEmail, "replyTo" | "messageId" | "maxAttempts">>;
+export type OutboxStatus = typeof EMAIL_OUTBOX_STATUSES[number];
+export type EmailTemplateName = typeof EMAIL_TEMPLATE_NAMES[number];
+export type EmailTemplateOverride = typeof emailTemplates.$inferSelect;
+export type EmailBranding = typeof emailBranding.$inferSelect;
+export type InsertEmailBranding = z.infer<typeof emailBrandingSchema>;
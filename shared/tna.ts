@@ -0,0 +1,61 @@
+// Time-and-action (TNA) plans: the milestones an order has to hit, counted back from its delivery date
+
+export interface TnaTemplateMilestone {
+  name: string;
+  daysBeforeDelivery: number;
+}
+
+// Used when no template is picked and no custom template is marked as the default
+export const STANDARD_TNA_TEMPLATE_ID = 'standard';
+
+export const STANDARD_TNA_MILESTONES: readonly TnaTemplateMilestone[] = [
+  { name: 'Lab dips approved', daysBeforeDelivery: 90 },
+  { name: 'Fabric booked', daysBeforeDelivery: 80 },
+  { name: 'Trims booked', daysBeforeDelivery: 70 },
+  { name: 'PP sample approved', daysBeforeDelivery: 55 },
+  { name: 'Bulk fabric in-house', daysBeforeDelivery: 40 },
+  { name: 'Cutting start', daysBeforeDelivery: 30 },
+  { name: 'Sewing start', daysBeforeDelivery: 21 },
+  { name: 'Final inspection', daysBeforeDelivery: 10 },
+  { name: 'Ex-factory', daysBeforeDelivery: 7 },
+];
+
+// Milestones due within this many days are flagged as due soon
+export const DUE_SOON_DAYS = 3;
+
+export const DAY_MS = 24 * 60 * 60 * 1000;
+
+export type MilestoneState = 'done' | 'done_late' | 'overdue' | 'due_soon' | 'upcoming';
+
+export interface MilestoneDates {
+  plannedDate: Date | string;
+  actualDate: Date | string | null;
+}
+
+// Whole days from one UTC day to another, ignoring the time of day
+export function daysBetween(from: Date, to: Date): number {
+  const day = (date: Date) => Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate());
+  return Math.round((day(to) - day(from)) / DAY_MS);
+}
+
+// Milestones are whole days, so the planned date is midnight UTC
+export function plannedDateFor(delivery: Date, daysBeforeDelivery: number): Date {
+  const deliveryDay = Date.UTC(delivery.getUTCFullYear(), delivery.getUTCMonth(), delivery.getUTCDate());
+  return new Date(deliveryDay - daysBeforeDelivery * DAY_MS);
+}
+
+// How many days past its planned date an open milestone is; 0 if it isn't overdue
+export function daysOverdue(milestone: MilestoneDates, now: Date = new Date()): number {
+  if (milestone.actualDate) return 0;
+  return Math.max(0, daysBetween(new Date(milestone.plannedDate), now));
+}
+
+export function milestoneState(milestone: MilestoneDates, now: Date = new Date()): MilestoneState {
+  const planned = new Date(milestone.plannedDate);
+  if (milestone.actualDate) {
+    return daysBetween(planned, new Date(milestone.actualDate)) > 0 ? 'done_late' : 'done';
+  }
+  const daysLeft = daysBetween(now, planned);
+  if (daysLeft < 0) return 'overdue';
+  return daysLeft <= DUE_SOON_DAYS ? 'due_soon' : 'upcoming';
+}
@@ -0,0 +1,18 @@
+import { defineConfig } from "vitest/config";
+import path from "path";
+
+export default defineConfig({
+  resolve: {
+    alias: {
+      "@shared": path.resolve(import.meta.dirname, "shared"),
+    },
+  },
+  test: {
+    include: ["server/**/*.test.ts", "shared/**/*.test.ts"],
+    environment: "node",
+    // Route tests use the in-memory storage; Postgres is only reached through TEST_DATABASE_URL
+    env: { DATABASE_URL: "" },
+    // Each Postgres-backed suite migrates its own database, which takes a few seconds
+    hookTimeout: 60_000,
+  },
+});